@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { initializeAuthListener, signOut, getCurrentUser } from './services/firebaseAuthService';
-import { ChallengeStatus, ChallengeProgress, User } from './types';
-import { CHALLENGES } from './constants';
+import { Challenge, ChallengeStatus, ChallengeProgress, User } from './types';
 import { checkBackendHealth } from './services/ApiService';
+import { fetchChallenges } from './services/challengeService';
 import { audioSources } from './services/audioService';
 import GoogleSignIn from './components/GoogleSignIn';
 import ChallengeHost from './components/ChallengeHost';
@@ -12,6 +12,27 @@ import { firebaseApiService } from './services/firebaseApiService';
 const PROGRESS_STORAGE_KEY = 'prompt-challenge-progress';
 const MUTE_STORAGE_KEY = 'prompt-challenge-muted';
 
+// Ensure every challenge in the catalog has a progress entry. New challenges
+// start unlocked when they are first or follow a completed one.
+const normalizeProgress = (
+  challenges: Challenge[],
+  progress: Record<number, ChallengeProgress>
+): Record<number, ChallengeProgress> => {
+  const normalized: Record<number, ChallengeProgress> = { ...progress };
+  challenges.forEach((challenge, index) => {
+    if (normalized[challenge.id]) return;
+    const previous = index > 0 ? normalized[challenges[index - 1].id] : undefined;
+    normalized[challenge.id] = {
+      status: index === 0 || previous?.status === ChallengeStatus.COMPLETED
+        ? ChallengeStatus.UNLOCKED
+        : ChallengeStatus.LOCKED,
+      streak: 0,
+      previousSimilarityScore: 0,
+    };
+  });
+  return normalized;
+};
+
 const App: React.FC = () => {
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,6 +49,7 @@ const App: React.FC = () => {
     }
   });
 
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [challengeProgress, setChallengeProgress] = useState<Record<number, ChallengeProgress>>({});
   const [streakChange, setStreakChange] = useState<'increase' | 'decrease' | 'none'>('none');
   
@@ -65,7 +87,7 @@ const App: React.FC = () => {
     initializeApp();
 
     // Load user progress - First try Firebase, then localStorage
-    const loadUserProgress = async () => {
+    const loadUserProgress = async (catalog: Challenge[]) => {
       try {
         if (user) {
           console.log('📊 Loading progress from Firebase...');
@@ -73,7 +95,7 @@ const App: React.FC = () => {
           
           if (firebaseProgress) {
             console.log('✅ Progress loaded from Firebase');
-            setChallengeProgress(firebaseProgress);
+            setChallengeProgress(normalizeProgress(catalog, firebaseProgress));
             return;
           }
         }
@@ -81,36 +103,28 @@ const App: React.FC = () => {
         // Fallback to localStorage
         console.log('📱 Loading progress from localStorage...');
         const savedProgress = localStorage.getItem(PROGRESS_STORAGE_KEY);
-        if (savedProgress) {
-          setChallengeProgress(JSON.parse(savedProgress));
-        } else {
-          // Initialize default progress
-          const initialProgress: Record<number, ChallengeProgress> = {};
-          CHALLENGES.forEach((challenge, index) => {
-            initialProgress[challenge.id] = {
-              status: index === 0 ? ChallengeStatus.UNLOCKED : ChallengeStatus.LOCKED,
-              streak: 0,
-              previousSimilarityScore: 0,
-            };
-          });
-          setChallengeProgress(initialProgress);
-        }
+        setChallengeProgress(normalizeProgress(catalog, savedProgress ? JSON.parse(savedProgress) : {}));
       } catch (e) {
         console.error("Failed to load progress:", e);
         // Handle errors by resetting progress
-        const initialProgress: Record<number, ChallengeProgress> = {};
-        CHALLENGES.forEach((challenge, index) => {
-            initialProgress[challenge.id] = {
-              status: index === 0 ? ChallengeStatus.UNLOCKED : ChallengeStatus.LOCKED,
-              streak: 0,
-              previousSimilarityScore: 0,
-            };
-          });
-        setChallengeProgress(initialProgress);
+        setChallengeProgress(normalizeProgress(catalog, {}));
+      }
+    };
+
+    // Load the challenge catalog before progress so new missions get entries
+    const loadChallenges = async () => {
+      try {
+        const catalog = await fetchChallenges();
+        setChallenges(catalog);
+        await loadUserProgress(catalog);
+      } catch (e) {
+        console.error("Failed to load challenges:", e);
+        setError("Failed to load challenges from the backend. Please try again later.");
+        setIsInitialized(false);
       }
     };
 
-    loadUserProgress();
+    loadChallenges();
   }, []);
 
   // Persist progress to local storage whenever it changes
@@ -369,6 +383,7 @@ const App: React.FC = () => {
       ) : (
         <ChallengeHost
           user={user}
+          challenges={challenges}
           onLogout={handleLogout}
           isMuted={isMuted}
           onToggleMute={handleToggleMute}
@@ -1,17 +1,17 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Challenge, ChallengeStatus, AnalysisResult, ChallengeProgress, ImageService, User, PromptAttempt } from '../types';
-import { CHALLENGES, PASS_THRESHOLD } from '../constants';
+import { Challenge, ChallengeStatus, AnalysisResult, ChallengeProgress, ImageService, ImageProviderInfo, FeedbackPersona, User, PromptAttempt } from '../types';
 import ChallengeSelector from './ChallengeSelector';
 import ChallengeView from './ChallengeView';
-import { generateImage } from '../services/ApiService';
+import { FALLBACK_IMAGE_PROVIDERS, FALLBACK_PERSONAS, generateImage, getImageProviders, getPersonas } from '../services/ApiService';
+import { firebaseApiService } from '../services/firebaseApiService';
 import { analyzeImages } from '../services/analysisService';
 import Header from './Header';
 import MobileMenu from './MobileMenu';
 import Spinner from './Spinner';
-import { firebaseApiService } from '../services/firebaseApiService';
 
 interface ChallengeHostProps {
   user: User;
+  challenges: Challenge[];
   onLogout: () => void;
   isMuted: boolean;
   onToggleMute: () => void;
@@ -29,6 +29,7 @@ interface ChallengeHostProps {
 
 const ChallengeHost: React.FC<ChallengeHostProps> = ({
   user,
+  challenges,
   onLogout,
   isMuted,
   onToggleMute,
@@ -51,6 +52,9 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [selectedService, setSelectedService] = useState<ImageService>('pollinations-flux');
+  const [imageProviders, setImageProviders] = useState<ImageProviderInfo[]>(FALLBACK_IMAGE_PROVIDERS);
+  const [personas, setPersonas] = useState<FeedbackPersona[]>(FALLBACK_PERSONAS);
+  const [selectedPersona, setSelectedPersona] = useState<string>(FALLBACK_PERSONAS[0].id);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const syncChallengeIndexOnProgressChange = useRef(true);
@@ -59,14 +63,36 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
   useEffect(() => {
     // Set challenge based on progress, but only on initial load or manual file load.
     if (syncChallengeIndexOnProgressChange.current && challengeProgress && Object.keys(challengeProgress).length > 0) {
-      const statuses = CHALLENGES.map(c => challengeProgress[c.id]?.status);
+      const statuses = challenges.map(c => challengeProgress[c.id]?.status);
       const lastCompleted = statuses.lastIndexOf(ChallengeStatus.COMPLETED);
       const nextChallenge = lastCompleted + 1;
-      setCurrentChallengeIndex(nextChallenge < CHALLENGES.length ? nextChallenge : lastCompleted > -1 ? lastCompleted : 0);
+      setCurrentChallengeIndex(nextChallenge < challenges.length ? nextChallenge : lastCompleted > -1 ? lastCompleted : 0);
       // After syncing, disable it until it's explicitly enabled again (e.g., by file load)
       syncChallengeIndexOnProgressChange.current = false;
     }
-  }, [challengeProgress]);
+  }, [challengeProgress, challenges]);
+
+  useEffect(() => {
+    getImageProviders().then(({ providers, defaultProvider }) => {
+      setImageProviders(providers);
+      // The backend may default to another provider, e.g. local-procedural when offline
+      setSelectedService(defaultProvider);
+    });
+  }, []);
+
+  useEffect(() => {
+    getPersonas().then(setPersonas);
+    // The persona saved on the profile wins over the default
+    firebaseApiService.getUserProfile()
+      .then(profile => { if (profile.feedbackPersona) setSelectedPersona(profile.feedbackPersona); })
+      .catch(() => {});
+  }, []);
+
+  const handlePersonaChange = (personaId: string) => {
+    setSelectedPersona(personaId);
+    firebaseApiService.updateProfile({ feedbackPersona: personaId })
+      .catch(error => console.error('Failed to save feedback persona:', error));
+  };
 
   useEffect(() => {
     if (analysisResult && analysisResultRef.current) {
@@ -88,8 +114,8 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
       const userName = getUserName(user.email);
 
       let latestUnlockedChallengeId = 1;
-      for (let i = CHALLENGES.length - 1; i >= 0; i--) {
-        const challenge = CHALLENGES[i];
+      for (let i = challenges.length - 1; i >= 0; i--) {
+        const challenge = challenges[i];
         if (challengeProgress[challenge.id]?.status !== ChallengeStatus.LOCKED) {
           latestUnlockedChallengeId = challenge.id;
           break;
@@ -142,7 +168,7 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
         const newProgress: Record<number, ChallengeProgress> = {};
         for (const key in loadedProgressJson) {
           const challengeId = parseInt(key, 10);
-          if (isNaN(challengeId) || !CHALLENGES.find(c => c.id === challengeId)) continue;
+          if (isNaN(challengeId) || !challenges.find(c => c.id === challengeId)) continue;
 
           const progressItem = loadedProgressJson[key];
           if (!progressItem || !Object.values(ChallengeStatus).includes(progressItem.status)) {
@@ -176,42 +202,40 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
     setGeneratedImage(null);
     onPlayScanningSound();
 
-    const currentChallenge = CHALLENGES[currentChallengeIndex];
+    const currentChallenge = challenges[currentChallengeIndex];
 
     try {
       setLoadingMessage('Generating image...');
-      const imageB64 = await generateImage(prompt, selectedService);
-      setGeneratedImage(`data:image/jpeg;base64,${imageB64}`);
+      const image = await generateImage(prompt, selectedService);
+      setGeneratedImage(image.imageUrl);
 
       setLoadingMessage('Analyzing image...');
-      const result = await analyzeImages(user, currentChallenge, imageB64, prompt);
+      const result = await analyzeImages(currentChallenge, image.imageId, prompt, selectedService, selectedPersona);
       
       onStopScanningSound();
       setAnalysisResult(result);
 
-      const currentProgress = challengeProgress[currentChallenge.id];
-      const newSimilarityScore = result.similarityScore;
-      const oldSimilarityScore = currentProgress.previousSimilarityScore;
-      const passed = newSimilarityScore >= PASS_THRESHOLD;
-      const justCompleted = passed && currentProgress.status !== ChallengeStatus.COMPLETED;
-
-      let streakChanged: 'increase' | 'decrease' | 'none' = 'none';
-      if (newSimilarityScore > oldSimilarityScore) {
-        streakChanged = 'increase';
-      } else if (newSimilarityScore < oldSimilarityScore) {
-        streakChanged = 'decrease';
+      // The server has already recorded this attempt; its progress and streak are authoritative
+      const scoring = result.scoring;
+      if (!scoring) {
+        throw new Error('Analysis response did not include a recorded score');
       }
+      const newSimilarityScore = scoring.score;
+      const streakChanged = scoring.streakChange;
+      const justCompleted = scoring.justCompleted;
 
       setChallengeProgress(prev => {
         const newProgress = { ...prev };
-        const challengeId = currentChallenge.id;
 
-        let newStreak = prev[challengeId].streak;
-        if (streakChanged === 'increase') {
-          newStreak++;
-        } else if (streakChanged === 'decrease') {
-          newStreak = Math.max(0, newStreak - 2);
-        }
+        Object.entries(scoring.progress).forEach(([id, serverProgress]) => {
+          const challengeId = Number(id);
+          // Keep the locally stored prompt history alongside server state
+          newProgress[challengeId] = {
+            ...prev[challengeId],
+            ...serverProgress,
+            promptHistory: prev[challengeId]?.promptHistory
+          };
+        });
 
         // Create prompt attempt record
         const promptAttempt: PromptAttempt = {
@@ -223,7 +247,8 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
         };
 
         // Add prompt to history
-        const existingPromptHistory = prev[challengeId].promptHistory || [];
+        const challengeId = currentChallenge.id;
+        const existingPromptHistory = prev[challengeId]?.promptHistory || [];
         
         console.log('💾 Storing prompt attempt:', {
           prompt,
@@ -234,43 +259,13 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
         });
         
         newProgress[challengeId] = {
-          streak: newStreak,
-          previousSimilarityScore: newSimilarityScore,
-          status: passed ? ChallengeStatus.COMPLETED : prev[challengeId].status,
+          ...newProgress[challengeId],
           promptHistory: [...existingPromptHistory, promptAttempt]
         };
 
-        if (passed && currentChallengeIndex + 1 < CHALLENGES.length) {
-          const nextChallengeId = CHALLENGES[currentChallengeIndex + 1].id;
-          if (newProgress[nextChallengeId].status === ChallengeStatus.LOCKED) {
-            newProgress[nextChallengeId].status = ChallengeStatus.UNLOCKED;
-          }
-        }
         return newProgress;
       });
 
-      // --- Save to Firebase Backend ---
-      try {
-        console.log('💾 Saving progress to Firebase...');
-        await firebaseApiService.saveProgress(challengeProgress);
-        console.log('✅ Progress synced to Firebase');
-      } catch (error) {
-        console.error('❌ Firebase save failed:', error);
-        // Continue anyway - data is still saved locally
-      }
-
-      // --- Update Stats in Firebase ---
-      if (passed) {
-        try {
-          console.log('📈 Updating stats in Firebase...');
-          await firebaseApiService.updateStats(newSimilarityScore, currentProgress.streak);
-          console.log('✅ Stats synced to Firebase');
-        } catch (error) {
-          console.error('❌ Firebase stats update failed:', error);
-          // Continue anyway
-        }
-      }
-
       // --- Audio Orchestration ---
       const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
@@ -327,13 +322,13 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
       setLoadingMessage('');
     }
   }, [
-    prompt, currentChallengeIndex, selectedService, challengeProgress, user,
+    prompt, currentChallengeIndex, selectedService, selectedPersona, challengeProgress, challenges, user,
     setChallengeProgress, setStreakChange, onPauseBgMusic, onResumeBgMusic,
     onPlaySimilarityScoreSound, onPlayLevelCompleteSound, onPlayScanningSound, onStopScanningSound
   ]);
 
   const handleSelectChallenge = (index: number) => {
-    const challengeId = CHALLENGES[index].id;
+    const challengeId = challenges[index].id;
     if (challengeProgress[challengeId]?.status !== ChallengeStatus.LOCKED) {
       setCurrentChallengeIndex(index);
       setPrompt('');
@@ -345,14 +340,14 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
 
   const handleNextChallenge = () => {
     const nextIndex = currentChallengeIndex + 1;
-    if (nextIndex < CHALLENGES.length) {
+    if (nextIndex < challenges.length) {
       handleSelectChallenge(nextIndex);
     }
   };
 
-  const currentChallenge = CHALLENGES[currentChallengeIndex];
+  const currentChallenge = challenges[currentChallengeIndex];
   const currentChallengeSpecificProgress = challengeProgress[currentChallenge?.id];
-  const challengeStatuses = CHALLENGES.map(c => challengeProgress[c.id]?.status || ChallengeStatus.LOCKED);
+  const challengeStatuses = challenges.map(c => challengeProgress[c.id]?.status || ChallengeStatus.LOCKED);
 
   // Debug: Log prompt history for current challenge
   if (currentChallengeSpecificProgress?.promptHistory) {
@@ -381,7 +376,11 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
         streak={currentChallengeSpecificProgress.streak}
         streakChange={streakChange}
         selectedService={selectedService}
+        imageProviders={imageProviders}
         onServiceChange={setSelectedService}
+        selectedPersona={selectedPersona}
+        personas={personas}
+        onPersonaChange={handlePersonaChange}
         onSaveProgress={handleSaveProgress}
         onLoadProgressClick={handleLoadProgressClick}
         onOpenMenu={() => setIsMenuOpen(true)}
@@ -394,7 +393,7 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
         onLogout={onLogout}
         onSaveProgress={handleSaveProgress}
         onLoadProgressClick={handleLoadProgressClick}
-        challenges={CHALLENGES}
+        challenges={challenges}
         statuses={challengeStatuses}
         currentChallengeId={currentChallenge.id}
         onSelectChallenge={handleSelectChallenge}
@@ -411,7 +410,7 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
       <main className="relative z-0 flex flex-col md:flex-row p-4 md:p-8 gap-8 flex-1 overflow-hidden">
         <aside className="hidden md:block w-full md:w-1/4 lg:w-1/5 h-full">
           <ChallengeSelector
-            challenges={CHALLENGES}
+            challenges={challenges}
             statuses={challengeStatuses}
             currentChallengeId={currentChallenge.id}
             onSelectChallenge={handleSelectChallenge}
@@ -430,8 +429,8 @@ const ChallengeHost: React.FC<ChallengeHostProps> = ({
               analysisResult={analysisResult}
               error={error}
               onNextChallenge={handleNextChallenge}
-              isPassed={!!analysisResult && analysisResult.similarityScore >= PASS_THRESHOLD}
-              isNextChallengeAvailable={currentChallengeIndex + 1 < CHALLENGES.length}
+              isPassed={!!analysisResult?.passed}
+              isNextChallengeAvailable={currentChallengeIndex + 1 < challenges.length}
               previousSimilarityScore={currentChallengeSpecificProgress.previousSimilarityScore}
               analysisResultRef={analysisResultRef}
             />
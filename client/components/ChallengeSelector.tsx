@@ -8,14 +8,19 @@ interface ChallengeSelectorProps {
   onSelectChallenge: (index: number) => void;
 }
 
-const challengePoints = [
-  { cx: 100, cy: 60 }, { cx: 160, cy: 140 }, { cx: 100, cy: 220 },
-  { cx: 160, cy: 300 }, { cx: 100, cy: 380 }, { cx: 160, cy: 460 },
-];
+// Mission nodes zig-zag down the path, 80 units apart
+const NODE_SPACING = 80;
+const PATH_PADDING = 60;
 
-const roadPathD = challengePoints.map((p, i) => {
+const getChallengePoints = (count: number) =>
+  Array.from({ length: count }).map((_, i) => ({
+    cx: i % 2 === 0 ? 100 : 160,
+    cy: PATH_PADDING + i * NODE_SPACING,
+  }));
+
+const getRoadPathD = (points: { cx: number; cy: number }[]) => points.map((p, i) => {
     if (i === 0) return `M ${p.cx} ${p.cy}`;
-    const prev = challengePoints[i-1];
+    const prev = points[i-1];
     return `C ${prev.cx} ${prev.cy + 40}, ${p.cx} ${p.cy - 40}, ${p.cx} ${p.cy}`;
 }).join(' ');
 
@@ -37,11 +42,15 @@ const Hexagon: React.FC<{ size: number }> = ({ size }) => {
 };
 
 const ChallengeSelector: React.FC<ChallengeSelectorProps> = ({ challenges, statuses, currentChallengeId, onSelectChallenge }) => {
+  const challengePoints = getChallengePoints(challenges.length);
+  const roadPathD = getRoadPathD(challengePoints);
+  const viewBoxHeight = Math.max(520, PATH_PADDING * 2 + (challenges.length - 1) * NODE_SPACING);
+
   return (
     <div className="bg-cyber-surface/70 backdrop-blur-sm rounded-lg p-4 border-2 border-cyber-primary/30 flex flex-col animate-border-flicker h-full">
       <h2 className="text-2xl font-display font-bold mb-4 text-cyber-primary text-center tracking-widest">MISSIONS</h2>
       <div className="flex-1">
-        <svg viewBox="0 0 260 520" width="100%" height="100%" preserveAspectRatio="none">
+        <svg viewBox={`0 0 260 ${viewBoxHeight}`} width="100%" height="100%" preserveAspectRatio="none">
             <path d={roadPathD} stroke="url(#line-gradient)" strokeWidth="6" fill="none" />
             <defs>
                 <linearGradient id="line-gradient" x1="0%" y1="0%" x2="0%" y2="100%">
@@ -3,6 +3,8 @@ import { Challenge, AnalysisResult } from '../types';
 import Spinner from './Spinner';
 import { getLocalImageAsBlobUrl } from '../services/ApiService';
 import SimilarityMeter from './SimilarityMeter';
+import ScoreBreakdown from './ScoreBreakdown';
+import RubricResults from './RubricResults';
 
 interface ChallengeViewProps {
   challenge: Challenge;
@@ -192,6 +194,12 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
             </div>
           </div>
 
+          {analysisResult.detailedAnalysis && (
+            <ScoreBreakdown breakdown={analysisResult.detailedAnalysis} />
+          )}
+
+          {analysisResult.rubric && <RubricResults rubric={analysisResult.rubric} />}
+
           <div className="flex items-center gap-4 mb-2">
             <h4 className="text-lg font-bold text-cyber-accent uppercase tracking-wider">Feedback Log</h4>
             
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { User, ImageService } from '../types';
+import { User, ImageService, ImageProviderInfo, FeedbackPersona } from '../types';
 
 interface HeaderProps {
     user: User;
@@ -9,7 +9,11 @@ interface HeaderProps {
     streak: number;
     streakChange: 'increase' | 'decrease' | 'none';
     selectedService: ImageService;
+    imageProviders: ImageProviderInfo[];
     onServiceChange: (service: ImageService) => void;
+    selectedPersona: string;
+    personas: FeedbackPersona[];
+    onPersonaChange: (personaId: string) => void;
     onSaveProgress: () => void;
     onLoadProgressClick: () => void;
     onOpenMenu: () => void;
@@ -23,7 +27,11 @@ const Header: React.FC<HeaderProps> = ({
     streak, 
     streakChange, 
     selectedService, 
+    imageProviders,
     onServiceChange, 
+    selectedPersona,
+    personas,
+    onPersonaChange,
     onSaveProgress,
     onLoadProgressClick,
     onOpenMenu 
@@ -59,8 +67,25 @@ const Header: React.FC<HeaderProps> = ({
                         onChange={e => onServiceChange(e.target.value as ImageService)}
                         className="appearance-none py-2 pl-4 pr-10 rounded-md bg-cyber-surface border border-cyber-secondary/50 text-white font-bold transition-colors focus:outline-none focus:border-cyber-secondary cursor-pointer"
                     >
-                        <option value="pollinations-flux">Pollinations (Flux) 🤖</option>
-                        <option value="gemini-imagen-3">Google Imagen 3 (Fast) 🎨</option>
+                        {imageProviders.map(provider => (
+                            <option key={provider.id} value={provider.id} title={provider.description}>{provider.name}</option>
+                        ))}
+                    </select>
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-cyber-secondary">
+                        <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
+                    </div>
+                </div>
+                <div className="relative">
+                    <select
+                        id="feedback-persona"
+                        value={selectedPersona}
+                        onChange={e => onPersonaChange(e.target.value)}
+                        title="Feedback style"
+                        className="appearance-none py-2 pl-4 pr-10 rounded-md bg-cyber-surface border border-cyber-secondary/50 text-white font-bold transition-colors focus:outline-none focus:border-cyber-secondary cursor-pointer"
+                    >
+                        {personas.map(persona => (
+                            <option key={persona.id} value={persona.id} title={`${persona.tone}, ${persona.language}, ${persona.verbosity}`}>{persona.name}</option>
+                        ))}
                     </select>
                     <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-cyber-secondary">
                         <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
@@ -0,0 +1,58 @@
+import React from 'react';
+import { RubricEvaluation } from '../types';
+
+interface RubricResultsProps {
+  rubric: RubricEvaluation;
+}
+
+const RubricResults: React.FC<RubricResultsProps> = ({ rubric }) => {
+  const totalWeight = rubric.criteria.reduce((total, criterion) => total + criterion.weight, 0);
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-lg font-bold text-cyber-accent uppercase tracking-wider">Mission Criteria</h4>
+
+      {rubric.criteria.map(criterion => (
+        <div key={criterion.id} className="space-y-1" aria-label={`${criterion.description}: ${criterion.score}%`}>
+          <div className="flex justify-between gap-3 text-sm">
+            <span className="text-cyber-text">{criterion.description}</span>
+            <span className="flex-shrink-0 font-display text-cyber-primary">
+              {criterion.score}%
+              {totalWeight > 0 && (
+                <span className="ml-2 text-cyber-dim">({Math.round((criterion.weight / totalWeight) * 100)}% of grade)</span>
+              )}
+            </span>
+          </div>
+          <div className="h-2 bg-cyber-bg/50 border border-cyber-primary/30 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-cyber-secondary to-cyber-primary transition-all duration-1000 ease-out"
+              style={{ width: `${Math.max(0, Math.min(100, criterion.score))}%` }}
+            />
+          </div>
+        </div>
+      ))}
+
+      {rubric.missingElements.length > 0 && (
+        <div className="text-sm text-red-400">
+          <p className="font-bold uppercase tracking-wider">Missing</p>
+          <ul className="list-disc list-inside">
+            {rubric.missingElements.map(element => <li key={element}>{element}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {rubric.appliedPenalties.length > 0 && (
+        <div className="text-sm text-red-400">
+          <p className="font-bold uppercase tracking-wider">Penalties</p>
+          <ul className="list-disc list-inside">
+            {rubric.appliedPenalties.map(penalty => (
+              <li key={penalty.description}>{penalty.description} (-{penalty.points})</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RubricResults;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { DetailedAnalysis } from '../types';
+
+interface ScoreBreakdownProps {
+  breakdown: DetailedAnalysis;
+}
+
+const DIMENSIONS: { key: keyof DetailedAnalysis; label: string }[] = [
+  { key: 'colorMatch', label: 'Color' },
+  { key: 'shapeMatch', label: 'Shape' },
+  { key: 'compositionMatch', label: 'Composition' },
+  { key: 'overallQuality', label: 'Quality' },
+];
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ breakdown }) => {
+  const rows = DIMENSIONS.filter(({ key }) => typeof breakdown[key] === 'number');
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-lg font-bold text-cyber-accent uppercase tracking-wider">Score Breakdown</h4>
+      {rows.map(({ key, label }) => {
+        const score = Math.max(0, Math.min(100, breakdown[key] ?? 0));
+        return (
+          <div key={key} className="flex items-center gap-3" aria-label={`${label} match: ${score}%`}>
+            <span className="w-28 text-sm font-bold text-cyber-text uppercase tracking-wider">{label}</span>
+            <div className="flex-1 h-3 bg-cyber-bg/50 border border-cyber-primary/30 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-cyber-secondary to-cyber-primary transition-all duration-1000 ease-out"
+                style={{ width: `${score}%` }}
+              />
+            </div>
+            <span className="w-12 text-right text-sm font-display text-cyber-primary">{score}%</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
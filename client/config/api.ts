@@ -26,7 +26,9 @@ export const API_ENDPOINTS = {
   IMAGES: `${API_BASE_URL}/api/images`,
   ANALYSIS: `${API_BASE_URL}/api/analysis`,
   USERS: `${API_BASE_URL}/api/users`,
-  STATUS: `${API_BASE_URL}/api/status`
+  STATUS: `${API_BASE_URL}/api/status`,
+  CHALLENGES: `${API_BASE_URL}/api/challenges`,
+  PERSONAS: `${API_BASE_URL}/api/personas`
 };
 
 // Debug info
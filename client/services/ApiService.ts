@@ -1,5 +1,7 @@
-import { ImageService } from '../types';
+import { FeedbackPersona, ImageProviderInfo, ImageService } from '../types';
 import { API_ENDPOINTS } from '../config/api';
+import { apiClient } from './apiClient';
+import { describeError } from './errorMessages';
 
 // Backend API configuration (now auto-detects local vs production)
 const API_BASE_URL = API_ENDPOINTS.BASE;
@@ -29,31 +31,77 @@ export const getAi = () => {
   return { apiKey };
 };
 
-export const generateImage = async (prompt: string, service: ImageService = 'pollinations-flux'): Promise<string> => {
+// Shown until the backend's provider list arrives, or if it can't be fetched
+export const FALLBACK_IMAGE_PROVIDERS: ImageProviderInfo[] = [
+  {
+    id: 'pollinations-flux',
+    name: 'Pollinations (Flux)',
+    description: 'High-quality general purpose images',
+    capabilities: { seed: false, network: true, apiKey: false },
+    sizes: [{ width: 1024, height: 1024 }]
+  },
+  {
+    id: 'gemini-imagen-3',
+    name: 'Google Imagen 3',
+    description: 'Standard Gemini quality',
+    capabilities: { seed: false, network: true, apiKey: true },
+    sizes: [{ width: 1024, height: 1024 }]
+  }
+];
+
+export interface ImageProviderList {
+  providers: ImageProviderInfo[];
+  defaultProvider: ImageService;
+}
+
+// Image providers the backend can generate with
+export const getImageProviders = async (): Promise<ImageProviderList> => {
+  try {
+    const result = await apiClient.request('getImageProviders');
+    return result.data;
+
+  } catch (error) {
+    console.error('Error fetching image providers:', error);
+    return { providers: FALLBACK_IMAGE_PROVIDERS, defaultProvider: FALLBACK_IMAGE_PROVIDERS[0].id };
+  }
+};
+
+// Shown until the backend's persona list arrives, or if it can't be fetched
+export const FALLBACK_PERSONAS: FeedbackPersona[] = [
+  { id: 'desi-coach', name: 'Desi Coach', tone: 'playful', language: 'Hinglish', verbosity: 'standard', builtIn: true }
+];
+
+// Feedback personas the analysis can be written in
+export const getPersonas = async (): Promise<FeedbackPersona[]> => {
+  try {
+    const result = await apiClient.request('getPersonas');
+    return result.data;
+
+  } catch (error) {
+    console.error('Error fetching feedback personas:', error);
+    return FALLBACK_PERSONAS;
+  }
+};
+
+export interface GeneratedImage {
+  imageId: string;   // Reference for /analysis/compare
+  imageUrl: string;  // Where the backend serves the stored image
+}
+
+export const generateImage = async (prompt: string, service: ImageService = 'pollinations-flux'): Promise<GeneratedImage> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/images/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    const result = await apiClient.request('generateImage', {
+      body: {
         prompt,
         service,
-        apiKey: localStorage.getItem('gemini_api_key')
-      }),
+        apiKey: localStorage.getItem('gemini_api_key') || undefined
+      }
     });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'Failed to generate image');
-    }
-
-    const data = await response.json();
-    return data.imageBase64;
+    return { imageId: result.imageId, imageUrl: result.imageUrl };
 
   } catch (error) {
     console.error("Error in generateImage:", error);
-    throw new Error(error instanceof Error ? error.message : "Failed to generate image. Please check your prompt or internet connection.");
+    throw new Error(describeError(error, "Failed to generate image. Please check your prompt or internet connection."));
   }
 };
 
@@ -65,21 +113,9 @@ export const generateImage = async (prompt: string, service: ImageService = 'pol
  */
 export const getLocalImageAsBlobUrl = async (url: string): Promise<string> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/images/local`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ imageUrl: url }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image from URL: ${url}. Status: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const result = await apiClient.request('getLocalImage', { body: { imageUrl: url } });
     // Convert base64 to blob URL for display
-    const base64Data = data.imageBase64;
+    const base64Data = result.imageBase64;
     const byteCharacters = atob(base64Data);
     const byteNumbers = new Array(byteCharacters.length);
     for (let i = 0; i < byteCharacters.length; i++) {
@@ -0,0 +1,15 @@
+import { createApiClient } from '@prompt-tool/core/client';
+import { API_BASE_URL } from '../config/api';
+import { getIdToken } from './firebaseAuthService';
+
+/**
+ * 📡 Typed backend client
+ * Paths, bodies and responses come from the route schemas shared with the
+ * backends (GET /api/openapi.json describes the same routes). Errors
+ * reject with an ApiClientError; see errorMessages.ts for what users see.
+ */
+export const apiClient = createApiClient({
+  baseUrl: API_BASE_URL,
+  getToken: getIdToken,
+  maxRetries: 2   // Retryable codes only, e.g. ALL_KEYS_EXHAUSTED
+});
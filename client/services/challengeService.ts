@@ -0,0 +1,19 @@
+import { Challenge } from '../types';
+import { apiClient } from './apiClient';
+import { describeError } from './errorMessages';
+
+/**
+ * Fetches the challenge catalog from the backend, in mission order.
+ * @returns A promise that resolves to the list of challenges
+ */
+export const fetchChallenges = async (): Promise<Challenge[]> => {
+  try {
+    const result = await apiClient.request('getChallenges');
+    return result.data;
+
+  } catch (error) {
+    console.error("Error in fetchChallenges:", error);
+    throw new Error(describeError(error, "Failed to load challenges."));
+  }
+};
+
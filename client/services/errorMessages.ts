@@ -0,0 +1,65 @@
+import type { ErrorCode } from '@prompt-tool/core';
+import { ApiClientError } from '@prompt-tool/core/client';
+
+type ErrorMessages = Partial<Record<ErrorCode, string>>;
+
+/**
+ * 💬 Friendly messages for backend error codes, by language.
+ * `{retryAfter}` is replaced with the seconds the backend asked us to wait.
+ * Codes without an entry fall back to the backend's own message.
+ */
+const ERROR_MESSAGES: Record<string, ErrorMessages> = {
+  en: {
+    ALL_KEYS_EXHAUSTED: 'The AI is busy right now. Please try again in {retryAfter} seconds.',
+    RATE_LIMITED: "You're going a bit fast! Please wait {retryAfter} seconds and try again.",
+    EMPTY_PROMPT: 'Write a prompt before generating.',
+    PROMPT_TOO_LONG: 'Your prompt is too long. Try trimming it down.',
+    UNKNOWN_IMAGE_SERVICE: 'That image generator is not available. Pick another one.',
+    UNSUPPORTED_SIZE: 'That image generator cannot make images of that size.',
+    POLLINATIONS_API_ERROR: 'The image generator failed. Please try again.',
+    NO_IMAGE_GENERATED: 'No image came back for that prompt. Try rewording it.',
+    UNSUPPORTED_IMAGE: "That image couldn't be read for scoring.",
+    ANALYSIS_FAILED: "We couldn't score your image. Please try again.",
+    CHALLENGE_NOT_FOUND: 'That challenge no longer exists.',
+    CHALLENGE_ARCHIVED: 'That challenge has been retired.',
+    CHALLENGE_LOCKED: 'Pass the previous challenge to unlock this one.',
+    IMAGE_NOT_OWNED: 'Generate your own image for this challenge first.',
+    IMAGE_TOO_LARGE: 'That image is too large to upload.',
+    UNSUPPORTED_IMAGE_TYPE: 'Images must be PNG, JPEG or WebP.',
+    PERSONA_EXISTS: 'A persona with that name already exists.',
+    NO_TOKEN: 'Please sign in to continue.',
+    NOT_AUTHENTICATED: 'Please sign in to continue.',
+    TOKEN_EXPIRED: 'Your session has expired. Please sign in again.',
+    TOKEN_REVOKED: 'You were signed out. Please sign in again.',
+    FORBIDDEN: "You don't have permission to do that.",
+    INVALID_API_KEY: 'Your Gemini API key was rejected. Check it in settings.',
+    REQUEST_TIMEOUT: 'That took too long. Please try again.',
+    SERVICE_UNAVAILABLE: 'The service is temporarily unavailable. Please try again shortly.',
+    INTERNAL_SERVER_ERROR: 'Something went wrong on our side.'
+  }
+};
+
+const DEFAULT_LOCALE = 'en';
+
+const messagesFor = (locale: string): ErrorMessages =>
+  ERROR_MESSAGES[locale] ?? ERROR_MESSAGES[locale.split('-')[0]] ?? ERROR_MESSAGES[DEFAULT_LOCALE];
+
+/**
+ * Turn a caught error into a message to show the user
+ * @param error Anything a service threw
+ * @param fallback Shown when the error carries no message of its own
+ * @param locale BCP 47 language tag; defaults to the browser's
+ */
+export const describeError = (error: unknown, fallback: string, locale: string = navigator.language): string => {
+  if (!(error instanceof ApiClientError)) {
+    return error instanceof Error && error.message ? error.message : fallback;
+  }
+
+  const template = error.code ? messagesFor(locale)[error.code as ErrorCode] : undefined;
+  const message = template
+    ? template.replace('{retryAfter}', String(error.retryAfter ?? 30))
+    : error.message || fallback;
+
+  // Server-side failures carry a reference so support can find the request in the logs
+  return error.status >= 500 && error.requestId ? `${message} (ref: ${error.requestId})` : message;
+};
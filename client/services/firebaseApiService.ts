@@ -1,210 +1,87 @@
-import { User } from '../types';
-import { getCurrentUser, getIdToken } from './firebaseAuthService';
-import { API_ENDPOINTS } from '../config/api';
-
-// Backend API configuration (now auto-detects local vs production) 
-const BASE_URL = API_ENDPOINTS.API;
+import { UserProfile, UserProfileUpdate, UserProgress, UserStats } from '../types';
+import { apiClient } from './apiClient';
 
 /**
  * 🔥 Firebase Backend API Service
  * Handles authenticated requests to Firebase backend
  */
 class FirebaseApiService {
-  
-  /**
-   * Get Authorization header with Firebase ID token
-   */
-  private async getAuthHeaders(): Promise<HeadersInit> {
-    const token = await getIdToken();
-    if (!token) {
-      throw new Error('User not authenticated');
-    }
-    
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
-    };
-  }
-  
+
   /**
    * Create or update user profile in backend
    * @param userData User profile data
    */
-  async createOrUpdateProfile(userData: {
-    displayName?: string;
-    photoURL?: string;
-    email?: string;
-  }): Promise<User> {
+  async createOrUpdateProfile(userData: UserProfileUpdate): Promise<UserProfile> {
     try {
-      const headers = await this.getAuthHeaders();
-      
-      const response = await fetch(`${BASE_URL}/users/profile`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(userData)
-      });
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to create/update profile');
-      }
-      
+      const result = await apiClient.request('createOrUpdateProfile', { body: userData });
       return result.data;
     } catch (error) {
       console.error('❌ Error creating/updating profile:', error);
       throw error;
     }
   }
-  
+
   /**
-   * Get user profile from backend
+   * Update editable profile settings, e.g. the feedback persona
+   * @param updates Fields to change
    */
-  async getUserProfile(): Promise<User> {
+  async updateProfile(updates: UserProfileUpdate): Promise<UserProfile> {
     try {
-      const headers = await this.getAuthHeaders();
-      
-      const response = await fetch(`${BASE_URL}/users/profile`, {
-        method: 'GET',
-        headers
-      });
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to get profile');
-      }
-      
+      const result = await apiClient.request('updateProfile', { body: updates });
       return result.data;
     } catch (error) {
-      console.error('❌ Error getting profile:', error);
+      console.error('❌ Error updating profile:', error);
       throw error;
     }
   }
-  
+
   /**
-   * Save user challenge progress to backend
-   * @param progress Challenge progress data
+   * Get user profile from backend
    */
-  async saveProgress(progress: Record<number, any>): Promise<void> {
+  async getUserProfile(): Promise<UserProfile> {
     try {
-      const headers = await this.getAuthHeaders();
-      
-      const response = await fetch(`${BASE_URL}/users/progress`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ progress })
-      });
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to save progress');
-      }
-      
-      console.log('✅ Progress saved to backend');
+      const result = await apiClient.request('getUserProfile');
+      return result.data;
     } catch (error) {
-      console.error('❌ Error saving progress:', error);
-      // Don't throw error to prevent breaking the app
-      // Progress will still be saved locally
+      console.error('❌ Error getting profile:', error);
+      throw error;
     }
   }
-  
+
   /**
    * Get user challenge progress from backend
    */
-  async getProgress(): Promise<Record<number, any> | null> {
+  async getProgress(): Promise<UserProgress | null> {
     try {
-      const headers = await this.getAuthHeaders();
-      
-      const response = await fetch(`${BASE_URL}/users/progress`, {
-        method: 'GET',
-        headers
-      });
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        console.warn('⚠️ Failed to get progress from backend:', result.error);
-        return null;
-      }
-      
+      const result = await apiClient.request('getUserProgress');
       return result.data;
     } catch (error) {
       console.error('❌ Error getting progress:', error);
       return null;
     }
   }
-  
-  /**
-   * Update user statistics after challenge completion
-   * @param challengeScore Score from completed challenge
-   * @param newStreak Updated streak count
-   */
-  async updateStats(challengeScore: number, newStreak: number): Promise<void> {
-    try {
-      const headers = await this.getAuthHeaders();
-      
-      const response = await fetch(`${BASE_URL}/users/stats/update`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ challengeScore, newStreak })
-      });
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to update stats');
-      }
-      
-      console.log('📈 Stats updated in backend');
-    } catch (error) {
-      console.error('❌ Error updating stats:', error);
-      // Don't throw error to prevent breaking the app
-    }
-  }
-  
+
   /**
    * Get user statistics from backend
    */
-  async getUserStats(): Promise<any> {
+  async getUserStats(): Promise<UserStats | null> {
     try {
-      const headers = await this.getAuthHeaders();
-      
-      const response = await fetch(`${BASE_URL}/users/stats`, {
-        method: 'GET',
-        headers
-      });
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        console.warn('⚠️ Failed to get stats from backend:', result.error);
-        return null;
-      }
-      
+      const result = await apiClient.request('getUserStats');
       return result.data;
     } catch (error) {
       console.error('❌ Error getting stats:', error);
       return null;
     }
   }
-  
+
   /**
    * Get leaderboard data
    * @param limit Number of top users to fetch
    */
-  async getLeaderboard(limit: number = 10): Promise<any[]> {
+  async getLeaderboard(limit: number = 10): Promise<UserStats[]> {
     try {
-      const response = await fetch(`${BASE_URL}/users/leaderboard?limit=${limit}`);
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to get leaderboard');
-      }
-      
-      return result.data || [];
+      const result = await apiClient.request('getLeaderboard', { query: { limit } });
+      return result.data;
     } catch (error) {
       console.error('❌ Error getting leaderboard:', error);
       return [];
@@ -1,32 +1,55 @@
+// API shapes come from the shared schemas in @prompt-tool/core, as the JSON
+// the backends send (timestamps are ISO strings)
+import type {
+  AnalysisResult as CoreAnalysisResult,
+  ChallengeJson,
+  ChallengeProgressJson,
+  FeedbackPersonaJson,
+  ScoringResultJson,
+  UserProfileJson,
+  UserProgressJson,
+  UserStatsJson
+} from '@prompt-tool/core';
 
-export enum ChallengeStatus {
-  LOCKED = 'LOCKED',
-  UNLOCKED = 'UNLOCKED',
-  COMPLETED = 'COMPLETED',
-}
+export type {
+  ChallengeRubric,
+  CriterionResult,
+  DetailedAnalysis,
+  FeedbackTone,
+  FeedbackVerbosity,
+  ImageProviderInfo,
+  ImageService,
+  RubricCriterion,
+  RubricEvaluation,
+  RubricPenalty,
+  UserProfileUpdate
+} from '@prompt-tool/core';
 
-export interface Challenge {
-  id: number;
-  name: string;
-  imageUrl: string;
-  description: string;
-}
+export const ChallengeStatus = {
+  LOCKED: 'LOCKED',
+  UNLOCKED: 'UNLOCKED',
+  COMPLETED: 'COMPLETED'
+} as const;
+
+export type ChallengeStatus = typeof ChallengeStatus[keyof typeof ChallengeStatus];
 
-export interface AnalysisResult {
-  similarityScore: number;
-  feedback: string[];
-  // Legacy support for components expecting old format
-  similarity?: number;
-  passed?: boolean;
+export type Challenge = ChallengeJson;
+
+export interface AnalysisResult extends CoreAnalysisResult {
+  // Server-recorded outcome of this attempt
+  scoring?: ScoringResult;
 }
 
-export interface ChallengeProgress {
-  status: ChallengeStatus;
-  streak: number;
-  previousSimilarityScore: number;
+export interface ChallengeProgress extends ChallengeProgressJson {
   promptHistory?: PromptAttempt[];
 }
 
+/**
+ * Signed result returned by /analysis/compare once the server has recorded
+ * the attempt. Progress and stats here are authoritative.
+ */
+export type ScoringResult = ScoringResultJson;
+
 export interface PromptAttempt {
   prompt: string;
   score: number;
@@ -35,11 +58,18 @@ export interface PromptAttempt {
   feedback?: string[];
 }
 
-export type ImageService = 'pollinations-flux' | 'pollinations-kontext' | 'pollinations-krea' | 'gemini-imagen-3' | 'gemini-imagen-4-fast' | 'gemini-imagen-4-ultra';
+// Voice the analysis feedback is written in, as listed by GET /api/personas
+export type FeedbackPersona = FeedbackPersonaJson;
+
+// The signed-in user's record, as the backend stores it
+export type UserProfile = UserProfileJson;
+export type UserStats = UserStatsJson;
+export type UserProgress = UserProgressJson;
 
 export type User = {
   uid: string;
   email: string;
   displayName?: string;
   photoURL?: string;
+  feedbackPersona?: string;
 };
\ No newline at end of file
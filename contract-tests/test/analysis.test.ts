@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { bytesToBase64, renderPromptImage } from '@prompt-tool/core';
+import { signIn } from './helpers/backend';
+import { BACKENDS, json, useBackend } from './helpers/scenario';
+import { analysisResponse, errorResponse } from './helpers/schemas';
+import { catalogImage, FRONTEND_HOSTS, GEMINI_ANALYSIS } from './helpers/upstream';
+
+const IMAGE = bytesToBase64(renderPromptImage('a red circle', 64, 64));
+
+describe.each(BACKENDS)('%s: analysis', (_name, start) => {
+  const backend = useBackend(start);
+
+  const generateImage = async (uid: string = 'student-1'): Promise<string> => {
+    const response = await backend().request('/api/images/generate', json('POST', {
+      prompt: 'a red circle',
+      service: 'local-procedural'
+    }, await signIn(uid)));
+    return (await response.json()).imageId;
+  };
+
+  const compare = async (body: Record<string, unknown>, uid: string = 'student-1') =>
+    backend().request('/api/analysis/compare', json('POST', {
+      challengeId: 1,
+      userPrompt: 'a red circle',
+      ...body
+    }, await signIn(uid)));
+
+  it('scores an attempt with Gemini and records it', async () => {
+    const response = await compare({ generatedImageId: await generateImage() });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject(analysisResponse);
+    expect(body.result).toMatchObject({
+      similarityScore: GEMINI_ANALYSIS.similarityScore,
+      feedback: GEMINI_ANALYSIS.feedback,
+      analyzer: 'gemini',
+      passed: true
+    });
+    expect(body.scoring).toMatchObject({
+      userId: 'student-1',
+      challengeId: 1,
+      score: GEMINI_ANALYSIS.similarityScore,
+      passed: true,
+      justCompleted: true,
+      streakChange: 'increase',
+      stats: { userId: 'student-1', totalChallengesCompleted: 1 }
+    });
+    expect(body.scoring.progress['1']).toMatchObject({ status: 'COMPLETED', streak: 1 });
+    expect(body.scoring.progress['2']).toMatchObject({ status: 'UNLOCKED' });
+  });
+
+  it('keeps every attempt when one user submits several at once', async () => {
+    const images = await Promise.all([generateImage(), generateImage(), generateImage()]);
+
+    const responses = await Promise.all(images.map(generatedImageId => compare({ generatedImageId })));
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+
+    const headers = await signIn('student-1');
+    const progress = await (await backend().request('/api/users/progress', { headers })).json();
+    expect(progress.data['1']).toMatchObject({ status: 'COMPLETED', attempts: 3 });
+    const stats = await (await backend().request('/api/users/stats', { headers })).json();
+    expect(stats.data).toMatchObject({ totalChallengesCompleted: 1, totalScore: GEMINI_ANALYSIS.similarityScore });
+  });
+
+  it('scores against the challenge\'s own image, whatever target the client sends', async () => {
+    const chosen = await compare({ generatedImageId: await generateImage(), targetImageBase64: IMAGE });
+    expect(chosen.status).toBe(200);
+    expect((await chosen.json()).result.similarityScore).toBe(GEMINI_ANALYSIS.similarityScore);
+
+    const catalogFetches = FRONTEND_HOSTS.map(host => backend().upstream.calledHost(host));
+    expect(catalogFetches.reduce((total, count) => total + count, 0)).toBe(1);
+  });
+
+  it('only scores images the caller generated', async () => {
+    // The target image itself, sent inline, would otherwise score near 100
+    const inline = await compare({ generatedImageBase64: bytesToBase64(catalogImage('challenges/challenge-1.png')) });
+    expect(inline.status).toBe(400);
+    expect(await inline.json()).toMatchObject(errorResponse('INVALID_GENERATED_IMAGE'));
+
+    const theirs = await compare({ generatedImageId: await generateImage('student-2') });
+    expect(theirs.status).toBe(403);
+    expect(await theirs.json()).toMatchObject(errorResponse('IMAGE_NOT_OWNED'));
+
+    const signedOut = await backend().request('/api/images/generate', json('POST', {
+      prompt: 'a red circle',
+      service: 'local-procedural'
+    }));
+    const anonymous = await compare({ generatedImageId: (await signedOut.json()).imageId });
+    expect(anonymous.status).toBe(403);
+    expect(await anonymous.json()).toMatchObject(errorResponse('IMAGE_NOT_OWNED'));
+  });
+
+  it('rejects challenges the caller has not unlocked', async () => {
+    const response = await compare({ challengeId: 2, generatedImageId: await generateImage() });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject(errorResponse('CHALLENGE_LOCKED'));
+    expect(backend().upstream.calledHost('generativelanguage.googleapis.com')).toBe(0);
+  });
+
+  it('requires a signed-in user', async () => {
+    const response = await backend().request('/api/analysis/compare', json('POST', { challengeId: 1 }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject(errorResponse('NO_TOKEN'));
+  });
+
+  it('rejects invalid analysis requests', async () => {
+    const imageId = await generateImage();
+    const cases: Array<[Record<string, unknown>, number, string]> = [
+      [{ challengeId: 'one', generatedImageId: imageId }, 400, 'INVALID_CHALLENGE_ID'],
+      [{}, 400, 'INVALID_GENERATED_IMAGE'],
+      [{ generatedImageId: imageId, userPrompt: '' }, 400, 'MISSING_USER_PROMPT'],
+      [{ generatedImageId: imageId, persona: 'nope' }, 400, 'UNKNOWN_PERSONA'],
+      [{ generatedImageId: imageId, challengeId: 999 }, 404, 'CHALLENGE_NOT_FOUND'],
+      [{ generatedImageId: '00000000-0000-4000-8000-000000000000' }, 404, 'IMAGE_NOT_FOUND']
+    ];
+
+    for (const [body, status, code] of cases) {
+      const response = await compare(body);
+      expect(response.status, code).toBe(status);
+      expect(await response.json()).toMatchObject(errorResponse(code));
+    }
+  });
+});
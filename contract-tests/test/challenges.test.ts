@@ -0,0 +1,66 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { renderPromptImage } from '@prompt-tool/core';
+import { signIn } from './helpers/backend';
+import { startExpressBackend } from './helpers/expressBackend';
+import { BACKENDS, json, useBackend } from './helpers/scenario';
+
+describe.each(BACKENDS)('%s: challenges', (_name, start) => {
+  const backend = useBackend(start);
+
+  it('gives concurrently created challenges their own ids', async () => {
+    const headers = await signIn('instructor-1', { role: 'instructor' });
+    // Seed the catalog first so every create reads the same highest id
+    await backend().request('/api/challenges');
+
+    const responses = await Promise.all(['Lighthouse', 'Harbour', 'Orchard'].map(name =>
+      backend().request('/api/challenges', json(
+        'POST',
+        { name, description: `${name} description`, imageUrl: 'challenges/challenge-1.png' },
+        headers
+      ))));
+
+    expect(responses.map(response => response.status)).toEqual([201, 201, 201]);
+    const created = await Promise.all(responses.map(async response => (await response.json()).data));
+    expect(new Set(created.map(challenge => challenge.id)).size).toBe(3);
+
+    const listing = await (await backend().request('/api/challenges')).json();
+    for (const challenge of created) {
+      expect(listing.data).toContainEqual(expect.objectContaining({ id: challenge.id, name: challenge.name }));
+    }
+  });
+});
+
+// Only the Express server's image storage can be made to fail from outside;
+// the Worker's in-memory store always accepts the upload
+describe('express: challenge images', () => {
+  const backend = useBackend(startExpressBackend);
+  let blockedDir: string | undefined;
+
+  afterEach(async () => {
+    delete process.env.CHALLENGE_UPLOAD_DIR;
+    if (blockedDir) await rm(blockedDir, { recursive: true, force: true });
+    blockedDir = undefined;
+  });
+
+  it('does not keep a challenge whose image could not be stored', async () => {
+    const headers = await signIn('instructor-1', { role: 'instructor' });
+    // A regular file where the upload directory should be
+    blockedDir = await mkdtemp(path.join(tmpdir(), 'challenge-uploads-'));
+    await writeFile(path.join(blockedDir, 'file'), '');
+    process.env.CHALLENGE_UPLOAD_DIR = path.join(blockedDir, 'file', 'challenges');
+
+    const form = new FormData();
+    form.set('name', 'Lighthouse');
+    form.set('description', 'Lighthouse description');
+    form.set('image', new Blob([new Uint8Array(renderPromptImage('a red circle', 64, 64))], { type: 'image/png' }), 'target.png');
+
+    const response = await backend().request('/api/challenges', { method: 'POST', body: form, headers });
+
+    expect(response.status).toBe(500);
+    const listing = await (await backend().request('/api/challenges?includeArchived=true', { headers })).json();
+    expect(listing.data).not.toContainEqual(expect.objectContaining({ name: 'Lighthouse' }));
+  });
+});
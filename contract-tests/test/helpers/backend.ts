@@ -0,0 +1,58 @@
+/**
+ * What a scenario needs from a running backend, plus the settings both
+ * backends are started with
+ */
+
+import {
+  exportPrivateKeyPem,
+  generateTestKeyPair,
+  signTestToken,
+  TEST_PROJECT_ID,
+  TestKeyPair,
+  validClaims
+} from '../../../workers-api/test/helpers/tokens';
+import { Upstream } from './upstream';
+
+export interface Backend {
+  name: string;
+  upstream: Upstream;
+  request(path: string, init?: RequestInit): Promise<Response>;
+  // Forget stored users, progress and recorded upstream calls
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export const SHARED_ENV = {
+  NODE_ENV: 'test',
+  GEMINI_API_KEYS: 'contract-gemini-key',
+  RESULT_SIGNING_SECRET: 'contract-signing-secret',
+  ANALYSIS_MODE: 'gemini'
+};
+
+export const PROJECT_ID = TEST_PROJECT_ID;
+
+// Firebase signs ID tokens and the service account key with separate keys
+let signingKeys: Promise<{ idToken: TestKeyPair; serviceAccountPem: string }> | null = null;
+
+export function getSigningKeys() {
+  if (!signingKeys) {
+    signingKeys = (async () => {
+      const [idToken, serviceAccount] = await Promise.all([
+        generateTestKeyPair('contract-id-token'),
+        generateTestKeyPair('contract-service-account')
+      ]);
+      return { idToken, serviceAccountPem: await exportPrivateKeyPem(serviceAccount) };
+    })();
+  }
+  return signingKeys;
+}
+
+/**
+ * Authorization header for a signed-in user, with any extra claims (a role)
+ */
+export async function signIn(uid: string, claims: Record<string, unknown> = {}): Promise<Record<string, string>> {
+  const { idToken } = await getSigningKeys();
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const token = await signTestToken(idToken, validClaims(nowSeconds, { sub: uid, user_id: uid, email: `${uid}@example.com`, ...claims }));
+  return { Authorization: `Bearer ${token}` };
+}
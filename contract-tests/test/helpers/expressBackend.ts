@@ -0,0 +1,48 @@
+/**
+ * Runs the Express app in-process on an ephemeral port, with the Admin SDK
+ * replaced by the in-memory fake and outbound fetch sent to the upstream stub
+ */
+
+import { AddressInfo } from 'node:net';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { vi } from 'vitest';
+import { auth, db } from './firebaseAdmin';
+import { Backend, getSigningKeys, SHARED_ENV } from './backend';
+import { Upstream } from './upstream';
+
+vi.mock('../../../server/src/config/firebase.js', () => import('./firebaseAdmin'));
+
+export async function startExpressBackend(): Promise<Backend> {
+  const { idToken } = await getSigningKeys();
+  const upstream = new Upstream({ jwks: () => [idToken.publicJwk] });
+  const imageDir = await mkdtemp(path.join(tmpdir(), 'contract-images-'));
+
+  Object.assign(process.env, SHARED_ENV, { IMAGE_STORAGE_DIR: imageDir });
+
+  // Scenarios talk to the app with the real fetch; the app's own calls go to the stub
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => upstream.handle(new Request(input, init)));
+
+  const { default: app } = await import('../../../server/src/app');
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    name: 'express',
+    upstream,
+    request: (requestPath, init) => realFetch(`http://127.0.0.1:${port}${requestPath}`, init),
+    reset() {
+      db.clear();
+      auth.clear();
+      upstream.calls.length = 0;
+    },
+    async close() {
+      await new Promise(resolve => server.close(resolve));
+      vi.unstubAllGlobals();
+      await rm(imageDir, { recursive: true, force: true });
+    }
+  };
+}
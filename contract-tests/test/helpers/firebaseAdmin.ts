@@ -0,0 +1,315 @@
+/**
+ * In-memory stand-in for the Firebase Admin services the Express server
+ * imports from config/firebase.js: the Firestore calls the services make,
+ * and an auth stub that trusts the token's claims (the Worker side checks
+ * signatures; here only the claims matter).
+ */
+
+import { randomUUID } from 'node:crypto';
+
+type DocumentData = Record<string, any>;
+
+/**
+ * Firestore hands back Timestamps rather than Dates; this mirrors the parts
+ * callers rely on, including how it serializes to JSON
+ */
+export class FakeTimestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static fromDate(date: Date): FakeTimestamp {
+    const millis = date.getTime();
+    return new FakeTimestamp(Math.floor(millis / 1000), (millis % 1000) * 1e6);
+  }
+
+  toDate(): Date {
+    return new Date(this.seconds * 1000 + this.nanoseconds / 1e6);
+  }
+
+  toJSON() {
+    return { _seconds: this.seconds, _nanoseconds: this.nanoseconds };
+  }
+}
+
+/**
+ * Copy a value the way a write/read round trip would: Dates become
+ * Timestamps and nothing is shared with the caller. Like Firestore,
+ * rejects undefined values.
+ */
+function toStored(value: any): any {
+  if (value === undefined) throw new Error('Cannot use "undefined" as a Firestore value');
+  if (value instanceof Date) return FakeTimestamp.fromDate(value);
+  if (value instanceof FakeTimestamp) return value;
+  if (Array.isArray(value)) return value.map(toStored);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toStored(entry)]));
+  }
+  return value;
+}
+
+function comparable(value: any): any {
+  return value instanceof FakeTimestamp ? value.toDate().getTime() : value;
+}
+
+function notFound(path: string): Error {
+  return Object.assign(new Error(`5 NOT_FOUND: No document to update: ${path}`), { code: 5 });
+}
+
+function alreadyExists(path: string): Error {
+  return Object.assign(new Error(`6 ALREADY_EXISTS: Document already exists: ${path}`), { code: 6 });
+}
+
+class DocumentSnapshot {
+  constructor(readonly ref: DocumentReference, private readonly stored: DocumentData | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this.stored === undefined ? undefined : toStored(this.stored);
+  }
+
+  get(field: string): any {
+    return this.data()?.[field];
+  }
+}
+
+class QuerySnapshot {
+  constructor(readonly docs: DocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: DocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+class DocumentReference {
+  constructor(private readonly db: FakeFirestore, readonly collectionId: string, readonly id: string) {}
+
+  get path(): string {
+    return `${this.collectionId}/${this.id}`;
+  }
+
+  async get(): Promise<DocumentSnapshot> {
+    return new DocumentSnapshot(this, this.db.read(this));
+  }
+
+  async create(data: DocumentData): Promise<void> {
+    if (this.db.read(this)) throw alreadyExists(this.path);
+    this.db.set(this, data);
+  }
+
+  async set(data: DocumentData, options?: { merge?: boolean }): Promise<void> {
+    this.db.set(this, data, options?.merge);
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    this.db.update(this, data);
+  }
+
+  async delete(): Promise<void> {
+    this.db.remove(this);
+  }
+}
+
+interface QueryState {
+  filters: Array<{ field: string; value: any }>;
+  order: Array<{ field: string; direction: 'asc' | 'desc' }>;
+  limit?: number;
+}
+
+class Query {
+  constructor(
+    protected readonly db: FakeFirestore,
+    readonly collectionId: string,
+    private readonly state: QueryState = { filters: [], order: [] }
+  ) {}
+
+  where(field: string, op: string, value: any): Query {
+    if (op !== '==') throw new Error(`Fake Firestore does not support where(${op})`);
+    return new Query(this.db, this.collectionId, { ...this.state, filters: [...this.state.filters, { field, value }] });
+  }
+
+  orderBy(field: unknown, direction: 'asc' | 'desc' = 'asc'): Query {
+    if (typeof field !== 'string') throw new Error('Fake Firestore only orders by field names');
+    return new Query(this.db, this.collectionId, { ...this.state, order: [...this.state.order, { field, direction }] });
+  }
+
+  limit(limit: number): Query {
+    return new Query(this.db, this.collectionId, { ...this.state, limit });
+  }
+
+  // Projections only save bandwidth, so the fake returns whole documents
+  select(..._fields: string[]): Query {
+    return this;
+  }
+
+  startAfter(): Query {
+    throw new Error('Fake Firestore does not support cursors');
+  }
+
+  async get(): Promise<QuerySnapshot> {
+    let docs = this.db.list(this.collectionId)
+      .filter(([, data]) => this.state.filters.every(({ field, value }) => data[field] === value));
+
+    for (const { field, direction } of [...this.state.order].reverse()) {
+      const sign = direction === 'desc' ? -1 : 1;
+      docs = [...docs].sort(([, a], [, b]) => {
+        const left = comparable(a[field]);
+        const right = comparable(b[field]);
+        return left === right ? 0 : (left > right ? sign : -sign);
+      });
+    }
+
+    if (this.state.limit !== undefined) {
+      docs = docs.slice(0, this.state.limit);
+    }
+
+    const snapshot = new QuerySnapshot(docs.map(([id, data]) =>
+      new DocumentSnapshot(new DocumentReference(this.db, this.collectionId, id), data)));
+
+    // A real query is a network round trip: other requests run before the
+    // (by then possibly stale) result arrives
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return snapshot;
+  }
+}
+
+class CollectionReference extends Query {
+  doc(id: string = randomUUID().replace(/-/g, '').slice(0, 20)): DocumentReference {
+    return new DocumentReference(this.db, this.collectionId, id);
+  }
+}
+
+type Write = () => void;
+
+/**
+ * Writes queued by a batch or transaction, applied together on commit
+ */
+class WriteBatch {
+  protected writes: Write[] = [];
+
+  constructor(private readonly db: FakeFirestore) {}
+
+  set(ref: DocumentReference, data: DocumentData, options?: { merge?: boolean }): this {
+    this.writes.push(() => this.db.set(ref, data, options?.merge));
+    return this;
+  }
+
+  update(ref: DocumentReference, data: DocumentData): this {
+    this.writes.push(() => this.db.update(ref, data));
+    return this;
+  }
+
+  delete(ref: DocumentReference): this {
+    this.writes.push(() => this.db.remove(ref));
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.writes.forEach(write => write());
+    this.writes = [];
+  }
+}
+
+class Transaction extends WriteBatch {
+  get(ref: DocumentReference): Promise<DocumentSnapshot> {
+    return ref.get();
+  }
+}
+
+export class FakeFirestore {
+  private collections = new Map<string, Map<string, DocumentData>>();
+
+  collection(collectionId: string): CollectionReference {
+    return new CollectionReference(this, collectionId);
+  }
+
+  batch(): WriteBatch {
+    return new WriteBatch(this);
+  }
+
+  async runTransaction<T>(updateFunction: (transaction: Transaction) => Promise<T>): Promise<T> {
+    const transaction = new Transaction(this);
+    const result = await updateFunction(transaction);
+    await transaction.commit();
+    return result;
+  }
+
+  read(ref: DocumentReference): DocumentData | undefined {
+    return this.collections.get(ref.collectionId)?.get(ref.id);
+  }
+
+  set(ref: DocumentReference, data: DocumentData, merge: boolean = false): void {
+    if (!this.collections.has(ref.collectionId)) {
+      this.collections.set(ref.collectionId, new Map());
+    }
+    const stored = toStored(data);
+    this.collections.get(ref.collectionId)!.set(ref.id, merge ? { ...this.read(ref), ...stored } : stored);
+  }
+
+  update(ref: DocumentReference, data: DocumentData): void {
+    const existing = this.read(ref);
+    if (!existing) throw notFound(ref.path);
+    this.set(ref, { ...existing, ...data });
+  }
+
+  remove(ref: DocumentReference): void {
+    this.collections.get(ref.collectionId)?.delete(ref.id);
+  }
+
+  list(collectionId: string): Array<[string, DocumentData]> {
+    return [...(this.collections.get(collectionId)?.entries() || [])];
+  }
+
+  clear(): void {
+    this.collections.clear();
+  }
+}
+
+/**
+ * Decode an ID token's claims without checking the signature
+ */
+function decodeClaims(token: string): Record<string, any> {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    throw Object.assign(new Error('Decoding Firebase ID token failed'), { code: 'auth/argument-error' });
+  }
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+}
+
+export class FakeAuth {
+  private customClaims = new Map<string, Record<string, unknown>>();
+
+  async verifyIdToken(token: string) {
+    const claims = decodeClaims(token);
+    return { ...claims, uid: claims.sub };
+  }
+
+  async getUser(uid: string) {
+    return { uid, customClaims: this.customClaims.get(uid) };
+  }
+
+  async setCustomUserClaims(uid: string, claims: Record<string, unknown> | null): Promise<void> {
+    this.customClaims.set(uid, claims || {});
+  }
+
+  clear(): void {
+    this.customClaims.clear();
+  }
+}
+
+export const db = new FakeFirestore();
+export const auth = new FakeAuth();
+export const storage = {};
@@ -0,0 +1,205 @@
+/**
+ * In-memory Firestore REST API covering the calls the Workers API makes:
+ * document get/patch/delete, collection listing and create, :commit and :runQuery
+ * (equality filters, ordering and limits; no cursors), and transactions. A
+ * transaction commit aborts when a document it read has changed since.
+ */
+
+interface StoredDocument {
+  fields: Record<string, any>;
+  createTime: string;
+  updateTime: string;
+}
+
+type FieldFilter = { field: { fieldPath: string }; op: string; value: any };
+
+/**
+ * Turn a typed Firestore value into something comparable
+ */
+function decodeValue(value: any): any {
+  if (!value) return undefined;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('timestampValue' in value) return Date.parse(value.timestampValue);
+  if ('stringValue' in value) return value.stringValue;
+  if ('booleanValue' in value) return value.booleanValue;
+  if ('nullValue' in value) return null;
+  return JSON.stringify(value);
+}
+
+function notFound(): Response {
+  return Response.json({ error: { code: 404, message: 'Document not found', status: 'NOT_FOUND' } }, { status: 404 });
+}
+
+export class FirestoreRestFake {
+  private documents = new Map<string, StoredDocument>();
+  // Bumped on every write, so a transaction can tell a document changed within the same millisecond
+  private revisions = new Map<string, number>();
+  private revision = 0;
+  // Revision of each document a transaction read (0 if it was missing), by transaction id
+  private transactions = new Map<string, Map<string, number>>();
+
+  constructor(readonly projectId: string) {}
+
+  get root(): string {
+    return `projects/${this.projectId}/databases/(default)/documents`;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const prefix = `/v1/${this.root}`;
+    const pathname = decodeURIComponent(url.pathname);
+    if (!pathname.startsWith(prefix)) {
+      return Response.json({ error: { code: 404, message: `Unknown database ${pathname}` } }, { status: 404 });
+    }
+
+    const rest = pathname.slice(prefix.length);
+    if (rest === ':beginTransaction') return this.beginTransaction();
+    if (rest === ':commit') return this.commit(await request.json());
+    if (rest === ':runQuery') return this.runQuery(await request.json());
+
+    const path = rest.replace(/^\//, '');
+    const isCollection = path.split('/').length % 2 === 1;
+
+    if (request.method === 'GET' && isCollection) return this.listCollection(path);
+    if (request.method === 'POST' && isCollection) {
+      const documentPath = `${path}/${url.searchParams.get('documentId') || crypto.randomUUID()}`;
+      if (this.documents.has(documentPath)) {
+        return Response.json({ error: { code: 409, message: 'Document already exists', status: 'ALREADY_EXISTS' } }, { status: 409 });
+      }
+      const body = await request.json() as { fields?: Record<string, any> };
+      this.write(documentPath, body.fields || {}, []);
+      return Response.json(this.toJson(documentPath));
+    }
+    if (request.method === 'GET') {
+      const transaction = url.searchParams.get('transaction');
+      if (transaction) {
+        this.transactions.get(transaction)?.set(path, this.revisions.get(path) ?? 0);
+      }
+      return this.documents.has(path) ? Response.json(this.toJson(path)) : notFound();
+    }
+    if (request.method === 'PATCH') {
+      const body = await request.json() as { fields?: Record<string, any> };
+      this.write(path, body.fields || {}, url.searchParams.getAll('updateMask.fieldPaths'));
+      return Response.json(this.toJson(path));
+    }
+    if (request.method === 'DELETE') {
+      this.remove(path);
+      return Response.json({});
+    }
+
+    return Response.json({ error: { code: 405, message: `${request.method} not supported` } }, { status: 405 });
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.revisions.clear();
+    this.transactions.clear();
+  }
+
+  private write(path: string, fields: Record<string, any>, mask: string[]): void {
+    const now = new Date().toISOString();
+    const existing = this.documents.get(path);
+    let merged = fields;
+
+    if (mask.length > 0) {
+      merged = { ...existing?.fields };
+      for (const fieldPath of mask) {
+        if (fieldPath in fields) {
+          merged[fieldPath] = fields[fieldPath];
+        } else {
+          delete merged[fieldPath];
+        }
+      }
+    }
+
+    this.documents.set(path, { fields: merged, createTime: existing?.createTime || now, updateTime: now });
+    this.revisions.set(path, ++this.revision);
+  }
+
+  private remove(path: string): void {
+    this.documents.delete(path);
+    this.revisions.set(path, ++this.revision);
+  }
+
+  private toJson(path: string) {
+    return { name: `${this.root}/${path}`, ...this.documents.get(path) };
+  }
+
+  private collectionPaths(collectionPath: string): string[] {
+    return [...this.documents.keys()].filter(path =>
+      path.startsWith(`${collectionPath}/`) && !path.slice(collectionPath.length + 1).includes('/'));
+  }
+
+  private listCollection(collectionPath: string): Response {
+    const documents = this.collectionPaths(collectionPath).map(path => this.toJson(path));
+    return Response.json(documents.length > 0 ? { documents } : {});
+  }
+
+  private beginTransaction(): Response {
+    const transaction = btoa(crypto.randomUUID());
+    this.transactions.set(transaction, new Map());
+    return Response.json({ transaction });
+  }
+
+  private commit(body: { writes: any[]; transaction?: string }): Response {
+    if (body.transaction) {
+      const reads = this.transactions.get(body.transaction);
+      this.transactions.delete(body.transaction);
+      if (!reads) {
+        return Response.json({ error: { code: 400, message: 'Unknown transaction', status: 'INVALID_ARGUMENT' } }, { status: 400 });
+      }
+      for (const [path, revision] of reads) {
+        if ((this.revisions.get(path) ?? 0) !== revision) {
+          return Response.json({ error: { code: 409, message: 'Transaction aborted', status: 'ABORTED' } }, { status: 409 });
+        }
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const write of body.writes) {
+      const name: string = write.delete || write.update.name;
+      const path = name.slice(this.root.length + 1);
+      if (write.delete) {
+        this.remove(path);
+      } else {
+        this.write(path, write.update.fields || {}, write.updateMask?.fieldPaths || []);
+      }
+    }
+    return Response.json({ writeResults: body.writes.map(() => ({ updateTime: now })), commitTime: now });
+  }
+
+  private runQuery(body: { structuredQuery: any }): Response {
+    const query = body.structuredQuery;
+    if (query.startAt || query.endAt || query.offset) {
+      return Response.json({ error: { code: 400, message: 'Cursors are not supported by the fake' } }, { status: 400 });
+    }
+
+    const filters: FieldFilter[] = query.where?.compositeFilter?.filters.map((filter: any) => filter.fieldFilter)
+      || (query.where?.fieldFilter ? [query.where.fieldFilter] : []);
+    if (filters.some(filter => filter.op !== 'EQUAL')) {
+      return Response.json({ error: { code: 400, message: 'Only EQUAL filters are supported by the fake' } }, { status: 400 });
+    }
+
+    let paths = this.collectionPaths(query.from[0].collectionId).filter(path => {
+      const fields = this.documents.get(path)!.fields;
+      return filters.every(filter => decodeValue(fields[filter.field.fieldPath]) === decodeValue(filter.value));
+    });
+
+    for (const order of [...(query.orderBy || [])].reverse()) {
+      const fieldPath: string = order.field.fieldPath;
+      const sign = order.direction === 'DESCENDING' ? -1 : 1;
+      const key = (path: string) => fieldPath === '__name__' ? path : decodeValue(this.documents.get(path)!.fields[fieldPath]);
+      paths = [...paths].sort((a, b) => key(a) === key(b) ? 0 : (key(a) > key(b) ? sign : -sign));
+    }
+
+    if (query.limit !== undefined) {
+      paths = paths.slice(0, query.limit);
+    }
+
+    const readTime = new Date().toISOString();
+    return Response.json(paths.length > 0
+      ? paths.map(path => ({ document: this.toJson(path), readTime }))
+      : [{ readTime }]);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Running scenarios: the backends each one runs against, for describe.each
+ */
+
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { Backend } from './backend';
+import { startExpressBackend } from './expressBackend';
+import { startWorkerBackend } from './workerBackend';
+
+export const BACKENDS: Array<[string, () => Promise<Backend>]> = [
+  ['express', startExpressBackend],
+  ['worker', startWorkerBackend]
+];
+
+/**
+ * Start the backend for a describe block and reset its state between tests
+ */
+export function useBackend(start: () => Promise<Backend>): () => Backend {
+  let backend: Backend;
+
+  beforeAll(async () => {
+    backend = await start();
+  });
+
+  afterAll(async () => {
+    await backend?.close();
+  });
+
+  beforeEach(() => {
+    backend.reset();
+  });
+
+  return () => backend;
+}
+
+/**
+ * JSON request helper
+ */
+export function json(method: string, body: unknown, headers: Record<string, string> = {}): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Response shapes both backends must return, as vitest asymmetric matchers.
+ * Only fields the client reads are pinned; extra fields are allowed.
+ */
+
+import { expect } from 'vitest';
+
+const isoDate = expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/);
+const anyNumber = expect.any(Number);
+const anyString = expect.any(String);
+const anyBoolean = expect.any(Boolean);
+
+const oneOf = (...values: string[]) => expect.toSatisfy((value: unknown) => values.includes(value as string));
+
+const everyItem = (schema: object) => expect.toSatisfy((value: unknown) =>
+  Array.isArray(value) && value.every(item => expect.objectContaining(schema).asymmetricMatch(item)));
+
+export const errorResponse = (code: string) => ({
+  success: false,
+  code,
+  message: anyString,
+  error: anyString,
+  requestId: anyString,
+  timestamp: isoDate
+});
+
+export const successResponse = (data: unknown) => ({
+  success: true,
+  data,
+  timestamp: isoDate
+});
+
+export const userProfile = {
+  id: anyString,
+  email: anyString,
+  displayName: anyString,
+  photoURL: anyString,
+  role: oneOf('student', 'instructor', 'admin'),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+  lastLoginAt: isoDate
+};
+
+export const userStats = {
+  userId: anyString,
+  totalChallengesCompleted: anyNumber,
+  totalScore: anyNumber,
+  currentStreak: anyNumber,
+  maxStreak: anyNumber,
+  averageScore: anyNumber,
+  lastChallengeAt: isoDate,
+  updatedAt: isoDate
+};
+
+export const challengeProgress = {
+  status: oneOf('LOCKED', 'UNLOCKED', 'COMPLETED'),
+  streak: anyNumber,
+  previousSimilarityScore: anyNumber
+};
+
+export const imageProvider = {
+  id: anyString,
+  name: anyString,
+  description: anyString,
+  capabilities: { seed: anyBoolean, network: anyBoolean, apiKey: anyBoolean },
+  sizes: everyItem({ width: anyNumber, height: anyNumber })
+};
+
+export const providerList = {
+  providers: everyItem(imageProvider),
+  defaultProvider: anyString
+};
+
+export const generatedImage = {
+  success: true,
+  imageId: anyString,
+  imageUrl: anyString,
+  provider: anyString,
+  model: anyString,
+  timestamp: isoDate
+};
+
+export const analysisResult = {
+  similarityScore: anyNumber,
+  feedback: everyItem({}),
+  passed: anyBoolean,
+  detailedAnalysis: {
+    colorMatch: anyNumber,
+    shapeMatch: anyNumber,
+    compositionMatch: anyNumber,
+    overallQuality: anyNumber
+  },
+  analyzer: oneOf('gemini', 'local', 'blended')
+};
+
+export const scoringResult = {
+  attemptId: anyString,
+  userId: anyString,
+  challengeId: anyNumber,
+  score: anyNumber,
+  passed: anyBoolean,
+  justCompleted: anyBoolean,
+  streakChange: oneOf('increase', 'decrease', 'none'),
+  progress: expect.any(Object),
+  stats: userStats,
+  issuedAt: isoDate,
+  signature: anyString
+};
+
+export const analysisResponse = {
+  success: true,
+  result: analysisResult,
+  scoring: scoringResult,
+  timestamp: isoDate
+};
+
+export { everyItem };
@@ -0,0 +1,96 @@
+/**
+ * Stand-ins for every external service the backends call: the frontend's
+ * catalog images, Pollinations, the Gemini API, Google's OAuth token endpoint, the Firebase signing keys
+ * and (for the Worker) the Firestore REST API. Express reaches it through
+ * a stubbed global fetch, the Worker through Miniflare's outbound service.
+ */
+
+import { bytesToBase64, renderPromptImage } from '@prompt-tool/core';
+import { FirestoreRestFake } from './firestoreRest';
+
+// What the stubbed Gemini analysis reports for every attempt
+export const GEMINI_ANALYSIS = {
+  similarityScore: 86,
+  feedback: ['Great colors!', 'Try describing the background in more detail.'],
+  detailedAnalysis: { colorMatch: 90, shapeMatch: 84, compositionMatch: 82, overallQuality: 88 }
+};
+
+// Frontends the backends allow by default: Express, then the Worker
+export const FRONTEND_HOSTS = ['localhost:5173', 'prompt-proj1.web.app'];
+
+/**
+ * What the frontend serves for a catalog image, e.g. challenges/challenge-1.png
+ */
+export function catalogImage(path: string): Uint8Array {
+  return renderPromptImage(path, 64, 64);
+}
+
+export interface UpstreamOptions {
+  jwks: () => JsonWebKey[];
+  firestore?: FirestoreRestFake;
+}
+
+export class Upstream {
+  // "METHOD host/path" of every request, for asserting what a scenario called
+  readonly calls: string[] = [];
+
+  constructor(private readonly options: UpstreamOptions) {}
+
+  calledHost(host: string): number {
+    return this.calls.filter(call => call.split(' ')[1].startsWith(host)).length;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    this.calls.push(`${request.method} ${url.host}${url.pathname}`);
+
+    if (FRONTEND_HOSTS.includes(url.host) && url.pathname.startsWith('/challenges/')) {
+      return new Response(new Uint8Array(catalogImage(url.pathname.slice(1))), { headers: { 'Content-Type': 'image/png' } });
+    }
+
+    if (url.host === 'image.pollinations.ai') {
+      // A small image keeps the scenarios fast; the requested size doesn't matter here
+      const prompt = decodeURIComponent(url.pathname.replace('/prompt/', ''));
+      return new Response(new Uint8Array(renderPromptImage(prompt, 64, 64)), { headers: { 'Content-Type': 'image/png' } });
+    }
+
+    if (url.host === 'generativelanguage.googleapis.com') {
+      return this.handleGemini(url);
+    }
+
+    if (url.host === 'oauth2.googleapis.com') {
+      return Response.json({ access_token: 'contract-access-token', expires_in: 3600, token_type: 'Bearer' });
+    }
+
+    if (url.host === 'www.googleapis.com' && url.pathname.startsWith('/service_accounts/')) {
+      return Response.json({ keys: this.options.jwks() }, {
+        headers: { 'Cache-Control': 'public, max-age=3600' }
+      });
+    }
+
+    if (url.host === 'firestore.googleapis.com' && this.options.firestore) {
+      return this.options.firestore.handle(request);
+    }
+
+    return Response.json({ error: `No stub for ${request.method} ${request.url}` }, { status: 502 });
+  }
+
+  private handleGemini(url: URL): Response {
+    if (url.pathname.endsWith(':generateContent')) {
+      return Response.json({
+        candidates: [{
+          content: { role: 'model', parts: [{ text: JSON.stringify(GEMINI_ANALYSIS) }] },
+          finishReason: 'STOP'
+        }]
+      });
+    }
+
+    if (url.pathname.endsWith(':predict')) {
+      return Response.json({
+        predictions: [{ bytesBase64Encoded: bytesToBase64(renderPromptImage('imagen', 64, 64)), mimeType: 'image/png' }]
+      });
+    }
+
+    return Response.json({ error: { code: 404, message: `Unknown model method ${url.pathname}` } }, { status: 404 });
+  }
+}
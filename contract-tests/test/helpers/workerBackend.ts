@@ -0,0 +1,70 @@
+/**
+ * Bundles the Workers API and runs it in Miniflare. Every outbound fetch,
+ * Firestore REST included, is answered by the upstream stub.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { Miniflare, Request as MiniflareRequest, Response as MiniflareResponse } from 'miniflare';
+import { Backend, getSigningKeys, PROJECT_ID, SHARED_ENV } from './backend';
+import { FirestoreRestFake } from './firestoreRest';
+import { Upstream } from './upstream';
+
+const WORKER_ENTRY = fileURLToPath(new URL('../../../workers-api/src/index.ts', import.meta.url));
+
+/**
+ * Bundle the Worker the way wrangler resolves packages for workerd
+ */
+async function bundleWorker(): Promise<string> {
+  const result = await build({
+    entryPoints: [WORKER_ENTRY],
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'neutral',
+    target: 'es2022',
+    conditions: ['workerd', 'worker', 'browser'],
+    mainFields: ['browser', 'module', 'main'],
+    // Provided by workerd under the nodejs_als flag
+    external: ['node:async_hooks'],
+    logLevel: 'silent'
+  });
+  return result.outputFiles[0].text;
+}
+
+export async function startWorkerBackend(): Promise<Backend> {
+  const { idToken, serviceAccountPem } = await getSigningKeys();
+  const firestore = new FirestoreRestFake(PROJECT_ID);
+  const upstream = new Upstream({ jwks: () => [idToken.publicJwk], firestore });
+
+  // Listing the module skips Miniflare's import scan, which rejects Hono's dynamic import
+  const mf = new Miniflare({
+    modules: [{ type: 'ESModule', path: 'worker.mjs', contents: await bundleWorker() }],
+    compatibilityDate: '2025-09-10',
+    compatibilityFlags: ['nodejs_als'],
+    bindings: {
+      ...SHARED_ENV,
+      FIREBASE_PROJECT_ID: PROJECT_ID,
+      FIREBASE_CLIENT_EMAIL: `contract-tests@${PROJECT_ID}.iam.gserviceaccount.com`,
+      FIREBASE_PRIVATE_KEY: serviceAccountPem,
+      CHALLENGE_STORE: 'memory'
+    },
+    r2Buckets: ['GENERATED_IMAGES'],
+    durableObjects: { KEY_METRICS: 'KeyMetricsObject' },
+    outboundService: async (request: MiniflareRequest) =>
+      await upstream.handle(request as unknown as Request) as unknown as MiniflareResponse
+  });
+  await mf.ready;
+
+  return {
+    name: 'worker',
+    upstream,
+    request: async (requestPath, init) =>
+      await mf.dispatchFetch(`http://localhost${requestPath}`, init as any) as unknown as Response,
+    reset() {
+      firestore.clear();
+      upstream.calls.length = 0;
+    },
+    close: () => mf.dispose()
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { bytesToBase64 } from '@prompt-tool/core';
+import { BACKENDS, json, useBackend } from './helpers/scenario';
+import { errorResponse, generatedImage, providerList, successResponse } from './helpers/schemas';
+import { catalogImage } from './helpers/upstream';
+
+describe.each(BACKENDS)('%s: images', (_name, start) => {
+  const backend = useBackend(start);
+
+  it('lists the image providers', async () => {
+    const response = await backend().request('/api/images/providers');
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject(successResponse(providerList));
+    expect(body.data.defaultProvider).toBe('pollinations-flux');
+    expect(body.data.providers.map((provider: any) => provider.id)).toContain('local-procedural');
+  });
+
+  it('generates with the default provider and serves the stored image', async () => {
+    const response = await backend().request('/api/images/generate', json('POST', { prompt: 'a red circle' }));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ ...generatedImage, provider: 'pollinations-flux' });
+    expect(backend().upstream.calledHost('image.pollinations.ai')).toBe(1);
+
+    const image = await backend().request(new URL(body.imageUrl).pathname);
+    expect(image.status).toBe(200);
+    expect(image.headers.get('content-type')).toBe('image/png');
+    expect((await image.arrayBuffer()).byteLength).toBeGreaterThan(0);
+  });
+
+  it('generates with Gemini Imagen', async () => {
+    const response = await backend().request('/api/images/generate', json('POST', {
+      prompt: 'a red circle',
+      service: 'gemini-imagen-3'
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ ...generatedImage, provider: 'gemini-imagen-3' });
+    expect(backend().upstream.calledHost('generativelanguage.googleapis.com')).toBe(1);
+  });
+
+  it('generates offline with the local provider', async () => {
+    const response = await backend().request('/api/images/generate', json('POST', {
+      prompt: 'a red circle',
+      service: 'local-procedural',
+      seed: 7
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ ...generatedImage, provider: 'local-procedural' });
+    expect(backend().upstream.calls).toEqual([]);
+  });
+
+  it('rejects invalid generation requests', async () => {
+    const cases: Array<[unknown, string]> = [
+      [{}, 'INVALID_PROMPT'],
+      [{ prompt: '   ' }, 'EMPTY_PROMPT'],
+      [{ prompt: 'a red circle', seed: 1.5 }, 'INVALID_SEED'],
+      [{ prompt: 'a red circle', service: 'nope' }, 'UNKNOWN_IMAGE_SERVICE'],
+      [{ prompt: 'a red circle', service: 'gemini-imagen-3', size: { width: 16, height: 16 } }, 'UNSUPPORTED_SIZE']
+    ];
+
+    for (const [body, code] of cases) {
+      const response = await backend().request('/api/images/generate', json('POST', body));
+      expect(response.status, code).toBe(400);
+      expect(await response.json()).toMatchObject(errorResponse(code));
+    }
+  });
+
+  it('lists every failing field of a rejected request', async () => {
+    const response = await backend().request('/api/images/generate', json('POST', { seed: 1.5 }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      ...errorResponse('INVALID_PROMPT'),
+      fields: [
+        { field: 'prompt', code: 'INVALID_PROMPT', message: expect.any(String) },
+        { field: 'seed', code: 'INVALID_SEED', message: expect.any(String) }
+      ]
+    });
+  });
+
+  it('loads catalog challenge images from the frontend', async () => {
+    const response = await backend().request('/api/images/local', json('POST', { imageUrl: 'challenges/challenge-1.png' }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).imageBase64).toBe(bytesToBase64(catalogImage('challenges/challenge-1.png')));
+    expect(backend().upstream.calls).toHaveLength(1);
+  });
+
+  it('refuses to fetch challenge images from any other origin', async () => {
+    const urls = [
+      'http://169.254.169.254/latest/meta-data/',
+      'http://127.0.0.1:8080/internal',
+      '//attacker.example/challenges/challenge-1.png',
+      'https://prompt-proj1.web.app.attacker.example/challenges/challenge-1.png',
+      'file:///etc/passwd'
+    ];
+
+    for (const imageUrl of urls) {
+      const response = await backend().request('/api/images/local', json('POST', { imageUrl }));
+      expect(response.status, imageUrl).toBe(400);
+      expect(await response.json()).toMatchObject(errorResponse('IMAGE_URL_NOT_ALLOWED'));
+    }
+    expect(backend().upstream.calls).toEqual([]);
+  });
+
+  it('returns 404 for unknown images', async () => {
+    const response = await backend().request('/api/images/00000000-0000-4000-8000-000000000000');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject(errorResponse('IMAGE_NOT_FOUND'));
+  });
+
+  it('returns 404 for unknown routes', async () => {
+    const response = await backend().request('/api/nope');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      ...errorResponse('ROUTE_NOT_FOUND'),
+      details: { method: 'GET', path: '/api/nope' }
+    });
+  });
+
+  it('echoes the request id in the header and the error body', async () => {
+    const response = await backend().request('/api/nope', { headers: { 'X-Request-Id': 'trace-123' } });
+
+    expect(response.headers.get('X-Request-Id')).toBe('trace-123');
+    expect((await response.json()).requestId).toBe('trace-123');
+
+    const generated = await backend().request('/api/nope');
+    expect((await generated.json()).requestId).toBe(generated.headers.get('X-Request-Id'));
+  });
+});
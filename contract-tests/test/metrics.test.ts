@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { startExpressBackend } from './helpers/expressBackend';
+import { useBackend } from './helpers/scenario';
+import { errorResponse } from './helpers/schemas';
+
+const TOKEN = 'scrape-token';
+const AUTHORIZED = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+/**
+ * Value of one series in a Prometheus text exposition, 0 when it hasn't been recorded
+ */
+function sample(text: string, series: string): number {
+  const line = text.split('\n').find(candidate => candidate.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : 0;
+}
+
+// Only the Express server serves /metrics; the Worker has no process to scrape
+describe('express: metrics', () => {
+  const backend = useBackend(startExpressBackend);
+
+  const scrape = async () => {
+    const response = await backend().request('/metrics', AUTHORIZED);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    return response.text();
+  };
+
+  beforeEach(() => {
+    process.env.METRICS_TOKEN = TOKEN;
+  });
+
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+  });
+
+  it('is disabled until a token is configured', async () => {
+    delete process.env.METRICS_TOKEN;
+
+    const response = await backend().request('/metrics');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject(errorResponse('NOT_FOUND'));
+  });
+
+  it('requires the configured token', async () => {
+    const missing = await backend().request('/metrics');
+    const wrong = await backend().request('/metrics', { headers: { Authorization: 'Bearer nope' } });
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toMatchObject(errorResponse('INVALID_TOKEN'));
+  });
+
+  it('counts requests by route and times the Firestore calls behind them', async () => {
+    const requests = 'http_requests_total{method="GET",route="/api/challenges/",status="200"}';
+    const queries = 'firestore_operation_duration_seconds_count{operation="query",collection="challenges"}';
+    // A request is counted when its response finishes, which can be just
+    // after the client has read it
+    const scrapeOnceCounted = (count: number) => vi.waitFor(async () => {
+      const text = await scrape();
+      expect(sample(text, requests)).toBeGreaterThanOrEqual(count);
+      return text;
+    });
+
+    // The first listing seeds the catalog, so count from a seeded state
+    await backend().request('/api/challenges');
+    const before = await scrapeOnceCounted(1);
+
+    await backend().request('/api/challenges');
+    await backend().request('/api/challenges');
+    const after = await scrapeOnceCounted(sample(before, requests) + 2);
+
+    expect(after).toContain('# TYPE http_requests_total counter');
+    expect(after).toContain('# TYPE firestore_operation_duration_seconds histogram');
+    expect(sample(after, requests) - sample(before, requests)).toBe(2);
+    expect(sample(after, queries) - sample(before, queries)).toBe(2);
+    expect(after).toMatch(/^http_request_duration_seconds_bucket\{method="GET",route="\/api\/challenges\/",status="200",le="\+Inf"\} \d+$/m);
+  });
+});
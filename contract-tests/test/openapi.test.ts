@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { API_ROUTES, buildOpenApiDocument } from '@prompt-tool/core';
+import { BACKENDS, useBackend } from './helpers/scenario';
+
+describe.each(BACKENDS)('%s: openapi', (_name, start) => {
+  const backend = useBackend(start);
+
+  it('serves the OpenAPI document built from the route schemas', async () => {
+    const response = await backend().request('/api/openapi.json');
+
+    expect(response.status).toBe(200);
+    const document = await response.json();
+    expect(document).toEqual(buildOpenApiDocument());
+
+    const operationIds = Object.values(document.paths).flatMap((path: any) =>
+      Object.values(path).map((operation: any) => operation.operationId));
+    expect(operationIds.sort()).toEqual(Object.keys(API_ROUTES).sort());
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { signIn } from './helpers/backend';
+import { BACKENDS, useBackend } from './helpers/scenario';
+import { errorResponse } from './helpers/schemas';
+
+describe.each(BACKENDS)('%s: status', (name, start) => {
+  const backend = useBackend(start);
+
+  it('reports the key pool and where its metrics live, without per-key details for anonymous callers', async () => {
+    const response = await backend().request('/api/status/keys');
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.keyManager).toEqual({
+      store: name === 'worker' ? 'durable-object' : 'memory',
+      totalKeys: 1,
+      availableKeys: 1,
+      blockedKeys: 0
+    });
+  });
+
+  it('keeps operation metrics to admins', async () => {
+    const anonymous = await backend().request('/api/status/metrics');
+    expect(anonymous.status).toBe(401);
+    expect(await anonymous.json()).toMatchObject(errorResponse('NO_TOKEN'));
+
+    const student = await backend().request('/api/status/metrics', { headers: await signIn('student-1') });
+    expect(student.status).toBe(403);
+    expect(await student.json()).toMatchObject(errorResponse('FORBIDDEN'));
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { signIn } from './helpers/backend';
+import { BACKENDS, json, useBackend } from './helpers/scenario';
+import { challengeProgress, errorResponse, everyItem, successResponse, userProfile, userStats } from './helpers/schemas';
+import { GEMINI_ANALYSIS } from './helpers/upstream';
+
+describe.each(BACKENDS)('%s: users', (_name, start) => {
+  const backend = useBackend(start);
+
+  const request = async (uid: string, path: string, init: RequestInit = {}) =>
+    backend().request(path, { ...init, headers: { ...init.headers, ...await signIn(uid) } });
+
+  const createProfile = (uid: string, displayName: string = 'Asha') =>
+    request(uid, '/api/users/profile', json('POST', { displayName }));
+
+  const passChallenge = async (uid: string, challengeId: number) => {
+    const generated = await request(uid, '/api/images/generate', json('POST', {
+      prompt: 'a red circle',
+      service: 'local-procedural'
+    }));
+    const response = await request(uid, '/api/analysis/compare', json('POST', {
+      challengeId,
+      generatedImageId: (await generated.json()).imageId,
+      userPrompt: 'a red circle'
+    }));
+    expect(response.status).toBe(200);
+  };
+
+  describe('profile', () => {
+    it('creates, reads, updates and deletes the profile', async () => {
+      const missing = await request('student-1', '/api/users/profile');
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toMatchObject(errorResponse('USER_NOT_FOUND'));
+
+      const created = await createProfile('student-1');
+      expect(created.status).toBe(200);
+      expect(await created.json()).toMatchObject(successResponse({
+        ...userProfile,
+        id: 'student-1',
+        email: 'student-1@example.com',
+        displayName: 'Asha',
+        role: 'student'
+      }));
+
+      const read = await request('student-1', '/api/users/profile');
+      expect(read.status).toBe(200);
+      expect(await read.json()).toMatchObject(successResponse({ ...userProfile, displayName: 'Asha', role: 'student' }));
+
+      const updated = await request('student-1', '/api/users/profile', json('PATCH', {
+        displayName: 'Asha K',
+        feedbackPersona: 'quick-tips'
+      }));
+      expect(updated.status).toBe(200);
+      expect(await updated.json()).toMatchObject(successResponse({
+        ...userProfile,
+        displayName: 'Asha K',
+        feedbackPersona: 'quick-tips'
+      }));
+
+      const deleted = await request('student-1', '/api/users/profile', { method: 'DELETE' });
+      expect(deleted.status).toBe(200);
+      expect(await deleted.json()).toMatchObject({ success: true });
+
+      const gone = await request('student-1', '/api/users/profile');
+      expect(gone.status).toBe(404);
+    });
+
+    it('rejects fields clients may not change', async () => {
+      await createProfile('student-1');
+
+      const role = await request('student-1', '/api/users/profile', json('PATCH', { role: 'admin' }));
+      expect(role.status).toBe(400);
+      expect(await role.json()).toMatchObject(errorResponse('INVALID_FIELDS'));
+
+      const persona = await request('student-1', '/api/users/profile', json('PATCH', { feedbackPersona: 'nope' }));
+      expect(persona.status).toBe(400);
+      expect(await persona.json()).toMatchObject(errorResponse('UNKNOWN_PERSONA'));
+    });
+
+    it('rejects missing and malformed tokens', async () => {
+      const missing = await backend().request('/api/users/profile');
+      expect(missing.status).toBe(401);
+      expect(await missing.json()).toMatchObject(errorResponse('NO_TOKEN'));
+
+      const malformed = await backend().request('/api/users/profile', { headers: { Authorization: 'Token abc' } });
+      expect(malformed.status).toBe(401);
+      expect(await malformed.json()).toMatchObject(errorResponse('INVALID_TOKEN_FORMAT'));
+    });
+  });
+
+  describe('progress', () => {
+    it('is empty until an attempt is scored', async () => {
+      const response = await request('student-1', '/api/users/progress');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject(successResponse({}));
+    });
+
+    it('reflects scored attempts', async () => {
+      await passChallenge('student-1', 1);
+
+      const response = await request('student-1', '/api/users/progress');
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toMatchObject(successResponse({
+        1: { ...challengeProgress, status: 'COMPLETED', previousSimilarityScore: GEMINI_ANALYSIS.similarityScore },
+        2: { ...challengeProgress, status: 'UNLOCKED' }
+      }));
+    });
+
+    it('rejects client-written progress', async () => {
+      const response = await request('student-1', '/api/users/progress', json('POST', { progress: {} }));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject(errorResponse('CLIENT_SCORES_REJECTED'));
+    });
+  });
+
+  describe('stats', () => {
+    it('starts at zero for a new profile', async () => {
+      await createProfile('student-1');
+
+      const response = await request('student-1', '/api/users/stats');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject(successResponse({
+        ...userStats,
+        userId: 'student-1',
+        totalChallengesCompleted: 0,
+        totalScore: 0
+      }));
+    });
+
+    it('is null for users who have not signed up', async () => {
+      const response = await request('student-1', '/api/users/stats');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject(successResponse(null));
+    });
+
+    it('counts completed challenges', async () => {
+      await createProfile('student-1');
+      await passChallenge('student-1', 1);
+
+      const response = await request('student-1', '/api/users/stats');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject(successResponse({
+        ...userStats,
+        totalChallengesCompleted: 1,
+        totalScore: GEMINI_ANALYSIS.similarityScore,
+        averageScore: GEMINI_ANALYSIS.similarityScore
+      }));
+    });
+
+    it('rejects client-written stats', async () => {
+      const response = await request('student-1', '/api/users/stats/update', json('POST', { score: 100 }));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject(errorResponse('CLIENT_SCORES_REJECTED'));
+    });
+  });
+
+  describe('leaderboard', () => {
+    it('ranks users by total score without signing in', async () => {
+      for (const uid of ['student-1', 'student-2', 'student-3']) {
+        await createProfile(uid);
+      }
+      await passChallenge('student-2', 1);
+      await passChallenge('student-2', 2);
+      await passChallenge('student-3', 1);
+
+      const response = await backend().request('/api/users/leaderboard');
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toMatchObject(successResponse(everyItem(userStats)));
+      expect(body.data.map((entry: any) => entry.userId)).toEqual(['student-2', 'student-3', 'student-1']);
+
+      const top = await backend().request('/api/users/leaderboard?limit=1');
+      expect((await top.json()).data.map((entry: any) => entry.userId)).toEqual(['student-2']);
+    });
+
+    it('rejects out-of-range limits', async () => {
+      const response = await backend().request('/api/users/leaderboard?limit=500');
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject(errorResponse('INVALID_LIMIT'));
+    });
+  });
+});
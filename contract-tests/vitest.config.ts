@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Each file boots both backends; running them one at a time keeps memory in check
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 60000
+  }
+});
@@ -0,0 +1,141 @@
+/**
+ * 🤖 Gemini Analyzer
+ * Scores a generated image against the challenge target with Gemini, then
+ * hands over to the local analyzer according to ANALYSIS_MODE.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { AnalysisResult, ApiError, Challenge, FeedbackPersona, GeminiKeyRunner } from '../types.js';
+import { AnalysisOptions, analyzeWithFallback } from './localAnalyzer.js';
+import { clampScore, parseDetailedAnalysis } from './scores.js';
+import { buildAnalysisSchema, buildRubricPrompt, parseRubricEvaluation, scoreRubricEvaluation } from './rubric.js';
+import { buildSystemPrompt } from './persona.js';
+import { logger } from '../logger.js';
+
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+export interface AnalysisInput {
+  userName: string;
+  challenge: Challenge;
+  generatedImageBase64: string;
+  targetImageBase64: string;
+  userPrompt: string;
+  persona: FeedbackPersona;
+}
+
+/**
+ * Name the feedback addresses the student by, e.g. "asha.k@example.com" -> "Asha"
+ */
+export function getUserName(email?: string): string {
+  if (!email) return 'User';
+  const namePart = email.split('@')[0].split('.')[0];
+  return namePart.charAt(0).toUpperCase() + namePart.slice(1);
+}
+
+function buildUserTurnPrompt({ userName, challenge, userPrompt }: AnalysisInput): string {
+  return `
+  Challenge Name: "${challenge.name}"
+  Challenge Description: "${challenge.description}"
+  The student ${userName} generated this image using their prompt.
+  Student's Prompt: "${userPrompt}"
+
+  Compare the TARGET IMAGE (first image - what they should match) with the GENERATED IMAGE (second image - what they actually created).
+
+  ${buildRubricPrompt(challenge.rubric)}
+
+  Return JSON with:
+  - similarityScore: number (0-100, be strict!)
+  - feedback: array of suggestions for improvement, in the feedback style above
+  - detailedAnalysis: 0-100 scores for colorMatch (colors and palette), shapeMatch (objects and their shapes),
+    compositionMatch (layout, framing and placement) and overallQuality (technical quality and detail)`;
+}
+
+/**
+ * Turn Gemini's JSON reply into an AnalysisResult. Throws when the reply
+ * isn't JSON, so the attempt is scored by the local analyzer instead.
+ */
+export function parseGeminiAnalysis(jsonText: string, challenge: Challenge): AnalysisResult {
+  try {
+    const parsed = JSON.parse(jsonText);
+    const reportedScore = clampScore(parsed.similarityScore) ?? 0;
+    const rubric = parseRubricEvaluation(parsed.rubric, challenge.rubric, reportedScore);
+    return {
+      similarityScore: scoreRubricEvaluation(reportedScore, rubric),
+      feedback: Array.isArray(parsed.feedback) ? parsed.feedback : ['Analysis failed, but keep trying! 🤖'],
+      detailedAnalysis: parseDetailedAnalysis(parsed.detailedAnalysis, reportedScore),
+      rubric
+    };
+  } catch (parseError) {
+    logger.error('❌ Failed to parse Gemini response as JSON', { error: parseError });
+    throw new Error('Gemini response is not valid analysis JSON');
+  }
+}
+
+/**
+ * Score images with Gemini, using the key pool for rotation.
+ * Throws when no key can complete the request.
+ */
+export async function analyzeWithGemini(keyRunner: GeminiKeyRunner, input: AnalysisInput): Promise<AnalysisResult> {
+  const { challenge, persona, userName, generatedImageBase64, targetImageBase64 } = input;
+
+  const response = await keyRunner.executeWithRetry(async (apiKey) => {
+    const gemini = new GoogleGenAI({ apiKey });
+
+    return await gemini.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          { text: "TARGET IMAGE (what student should match):" },
+          { inlineData: { data: targetImageBase64, mimeType: "image/jpeg" } },
+          { text: "GENERATED IMAGE (what student actually created):" },
+          { inlineData: { data: generatedImageBase64, mimeType: "image/jpeg" } },
+          { text: buildUserTurnPrompt(input) },
+        ]
+      },
+      config: {
+        systemInstruction: buildSystemPrompt(persona, userName),
+        responseMimeType: "application/json",
+        responseSchema: buildAnalysisSchema(challenge.rubric),
+      }
+    });
+  }, 'image-analysis', ANALYSIS_MODEL);
+
+  const jsonText = response.text?.trim() || '';
+  if (!jsonText) {
+    throw new Error("Empty response from Gemini API");
+  }
+
+  return parseGeminiAnalysis(jsonText, challenge);
+}
+
+/**
+ * 🤖 Analyze a generated image against the challenge target.
+ * ANALYSIS_MODE picks the analyzer: "gemini" (default) falls back to the
+ * local analyzer when Gemini fails, "blend" mixes both scores, "local"
+ * never calls Gemini. Feedback is in the persona's voice whichever
+ * analyzer scored the attempt.
+ */
+export async function analyzeImages(
+  options: AnalysisOptions,
+  keyRunner: GeminiKeyRunner,
+  input: AnalysisInput
+): Promise<AnalysisResult> {
+  if (!input.targetImageBase64) {
+    throw new ApiError('Target image is missing', 400, 'MISSING_TARGET_IMAGE');
+  }
+
+  if (!input.generatedImageBase64) {
+    throw new ApiError('Generated image is missing', 400, 'INVALID_GENERATED_IMAGE');
+  }
+
+  const result = await analyzeWithFallback(
+    options,
+    () => analyzeWithGemini(keyRunner, input),
+    input.generatedImageBase64,
+    input.targetImageBase64,
+    input.persona
+  );
+
+  logger.info(`✅ Analysis completed (${result.analyzer}) - Score: ${result.similarityScore}%`);
+  return result;
+}
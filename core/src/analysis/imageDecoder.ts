@@ -0,0 +1,204 @@
+/**
+ * 🖼️ Image decoding for local analysis
+ * PNG is decoded here (inflate via DecompressionStream), JPEG with jpeg-js.
+ * Both run unchanged in Node and Workers.
+ */
+
+import { decode as decodeJpeg } from 'jpeg-js';
+import { base64ToBytes } from '../encoding.js';
+import { ApiError } from '../types.js';
+
+export interface Raster {
+  width: number;
+  height: number;
+  data: Uint8Array;  // RGBA, row by row
+}
+
+// Refuse images that would take too much memory to decode
+const MAX_PIXELS = 4096 * 4096;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a non-interlaced PNG with 8 or 16 bits per channel
+ */
+async function decodePng(bytes: Uint8Array): Promise<Raster> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels || interlace !== 0 || !(bitDepth === 8 || (bitDepth === 16 && colorType !== 3)) || (colorType === 3 && !palette)) {
+    throw new ApiError(`Unsupported PNG format (color type ${colorType}, ${bitDepth}-bit, interlace ${interlace})`, 422, 'UNSUPPORTED_IMAGE');
+  }
+  if (width === 0 || height === 0 || width * height > MAX_PIXELS) {
+    throw new ApiError(`Image is too large or empty (${width}x${height})`, 422, 'UNSUPPORTED_IMAGE');
+  }
+
+  const compressed = new Uint8Array(idat.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, position);
+    position += chunk.length;
+  }
+  const scanlines = await inflate(compressed);
+
+  const bytesPerPixel = channels * (bitDepth / 8);
+  const stride = width * bytesPerPixel;
+  if (scanlines.length < (stride + 1) * height) {
+    throw new ApiError('PNG image data is truncated', 422, 'UNSUPPORTED_IMAGE');
+  }
+
+  // Undo the per-row filters in place
+  const raw = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = scanlines[y * (stride + 1)];
+    const row = scanlines.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? raw[out + x - bytesPerPixel] : 0;
+      const up = y > 0 ? raw[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? raw[out - stride + x - bytesPerPixel] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+      }
+      raw[out + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  // Expand to RGBA; 16-bit samples keep their high byte
+  const step = bitDepth / 8;
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const sample = (channel: number) => raw[(i * channels + channel) * step];
+    let rgba: [number, number, number, number];
+    switch (colorType) {
+      case 0: rgba = [sample(0), sample(0), sample(0), 255]; break;
+      case 2: rgba = [sample(0), sample(1), sample(2), 255]; break;
+      case 3: {
+        const index = sample(0) * 3;
+        rgba = [palette![index], palette![index + 1], palette![index + 2], 255];
+        break;
+      }
+      case 4: rgba = [sample(0), sample(0), sample(0), sample(1)]; break;
+      default: rgba = [sample(0), sample(1), sample(2), sample(3)];
+    }
+    data.set(rgba, i * 4);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Decode a base64 PNG or JPEG into RGBA pixels
+ */
+export async function decodeImage(base64: string): Promise<Raster> {
+  const bytes = base64ToBytes(base64);
+
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return decodePng(bytes);
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    try {
+      const { width, height, data } = decodeJpeg(bytes, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_PIXELS / 1_000_000
+      });
+      return { width, height, data };
+    } catch (error) {
+      throw new ApiError(`Failed to decode JPEG: ${error instanceof Error ? error.message : 'unknown error'}`, 422, 'UNSUPPORTED_IMAGE');
+    }
+  }
+
+  throw new ApiError('Only PNG and JPEG images can be analyzed locally', 422, 'UNSUPPORTED_IMAGE');
+}
+
+/**
+ * Box-filter resize, compositing transparency onto white
+ */
+export function resizeRaster(source: Raster, width: number, height: number): Raster {
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * source.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * source.height) / height));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * source.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * source.width) / width));
+
+      let r = 0, g = 0, b = 0, count = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const i = (sy * source.width + sx) * 4;
+          const alpha = source.data[i + 3] / 255;
+          r += source.data[i] * alpha + 255 * (1 - alpha);
+          g += source.data[i + 1] * alpha + 255 * (1 - alpha);
+          b += source.data[i + 2] * alpha + 255 * (1 - alpha);
+          count++;
+        }
+      }
+
+      data.set([Math.round(r / count), Math.round(g / count), Math.round(b / count), 255], (y * width + x) * 4);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Luma (ITU-R BT.601), 0-255 per pixel
+ */
+export function toGrayscale(raster: Raster): Float64Array {
+  const gray = new Float64Array(raster.width * raster.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * raster.data[i * 4] + 0.587 * raster.data[i * 4 + 1] + 0.114 * raster.data[i * 4 + 2];
+  }
+  return gray;
+}
@@ -0,0 +1,177 @@
+/**
+ * 📐 Image similarity metrics for local analysis
+ * Every metric returns a similarity in [0, 1], where 1 means identical.
+ */
+
+import { Raster } from './imageDecoder.js';
+
+// Combined window variance below which both windows count as flat
+const FLAT_VARIANCE = 4;
+
+/**
+ * 64-bit perceptual hash: sign of the low-frequency DCT coefficients of a
+ * 32x32 grayscale image against their median
+ */
+export function perceptualHash(gray: Float64Array, size: number = 32): boolean[] {
+  const cos = (i: number, u: number) => Math.cos(((2 * i + 1) * u * Math.PI) / (2 * size));
+
+  const coefficients: number[] = [];
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          sum += gray[y * size + x] * cos(y, u) * cos(x, v);
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return coefficients.map(value => value > median);
+}
+
+/**
+ * Hash agreement rescaled so unrelated images (~32 matching bits) score 0
+ */
+export function hashSimilarity(a: boolean[], b: boolean[]): number {
+  const distance = a.reduce((total, bit, i) => total + (bit === b[i] ? 0 : 1), 0);
+  return Math.max(0, 1 - distance / (a.length / 2));
+}
+
+/**
+ * Normalized RGB histogram with 4 bins per channel
+ */
+export function colorHistogram(raster: Raster): Float64Array {
+  const histogram = new Float64Array(64);
+  const pixels = raster.width * raster.height;
+  for (let i = 0; i < pixels; i++) {
+    const r = raster.data[i * 4] >> 6;
+    const g = raster.data[i * 4 + 1] >> 6;
+    const b = raster.data[i * 4 + 2] >> 6;
+    histogram[(r << 4) | (g << 2) | b] += 1 / pixels;
+  }
+  return histogram;
+}
+
+/**
+ * Histogram intersection
+ */
+export function histogramSimilarity(a: Float64Array, b: Float64Array): number {
+  let overlap = 0;
+  for (let i = 0; i < a.length; i++) {
+    overlap += Math.min(a[i], b[i]);
+  }
+  return Math.min(1, overlap);
+}
+
+/**
+ * Mean SSIM over 8x8 windows (stride 4) of two same-sized grayscale images.
+ * Windows flat in both images are skipped: they always match and would
+ * otherwise drown out the structure in images with large plain areas.
+ */
+export function structuralSimilarity(a: Float64Array, b: Float64Array, size: number): number {
+  const C1 = (0.01 * 255) ** 2;
+  const C2 = (0.03 * 255) ** 2;
+  const window = 8;
+
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + window <= size; top += 4) {
+    for (let left = 0; left + window <= size; left += 4) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < top + window; y++) {
+        for (let x = left; x < left + window; x++) {
+          const va = a[y * size + x];
+          const vb = b[y * size + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+
+      const n = window * window;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      if (varA + varB < FLAT_VARIANCE) continue;
+
+      total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+
+  if (windows === 0) return 1;
+  return Math.max(0, Math.min(1, total / windows));
+}
+
+/**
+ * Binary Sobel edge map; an edge is a gradient above a quarter of the
+ * strongest one (and above a floor, so flat images have no edges)
+ */
+export function edgeMap(gray: Float64Array, size: number): Uint8Array {
+  const magnitudes = new Float64Array(size * size);
+  let strongest = 0;
+
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * size + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      const magnitude = Math.hypot(gx, gy);
+      magnitudes[y * size + x] = magnitude;
+      strongest = Math.max(strongest, magnitude);
+    }
+  }
+
+  const threshold = Math.max(strongest / 4, 64);
+  return Uint8Array.from(magnitudes, magnitude => (magnitude > threshold ? 1 : 0));
+}
+
+function dilate(edges: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(edges.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!edges[y * size + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const ny = y + dy;
+          const nx = x + dx;
+          if (ny >= 0 && ny < size && nx >= 0 && nx < size) out[ny * size + nx] = 1;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * F1 score of edge pixels, allowing each edge to be one pixel off
+ */
+export function edgeSimilarity(a: Uint8Array, b: Uint8Array, size: number): number {
+  const countA = a.reduce((total, edge) => total + edge, 0);
+  const countB = b.reduce((total, edge) => total + edge, 0);
+  if (countA === 0 && countB === 0) return 1;
+  if (countA === 0 || countB === 0) return 0;
+
+  const nearA = dilate(a, size);
+  const nearB = dilate(b, size);
+  let matchedA = 0;
+  let matchedB = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] && nearB[i]) matchedA++;
+    if (b[i] && nearA[i]) matchedB++;
+  }
+
+  const precision = matchedA / countA;
+  const recall = matchedB / countB;
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+}
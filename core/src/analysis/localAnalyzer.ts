@@ -0,0 +1,192 @@
+/**
+ * 🧮 Local Analyzer - Image similarity without Gemini
+ * Scores a generated image against the target from pixel statistics:
+ * - colorMatch: color-histogram intersection
+ * - shapeMatch: Sobel edge-map agreement and perceptual-hash distance
+ * - compositionMatch: SSIM on downscaled grayscale
+ * Used when Gemini is unavailable, or blended with its scores (ANALYSIS_MODE).
+ */
+
+import { ApiError, AnalysisResult, DetailedAnalysis, FeedbackPersona } from '../types.js';
+import { SCORE_DIMENSIONS } from './scores.js';
+import { buildLocalFeedback, FeedbackArea } from './persona.js';
+import { decodeImage, resizeRaster, toGrayscale } from './imageDecoder.js';
+import {
+  colorHistogram,
+  edgeMap,
+  edgeSimilarity,
+  hashSimilarity,
+  histogramSimilarity,
+  perceptualHash,
+  structuralSimilarity
+} from './imageMetrics.js';
+import { logger } from '../logger.js';
+
+export type AnalysisMode = 'gemini' | 'blend' | 'local';
+
+export interface AnalysisOptions {
+  mode: AnalysisMode;
+  localWeight: number;  // Share of the local score in blend mode, 0-1
+}
+
+export interface LocalMetrics {
+  perceptualHash: number;
+  colorHistogram: number;
+  structuralSimilarity: number;
+  edges: number;
+}
+
+const HASH_SIZE = 32;
+const COMPARE_SIZE = 64;
+const DEFAULT_LOCAL_WEIGHT = 0.3;
+const ANALYSIS_MODES: AnalysisMode[] = ['gemini', 'blend', 'local'];
+
+/**
+ * Read ANALYSIS_MODE and ANALYSIS_LOCAL_WEIGHT from env vars / bindings
+ */
+export function getAnalysisOptions(vars: { ANALYSIS_MODE?: string; ANALYSIS_LOCAL_WEIGHT?: string } = {}): AnalysisOptions {
+  const mode = (vars.ANALYSIS_MODE || 'gemini') as AnalysisMode;
+  if (!ANALYSIS_MODES.includes(mode)) {
+    throw new ApiError(`Unknown ANALYSIS_MODE: ${mode}`, 500, 'CONFIG_ERROR');
+  }
+
+  const localWeight = vars.ANALYSIS_LOCAL_WEIGHT === undefined ? DEFAULT_LOCAL_WEIGHT : Number(vars.ANALYSIS_LOCAL_WEIGHT);
+  if (!(localWeight >= 0 && localWeight <= 1)) {
+    throw new ApiError('ANALYSIS_LOCAL_WEIGHT must be between 0 and 1', 500, 'CONFIG_ERROR');
+  }
+
+  return { mode, localWeight };
+}
+
+/**
+ * Compute the raw similarity metrics between two base64 images
+ */
+export async function compareImages(generatedImageBase64: string, targetImageBase64: string): Promise<LocalMetrics> {
+  const [generated, target] = await Promise.all([
+    decodeImage(generatedImageBase64),
+    decodeImage(targetImageBase64)
+  ]);
+
+  const generatedSmall = resizeRaster(generated, COMPARE_SIZE, COMPARE_SIZE);
+  const targetSmall = resizeRaster(target, COMPARE_SIZE, COMPARE_SIZE);
+  const generatedGray = toGrayscale(generatedSmall);
+  const targetGray = toGrayscale(targetSmall);
+
+  return {
+    perceptualHash: hashSimilarity(
+      perceptualHash(toGrayscale(resizeRaster(generatedSmall, HASH_SIZE, HASH_SIZE)), HASH_SIZE),
+      perceptualHash(toGrayscale(resizeRaster(targetSmall, HASH_SIZE, HASH_SIZE)), HASH_SIZE)
+    ),
+    colorHistogram: histogramSimilarity(colorHistogram(generatedSmall), colorHistogram(targetSmall)),
+    structuralSimilarity: structuralSimilarity(generatedGray, targetGray, COMPARE_SIZE),
+    edges: edgeSimilarity(edgeMap(generatedGray, COMPARE_SIZE), edgeMap(targetGray, COMPARE_SIZE), COMPARE_SIZE)
+  };
+}
+
+const FEEDBACK_AREAS: FeedbackArea[] = ['colorMatch', 'shapeMatch', 'compositionMatch'];
+
+/**
+ * Turn metrics into a scored AnalysisResult with feedback on the weakest
+ * areas, in the persona's voice
+ */
+export function scoreLocalMetrics(metrics: LocalMetrics, persona?: FeedbackPersona): AnalysisResult {
+  const detailedAnalysis = {
+    colorMatch: Math.round(metrics.colorHistogram * 100),
+    shapeMatch: Math.round((metrics.edges * 0.6 + metrics.perceptualHash * 0.4) * 100),
+    compositionMatch: Math.round(metrics.structuralSimilarity * 100),
+    overallQuality: 0
+  };
+  const similarityScore = Math.round(
+    detailedAnalysis.colorMatch * 0.35 + detailedAnalysis.shapeMatch * 0.35 + detailedAnalysis.compositionMatch * 0.3
+  );
+  detailedAnalysis.overallQuality = similarityScore;
+
+  const weakest = [...FEEDBACK_AREAS].sort((a, b) => detailedAnalysis[a] - detailedAnalysis[b]);
+
+  return {
+    similarityScore,
+    feedback: buildLocalFeedback(persona, similarityScore, weakest),
+    detailedAnalysis,
+    analyzer: 'local'
+  };
+}
+
+/**
+ * Score two base64 images locally
+ */
+export async function analyzeLocally(
+  generatedImageBase64: string,
+  targetImageBase64: string,
+  persona?: FeedbackPersona
+): Promise<AnalysisResult> {
+  const metrics = await compareImages(generatedImageBase64, targetImageBase64);
+  logger.debug('🧮 Local analysis metrics', { metrics });
+  return scoreLocalMetrics(metrics, persona);
+}
+
+/**
+ * Weighted mix of the Gemini and local scores, overall and per dimension.
+ * Feedback and the rubric evaluation stay Gemini's.
+ */
+export function blendAnalyses(llm: AnalysisResult, local: AnalysisResult, localWeight: number): AnalysisResult {
+  const blend = (llmScore: number | undefined, localScore: number | undefined): number | undefined =>
+    llmScore === undefined ? localScore
+      : localScore === undefined ? llmScore
+        : Math.round(llmScore * (1 - localWeight) + localScore * localWeight);
+
+  const detailedAnalysis: DetailedAnalysis = {};
+  for (const dimension of SCORE_DIMENSIONS) {
+    const score = blend(llm.detailedAnalysis?.[dimension], local.detailedAnalysis?.[dimension]);
+    if (score !== undefined) detailedAnalysis[dimension] = score;
+  }
+
+  return {
+    similarityScore: blend(llm.similarityScore, local.similarityScore)!,
+    feedback: llm.feedback,
+    detailedAnalysis,
+    rubric: llm.rubric,
+    analyzer: 'blended'
+  };
+}
+
+/**
+ * Run analysis according to the configured mode. In "gemini" and "blend"
+ * modes the local analyzer takes over when Gemini fails (e.g. ALL_KEYS_EXHAUSTED);
+ * if both fail the Gemini error is rethrown.
+ */
+export async function analyzeWithFallback(
+  options: AnalysisOptions,
+  analyzeWithGemini: () => Promise<AnalysisResult>,
+  generatedImageBase64: string,
+  targetImageBase64: string,
+  persona?: FeedbackPersona
+): Promise<AnalysisResult> {
+  if (options.mode === 'local') {
+    return analyzeLocally(generatedImageBase64, targetImageBase64, persona);
+  }
+
+  const [llm, local] = await Promise.allSettled([
+    analyzeWithGemini(),
+    options.mode === 'blend' ? analyzeLocally(generatedImageBase64, targetImageBase64, persona) : Promise.resolve(null)
+  ]);
+
+  if (llm.status === 'fulfilled') {
+    if (local.status === 'fulfilled' && local.value) {
+      return blendAnalyses(llm.value, local.value, options.localWeight);
+    }
+    if (local.status === 'rejected') {
+      logger.warn('⚠️ Local analysis failed, using the Gemini score alone', { error: local.reason });
+    }
+    return { ...llm.value, analyzer: 'gemini' };
+  }
+
+  logger.warn('⚠️ Gemini analysis failed, falling back to local analysis', { error: llm.reason });
+  try {
+    return local.status === 'fulfilled' && local.value
+      ? local.value
+      : await analyzeLocally(generatedImageBase64, targetImageBase64, persona);
+  } catch (localError) {
+    logger.error('❌ Local analysis fallback failed', { error: localError });
+    throw llm.reason;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * 🗣️ Feedback Personas
+ * Builds the analysis system prompt in the voice of the student's feedback
+ * persona: tone, language and how much feedback to give. Feedback Gemini
+ * didn't write (local analysis, unreadable replies) comes from the canned
+ * phrases below, picked by the same persona.
+ */
+
+import { FeedbackPersona, FeedbackTone, FeedbackVerbosity } from '../types.js';
+
+export type FeedbackArea = 'colorMatch' | 'shapeMatch' | 'compositionMatch';
+
+const TONE_RULES: Record<FeedbackTone, string[]> = {
+  playful: [
+    'Be quirky, fun and a little cheeky, but always encouraging',
+    'Use emoji-like expressions such as "😅" and "🤔"',
+    'Make light jokes about obvious mismatches and use fun analogies'
+  ],
+  neutral: [
+    'Be friendly, clear and matter-of-fact',
+    'Point out mismatches plainly, without jokes or sarcasm'
+  ],
+  formal: [
+    'Write in a formal, professional register',
+    'Avoid slang, jokes and emoji'
+  ]
+};
+
+const VERBOSITY_RULES: Record<FeedbackVerbosity, string> = {
+  brief: 'Give 1-2 suggestions of one short sentence each',
+  standard: 'Give 2-3 suggestions with actionable prompt improvements',
+  detailed: 'Give 3 suggestions, each explaining what differs from the target and the exact words to add to the prompt'
+};
+
+/**
+ * System prompt for image analysis, written for the given persona
+ */
+export function buildSystemPrompt(persona: FeedbackPersona, userName: string): string {
+  const styleRules = [
+    `Write every feedback suggestion in ${persona.language}; keep technical terms in English`,
+    ...TONE_RULES[persona.tone],
+    ...(persona.instructions ? [persona.instructions] : [])
+  ];
+
+  return `You are an expert image analysis AI for a prompt engineering learning tool.
+
+  A student named ${userName} is trying to generate an image to match a challenge requirement.
+
+  IMPORTANT ANALYSIS RULES:
+  1. Check if the generated image matches the SPECIFIC challenge requirements
+  2. Every challenge comes with its own grading rubric - follow it exactly
+
+  Be STRICT about required elements! A pretty image that misses what the challenge asks for should still score low.
+
+  FEEDBACK STYLE:
+  ${styleRules.map(rule => `- ${rule}`).join('\n  ')}
+
+  FEEDBACK RULES:
+  1. ${VERBOSITY_RULES[persona.verbosity]}
+  2. Be specific: name what to add or change in the prompt
+  3. Be honest about mistakes; the style never changes the score
+
+  Provide:
+  1. A similarity score (0-100) - be strict but fair
+  2. Feedback suggestions following the style and rules above`;
+}
+
+interface FeedbackPhrases {
+  close: string;
+  partial: string;
+  far: string;
+  tips: Record<FeedbackArea, string>;
+}
+
+const ENGLISH_PHRASES: Record<FeedbackTone, FeedbackPhrases> = {
+  playful: {
+    close: 'So close to the target! 🎯 Just a little polishing left.',
+    partial: 'Getting there! 👍 The image has the right idea but needs more detail.',
+    far: 'Hmm, this looks quite different from the target 😅 Start by describing the main subject clearly.',
+    tips: {
+      colorMatch: 'The colors are off 🎨 Name the exact colors of the subject and the background in your prompt.',
+      shapeMatch: 'The shapes and outlines don\'t line up 🤔 Describe the main objects and their shapes more precisely.',
+      compositionMatch: 'The layout is different from the target 📐 Say where things sit: centered, left, top, close-up or far away.'
+    }
+  },
+  neutral: {
+    close: 'Very close to the target. Only small details differ.',
+    partial: 'The image has the right idea but needs more detail.',
+    far: 'The image looks quite different from the target. Start by describing the main subject clearly.',
+    tips: {
+      colorMatch: 'The colors differ. Name the exact colors of the subject and the background in your prompt.',
+      shapeMatch: 'The shapes and outlines don\'t line up. Describe the main objects and their shapes more precisely.',
+      compositionMatch: 'The layout differs from the target. Say where things sit: centered, left, top, close-up or far away.'
+    }
+  },
+  formal: {
+    close: 'The image closely matches the target; only minor details differ.',
+    partial: 'The image captures the general idea of the target but lacks several details.',
+    far: 'The image differs substantially from the target. Begin by describing the main subject precisely.',
+    tips: {
+      colorMatch: 'The colour palette does not match. Specify the colours of the subject and the background.',
+      shapeMatch: 'The shapes and outlines do not correspond. Describe the principal objects and their forms more precisely.',
+      compositionMatch: 'The composition differs from the target. State the placement and framing of each element.'
+    }
+  }
+};
+
+const HINGLISH_PHRASES: FeedbackPhrases = {
+  close: 'Ekdum close to the target! 🎯 Just a little polishing left.',
+  partial: 'Getting there, yaar! 👍 The image has the right idea but needs more detail.',
+  far: 'Arre, this looks quite different from the target 😅 Start by describing the main subject clearly.',
+  tips: {
+    colorMatch: 'Colors are off, boss! 🎨 Name the exact colors of the subject and the background in your prompt.',
+    shapeMatch: 'The shapes and outlines don\'t line up, bhai 🤔 Describe the main objects and their shapes more precisely.',
+    compositionMatch: 'Layout is different from the target 📐 Dekho, say where things sit: centered, left, top, close-up or far away.'
+  }
+};
+
+const TIP_COUNT: Record<FeedbackVerbosity, number> = { brief: 1, standard: 2, detailed: 3 };
+
+/**
+ * Canned phrases for a persona. Only English and playful Hinglish are
+ * written out; any other language, or no persona, gets neutral English.
+ */
+function feedbackPhrases(persona?: FeedbackPersona): FeedbackPhrases {
+  if (!persona) return ENGLISH_PHRASES.neutral;
+  if (/hindi|hinglish/i.test(persona.language) && persona.tone === 'playful') return HINGLISH_PHRASES;
+  if (/^\s*english\s*$/i.test(persona.language)) return ENGLISH_PHRASES[persona.tone];
+  return ENGLISH_PHRASES.neutral;
+}
+
+/**
+ * Feedback for a locally scored attempt: a summary, then tips for the
+ * weakest areas (weakest first), as many as the persona's verbosity allows
+ */
+export function buildLocalFeedback(persona: FeedbackPersona | undefined, similarityScore: number, weakest: FeedbackArea[]): string[] {
+  const phrases = feedbackPhrases(persona);
+  const summary = similarityScore >= 80 ? phrases.close : similarityScore >= 50 ? phrases.partial : phrases.far;
+  const tipCount = TIP_COUNT[persona?.verbosity ?? 'standard'];
+
+  return [summary, ...weakest.slice(0, tipCount).map(area => phrases.tips[area])];
+}
@@ -0,0 +1,257 @@
+/**
+ * 📋 Challenge Rubrics
+ * A rubric lists what a challenge asks for: required elements, weighted
+ * criteria and penalties. The Gemini prompt and response schema are built
+ * from it, the per-criterion results are validated against it, and the
+ * final score is computed from those results rather than taken from Gemini.
+ */
+
+import { Schema, Type } from '@google/genai';
+import { ApiError, ChallengeRubric, RubricCriterion, RubricEvaluation, RubricPenalty } from '../types.js';
+import { clampScore, SCORE_DIMENSIONS } from './scores.js';
+
+const MAX_RUBRIC_ITEMS = 10;
+const MAX_TEXT_LENGTH = 200;
+const CRITERION_ID_PATTERN = /^[a-z0-9-]+$/;
+
+// Highest score allowed when a required element is missing
+export const MISSING_ELEMENT_SCORE_CAP = 40;
+
+export function emptyRubric(): ChallengeRubric {
+  return { requiredElements: [], criteria: [], penalties: [] };
+}
+
+export function hasRubric(rubric?: ChallengeRubric): rubric is ChallengeRubric {
+  return !!rubric && (rubric.requiredElements.length > 0 || rubric.criteria.length > 0 || rubric.penalties.length > 0);
+}
+
+function invalidRubric(message: string): ApiError {
+  return new ApiError(`Invalid rubric: ${message}`, 400, 'INVALID_RUBRIC');
+}
+
+function readText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw invalidRubric(`${field} must be a non-empty string`);
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw invalidRubric(`${field} is too long (max ${MAX_TEXT_LENGTH} characters)`);
+  }
+  return value.trim();
+}
+
+function readList(value: unknown, field: string): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw invalidRubric(`${field} must be a list`);
+  }
+  if (value.length > MAX_RUBRIC_ITEMS) {
+    throw invalidRubric(`${field} has too many entries (max ${MAX_RUBRIC_ITEMS})`);
+  }
+  return value;
+}
+
+/**
+ * Validate a rubric from authoring input or storage. Older challenges store
+ * a plain list of rules; each becomes an equally weighted criterion.
+ */
+export function normalizeRubric(raw: unknown): ChallengeRubric {
+  if (raw === undefined || raw === null) {
+    return emptyRubric();
+  }
+
+  if (Array.isArray(raw)) {
+    const rules = readList(raw, 'rubric').map((rule, i) => readText(rule, `rule ${i + 1}`));
+    return {
+      ...emptyRubric(),
+      criteria: rules.map((description, i) => ({ id: `rule-${i + 1}`, description, weight: 1 }))
+    };
+  }
+
+  if (typeof raw !== 'object') {
+    throw invalidRubric('expected an object with requiredElements, criteria and penalties');
+  }
+
+  const source = raw as Record<string, unknown>;
+
+  const requiredElements = readList(source.requiredElements, 'requiredElements')
+    .map((element, i) => readText(element, `required element ${i + 1}`));
+
+  const criteria = readList(source.criteria, 'criteria').map((item, i): RubricCriterion => {
+    const criterion = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const id = criterion.id === undefined ? `criterion-${i + 1}` : readText(criterion.id, `criterion ${i + 1} id`);
+    if (!CRITERION_ID_PATTERN.test(id)) {
+      throw invalidRubric(`criterion id "${id}" may only contain lowercase letters, digits and dashes`);
+    }
+    const weight = criterion.weight === undefined ? 1 : Number(criterion.weight);
+    if (!(weight > 0 && weight <= 100)) {
+      throw invalidRubric(`criterion "${id}" weight must be between 0 and 100`);
+    }
+    return { id, description: readText(criterion.description, `criterion "${id}" description`), weight };
+  });
+
+  const ids = criteria.map(criterion => criterion.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw invalidRubric(`criterion id "${duplicate}" is used more than once`);
+  }
+
+  const penalties = readList(source.penalties, 'penalties').map((item, i): RubricPenalty => {
+    const penalty = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const points = Number(penalty.points);
+    if (!Number.isInteger(points) || points < 1 || points > 100) {
+      throw invalidRubric(`penalty ${i + 1} points must be an integer between 1 and 100`);
+    }
+    return { description: readText(penalty.description, `penalty ${i + 1} description`), points };
+  });
+
+  return { requiredElements, criteria, penalties };
+}
+
+/**
+ * Grading instructions for the analysis prompt
+ */
+export function buildRubricPrompt(rubric?: ChallengeRubric): string {
+  if (!hasRubric(rubric)) {
+    return `Grade strictly based on:
+  1. How closely the generated image matches the target image
+  2. Challenge-specific requirements fulfillment
+  3. Technical quality and detail level`;
+  }
+
+  const totalWeight = rubric.criteria.reduce((total, criterion) => total + criterion.weight, 0);
+  const lines = ['Grade strictly against this challenge rubric:'];
+
+  if (rubric.requiredElements.length > 0) {
+    lines.push(`REQUIRED ELEMENTS (if any is missing, similarityScore is at most ${MISSING_ELEMENT_SCORE_CAP}):`);
+    rubric.requiredElements.forEach(element => lines.push(`  - ${element}`));
+  }
+  if (rubric.criteria.length > 0) {
+    lines.push('CRITERIA (score each 0-100; similarityScore follows their weighted average):');
+    rubric.criteria.forEach(criterion => {
+      lines.push(`  - [${criterion.id}] ${criterion.description} (weight ${Math.round((criterion.weight / totalWeight) * 100)}%)`);
+    });
+  }
+  if (rubric.penalties.length > 0) {
+    lines.push('PENALTIES (subtract the points from similarityScore when the mistake is present):');
+    rubric.penalties.forEach(penalty => lines.push(`  - ${penalty.description} (-${penalty.points})`));
+  }
+
+  lines.push('Report each criterion score, any missing required elements and the penalties you applied in "rubric".');
+  return lines.join('\n  ');
+}
+
+/**
+ * Gemini response schema; the "rubric" section lists this challenge's
+ * criterion ids, required elements and penalties as enums
+ */
+export function buildAnalysisSchema(rubric?: ChallengeRubric): Schema {
+  const properties: Record<string, Schema> = {
+    similarityScore: {
+      type: Type.NUMBER,
+      description: 'A similarity score from 0-100 comparing the generated image to the target image.',
+    },
+    feedback: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'An array of up to 3 prompt improvement suggestions, written in the requested feedback style.',
+    },
+    detailedAnalysis: {
+      type: Type.OBJECT,
+      properties: {
+        colorMatch: { type: Type.NUMBER, description: 'How well colors and palette match, 0-100.' },
+        shapeMatch: { type: Type.NUMBER, description: 'How well objects and their shapes match, 0-100.' },
+        compositionMatch: { type: Type.NUMBER, description: 'How well layout, framing and placement match, 0-100.' },
+        overallQuality: { type: Type.NUMBER, description: 'Technical quality and level of detail, 0-100.' },
+      },
+      required: [...SCORE_DIMENSIONS],
+    },
+  };
+  const required = ['similarityScore', 'feedback', 'detailedAnalysis'];
+
+  if (hasRubric(rubric)) {
+    properties.rubric = buildRubricSchema(rubric);
+    required.push('rubric');
+  }
+
+  return { type: Type.OBJECT, properties, required };
+}
+
+function buildRubricSchema(rubric: ChallengeRubric): Schema {
+  const enumOf = (values: string[]): Schema => ({ type: Type.STRING, format: 'enum', enum: values });
+  const properties: Record<string, Schema> = {};
+  if (rubric.criteria.length > 0) {
+    properties.criteria = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: enumOf(rubric.criteria.map(criterion => criterion.id)),
+          score: { type: Type.NUMBER, description: 'How well the image meets this criterion, 0-100.' },
+        },
+        required: ['id', 'score'],
+      },
+    };
+  }
+  if (rubric.requiredElements.length > 0) {
+    properties.missingElements = { type: Type.ARRAY, items: enumOf(rubric.requiredElements) };
+  }
+  if (rubric.penalties.length > 0) {
+    properties.appliedPenalties = { type: Type.ARRAY, items: enumOf(rubric.penalties.map(penalty => penalty.description)) };
+  }
+
+  return { type: Type.OBJECT, properties, required: Object.keys(properties) };
+}
+
+/**
+ * Final score for a rubric challenge: the criteria's weighted average (or
+ * Gemini's overall score when the rubric has no criteria), minus the applied
+ * penalties, capped when a required element is missing
+ */
+export function scoreRubricEvaluation(similarityScore: number, evaluation?: RubricEvaluation): number {
+  if (!evaluation) {
+    return similarityScore;
+  }
+
+  const totalWeight = evaluation.criteria.reduce((total, criterion) => total + criterion.weight, 0);
+  const baseScore = totalWeight > 0
+    ? evaluation.criteria.reduce((total, criterion) => total + criterion.score * criterion.weight, 0) / totalWeight
+    : similarityScore;
+  const penaltyPoints = evaluation.appliedPenalties.reduce((total, penalty) => total + penalty.points, 0);
+  const score = Math.max(0, Math.round(baseScore - penaltyPoints));
+
+  return evaluation.missingElements.length > 0 ? Math.min(score, MISSING_ELEMENT_SCORE_CAP) : score;
+}
+
+/**
+ * Validate the "rubric" section of a Gemini response against the challenge
+ * rubric. Unknown entries are dropped; criteria without a usable score take
+ * the overall similarity score.
+ */
+export function parseRubricEvaluation(raw: unknown, rubric: ChallengeRubric | undefined, similarityScore: number): RubricEvaluation | undefined {
+  if (!hasRubric(rubric)) {
+    return undefined;
+  }
+
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+  const reported = new Map<unknown, unknown>();
+  for (const item of list(source.criteria)) {
+    if (item && typeof item === 'object') {
+      const { id, score } = item as Record<string, unknown>;
+      reported.set(id, score);
+    }
+  }
+
+  const missing = list(source.missingElements);
+  const applied = list(source.appliedPenalties);
+
+  return {
+    criteria: rubric.criteria.map(criterion => ({
+      ...criterion,
+      score: clampScore(reported.get(criterion.id)) ?? similarityScore
+    })),
+    missingElements: rubric.requiredElements.filter(element => missing.includes(element)),
+    appliedPenalties: rubric.penalties.filter(penalty => applied.includes(penalty.description))
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * 🎯 Score helpers shared by the Gemini and local analyzers
+ */
+
+import { DetailedAnalysis } from '../types.js';
+
+export const SCORE_DIMENSIONS = ['colorMatch', 'shapeMatch', 'compositionMatch', 'overallQuality'] as const;
+
+/**
+ * Round and clamp a model-reported score to 0-100; null when it isn't a number
+ */
+export function clampScore(value: unknown): number | null {
+  const score = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    return null;
+  }
+  return Math.min(100, Math.max(0, Math.round(score)));
+}
+
+/**
+ * Validate the per-dimension scores from a model response. Missing or
+ * malformed dimensions take the overall similarity score.
+ */
+export function parseDetailedAnalysis(raw: unknown, similarityScore: number): Required<DetailedAnalysis> {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const detailed = {} as Required<DetailedAnalysis>;
+  for (const dimension of SCORE_DIMENSIONS) {
+    detailed[dimension] = clampScore(source[dimension]) ?? similarityScore;
+  }
+  return detailed;
+}
@@ -0,0 +1,58 @@
+/**
+ * 🖼️ Challenge Image Sources
+ * Where a challenge's target image may be loaded from. Uploaded images are
+ * read straight from the backend's storage; catalog images live on the
+ * frontend. Nothing else is fetched, so an image URL can't turn the backend
+ * into a proxy for internal hosts or cloud metadata endpoints.
+ */
+
+import { ApiError } from './types.js';
+
+export type ChallengeImageSource =
+  | { type: 'upload'; challengeId: number }   // Stored by the backend, served at /api/challenges/:id/image
+  | { type: 'url'; url: string };              // On one of the allowed origins
+
+const CHALLENGE_IMAGE_PATH = /^\/api\/challenges\/(\d+)\/image$/;
+
+/**
+ * Resolve a challenge image URL, rejecting any origin outside `allowedOrigins`
+ * @param imageUrl Absolute, or relative to the frontend (e.g. "challenges/challenge-1.png")
+ * @param allowedOrigins Origins images may be fetched from; the first is the default base
+ * @param preferredOrigin Base for relative URLs when it is allowed (e.g. the request's Origin)
+ */
+export function resolveChallengeImageSource(
+  imageUrl: string,
+  allowedOrigins: string[],
+  preferredOrigin?: string
+): ChallengeImageSource {
+  if (!imageUrl.trim()) {
+    throw new ApiError('Challenge has no target image', 400, 'MISSING_TARGET_IMAGE');
+  }
+
+  const origins = allowedOrigins.flatMap(origin => {
+    try {
+      return [new URL(origin).origin];
+    } catch {
+      return [];
+    }
+  });
+  const base = preferredOrigin && origins.includes(preferredOrigin) ? preferredOrigin : origins[0];
+
+  let url: URL;
+  try {
+    url = new URL(imageUrl, base ? `${base}/` : undefined);
+  } catch {
+    throw new ApiError('Image URL is not a valid URL', 400, 'IMAGE_URL_NOT_ALLOWED');
+  }
+
+  // Uploaded images, on whichever host the backend was reached through
+  const upload = CHALLENGE_IMAGE_PATH.exec(url.pathname);
+  if (upload && !url.search) {
+    return { type: 'upload', challengeId: Number(upload[1]) };
+  }
+
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || !origins.includes(url.origin)) {
+    throw new ApiError(`Images are not loaded from ${url.origin}`, 400, 'IMAGE_URL_NOT_ALLOWED');
+  }
+  return { type: 'url', url: url.href };
+}
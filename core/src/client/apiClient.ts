@@ -0,0 +1,189 @@
+/**
+ * 📡 API Client
+ * Typed fetch wrapper over API_ROUTES for the React app and other
+ * integrations. Bodies, queries and responses are typed from the route
+ * schemas, as the JSON that travels over the wire. Browsers should import it
+ * from @prompt-tool/core/client, which leaves the analysis and provider code
+ * out of the bundle.
+ */
+
+import { z } from 'zod';
+import { ERROR_CODES, ErrorCodeInfo, isErrorCode } from '../errors.js';
+import { API_ROUTES, ApiRoute, ApiRouteName } from '../schemas/routes.js';
+import type { ErrorResponse } from '../schemas/responses.js';
+import type { FetchFunction, FieldError } from '../types.js';
+
+// Longest wait the client will sit through before retrying
+const MAX_RETRY_DELAY_MS = 30_000;
+
+type Routes = typeof API_ROUTES;
+
+// Routes that answer with a JSON body
+export type JsonRouteName = {
+  [N in ApiRouteName]: Routes[N] extends { response: z.ZodType } ? N : never
+}[ApiRouteName];
+
+export type ApiRequestBody<N extends ApiRouteName> =
+  Routes[N] extends { body: infer S extends z.ZodType } ? z.input<S> : never;
+
+export type ApiRequestQuery<N extends ApiRouteName> =
+  Routes[N] extends { query: infer S extends z.ZodType } ? z.input<S> : never;
+
+export type ApiResponse<N extends ApiRouteName> =
+  Routes[N] extends { response: infer S extends z.ZodType } ? z.input<S> : never;
+
+export interface ApiRequest<N extends ApiRouteName> {
+  params?: Record<string, string | number>;   // Values for :name segments of the path
+  query?: ApiRequestQuery<N>;
+  body?: ApiRequestBody<N> | FormData;         // FormData for routes that take an upload
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;                             // Backend origin, without /api
+  getToken?: () => Promise<string | null>;     // Firebase ID token for routes with auth
+  fetch?: FetchFunction;
+  maxRetries?: number;                         // Retries for retryable error codes; defaults to 0
+}
+
+// A non-2xx answer, carrying the error envelope
+export class ApiClientError extends Error {
+  public status: number;
+  public code?: string;
+  public fields?: FieldError[];
+  public details?: Record<string, unknown>;
+  public requestId?: string;
+  public retryAfter?: number;
+
+  constructor(message: string, status: number, code?: string, envelope: Partial<ErrorResponse> = {}) {
+    super(message);
+    this.name = 'ApiClientError';
+    this.status = status;
+    this.code = code;
+    this.fields = envelope.fields;
+    this.details = envelope.details;
+    this.requestId = envelope.requestId;
+    this.retryAfter = envelope.retryAfter;
+
+    Object.setPrototypeOf(this, ApiClientError.prototype);
+  }
+
+  /**
+   * Whether the same request may succeed later, per ERROR_CODES
+   */
+  get retryable(): boolean {
+    const info: ErrorCodeInfo | undefined = isErrorCode(this.code) ? ERROR_CODES[this.code] : undefined;
+    return info?.retryable === true;
+  }
+}
+
+/**
+ * Fill in a route's path parameters and query string
+ */
+export function buildRoutePath(route: ApiRoute, params: Record<string, string | number> = {}, query?: unknown): string {
+  const path = route.path.replace(/:(\w+)/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${route.path}`);
+    }
+    return encodeURIComponent(String(params[name]));
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries((query ?? {}) as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value));
+    }
+  }
+
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * Create a client for one backend
+ */
+export function createApiClient(options: ApiClientOptions) {
+  const fetchFn: FetchFunction = options.fetch ?? ((input, init) => fetch(input, init));
+  const maxRetries = options.maxRetries ?? 0;
+
+  const authHeaders = async (route: ApiRoute): Promise<Record<string, string>> => {
+    if (!route.auth) {
+      return {};
+    }
+
+    const token = await options.getToken?.();
+    if (token) {
+      return { Authorization: `Bearer ${token}` };
+    }
+    if (route.auth === 'required') {
+      throw new ApiClientError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+    }
+    return {};
+  };
+
+  const send = async (route: ApiRoute, routeUrl: string, requestBody: unknown): Promise<any> => {
+    const headers = await authHeaders(route);
+
+    let body: BodyInit | undefined;
+    if (requestBody instanceof FormData) {
+      body = requestBody;
+    } else if (requestBody !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(requestBody);
+    }
+
+    const response = await fetchFn(routeUrl, {
+      method: route.method.toUpperCase(),
+      headers,
+      body
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      throw new ApiClientError(
+        data?.message || data?.error || `${route.method.toUpperCase()} ${route.path} failed with status ${response.status}`,
+        response.status,
+        data?.code,
+        data ?? {}
+      );
+    }
+
+    return data;
+  };
+
+  /**
+   * Absolute URL of a route, e.g. for an <img> pointing at an image route
+   */
+  const url = <N extends ApiRouteName>(name: N, request: Pick<ApiRequest<N>, 'params' | 'query'> = {}): string =>
+    `${options.baseUrl}${buildRoutePath(API_ROUTES[name], request.params, request.query)}`;
+
+  return {
+    url,
+
+    /**
+     * Call a JSON route. Resolves with the success body; rejects with an
+     * ApiClientError for error responses. Retryable errors are retried up
+     * to `maxRetries` times, waiting `retryAfter` seconds when the server
+     * sends it and backing off exponentially otherwise.
+     */
+    async request<N extends JsonRouteName>(name: N, request: ApiRequest<N> = {}): Promise<ApiResponse<N>> {
+      const route: ApiRoute = API_ROUTES[name];
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await send(route, url(name, request), request.body);
+        } catch (error) {
+          const delayMs = error instanceof ApiClientError && error.retryable
+            ? (error.retryAfter ?? 2 ** attempt) * 1000
+            : Infinity;
+
+          if (attempt >= maxRetries || delayMs > MAX_RETRY_DELAY_MS) {
+            throw error;
+          }
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+    }
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,123 @@
+/**
+ * 🎯 Default Challenge Catalog
+ * Seeded into the `challenges` collection the first time the catalog is read,
+ * and served by the Workers in-memory store.
+ * Image paths are relative to the client's public folder.
+ */
+
+import { Challenge } from '../types.js';
+
+export const DEFAULT_CHALLENGES: Challenge[] = [
+  {
+    id: 1,
+    name: "Simple Shape",
+    imageUrl: "challenges/challenge-1.png",
+    description: "Generate a simple image of a single, centered object. Focus on the color and shape.",
+    order: 1,
+    rubric: {
+      requiredElements: ["A single main object"],
+      criteria: [
+        { id: "target-match", description: "Matches the target image overall", weight: 40 },
+        { id: "color", description: "The object's color matches the target", weight: 30 },
+        { id: "shape", description: "The object's shape matches the target", weight: 30 }
+      ],
+      penalties: [
+        { description: "More than one main object", points: 20 },
+        { description: "The object is not centered", points: 10 }
+      ]
+    }
+  },
+  {
+    id: 2,
+    name: "Object with Background",
+    imageUrl: "challenges/challenge-2.png",
+    description: "Describe an object and its immediate surroundings. Pay attention to textures and lighting.",
+    order: 2,
+    rubric: {
+      requiredElements: ["A main object", "Visible surroundings behind or around the object"],
+      criteria: [
+        { id: "target-match", description: "Matches the target image overall", weight: 30 },
+        { id: "textures", description: "Textures of the object and its surroundings match the target", weight: 25 },
+        { id: "lighting", description: "Lighting and shadows match the target", weight: 25 },
+        { id: "surroundings", description: "The object sits naturally in its surroundings", weight: 20 }
+      ],
+      penalties: [
+        { description: "Plain or empty background", points: 25 }
+      ]
+    }
+  },
+  {
+    id: 3,
+    name: "Detailed Scene",
+    imageUrl: "challenges/challenge-3.png",
+    description: "Create a scene with multiple elements. Describe their relationships and the overall atmosphere.",
+    order: 3,
+    rubric: {
+      requiredElements: ["Several distinct elements"],
+      criteria: [
+        { id: "target-match", description: "Matches the target image overall", weight: 30 },
+        { id: "elements", description: "All the main elements of the target are present", weight: 25 },
+        { id: "relationships", description: "Elements are arranged and interact as in the target", weight: 25 },
+        { id: "atmosphere", description: "Overall atmosphere matches the target", weight: 20 }
+      ],
+      penalties: [
+        { description: "Only a single subject", points: 25 }
+      ]
+    }
+  },
+  {
+    id: 4,
+    name: "Abstract Concept",
+    imageUrl: "challenges/challenge-4.png",
+    description: "Generate an image that represents a feeling or idea. Use metaphorical language.",
+    order: 4,
+    rubric: {
+      requiredElements: [],
+      criteria: [
+        { id: "target-match", description: "Matches the target image overall", weight: 30 },
+        { id: "concept", description: "Conveys the same feeling or idea as the target", weight: 40 },
+        { id: "palette", description: "Colors and forms support that feeling like the target's do", weight: 30 }
+      ],
+      penalties: [
+        { description: "A literal object where the target is abstract", points: 15 }
+      ]
+    }
+  },
+  {
+    id: 5,
+    name: "Specific Art Style",
+    imageUrl: "challenges/challenge-5.png",
+    description: "Recreate an image in a specific artistic style, like 'impressionist painting' or 'cyberpunk art'.",
+    order: 5,
+    rubric: {
+      requiredElements: ["The art style of the target"],
+      criteria: [
+        { id: "target-match", description: "Matches the target image overall", weight: 30 },
+        { id: "style", description: "Brushwork, rendering and palette match the target's art style", weight: 40 },
+        { id: "subject", description: "The subject matches the target", weight: 30 }
+      ],
+      penalties: [
+        { description: "Photorealistic rendering of a stylized target", points: 20 }
+      ]
+    }
+  },
+  {
+    id: 6,
+    name: "Complex Composition",
+    imageUrl: "challenges/challenge-6.png",
+    description: "A final test. Describe a complex scene with intricate details, specific lighting, and a distinct mood.",
+    order: 6,
+    rubric: {
+      requiredElements: ["Several distinct elements", "Deliberate lighting"],
+      criteria: [
+        { id: "target-match", description: "Matches the target image overall", weight: 25 },
+        { id: "details", description: "Intricate details of the target are present", weight: 25 },
+        { id: "lighting", description: "Lighting matches the target", weight: 25 },
+        { id: "mood", description: "Mood matches the target", weight: 25 }
+      ],
+      penalties: [
+        { description: "Cluttered or incoherent composition", points: 15 }
+      ]
+    }
+  }
+];
@@ -0,0 +1,178 @@
+/**
+ * 🚨 Error Codes and Envelope
+ * Every code the API returns, with its HTTP status and what it means, and
+ * the builder both backends use to turn an error into the error envelope.
+ * Clients switch on `code`; `message` is for logs and fallbacks.
+ */
+
+import { ApiError } from './types.js';
+import type { ErrorResponse } from './schemas/responses.js';
+
+export interface ErrorCodeInfo {
+  status: number;
+  description: string;
+  retryable?: boolean;   // Worth retrying as-is, after `retryAfter` when given
+}
+
+export const ERROR_CODES = {
+  // Request validation
+  INVALID_REQUEST: { status: 400, description: 'The body or query failed validation' },
+  INVALID_FIELDS: { status: 400, description: 'The body has fields the route does not accept' },
+  INVALID_PROMPT: { status: 400, description: 'The prompt is missing or not a string' },
+  EMPTY_PROMPT: { status: 400, description: 'The prompt is blank' },
+  PROMPT_TOO_LONG: { status: 400, description: 'The prompt is longer than MAX_PROMPT_LENGTH' },
+  INVALID_SERVICE: { status: 400, description: 'The image service is not a string' },
+  UNKNOWN_IMAGE_SERVICE: { status: 400, description: 'No image provider is registered under that id' },
+  INVALID_SIZE: { status: 400, description: 'The image size is not a width and height' },
+  UNSUPPORTED_SIZE: { status: 400, description: 'The provider cannot generate that size' },
+  INVALID_SEED: { status: 400, description: 'The seed is not an integer' },
+  INVALID_IMAGE_URL: { status: 400, description: 'The image URL is missing' },
+  IMAGE_URL_NOT_ALLOWED: { status: 400, description: 'The image URL is neither an uploaded challenge image nor on an allowed origin' },
+  INVALID_CHALLENGE_ID: { status: 400, description: 'The challenge id is not an integer' },
+  INVALID_GENERATED_IMAGE: { status: 400, description: 'Neither a generated image id nor inline image data was sent' },
+  MISSING_TARGET_IMAGE: { status: 400, description: 'The target image is missing' },
+  MISSING_USER_PROMPT: { status: 400, description: 'The prompt being scored is missing' },
+  INVALID_NAME: { status: 400, description: 'The challenge name is missing' },
+  NAME_TOO_LONG: { status: 400, description: 'The challenge name is too long' },
+  INVALID_DESCRIPTION: { status: 400, description: 'The challenge description is missing' },
+  DESCRIPTION_TOO_LONG: { status: 400, description: 'The challenge description is too long' },
+  INVALID_ORDER: { status: 400, description: 'The mission order is not a positive integer' },
+  INVALID_PASS_THRESHOLD: { status: 400, description: 'The pass threshold is not between 1 and 100' },
+  INVALID_RUBRIC: { status: 400, description: 'The rubric cannot be read' },
+  IMAGE_REQUIRED: { status: 400, description: 'A new challenge needs an image URL or an uploaded image' },
+  IMAGE_TOO_LARGE: { status: 400, description: 'The uploaded image is over the size limit' },
+  UNSUPPORTED_IMAGE_TYPE: { status: 400, description: 'The uploaded file is not a supported image type' },
+  NO_UPDATE_FIELDS: { status: 400, description: 'The update changes nothing' },
+  CHALLENGE_ARCHIVED: { status: 400, description: 'The challenge is archived' },
+  INVALID_PERSONA_NAME: { status: 400, description: 'The persona name is missing or too long' },
+  INVALID_TONE: { status: 400, description: 'The persona tone is not one of FEEDBACK_TONES' },
+  INVALID_LANGUAGE: { status: 400, description: 'The persona language is missing or too long' },
+  INVALID_VERBOSITY: { status: 400, description: 'The persona verbosity is not one of FEEDBACK_VERBOSITIES' },
+  INVALID_INSTRUCTIONS: { status: 400, description: 'The persona instructions are too long' },
+  UNKNOWN_PERSONA: { status: 400, description: 'No persona has that id' },
+  PERSONA_BUILT_IN: { status: 400, description: 'Built-in personas cannot be deleted' },
+  INVALID_DISPLAY_NAME: { status: 400, description: 'The display name is not a string' },
+  INVALID_PHOTO_URL: { status: 400, description: 'The photo URL is not a string' },
+  INVALID_EMAIL: { status: 400, description: 'The email is not a string' },
+  INVALID_ROLE: { status: 400, description: 'The role is not one of USER_ROLES' },
+  CANNOT_DEMOTE_SELF: { status: 400, description: 'Admins cannot remove their own admin role' },
+  INVALID_LIMIT: { status: 400, description: 'The page size is out of range' },
+  INVALID_CURSOR: { status: 400, description: 'The page cursor is not one this API issued' },
+
+  // Authentication and permissions
+  NO_TOKEN: { status: 401, description: 'No Bearer token was sent' },
+  INVALID_TOKEN_FORMAT: { status: 401, description: 'The Authorization header is not a Bearer token' },
+  INVALID_TOKEN: { status: 401, description: 'The ID token could not be verified' },
+  INVALID_SIGNATURE: { status: 401, description: 'The ID token signature does not match' },
+  TOKEN_EXPIRED: { status: 401, description: 'The ID token has expired; refresh it and retry' },
+  TOKEN_REVOKED: { status: 401, description: 'The ID token was revoked; sign in again' },
+  AUTH_FAILED: { status: 401, description: 'Authentication failed' },
+  NOT_AUTHENTICATED: { status: 401, description: 'The route needs a signed-in user' },
+  INVALID_API_KEY: { status: 401, description: 'The upstream API key is invalid or missing' },
+  FORBIDDEN: { status: 403, description: "The user's role does not allow this" },
+  CLIENT_SCORES_REJECTED: { status: 403, description: 'Progress and stats are recorded by scoring, not by clients' },
+  CHALLENGE_LOCKED: { status: 403, description: 'The user has not unlocked the challenge yet' },
+  IMAGE_NOT_OWNED: { status: 403, description: 'The image was generated by another user' },
+
+  // Missing and conflicting resources
+  NOT_FOUND: { status: 404, description: 'The resource does not exist' },
+  ROUTE_NOT_FOUND: { status: 404, description: 'No route matches the method and path' },
+  IMAGE_NOT_FOUND: { status: 404, description: 'No image is stored under that id or URL' },
+  CHALLENGE_NOT_FOUND: { status: 404, description: 'No challenge has that id' },
+  PERSONA_NOT_FOUND: { status: 404, description: 'No persona has that id' },
+  USER_NOT_FOUND: { status: 404, description: 'No user has that id' },
+  CONFLICT: { status: 409, description: 'The resource already exists' },
+  PERSONA_EXISTS: { status: 409, description: 'A persona with that name already exists' },
+  UNSUPPORTED_IMAGE: { status: 422, description: 'The image cannot be decoded for analysis' },
+
+  // Capacity
+  RATE_LIMITED: { status: 429, description: 'Too many requests', retryable: true },
+  ALL_KEYS_EXHAUSTED: { status: 429, description: 'Every Gemini API key is rate-limited or blocked', retryable: true },
+
+  // Server and upstream failures
+  INTERNAL_SERVER_ERROR: { status: 500, description: 'Unexpected server error' },
+  CONFIG_ERROR: { status: 500, description: 'The backend is misconfigured' },
+  NO_API_KEYS: { status: 500, description: 'No Gemini API keys are configured' },
+  NO_KEY_FOR_MODEL: { status: 500, description: 'No configured Gemini key may call the requested model' },
+  API_CALL_FAILED: { status: 500, description: 'A Gemini call failed on every key tried', retryable: true },
+  NO_IMAGE_GENERATED: { status: 500, description: 'The provider returned no image' },
+  EMPTY_IMAGE: { status: 500, description: 'The provider returned an empty image' },
+  ANALYSIS_FAILED: { status: 500, description: 'The images could not be compared' },
+  INVALID_ANALYSIS_RESULT: { status: 500, description: 'The analyzer returned an unusable result' },
+  ATTEMPT_WRITE_FAILED: { status: 500, description: 'The attempt could not be recorded' },
+  ATTEMPT_QUERY_FAILED: { status: 500, description: 'Attempts could not be read' },
+  IMAGE_FETCH_FAILED: { status: 500, description: 'The challenge image could not be fetched' },
+  LOCAL_IMAGE_ERROR: { status: 500, description: 'The challenge image could not be loaded' },
+  RESPONSE_SCHEMA_MISMATCH: { status: 500, description: 'The response did not match its schema (development and test only)' },
+  UPSTREAM_ERROR: { status: 502, description: 'An upstream service failed', retryable: true },
+  POLLINATIONS_API_ERROR: { status: 502, description: 'Pollinations failed to generate the image', retryable: true },
+  SERVICE_UNAVAILABLE: { status: 503, description: 'A dependency is temporarily unavailable', retryable: true },
+  JWKS_UNAVAILABLE: { status: 503, description: 'Token signing keys could not be fetched', retryable: true },
+  SERVICE_TOKEN_UNAVAILABLE: { status: 503, description: 'The backend could not get a Firebase access token', retryable: true },
+  REQUEST_TIMEOUT: { status: 504, description: 'An upstream call timed out', retryable: true }
+} satisfies Record<string, ErrorCodeInfo>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export const ERROR_CODE_NAMES = Object.keys(ERROR_CODES) as [ErrorCode, ...ErrorCode[]];
+
+// Code for an ApiError thrown without one
+const CODES_BY_STATUS: Record<number, ErrorCode> = {
+  400: 'INVALID_REQUEST',
+  401: 'NOT_AUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  429: 'RATE_LIMITED',
+  502: 'UPSTREAM_ERROR',
+  503: 'SERVICE_UNAVAILABLE',
+  504: 'REQUEST_TIMEOUT'
+};
+
+export function isErrorCode(code: unknown): code is ErrorCode {
+  return typeof code === 'string' && Object.hasOwn(ERROR_CODES, code);
+}
+
+export interface ErrorResponseOptions {
+  requestId: string;
+  fallbackMessage: string;       // Message for errors that aren't ApiErrors
+  fallbackCode?: ErrorCode;      // Defaults to INTERNAL_SERVER_ERROR
+}
+
+/**
+ * Build the status and error envelope for a thrown error. ApiErrors keep
+ * their status, code and extras; anything else is a 500 with the fallback
+ * message and the original message in `details.reason`.
+ */
+export function toErrorResponse(error: unknown, options: ErrorResponseOptions): { status: number; body: ErrorResponse } {
+  if (!(error instanceof ApiError)) {
+    return {
+      status: 500,
+      body: {
+        success: false,
+        code: options.fallbackCode ?? 'INTERNAL_SERVER_ERROR',
+        message: options.fallbackMessage,
+        error: options.fallbackMessage,
+        details: { reason: error instanceof Error ? error.message : String(error) },
+        requestId: options.requestId,
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  const status = error.statusCode || 500;
+  return {
+    status,
+    body: {
+      success: false,
+      code: error.code ?? CODES_BY_STATUS[status] ?? 'INTERNAL_SERVER_ERROR',
+      message: error.message,
+      error: error.message,
+      ...(error.details && { details: error.details }),
+      ...(error.fields && { fields: error.fields }),
+      requestId: options.requestId,
+      ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+      timestamp: new Date().toISOString()
+    }
+  };
+}
@@ -0,0 +1,544 @@
+/**
+ * 🔑 Gemini API Key Manager Service
+ * Handles quota-aware key selection, rate limiting, and automatic retry logic
+ * Supports thousands of concurrent users with optimized key distribution.
+ * Keys are read from the env object the caller passes in (process.env on
+ * the server, the bindings in Workers). Usage, errors and blocks live in a
+ * KeyMetricsStore, which several instances can share.
+ */
+
+import { z } from 'zod';
+import { ApiError } from './types.js';
+import {
+  InMemoryKeyMetricsStore,
+  KeyMetricsState,
+  KeyMetricsStore,
+  keyMetricsId,
+  USAGE_WINDOWS,
+  usageAt,
+  usageWindow
+} from './keyMetricsStore.js';
+import { classifyGeminiError, GeminiOperationMetrics, OutcomeCounts } from './geminiOperationMetrics.js';
+import { logger } from './logger.js';
+
+// GEMINI_API_KEYS (comma separated), or legacy GEMINI_API_KEY, GEMINI_API_KEY1..12,
+// plus GEMINI_KEY_CONFIG (see geminiKeyConfigSchema)
+export type GeminiKeyEnv = Record<string, unknown>;
+
+/**
+ * Limits and preferences of one key. Unset limits are unlimited; Google
+ * enforces its own quotas either way, these just stop us hitting them.
+ */
+export const geminiKeyConfigSchema = z.object({
+  requestsPerMinute: z.number().int().positive().optional(),
+  dailyQuota: z.number().int().positive().optional().describe('Requests per UTC day'),
+  models: z.array(z.string().min(1)).min(1).optional().describe('Models the key may call; any when unset'),
+  weight: z.number().positive().optional().describe('Preference over other keys, 1 by default')
+}).strict();
+
+export type GeminiKeyConfig = z.infer<typeof geminiKeyConfigSchema>;
+
+// GEMINI_KEY_CONFIG is a JSON array in the same order as the keys; null or
+// missing entries leave a key unconfigured
+const geminiKeyConfigListSchema = z.array(geminiKeyConfigSchema.nullable());
+
+export interface GeminiKeyBudget {
+  weight: number;
+  models: string[] | null;            // null: any model
+  requestsPerMinute: number | null;   // null: unlimited
+  remainingThisMinute: number | null;
+  dailyQuota: number | null;
+  remainingToday: number | null;
+}
+
+export interface GeminiKeyManagerOptions {
+  // How often blocked keys are swept back into rotation; 0 disables the timer
+  // (Workers can't keep timers between requests, keys unblock on use instead)
+  cleanupIntervalMs?: number;
+  // Where usage, errors and blocks are kept; share one between instances to
+  // give them the same view of the pool. Defaults to this process's memory.
+  store?: KeyMetricsStore;
+  // Per-key limits in key order; overrides GEMINI_KEY_CONFIG
+  keyConfig?: Array<GeminiKeyConfig | null>;
+  // Called whenever this instance takes a key out of rotation, e.g. to count blocks
+  onKeyBlocked?: (event: GeminiKeyBlockEvent) => void;
+}
+
+export interface GeminiKeyBlockEvent {
+  key: string;                      // keyMetricsId of the key, as in getStatus().keyStats
+  reason: 'rate-limit' | 'errors';  // A 429, or maxErrorsBeforeBlock errors in a row
+  until: number;                    // Epoch ms
+}
+
+export class GeminiKeyManager {
+  private keys: string[] = [];
+  private keyConfig: Map<string, GeminiKeyConfig> = new Map();
+  private keyIds: Promise<Map<string, string>>;
+  private readonly store: KeyMetricsStore;
+  private readonly operationMetrics = new GeminiOperationMetrics();
+  private readonly onKeyBlocked?: (event: GeminiKeyBlockEvent) => void;
+  private readonly maxRetries: number = 3;
+  private readonly blockDurationMs: number = 60000; // 1 minute block for 429s that don't say how long to wait
+  private readonly maxErrorsBeforeBlock: number = 5;
+
+  constructor(env: GeminiKeyEnv = {}, options: GeminiKeyManagerOptions = {}) {
+    this.store = options.store ?? new InMemoryKeyMetricsStore();
+    this.onKeyBlocked = options.onKeyBlocked;
+    this.initializeKeys(env);
+    this.initializeKeyConfig(options.keyConfig ?? this.readKeyConfig(env));
+    this.keyIds = Promise.all(this.keys.map(keyMetricsId))
+      .then(ids => new Map(this.keys.map((key, i) => [key, ids[i]])));
+    this.startCleanupTask(options.cleanupIntervalMs ?? 30000);
+  }
+
+  /**
+   * 🚀 Initialize API keys from environment variables
+   */
+  private initializeKeys(env: GeminiKeyEnv): void {
+    const keysFromEnv = typeof env.GEMINI_API_KEYS === 'string' ? env.GEMINI_API_KEYS : '';
+    
+    if (!keysFromEnv) {
+      // Fallback to legacy individual keys
+      const legacyKeys: string[] = [];
+      for (let i = 0; i <= 12; i++) {
+        const key = env[`GEMINI_API_KEY${i === 0 ? '' : i}`];
+        if (typeof key === 'string' && key) legacyKeys.push(key);
+      }
+      this.keys = legacyKeys;
+    } else {
+      this.keys = keysFromEnv.split(',').map(key => key.trim()).filter(key => key.length > 0);
+    }
+
+    if (this.keys.length === 0) {
+      throw new ApiError('🚨 No Gemini API keys found in environment variables', 500, 'NO_API_KEYS');
+    }
+
+    logger.info(`🔑 GeminiKeyManager initialized with ${this.keys.length} API keys (${this.store.name} metrics)`);
+  }
+
+  /**
+   * 📖 Parse GEMINI_KEY_CONFIG, if set
+   */
+  private readKeyConfig(env: GeminiKeyEnv): Array<GeminiKeyConfig | null> {
+    if (typeof env.GEMINI_KEY_CONFIG !== 'string' || !env.GEMINI_KEY_CONFIG.trim()) {
+      return [];
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(env.GEMINI_KEY_CONFIG);
+    } catch {
+      throw new ApiError('GEMINI_KEY_CONFIG is not valid JSON', 500, 'CONFIG_ERROR');
+    }
+
+    const parsed = geminiKeyConfigListSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ApiError(`GEMINI_KEY_CONFIG${issue.path.map(part => `[${String(part)}]`).join('')}: ${issue.message}`, 500, 'CONFIG_ERROR');
+    }
+    return parsed.data;
+  }
+
+  /**
+   * ⚙️ Attach each config entry to the key at the same position
+   */
+  private initializeKeyConfig(configs: Array<GeminiKeyConfig | null>): void {
+    if (configs.length > this.keys.length) {
+      logger.warn(`⚠️ Gemini key config has ${configs.length} entries for ${this.keys.length} keys, ignoring the extra ones`);
+    }
+
+    this.keys.forEach((key, i) => {
+      if (configs[i]) this.keyConfig.set(key, configs[i]!);
+    });
+  }
+
+  /**
+   * 🪪 Store id of an API key
+   */
+  private async idOf(apiKey: string): Promise<string> {
+    return (await this.keyIds).get(apiKey)!;
+  }
+
+  /**
+   * 📥 Current metrics of every key, from the store
+   */
+  private async loadMetrics(): Promise<Map<string, KeyMetricsState>> {
+    const keyIds = await this.keyIds;
+    const states = await this.store.getAll([...keyIds.values()]);
+    return new Map(this.keys.map(key => [key, states[keyIds.get(key)!]]));
+  }
+
+  /**
+   * 🔄 Get the key with the most remaining budget for the model
+   * Keys that tie (e.g. unconfigured ones) take turns through the shared cursor.
+   */
+  public async getNextKey(model?: string): Promise<string> {
+    const metrics = await this.loadMetrics();
+    const candidates = await this.rankKeys(metrics, model);
+    
+    if (candidates.length === 0) {
+      throw this.exhaustedError(
+        'All Gemini API keys are currently rate-limited or blocked. Please try again later.',
+        metrics,
+        model
+      );
+    }
+
+    const bestScore = candidates[0].score;
+    const tied = candidates.filter(candidate => candidate.score === bestScore);
+    const selectedKey = tied[await this.store.nextIndex() % tied.length].key;
+
+    // Update metrics
+    await this.store.recordUse(await this.idOf(selectedKey), Date.now());
+
+    logger.debug(`🔑 Selected API key: ${this.maskKey(selectedKey)}${model ? ` for ${model}` : ''} (Usage: ${metrics.get(selectedKey)!.usageCount + 1})`);
+    
+    return selectedKey;
+  }
+
+  /**
+   * 🏆 Unblocked keys that may call the model and have budget left, best first.
+   * A key's score is its weight times the share of its tightest budget still left.
+   */
+  private async rankKeys(metrics: Map<string, KeyMetricsState>, model?: string): Promise<Array<{ key: string; score: number }>> {
+    const now = Date.now();
+    const ranked: Array<{ key: string; score: number }> = [];
+
+    for (const key of await this.getAvailableKeys(metrics)) {
+      if (!this.allowsModel(key, model)) continue;
+
+      const budget = this.budgetOf(key, metrics.get(key)!, now);
+      const shares = [
+        budget.requestsPerMinute === null ? 1 : budget.remainingThisMinute! / budget.requestsPerMinute,
+        budget.dailyQuota === null ? 1 : budget.remainingToday! / budget.dailyQuota
+      ];
+      const share = Math.min(...shares);
+      if (share > 0) {
+        ranked.push({ key, score: budget.weight * share });
+      }
+    }
+
+    // Stable, so tied keys stay in configuration order for the cursor
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * 💰 Limits of a key and what is left of them at `now`
+   */
+  private budgetOf(key: string, state: KeyMetricsState, now: number): GeminiKeyBudget {
+    const config = this.keyConfig.get(key) ?? {};
+    const usage = usageAt(state, now);
+    const remaining = (limit: number | undefined, used: number) => limit === undefined ? null : Math.max(0, limit - used);
+
+    return {
+      weight: config.weight ?? 1,
+      models: config.models ?? null,
+      requestsPerMinute: config.requestsPerMinute ?? null,
+      remainingThisMinute: remaining(config.requestsPerMinute, usage.thisMinute),
+      dailyQuota: config.dailyQuota ?? null,
+      remainingToday: remaining(config.dailyQuota, usage.today)
+    };
+  }
+
+  /**
+   * 🎯 Whether the key's allow-list lets it call the model
+   */
+  private allowsModel(key: string, model?: string): boolean {
+    const models = this.keyConfig.get(key)?.models;
+    return !model || !models || models.includes(model);
+  }
+
+  /**
+   * 🔄 Execute API call with automatic retry and key rotation
+   */
+  public async executeWithRetry<T>(
+    apiCall: (apiKey: string) => Promise<T>,
+    operation: string = 'API call',
+    model?: string
+  ): Promise<T> {
+    let lastError: Error | null = null;
+    let attemptsCount = 0;
+    const maxAttempts = Math.min(this.maxRetries, (await this.rankKeys(await this.loadMetrics(), model)).length);
+
+    logger.info(`🚀 Starting ${operation} with key rotation (max ${maxAttempts} attempts)`);
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // The key this attempt handed to apiCall; failures are charged to it and nothing else
+      let apiKey: string | null = null;
+      let startTime = 0;
+
+      try {
+        apiKey = await this.getNextKey(model);
+        logger.debug(`🔄 Attempt ${attempt}/${maxAttempts} using key: ${this.maskKey(apiKey)}`);
+        
+        startTime = Date.now();
+        const result = await apiCall(apiKey);
+        const duration = Date.now() - startTime;
+        this.operationMetrics.record(operation, await this.idOf(apiKey), duration);
+        
+        // Mark key as successful
+        await this.markKeySuccess(apiKey);
+        
+        logger.info(`✅ ${operation} successful in ${duration}ms with key: ${this.maskKey(apiKey)}`);
+        return result;
+
+      } catch (error) {
+        attemptsCount++;
+        lastError = error as Error;
+        
+        logger.warn(`❌ Attempt ${attempt} failed`, { operation, error: lastError });
+
+        // No key to blame when getNextKey itself failed
+        if (apiKey) {
+          const errorClass = classifyGeminiError(lastError);
+          this.operationMetrics.record(operation, await this.idOf(apiKey), Date.now() - startTime, errorClass);
+
+          if (errorClass === 'rate-limit') {
+            await this.markKeyAsRateLimited(apiKey, this.retryAfterMs(lastError));
+            logger.warn(`⏸️ Key ${this.maskKey(apiKey)} temporarily blocked due to rate limiting`);
+          } else {
+            // For other errors, mark key as having an error
+            await this.markKeyError(apiKey);
+          }
+        }
+
+        // If this was the last attempt, break
+        if (attempt === maxAttempts) {
+          break;
+        }
+
+        // Wait a bit before retry (exponential backoff)
+        const waitTime = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        logger.debug(`⏳ Waiting ${waitTime}ms before retry...`);
+        await this.sleep(waitTime);
+      }
+    }
+
+    // All attempts failed
+    logger.error(`🚨 All ${attemptsCount} attempts failed for ${operation}`);
+    
+    const metrics = await this.loadMetrics();
+    if ((await this.rankKeys(metrics, model)).length === 0) {
+      throw this.exhaustedError('All Gemini API keys exhausted', metrics, model);
+    }
+
+    throw new ApiError(
+      `${operation} failed after ${attemptsCount} attempts: ${lastError?.message || 'Unknown error'}`,
+      500,
+      'API_CALL_FAILED'
+    );
+  }
+
+  /**
+   * 🔍 Get all currently available (non-blocked) keys
+   */
+  private async getAvailableKeys(metrics?: Map<string, KeyMetricsState>): Promise<string[]> {
+    metrics ??= await this.loadMetrics();
+    const now = Date.now();
+    const availableKeys: string[] = [];
+
+    for (const key of this.keys) {
+      const state = metrics.get(key)!;
+
+      // Check if key is temporarily blocked
+      if (state.blockUntil > now) {
+        continue;
+      }
+
+      // Unblock if block period expired
+      if (state.blockUntil > 0) {
+        await this.store.unblock(await this.idOf(key));
+        state.blockUntil = 0;
+        state.errorCount = 0;
+        logger.info(`🔓 Key ${this.maskKey(key)} unblocked after cooldown period`);
+      }
+
+      availableKeys.push(key);
+    }
+
+    return availableKeys;
+  }
+
+  /**
+   * 🚫 Error for when no key can take the request: a config error when no key
+   * may call the model at all, otherwise a 429 saying when one will be free
+   */
+  private exhaustedError(message: string, metrics: Map<string, KeyMetricsState>, model?: string): ApiError {
+    const eligible = this.keys.filter(key => this.allowsModel(key, model));
+    if (eligible.length === 0) {
+      return new ApiError(`No Gemini API key is allowed to call ${model}`, 500, 'NO_KEY_FOR_MODEL', { details: { model } });
+    }
+
+    return new ApiError(message, 429, 'ALL_KEYS_EXHAUSTED', {
+      retryAfter: this.secondsUntilFree(eligible, metrics)
+    });
+  }
+
+  /**
+   * ⏱️ Seconds until the first of the keys is unblocked and has budget again, for Retry-After
+   */
+  private secondsUntilFree(keys: string[], metrics: Map<string, KeyMetricsState>): number {
+    const now = Date.now();
+    const windowEnd = (window: 'minute' | 'day') => (usageWindow(window, now) + 1) * USAGE_WINDOWS[window];
+
+    const freeTimes = keys.map(key => {
+      const state = metrics.get(key)!;
+      const budget = this.budgetOf(key, state, now);
+      return Math.max(
+        state.blockUntil,
+        budget.remainingThisMinute === 0 ? windowEnd('minute') : 0,
+        budget.remainingToday === 0 ? windowEnd('day') : 0
+      );
+    });
+
+    const firstFree = Math.min(...freeTimes);
+    if (firstFree <= now) {
+      return Math.ceil(this.blockDurationMs / 1000);
+    }
+    return Math.max(1, Math.ceil((firstFree - now) / 1000));
+  }
+
+  /**
+   * ⏳ How long a 429 asked us to wait, if it said: a Retry-After header,
+   * Gemini's RetryInfo retryDelay, or a retryAfter in seconds on the error
+   */
+  private retryAfterMs(error: Error): number | undefined {
+    const { retryAfter, headers } = error as Error & { retryAfter?: unknown; headers?: unknown };
+    if (typeof retryAfter === 'number' && retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+
+    const header = headers instanceof Headers
+      ? headers.get('retry-after')
+      : (headers as Record<string, string> | undefined)?.['retry-after'];
+    if (header) {
+      const seconds = Number(header);
+      const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+      if (delay > 0) return delay;
+    }
+
+    const retryDelay = error.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return retryDelay ? Number(retryDelay[1]) * 1000 : undefined;
+  }
+
+  /**
+   * 🚨 Mark key as rate-limited (429 error), for as long as the 429 asked
+   */
+  private async markKeyAsRateLimited(apiKey: string, retryAfterMs: number = this.blockDurationMs): Promise<void> {
+    const keyId = await this.idOf(apiKey);
+    const blockUntil = new Date(Date.now() + retryAfterMs);
+
+    await this.store.block(keyId, blockUntil.getTime());
+    await this.store.recordError(keyId);
+    this.onKeyBlocked?.({ key: keyId, reason: 'rate-limit', until: blockUntil.getTime() });
+
+    logger.warn(`🚫 Key ${this.maskKey(apiKey)} rate-limited, blocked until ${blockUntil.toISOString()}`);
+  }
+
+  /**
+   * ❌ Mark key as having an error
+   */
+  private async markKeyError(apiKey: string): Promise<void> {
+    const keyId = await this.idOf(apiKey);
+    const errorCount = await this.store.recordError(keyId);
+
+    // Block key if too many errors
+    if (errorCount >= this.maxErrorsBeforeBlock) {
+      const until = Date.now() + this.blockDurationMs * 2; // Longer block for repeated errors
+      await this.store.block(keyId, until);
+      this.onKeyBlocked?.({ key: keyId, reason: 'errors', until });
+      logger.warn(`🔒 Key ${this.maskKey(apiKey)} blocked due to ${errorCount} consecutive errors`);
+    }
+  }
+
+  /**
+   * ✅ Mark key as successful (reset error count)
+   */
+  private async markKeySuccess(apiKey: string): Promise<void> {
+    await this.store.recordSuccess(await this.idOf(apiKey)); // Reset error count on success
+  }
+
+  /**
+   * 🎭 Mask API key for logging (show only first 8 and last 4 characters)
+   */
+  private maskKey(key: string): string {
+    if (key.length <= 12) return '***';
+    return `${key.substring(0, 8)}...${key.substring(key.length - 4)}`;
+  }
+
+  /**
+   * 😴 Sleep utility for delays
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * 🧹 Start periodic cleanup task to unblock expired keys
+   */
+  private startCleanupTask(intervalMs: number): void {
+    if (intervalMs <= 0) return;
+
+    const timer: any = setInterval(() => {
+      // Reading availability unblocks every key whose block has expired
+      this.getAvailableKeys().catch(error => {
+        logger.error('🧹 Cleanup failed to read key metrics', { error });
+      });
+    }, intervalMs);
+    // Never keep a Node process alive just for the sweep
+    timer.unref?.();
+  }
+
+  /**
+   * 📊 Get current status of all keys, as every instance sharing the store sees it
+   */
+  public async getStatus(): Promise<{
+    store: string;
+    totalKeys: number;
+    availableKeys: number;
+    blockedKeys: number;
+    keyStats: Array<{
+      key: string;
+      id: string;             // What operation metrics and block events name the key by
+      usageCount: number;
+      lastUsed: string;
+      isBlocked: boolean;
+      errorCount: number;
+      budget: GeminiKeyBudget;
+      calls: OutcomeCounts;   // This instance's calls on the key, by outcome
+    }>;
+  }> {
+    const metrics = await this.loadMetrics();
+    const availableKeys = await this.getAvailableKeys(metrics);
+    const keyIds = await this.keyIds;
+    const now = Date.now();
+    const keyStats = this.keys.map(key => {
+      const state = metrics.get(key)!;
+      return {
+        key: this.maskKey(key),
+        id: keyIds.get(key)!,
+        usageCount: state.usageCount,
+        lastUsed: new Date(state.lastUsed).toISOString(),
+        isBlocked: state.blockUntil > 0,
+        errorCount: state.errorCount,
+        budget: this.budgetOf(key, state, now),
+        calls: this.operationMetrics.forKey(keyIds.get(key)!)
+      };
+    });
+
+    return {
+      store: this.store.name,
+      totalKeys: this.keys.length,
+      availableKeys: availableKeys.length,
+      blockedKeys: this.keys.length - availableKeys.length,
+      keyStats
+    };
+  }
+
+  /**
+   * ⏱️ Latency and outcomes of this instance's Gemini calls, by operation and key
+   */
+  public getOperationMetrics(): ReturnType<GeminiOperationMetrics['snapshot']> {
+    return this.operationMetrics.snapshot();
+  }
+}
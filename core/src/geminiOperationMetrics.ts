@@ -0,0 +1,146 @@
+/**
+ * ⏱️ Gemini Operation Metrics
+ * Latency and outcome of every Gemini call GeminiKeyManager makes, by
+ * operation (image-generation, image-analysis, ...) and by key, so we can see
+ * which operation is burning quota and which key keeps failing. Counted per
+ * process or isolate since it started; each attempt of a retried call counts.
+ */
+
+// Upper bounds of the latency buckets, in ms; slower calls land in the +Inf bucket
+export const GEMINI_LATENCY_BUCKETS_MS = [100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+export const GEMINI_ERROR_CLASSES = ['rate-limit', 'auth', 'invalid-request', 'timeout', 'upstream', 'other'] as const;
+export type GeminiErrorClass = typeof GEMINI_ERROR_CLASSES[number];
+
+export interface OutcomeCounts {
+  successes: number;
+  errors: number;
+  errorsByClass: Partial<Record<GeminiErrorClass, number>>;
+}
+
+export interface LatencyHistogram {
+  buckets: Array<{ le: number | null; count: number }>;   // Cumulative; le null is +Inf
+  count: number;
+  sumMs: number;
+}
+
+export interface OperationMetricsSnapshot extends OutcomeCounts {
+  operation: string;
+  latencyMs: LatencyHistogram;
+  byKey: Array<OutcomeCounts & { key: string }>;
+}
+
+interface OperationEntry {
+  outcomes: OutcomeCounts;
+  bucketCounts: number[];   // Per bucket, not cumulative; one more than the bounds
+  sumMs: number;
+  byKey: Map<string, OutcomeCounts>;
+}
+
+const emptyOutcomes = (): OutcomeCounts => ({ successes: 0, errors: 0, errorsByClass: {} });
+
+const countOutcome = (outcomes: OutcomeCounts, errorClass?: GeminiErrorClass): void => {
+  if (!errorClass) {
+    outcomes.successes++;
+    return;
+  }
+  outcomes.errors++;
+  outcomes.errorsByClass[errorClass] = (outcomes.errorsByClass[errorClass] ?? 0) + 1;
+};
+
+/**
+ * Sort a failed Gemini call into an error class, from its status or message
+ */
+export function classifyGeminiError(error: unknown): GeminiErrorClass {
+  const status = (error as { status?: unknown; statusCode?: unknown } | null)?.status
+    ?? (error as { statusCode?: unknown } | null)?.statusCode;
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  const mentions = (...needles: string[]) => needles.some(needle => message.includes(needle));
+
+  if (status === 429 || mentions('429', 'rate limit', 'quota', 'too many requests', 'resource_exhausted')) {
+    return 'rate-limit';
+  }
+  if (status === 401 || status === 403 || mentions('api key not valid', 'permission_denied', 'unauthenticated')) {
+    return 'auth';
+  }
+  if (status === 408 || status === 504 || mentions('timeout', 'timed out', 'deadline_exceeded', 'aborted')) {
+    return 'timeout';
+  }
+  if (status === 400 || mentions('invalid_argument', 'failed_precondition')) {
+    return 'invalid-request';
+  }
+  if ((typeof status === 'number' && status >= 500) || mentions('500', '502', '503', 'unavailable', 'internal')) {
+    return 'upstream';
+  }
+  return 'other';
+}
+
+export class GeminiOperationMetrics {
+  private operations: Map<string, OperationEntry> = new Map();
+  private startedAt = new Date();
+
+  /**
+   * Count one call of an operation on a key
+   * @param errorClass Unset when the call succeeded
+   */
+  record(operation: string, key: string, durationMs: number, errorClass?: GeminiErrorClass): void {
+    let entry = this.operations.get(operation);
+    if (!entry) {
+      entry = {
+        outcomes: emptyOutcomes(),
+        bucketCounts: new Array(GEMINI_LATENCY_BUCKETS_MS.length + 1).fill(0),
+        sumMs: 0,
+        byKey: new Map()
+      };
+      this.operations.set(operation, entry);
+    }
+
+    const bucket = GEMINI_LATENCY_BUCKETS_MS.findIndex(bound => durationMs <= bound);
+    entry.bucketCounts[bucket === -1 ? GEMINI_LATENCY_BUCKETS_MS.length : bucket]++;
+    entry.sumMs += durationMs;
+
+    countOutcome(entry.outcomes, errorClass);
+    if (!entry.byKey.has(key)) entry.byKey.set(key, emptyOutcomes());
+    countOutcome(entry.byKey.get(key)!, errorClass);
+  }
+
+  /**
+   * Outcomes of every operation on one key
+   */
+  forKey(key: string): OutcomeCounts {
+    const total = emptyOutcomes();
+    for (const entry of this.operations.values()) {
+      const outcomes = entry.byKey.get(key);
+      if (!outcomes) continue;
+
+      total.successes += outcomes.successes;
+      total.errors += outcomes.errors;
+      for (const [errorClass, count] of Object.entries(outcomes.errorsByClass) as Array<[GeminiErrorClass, number]>) {
+        total.errorsByClass[errorClass] = (total.errorsByClass[errorClass] ?? 0) + count;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Everything counted so far, by operation
+   */
+  snapshot(): { since: string; operations: OperationMetricsSnapshot[] } {
+    const operations = [...this.operations].map(([operation, entry]) => {
+      let cumulative = 0;
+      const buckets = entry.bucketCounts.map((count, i) => ({
+        le: GEMINI_LATENCY_BUCKETS_MS[i] ?? null,
+        count: cumulative += count
+      }));
+
+      return {
+        operation,
+        ...structuredClone(entry.outcomes),
+        latencyMs: { buckets, count: cumulative, sumMs: entry.sumMs },
+        byKey: [...entry.byKey].map(([key, outcomes]) => ({ key, ...structuredClone(outcomes) }))
+      };
+    });
+
+    return { since: this.startedAt.toISOString(), operations };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * 🚀 Google Imagen provider
+ * Keys come from the caller's GeminiKeyManager so rotation and metrics stay in one place
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import {
+  ApiError,
+  GeminiKeyRunner,
+  GeminiModel,
+  GeneratedImageData,
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageSize
+} from '../types.js';
+import { logger } from '../logger.js';
+
+export interface GeminiImageProviderConfig {
+  id: string;
+  name: string;
+  description: string;
+  model: GeminiModel;
+  promptSuffix: string;
+}
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly capabilities: ImageProviderCapabilities = { seed: false, network: true, apiKey: true };
+  readonly sizes: ImageSize[] = [{ width: 1024, height: 1024 }];
+
+  private model: GeminiModel;
+  private promptSuffix: string;
+
+  constructor(config: GeminiImageProviderConfig, private keyRunner: GeminiKeyRunner) {
+    this.id = config.id;
+    this.name = config.name;
+    this.description = config.description;
+    this.model = config.model;
+    this.promptSuffix = config.promptSuffix;
+  }
+
+  async generate(prompt: string): Promise<GeneratedImageData> {
+    const finalPrompt = prompt + this.promptSuffix;
+
+    logger.info(`🎨 Generating image with Gemini (${this.model})`, { promptLength: finalPrompt.length });
+
+    const imageBase64 = await this.keyRunner.executeWithRetry(async (apiKey) => {
+      const gemini = new GoogleGenAI({ apiKey });
+      const response = await gemini.models.generateImages({
+        model: this.model,
+        prompt: finalPrompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: '1:1',
+        },
+      });
+
+      const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+      if (!imageBytes) {
+        throw new ApiError('No image returned from Gemini', 500, 'NO_IMAGE_GENERATED');
+      }
+      return imageBytes;
+    }, 'image-generation', this.model);
+
+    logger.info(`✅ Gemini image generated successfully (${imageBase64.length} chars)`);
+    return { imageBase64, model: 'Google Gemini Imagen' };
+  }
+}
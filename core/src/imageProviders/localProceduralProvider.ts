@@ -0,0 +1,34 @@
+/**
+ * 🧩 Local procedural image provider
+ * Draws shapes and colors named in the prompt. No network or API keys, and the
+ * same prompt, seed and size always give the same PNG, so development and tests
+ * can run the whole challenge loop offline.
+ */
+
+import { bytesToBase64 } from '../encoding.js';
+import { renderPromptImage } from './proceduralImage.js';
+import {
+  GeneratedImageData,
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageProviderOptions,
+  ImageSize
+} from '../types.js';
+import { logger } from '../logger.js';
+
+export class LocalProceduralProvider implements ImageProvider {
+  readonly id = 'local-procedural';
+  readonly name = 'Local (Procedural)';
+  readonly description = 'Offline shapes and colors drawn from prompt keywords';
+  readonly capabilities: ImageProviderCapabilities = { seed: true, network: false, apiKey: false };
+  readonly sizes: ImageSize[] = [{ width: 256, height: 256 }, { width: 512, height: 512 }];
+
+  async generate(prompt: string, options: ImageProviderOptions): Promise<GeneratedImageData> {
+    const { width, height } = options.size || this.sizes[0];
+
+    logger.info(`🧩 Rendering procedural image (${width}x${height}, seed=${options.seed ?? 0})`, { promptLength: prompt.length });
+
+    const png = renderPromptImage(prompt, width, height, options.seed ?? 0);
+    return { imageBase64: bytesToBase64(png), model: 'Local Procedural' };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * 🎨 Pollinations AI image provider
+ * Calls the Pollinations HTTP API with the runtime's fetch (injectable for tests)
+ */
+
+import { bytesToBase64 } from '../encoding.js';
+import {
+  ApiError,
+  FetchFunction,
+  GeneratedImageData,
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageProviderOptions,
+  ImageSize,
+  PollationsModel
+} from '../types.js';
+import { logger } from '../logger.js';
+
+const POLLINATIONS_API = 'https://image.pollinations.ai/prompt';
+
+export interface PollinationsProviderConfig {
+  id: string;
+  name: string;
+  description: string;
+  model: PollationsModel;
+  promptSuffix: string;
+  fetch?: FetchFunction;
+}
+
+export class PollinationsProvider implements ImageProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly capabilities: ImageProviderCapabilities = { seed: false, network: true, apiKey: false };
+  readonly sizes: ImageSize[] = [{ width: 1024, height: 1024 }];
+
+  private model: PollationsModel;
+  private promptSuffix: string;
+  private fetch: FetchFunction;
+
+  constructor(config: PollinationsProviderConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.description = config.description;
+    this.model = config.model;
+    this.promptSuffix = config.promptSuffix;
+    this.fetch = config.fetch || ((input, init) => fetch(input, init));
+  }
+
+  async generate(prompt: string, options: ImageProviderOptions): Promise<GeneratedImageData> {
+    const { width, height } = options.size || this.sizes[0];
+    const finalPrompt = prompt + this.promptSuffix;
+    const imageUrl = `${POLLINATIONS_API}/${encodeURIComponent(finalPrompt)}?width=${width}&height=${height}&model=${this.model}&nologo=true`;
+
+    logger.info(`🎨 Fetching image from Pollinations (${this.model})`, { promptLength: prompt.length });
+
+    let response: Response;
+    try {
+      response = await this.fetch(imageUrl);
+    } catch (error) {
+      logger.error('❌ Pollinations request failed', { error });
+      throw new ApiError('Failed to generate image with Pollinations', 502, 'POLLINATIONS_API_ERROR');
+    }
+
+    if (!response.ok) {
+      throw new ApiError(`Pollinations API failed: ${response.status} ${response.statusText}`, 502, 'POLLINATIONS_API_ERROR');
+    }
+
+    const imageBase64 = bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+
+    logger.info(`✅ Pollinations image generated successfully (${imageBase64.length} chars)`);
+    return { imageBase64, model: 'Pollinations AI' };
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * 🧩 Procedural image rendering - Deterministic pictures from prompt keywords
+ * Pure JS (no canvas, no zlib) so the Express server and the Worker produce
+ * byte-identical PNGs for the same prompt, seed and size.
+ */
+
+export type RGB = [number, number, number];
+
+export type ShapeKind = 'circle' | 'square' | 'triangle' | 'rectangle';
+
+export interface SceneShape {
+  kind: ShapeKind;
+  color: RGB;
+  x: number;       // Centre, as a fraction of the width
+  y: number;       // Centre, as a fraction of the height
+  radius: number;  // Half the shape's height, as a fraction of the smaller side
+}
+
+export interface Scene {
+  background: RGB;
+  shapes: SceneShape[];
+}
+
+const COLORS: Record<string, RGB> = {
+  red: [220, 40, 40],
+  orange: [245, 140, 30],
+  yellow: [245, 215, 40],
+  green: [50, 160, 70],
+  blue: [40, 90, 210],
+  purple: [130, 60, 180],
+  pink: [240, 130, 180],
+  brown: [130, 85, 45],
+  black: [20, 20, 20],
+  white: [250, 250, 250],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  cyan: [40, 200, 220]
+};
+
+// Scenery words that set the background when no "<color> background" is given
+const BACKDROPS: Record<string, RGB> = {
+  sky: [135, 206, 235],
+  night: [20, 24, 60],
+  space: [10, 10, 25],
+  grass: [90, 170, 80],
+  field: [90, 170, 80],
+  meadow: [90, 170, 80],
+  forest: [34, 100, 50],
+  sea: [30, 90, 170],
+  ocean: [30, 90, 170],
+  water: [30, 90, 170],
+  desert: [230, 200, 140],
+  sand: [230, 200, 140],
+  beach: [230, 200, 140],
+  snow: [245, 245, 250]
+};
+
+const SHAPES: Record<string, ShapeKind> = {
+  circle: 'circle', circles: 'circle', ball: 'circle', balls: 'circle', dot: 'circle', dots: 'circle',
+  sun: 'circle', moon: 'circle', orb: 'circle', orbs: 'circle',
+  square: 'square', squares: 'square', box: 'square', boxes: 'square', cube: 'square', cubes: 'square',
+  triangle: 'triangle', triangles: 'triangle', pyramid: 'triangle', pyramids: 'triangle',
+  mountain: 'triangle', mountains: 'triangle', tree: 'triangle', trees: 'triangle',
+  rectangle: 'rectangle', rectangles: 'rectangle', bar: 'rectangle', bars: 'rectangle',
+  house: 'rectangle', houses: 'rectangle', building: 'rectangle', buildings: 'rectangle'
+};
+
+const COUNTS: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1, two: 2, pair: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, several: 3, many: 6
+};
+
+const MAX_SHAPES = 12;
+const DEFAULT_BACKGROUND: RGB = [240, 240, 240];
+const PALETTE = Object.keys(COLORS).filter(name => name !== 'grey' && name !== 'white');
+
+/**
+ * FNV-1a hash of the normalized prompt
+ */
+function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32: small seeded PRNG returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Read colors, counts, shapes and a background out of a prompt.
+ * A color or count applies to the next shape word; "<color> background"
+ * and scenery words (sky, ocean, ...) set the background.
+ */
+export function parseScene(prompt: string, seed: number = 0): Scene {
+  const normalized = prompt.toLowerCase().trim();
+  const words = normalized.match(/[a-z]+|\d+/g) || [];
+  const random = createRandom(hashText(normalized) ^ seed);
+
+  let background: RGB | null = null;
+  let backdrop: RGB | null = null;
+  let pendingColor: RGB | null = null;
+  let pendingCount: number | null = null;
+  const shapes: SceneShape[] = [];
+
+  const addShapes = (kind: ShapeKind, count: number, color: RGB | null) => {
+    for (let i = 0; i < count && shapes.length < MAX_SHAPES; i++) {
+      shapes.push({
+        kind,
+        color: color || COLORS[PALETTE[Math.floor(random() * PALETTE.length)]],
+        x: 0.2 + random() * 0.6,
+        y: 0.2 + random() * 0.6,
+        radius: 0.08 + random() * 0.12
+      });
+    }
+  };
+
+  for (let index = 0; index < words.length; index++) {
+    const word = words[index];
+    const next = words[index + 1];
+    if (COLORS[word] && (next === 'background' || next === 'backdrop')) {
+      background = COLORS[word];
+    } else if (COLORS[word]) {
+      pendingColor = COLORS[word];
+    } else if (/^\d+$/.test(word)) {
+      pendingCount = parseInt(word, 10);
+    } else if (COUNTS[word] !== undefined) {
+      pendingCount = COUNTS[word];
+    } else if (SHAPES[word]) {
+      addShapes(SHAPES[word], Math.max(1, pendingCount ?? 1), pendingColor);
+      pendingColor = null;
+      pendingCount = null;
+    } else if (BACKDROPS[word] && !backdrop) {
+      backdrop = BACKDROPS[word];
+    }
+  }
+
+  // Nothing recognisable still gets a picture unique to the prompt
+  if (shapes.length === 0) {
+    addShapes('circle', 1, pendingColor);
+  }
+
+  return { background: background || backdrop || DEFAULT_BACKGROUND, shapes };
+}
+
+/**
+ * Rasterize a scene into RGB bytes, row by row
+ */
+export function renderScene(scene: Scene, width: number, height: number): Uint8Array {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0; i < pixels.length; i += 3) {
+    pixels.set(scene.background, i);
+  }
+
+  const unit = Math.min(width, height);
+  for (const shape of scene.shapes) {
+    const cx = shape.x * width;
+    const cy = shape.y * height;
+    const r = shape.radius * unit;
+    const halfWidth = shape.kind === 'rectangle' ? r * 1.6 : r;
+
+    const left = Math.max(0, Math.floor(cx - halfWidth));
+    const right = Math.min(width - 1, Math.ceil(cx + halfWidth));
+    const top = Math.max(0, Math.floor(cy - r));
+    const bottom = Math.min(height - 1, Math.ceil(cy + r));
+
+    for (let y = top; y <= bottom; y++) {
+      for (let x = left; x <= right; x++) {
+        const dx = x + 0.5 - cx;
+        const dy = y + 0.5 - cy;
+        let inside: boolean;
+        switch (shape.kind) {
+          case 'circle':
+            inside = dx * dx + dy * dy <= r * r;
+            break;
+          case 'triangle':
+            // Apex at the top, base along the bottom edge
+            inside = dy >= -r && dy <= r && Math.abs(dx) <= (dy + r) / 2;
+            break;
+          default:
+            inside = Math.abs(dx) <= halfWidth && Math.abs(dy) <= r;
+        }
+        if (inside) {
+          pixels.set(shape.color, (y * width + x) * 3);
+        }
+      }
+    }
+  }
+
+  return pixels;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * LSB-first bit writer for DEFLATE
+ */
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private filled = 0;
+
+  writeBits(value: number, count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.current |= ((value >>> i) & 1) << this.filled;
+      if (++this.filled === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.filled = 0;
+      }
+    }
+  }
+
+  // Huffman codes are defined most significant bit first
+  writeCode(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.writeBits((code >>> i) & 1, 1);
+    }
+  }
+
+  finish(): number[] {
+    if (this.filled > 0) {
+      this.bytes.push(this.current);
+    }
+    return this.bytes;
+  }
+}
+
+// DEFLATE length codes 257..285: base length and extra bits
+const LENGTH_BASES = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+function writeLiteralOrLength(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+}
+
+/**
+ * zlib stream using fixed Huffman codes and pixel-repeat matches only
+ * (distance 3 = previous RGB pixel), which is all flat-colored art needs
+ */
+function zlibCompress(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter();
+  writer.writeBits(1, 1); // Final block
+  writer.writeBits(1, 2); // Fixed Huffman codes
+
+  let i = 0;
+  while (i < data.length) {
+    let length = 0;
+    if (i >= 3) {
+      while (length < 258 && i + length < data.length && data[i + length] === data[i + length - 3]) {
+        length++;
+      }
+    }
+
+    if (length >= 3) {
+      let code = LENGTH_BASES.length - 1;
+      while (LENGTH_BASES[code] > length) code--;
+      writeLiteralOrLength(writer, 257 + code);
+      writer.writeBits(length - LENGTH_BASES[code], LENGTH_EXTRA[code]);
+      writer.writeCode(2, 5); // Distance code 2 = distance 3, no extra bits
+      i += length;
+    } else {
+      writeLiteralOrLength(writer, data[i]);
+      i++;
+    }
+  }
+  writeLiteralOrLength(writer, 256); // End of block
+
+  const checksum = adler32(data);
+  return new Uint8Array([
+    0x78, 0x01,
+    ...writer.finish(),
+    checksum >>> 24, (checksum >>> 16) & 0xff, (checksum >>> 8) & 0xff, checksum & 0xff
+  ]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Encode RGB bytes as an 8-bit truecolor PNG
+ */
+export function encodePng(width: number, height: number, pixels: Uint8Array): Uint8Array {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit depth, RGB, default compression/filter, no interlace
+
+  // Each scanline starts with filter type 0 (none)
+  const stride = width * 3;
+  const scanlines = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibCompress(scanlines)),
+    pngChunk('IEND', new Uint8Array(0))
+  ];
+
+  const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+/**
+ * Prompt → PNG bytes
+ */
+export function renderPromptImage(prompt: string, width: number, height: number, seed: number = 0): Uint8Array {
+  return encodePng(width, height, renderScene(parseScene(prompt, seed), width, height));
+}
@@ -0,0 +1,112 @@
+/**
+ * 🗂️ Image Provider Registry - The image services the backends can generate with
+ */
+
+import { FetchFunction, GeminiKeyRunner, ImageProvider, ImageProviderInfo } from '../types.js';
+import { PollinationsProvider } from './pollinationsProvider.js';
+import { GeminiImageProvider } from './geminiImageProvider.js';
+import { LocalProceduralProvider } from './localProceduralProvider.js';
+
+export const DEFAULT_IMAGE_PROVIDER = 'pollinations-flux';
+
+// Keeps generators from embellishing the student's prompt
+const NO_EMBELLISHMENT = ' Don\'t add any additional effects or styles';
+
+export class ImageProviderRegistry {
+  private providers: Map<string, ImageProvider> = new Map();
+
+  constructor(private defaultId: string = DEFAULT_IMAGE_PROVIDER) {}
+
+  /**
+   * Add a provider; ids must be unique
+   */
+  register(provider: ImageProvider): this {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Image provider already registered: ${provider.id}`);
+    }
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  get(id: string): ImageProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  get defaultProviderId(): string {
+    return this.defaultId;
+  }
+
+  /**
+   * Describe every provider for the client's service picker
+   */
+  list(): ImageProviderInfo[] {
+    return Array.from(this.providers.values()).map(({ id, name, description, capabilities, sizes }) => ({
+      id, name, description, capabilities, sizes
+    }));
+  }
+}
+
+/**
+ * Registry with the built-in providers
+ * @param keyRunner Gemini key pool the Imagen providers draw on
+ * @param defaultId Provider used when a request names none (DEFAULT_IMAGE_PROVIDER)
+ * @param fetchImpl fetch for the HTTP providers; defaults to the global one
+ */
+export function createDefaultImageProviderRegistry(
+  keyRunner: GeminiKeyRunner,
+  defaultId: string = DEFAULT_IMAGE_PROVIDER,
+  fetchImpl?: FetchFunction
+): ImageProviderRegistry {
+  const registry = new ImageProviderRegistry(defaultId)
+    .register(new PollinationsProvider({
+      id: 'pollinations-flux',
+      name: 'Pollinations (Flux)',
+      description: 'High-quality general purpose images',
+      model: 'flux',
+      promptSuffix: NO_EMBELLISHMENT,
+      fetch: fetchImpl
+    }))
+    .register(new PollinationsProvider({
+      id: 'pollinations-kontext',
+      name: 'Pollinations (Realistic)',
+      description: 'More photorealistic images',
+      model: 'realistic',
+      promptSuffix: NO_EMBELLISHMENT,
+      fetch: fetchImpl
+    }))
+    .register(new PollinationsProvider({
+      id: 'pollinations-krea',
+      name: 'Pollinations (Anime)',
+      description: 'Anime and manga style images',
+      model: 'anime',
+      promptSuffix: NO_EMBELLISHMENT,
+      fetch: fetchImpl
+    }))
+    .register(new GeminiImageProvider({
+      id: 'gemini-imagen-3',
+      name: 'Google Imagen 3',
+      description: 'Standard Gemini quality',
+      model: 'imagen-3.0-generate-002',
+      promptSuffix: NO_EMBELLISHMENT
+    }, keyRunner))
+    .register(new GeminiImageProvider({
+      id: 'gemini-imagen-4-fast',
+      name: 'Google Imagen (Sketch)',
+      description: 'Simple, minimalist sketches',
+      model: 'imagen-3.0-generate-002',
+      promptSuffix: `, simple, quick sketch, minimalist style.${NO_EMBELLISHMENT}`
+    }, keyRunner))
+    .register(new GeminiImageProvider({
+      id: 'gemini-imagen-4-ultra',
+      name: 'Google Imagen (Ultra)',
+      description: 'Ultra realistic, detailed images',
+      model: 'imagen-3.0-generate-002',
+      promptSuffix: `, ultra realistic, 4k, detailed, photorealistic.${NO_EMBELLISHMENT}`
+    }, keyRunner))
+    .register(new LocalProceduralProvider());
+
+  if (!registry.get(defaultId)) {
+    throw new Error(`Default image provider is not registered: ${defaultId}`);
+  }
+  return registry;
+}
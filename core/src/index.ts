@@ -0,0 +1,42 @@
+/**
+ * @prompt-tool/core
+ * Types, schemas, validators, analysis, image providers and the Gemini key
+ * manager shared by the Express server and the Workers API. Nothing in here touches
+ * Node built-ins or Worker bindings: outbound HTTP, keys and storage are
+ * handed in by the backend.
+ */
+
+export * from './types.js';
+export * from './errors.js';
+export * from './logger.js';
+export * from './schemas/models.js';
+export * from './schemas/requests.js';
+export * from './schemas/responses.js';
+export * from './schemas/routes.js';
+export * from './schemas/validation.js';
+export * from './schemas/openapi.js';
+export * from './client/apiClient.js';
+export * from './encoding.js';
+export * from './challengeImages.js';
+export * from './validators.js';
+export * from './scoring.js';
+export * from './geminiKeyManager.js';
+export * from './keyMetricsStore.js';
+export * from './geminiOperationMetrics.js';
+
+export * from './config/challenges.js';
+export * from './config/personas.js';
+
+export * from './analysis/scores.js';
+export * from './analysis/rubric.js';
+export * from './analysis/persona.js';
+export * from './analysis/imageDecoder.js';
+export * from './analysis/imageMetrics.js';
+export * from './analysis/localAnalyzer.js';
+export * from './analysis/geminiAnalyzer.js';
+
+export * from './imageProviders/registry.js';
+export * from './imageProviders/pollinationsProvider.js';
+export * from './imageProviders/geminiImageProvider.js';
+export * from './imageProviders/localProceduralProvider.js';
+export * from './imageProviders/proceduralImage.js';
@@ -0,0 +1,357 @@
+/**
+ * 🗄️ Key Metrics Stores
+ * Where GeminiKeyManager keeps usage counts, error counts, blocks and the
+ * round-robin cursor. The in-memory store is per process or isolate; the
+ * others share state between every instance pointed at them, so a key one
+ * instance blocked stays blocked for the rest and counts survive restarts.
+ *
+ * Keys are stored under an id derived from a hash of the API key, never
+ * under the key itself.
+ */
+
+import type { FetchFunction } from './types.js';
+
+export interface KeyMetricsState {
+  usageCount: number;
+  lastUsed: number;     // Epoch ms, 0 if never used
+  blockUntil: number;   // Epoch ms, 0 when not blocked
+  errorCount: number;
+  minuteWindow: number; // usageWindow() of the minute minuteCount covers
+  minuteCount: number;
+  dayWindow: number;    // usageWindow() of the UTC day dayCount covers
+  dayCount: number;
+}
+
+// Fixed windows the per-minute and daily budgets are counted in
+export const USAGE_WINDOWS = { minute: 60_000, day: 86_400_000 } as const;
+export type UsageWindow = keyof typeof USAGE_WINDOWS;
+
+/**
+ * Index of the window containing `at`; windows start on the epoch, so days are UTC days
+ */
+export const usageWindow = (window: UsageWindow, at: number): number => Math.floor(at / USAGE_WINDOWS[window]);
+
+/**
+ * Uses counted in the minute and day containing `at`
+ */
+export function usageAt(state: KeyMetricsState, at: number): { thisMinute: number; today: number } {
+  return {
+    thisMinute: state.minuteWindow === usageWindow('minute', at) ? state.minuteCount : 0,
+    today: state.dayWindow === usageWindow('day', at) ? state.dayCount : 0
+  };
+}
+
+export interface KeyMetricsStore {
+  readonly name: string;   // Reported by GET /api/status/keys
+
+  /** State of each key id; keys the store hasn't seen come back zeroed */
+  getAll(keyIds: string[]): Promise<Record<string, KeyMetricsState>>;
+  /** Count a use of the key at `at`, in its minute and day windows too */
+  recordUse(keyId: string, at: number): Promise<void>;
+  /** Clear the error count after a successful call */
+  recordSuccess(keyId: string): Promise<void>;
+  /** Count an error; resolves with the new error count */
+  recordError(keyId: string): Promise<number>;
+  /** Take the key out of rotation until `until` */
+  block(keyId: string, until: number): Promise<void>;
+  /** Put the key back into rotation and clear its error count */
+  unblock(keyId: string): Promise<void>;
+  /** Shared round-robin cursor: 0, 1, 2, ... across all instances */
+  nextIndex(): Promise<number>;
+}
+
+export const emptyKeyMetrics = (): KeyMetricsState => ({
+  usageCount: 0,
+  lastUsed: 0,
+  blockUntil: 0,
+  errorCount: 0,
+  minuteWindow: 0,
+  minuteCount: 0,
+  dayWindow: 0,
+  dayCount: 0
+});
+
+// Count a use in place, starting a fresh window when the last one has passed
+function countUse(state: KeyMetricsState, at: number): void {
+  const { thisMinute, today } = usageAt(state, at);
+  state.usageCount++;
+  state.lastUsed = at;
+  state.minuteWindow = usageWindow('minute', at);
+  state.minuteCount = thisMinute + 1;
+  state.dayWindow = usageWindow('day', at);
+  state.dayCount = today + 1;
+}
+
+/**
+ * Short, stable id for an API key: the first 16 hex digits of its SHA-256
+ */
+export async function keyMetricsId(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Per-process store; the default, and what tests use
+ */
+export class InMemoryKeyMetricsStore implements KeyMetricsStore {
+  readonly name = 'memory';
+  private metrics: Map<string, KeyMetricsState> = new Map();
+  private cursor = 0;
+
+  private entry(keyId: string): KeyMetricsState {
+    let state = this.metrics.get(keyId);
+    if (!state) {
+      state = emptyKeyMetrics();
+      this.metrics.set(keyId, state);
+    }
+    return state;
+  }
+
+  async getAll(keyIds: string[]): Promise<Record<string, KeyMetricsState>> {
+    return Object.fromEntries(keyIds.map(keyId => [keyId, { ...this.entry(keyId) }]));
+  }
+
+  async recordUse(keyId: string, at: number): Promise<void> {
+    countUse(this.entry(keyId), at);
+  }
+
+  async recordSuccess(keyId: string): Promise<void> {
+    this.entry(keyId).errorCount = 0;
+  }
+
+  async recordError(keyId: string): Promise<number> {
+    return ++this.entry(keyId).errorCount;
+  }
+
+  async block(keyId: string, until: number): Promise<void> {
+    this.entry(keyId).blockUntil = until;
+  }
+
+  async unblock(keyId: string): Promise<void> {
+    const state = this.entry(keyId);
+    state.blockUntil = 0;
+    state.errorCount = 0;
+  }
+
+  async nextIndex(): Promise<number> {
+    return this.cursor++;
+  }
+}
+
+// Anything with string get/put: Workers KV, Durable Object storage, a Map wrapper
+export interface KeyValueDocuments {
+  get(key: string): Promise<string | null | undefined>;
+  put(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Store over a key-value API with no atomic updates: one JSON document per
+ * key, updated read-modify-write. Safe where the backend serializes callers
+ * (a Durable Object); on Workers KV concurrent updates can drop counts, which
+ * is fine for rotation but not for exact quotas.
+ */
+export class DocumentKeyMetricsStore implements KeyMetricsStore {
+  constructor(
+    private documents: KeyValueDocuments,
+    readonly name: string = 'documents',
+    private prefix: string = 'gemini-keys:'
+  ) {}
+
+  private async read(keyId: string): Promise<KeyMetricsState> {
+    const json = await this.documents.get(`${this.prefix}${keyId}`);
+    return json ? { ...emptyKeyMetrics(), ...JSON.parse(json) } : emptyKeyMetrics();
+  }
+
+  private async update(keyId: string, change: (state: KeyMetricsState) => void): Promise<KeyMetricsState> {
+    const state = await this.read(keyId);
+    change(state);
+    await this.documents.put(`${this.prefix}${keyId}`, JSON.stringify(state));
+    return state;
+  }
+
+  async getAll(keyIds: string[]): Promise<Record<string, KeyMetricsState>> {
+    const states = await Promise.all(keyIds.map(keyId => this.read(keyId)));
+    return Object.fromEntries(keyIds.map((keyId, i) => [keyId, states[i]]));
+  }
+
+  async recordUse(keyId: string, at: number): Promise<void> {
+    await this.update(keyId, state => countUse(state, at));
+  }
+
+  async recordSuccess(keyId: string): Promise<void> {
+    await this.update(keyId, state => { state.errorCount = 0; });
+  }
+
+  async recordError(keyId: string): Promise<number> {
+    return (await this.update(keyId, state => { state.errorCount++; })).errorCount;
+  }
+
+  async block(keyId: string, until: number): Promise<void> {
+    await this.update(keyId, state => { state.blockUntil = until; });
+  }
+
+  async unblock(keyId: string): Promise<void> {
+    await this.update(keyId, state => {
+      state.blockUntil = 0;
+      state.errorCount = 0;
+    });
+  }
+
+  async nextIndex(): Promise<number> {
+    const cursor = Number(await this.documents.get(`${this.prefix}cursor`) ?? 0);
+    await this.documents.put(`${this.prefix}cursor`, String(cursor + 1));
+    return cursor;
+  }
+}
+
+// A Redis command and its arguments, e.g. ['INCR', 'gemini-keys:cursor']
+export type RedisArgs = Array<string | number>;
+
+// What the Redis store needs from a client
+export interface RedisClient {
+  // Runs one command and resolves with its raw reply (HGETALL as a flat array)
+  command(args: RedisArgs): Promise<unknown>;
+  // Runs the commands as one MULTI/EXEC transaction; rejects if any of them failed
+  transaction(commands: RedisArgs[]): Promise<unknown[]>;
+}
+
+/**
+ * Store over any Redis-compatible server. Each update is a single command,
+ * or for recordUse a single MULTI/EXEC transaction, so instances never lose
+ * each other's counts and no reader sees a use half recorded. Window counts
+ * are counters of their own that expire once their window is over.
+ */
+export class RedisKeyMetricsStore implements KeyMetricsStore {
+  readonly name = 'redis';
+
+  constructor(private redis: RedisClient, private prefix: string = 'gemini-keys') {}
+
+  private hash(keyId: string): string {
+    return `${this.prefix}:key:${keyId}`;
+  }
+
+  private counter(keyId: string, window: UsageWindow, index: number): string {
+    return `${this.prefix}:${window}:${keyId}:${index}`;
+  }
+
+  async getAll(keyIds: string[]): Promise<Record<string, KeyMetricsState>> {
+    const minute = usageWindow('minute', Date.now());
+    const day = usageWindow('day', Date.now());
+
+    const replies = await Promise.all(keyIds.map(keyId => Promise.all([
+      this.redis.command(['HGETALL', this.hash(keyId)]),
+      this.redis.command(['GET', this.counter(keyId, 'minute', minute)]),
+      this.redis.command(['GET', this.counter(keyId, 'day', day)])
+    ])));
+
+    return Object.fromEntries(keyIds.map((keyId, i) => {
+      const [hash, minuteCount, dayCount] = replies[i];
+      const fields = (hash ?? []) as string[];
+      const state = emptyKeyMetrics();
+      for (let f = 0; f < fields.length; f += 2) {
+        if (fields[f] in state) {
+          state[fields[f] as keyof KeyMetricsState] = Number(fields[f + 1]);
+        }
+      }
+      Object.assign(state, {
+        minuteWindow: minute,
+        minuteCount: Number(minuteCount ?? 0),
+        dayWindow: day,
+        dayCount: Number(dayCount ?? 0)
+      });
+      return [keyId, state];
+    }));
+  }
+
+  async recordUse(keyId: string, at: number): Promise<void> {
+    const commands: RedisArgs[] = [
+      ['HINCRBY', this.hash(keyId), 'usageCount', 1],
+      ['HSET', this.hash(keyId), 'lastUsed', at]
+    ];
+
+    for (const window of Object.keys(USAGE_WINDOWS) as UsageWindow[]) {
+      const counter = this.counter(keyId, window, usageWindow(window, at));
+      // Kept one window past its own so a read at the boundary still finds it
+      commands.push(['INCR', counter], ['PEXPIRE', counter, USAGE_WINDOWS[window] * 2]);
+    }
+
+    await this.redis.transaction(commands);
+  }
+
+  async recordSuccess(keyId: string): Promise<void> {
+    await this.redis.command(['HSET', this.hash(keyId), 'errorCount', 0]);
+  }
+
+  async recordError(keyId: string): Promise<number> {
+    return Number(await this.redis.command(['HINCRBY', this.hash(keyId), 'errorCount', 1]));
+  }
+
+  async block(keyId: string, until: number): Promise<void> {
+    await this.redis.command(['HSET', this.hash(keyId), 'blockUntil', until]);
+  }
+
+  async unblock(keyId: string): Promise<void> {
+    await this.redis.command(['HSET', this.hash(keyId), 'blockUntil', 0, 'errorCount', 0]);
+  }
+
+  async nextIndex(): Promise<number> {
+    return Number(await this.redis.command(['INCR', `${this.prefix}:cursor`])) - 1;
+  }
+}
+
+export interface RedisRestOptions {
+  url: string;     // e.g. https://<db>.upstash.io
+  token: string;
+  fetch?: FetchFunction;
+}
+
+// One command's reply over the REST protocol
+type RedisRestReply = { result?: unknown; error?: string };
+
+/**
+ * RedisClient over the Upstash-style REST protocol: POST a command as a JSON
+ * array and get `{ result }` back, or POST a list of commands to /multi-exec
+ * and get one `{ result }` or `{ error }` per command. Works in Node and
+ * Workers without a Redis client library.
+ *
+ * Like EXEC itself, a transaction doesn't roll back when one of its commands
+ * fails (only a key of the wrong type can make these fail); the others are
+ * applied and the call rejects with the failing command.
+ */
+export function createRedisRestClient({ url, token, fetch: fetchFn = (input, init) => fetch(input, init) }: RedisRestOptions): RedisClient {
+  const baseUrl = url.replace(/\/+$/, '');
+
+  const post = async <T>(path: string, body: unknown, label: string): Promise<T> => {
+    const response = await fetchFn(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const reply = await response.json().catch(() => null) as T | RedisRestReply | null;
+    const error = reply && !Array.isArray(reply) ? (reply as RedisRestReply).error : undefined;
+    if (!response.ok || !reply || error) {
+      throw new Error(`Redis ${label} failed: ${error || response.status}`);
+    }
+    return reply as T;
+  };
+
+  return {
+    async command(args) {
+      return (await post<RedisRestReply>('', args, String(args[0]))).result;
+    },
+
+    async transaction(commands) {
+      const replies = await post<RedisRestReply[]>('/multi-exec', commands, 'MULTI/EXEC');
+      if (!Array.isArray(replies) || replies.length !== commands.length) {
+        throw new Error('Redis MULTI/EXEC failed: unexpected reply');
+      }
+
+      const failed = replies.findIndex(reply => reply?.error);
+      if (failed !== -1) {
+        throw new Error(`Redis ${commands[failed][0]} failed in MULTI/EXEC: ${replies[failed].error}`);
+      }
+      return replies.map(reply => reply.result);
+    }
+  };
+}
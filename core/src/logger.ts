@@ -0,0 +1,143 @@
+/**
+ * 📝 Logger
+ * One JSON object per line, with a level, so log search can filter and group
+ * on fields rather than grep text. Every line is redacted first: emails,
+ * tokens, API keys and base64 blobs never reach the logs, whoever wrote the
+ * call. Backends set the level and hand in the per-request context (the
+ * request id) with configureLogger, since core can't hold request state.
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  // Fields of the request being handled, if any; merged into every line
+  context?: () => LogFields | undefined;
+  // Where finished lines go; console by default
+  write?: (level: Exclude<LogLevel, 'silent'>, line: string) => void;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 };
+
+const writeToConsole = (level: Exclude<LogLevel, 'silent'>, line: string): void => {
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+};
+
+let options: LoggerOptions = { level: 'info' };
+
+/**
+ * Set the level, context or output; unset options keep their current value
+ */
+export function configureLogger(overrides: Partial<LoggerOptions>): void {
+  options = { ...options, ...overrides };
+}
+
+/**
+ * Level for an environment: LOG_LEVEL when it names a level, otherwise info
+ * in production, warn under test and debug everywhere else
+ */
+export function resolveLogLevel(env: { LOG_LEVEL?: string; NODE_ENV?: string } | undefined): LogLevel {
+  const fallback: LogLevel = env?.NODE_ENV === 'production' ? 'info' : env?.NODE_ENV === 'test' ? 'warn' : 'debug';
+  const requested = env?.LOG_LEVEL?.trim().toLowerCase();
+  if (!requested) return fallback;
+
+  if (!LOG_LEVELS.includes(requested as LogLevel)) {
+    logger.warn(`⚠️ Unknown LOG_LEVEL "${requested}", using ${fallback}`, { levels: LOG_LEVELS });
+    return fallback;
+  }
+  return requested as LogLevel;
+}
+
+// Fields whose value is a secret whatever it looks like
+const SECRET_FIELD = /pass(word)?|secret|token|authorization|cookie|api[-_]?key|private[-_]?key|credential/i;
+
+// Checked in order; base64 last so a data URL is caught whole
+const SECRET_PATTERNS: Array<[RegExp, string | ((match: string) => string)]> = [
+  [/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, '[private-key]'],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, '[token]'],
+  [/\bBearer\s+[\w.~+/-]+=*/gi, 'Bearer [token]'],
+  [/\bAIza[\w-]{30,}/g, '[api-key]'],
+  [/[\w.+-]+@[\w-]+(\.[\w-]+)*\.[A-Za-z]{2,}\b/g, '[email]'],
+  [/data:[\w/+.-]+;base64,[A-Za-z0-9+/=]+/g, match => `[base64 ${match.length} chars]`],
+  [/[A-Za-z0-9+/]{100,}={0,2}/g, match => `[base64 ${match.length} chars]`]
+];
+
+const redactString = (value: string): string =>
+  SECRET_PATTERNS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement as (match: string) => string),
+    value
+  );
+
+const MAX_DEPTH = 6;
+
+/**
+ * Copy of a value with secrets masked, errors flattened to plain fields and
+ * cycles and deep nesting cut off
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const { code, status, statusCode } = value as Error & { code?: unknown; status?: unknown; statusCode?: unknown };
+    return redact({
+      name: value.name,
+      message: value.message,
+      ...(code !== undefined && { code }),
+      ...((status ?? statusCode) !== undefined && { status: status ?? statusCode }),
+      stack: value.stack
+    }, depth, seen);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1, seen));
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SECRET_FIELD.test(key) && field !== undefined && field !== null && typeof field !== 'boolean'
+      ? '[REDACTED]'
+      : redact(field, depth + 1, seen)
+  ]));
+}
+
+export class Logger {
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    if (LEVEL_RANK[level] < LEVEL_RANK[options.level]) return;
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...options.context?.(),
+      ...fields
+    };
+    (options.write ?? writeToConsole)(level, JSON.stringify(redact(entry)));
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,244 @@
+/**
+ * 🧩 Model Schemas
+ * Shapes the API sends and receives. The shared types in types.ts are
+ * inferred from these, so each shape is defined once.
+ *
+ * Timestamps are ISO strings on the wire and Dates in the backends: the
+ * inferred types use Date, and the `...Json` types describe what a client
+ * receives.
+ */
+
+import { z } from 'zod';
+
+// ISO 8601 string in JSON, Date once decoded
+export const timestampSchema = z.codec(z.iso.datetime(), z.date(), {
+  decode: value => new Date(value),
+  encode: date => date.toISOString()
+});
+
+// Image Providers
+export const imageSizeSchema = z.object({
+  width: z.number().int(),
+  height: z.number().int()
+});
+
+export const imageProviderCapabilitiesSchema = z.object({
+  seed: z.boolean().describe('Honors the seed option for repeatable output'),
+  network: z.boolean().describe('Calls an external service'),
+  apiKey: z.boolean().describe('Draws on the Gemini key pool')
+});
+
+export const imageProviderInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  capabilities: imageProviderCapabilitiesSchema,
+  sizes: z.array(imageSizeSchema).describe('First entry is the default')
+});
+
+// Rubrics
+export const rubricCriterionSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  weight: z.number().describe('Relative share of the grade')
+});
+
+export const rubricPenaltySchema = z.object({
+  description: z.string(),
+  points: z.number().describe('Deducted when the mistake is present')
+});
+
+export const challengeRubricSchema = z.object({
+  requiredElements: z.array(z.string()).describe('Must appear in the generated image'),
+  criteria: z.array(rubricCriterionSchema),
+  penalties: z.array(rubricPenaltySchema)
+});
+
+export const criterionResultSchema = rubricCriterionSchema.extend({
+  score: z.number().describe('0-100')
+});
+
+export const rubricEvaluationSchema = z.object({
+  criteria: z.array(criterionResultSchema),
+  missingElements: z.array(z.string()),
+  appliedPenalties: z.array(rubricPenaltySchema)
+});
+
+// Challenges
+export const challengeLifecycleStatusSchema = z.enum(['active', 'archived']);
+
+export const challengeSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  imageUrl: z.string(),
+  description: z.string(),
+  order: z.number().int().optional().describe('Position in the mission path (ascending)'),
+  passThreshold: z.number().optional().describe('Score needed to pass (defaults to 80)'),
+  rubric: challengeRubricSchema.optional(),
+  status: challengeLifecycleStatusSchema.optional(),
+  createdBy: z.string().optional().describe('UID of the instructor who authored it'),
+  createdAt: timestampSchema.optional(),
+  updatedAt: timestampSchema.optional(),
+  archivedAt: timestampSchema.optional()
+});
+
+// Analysis
+export const detailedAnalysisSchema = z.object({
+  colorMatch: z.number().optional(),
+  shapeMatch: z.number().optional(),
+  compositionMatch: z.number().optional(),
+  overallQuality: z.number().optional()
+});
+
+// "blended" mixes the Gemini score with the local analyzer's
+export const analysisSourceSchema = z.enum(['gemini', 'local', 'blended']);
+
+export const analysisResultSchema = z.object({
+  similarityScore: z.number(),
+  feedback: z.array(z.string()),
+  similarity: z.number().optional().describe('Legacy support'),
+  passed: z.boolean().optional().describe('Legacy support'),
+  detailedAnalysis: detailedAnalysisSchema.optional(),
+  rubric: rubricEvaluationSchema.optional().describe('Only from Gemini, for challenges with a rubric'),
+  analyzer: analysisSourceSchema.optional()
+});
+
+// Feedback Personas
+export const feedbackToneSchema = z.enum(['playful', 'neutral', 'formal']);
+
+export const feedbackVerbositySchema = z.enum(['brief', 'standard', 'detailed']);
+
+export const feedbackPersonaSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  tone: feedbackToneSchema,
+  language: z.string().describe('Language the feedback is written in, e.g. "English"'),
+  verbosity: feedbackVerbositySchema,
+  instructions: z.string().optional().describe('Extra style guidance for the model'),
+  builtIn: z.boolean(),
+  createdBy: z.string().optional().describe('UID of the instructor who defined it'),
+  createdAt: timestampSchema.optional()
+});
+
+// Users
+export const userRoleSchema = z.enum(['student', 'instructor', 'admin']);
+
+export const userProfileSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  displayName: z.string(),
+  photoURL: z.string(),
+  role: userRoleSchema,
+  feedbackPersona: z.string().optional(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  lastLoginAt: timestampSchema
+});
+
+export const userStatsSchema = z.object({
+  userId: z.string(),
+  totalChallengesCompleted: z.number(),
+  totalScore: z.number(),
+  currentStreak: z.number(),
+  maxStreak: z.number(),
+  averageScore: z.number(),
+  lastChallengeAt: timestampSchema,
+  updatedAt: timestampSchema
+});
+
+// Values match the client and stored progress
+export const challengeStatusSchema = z.enum(['LOCKED', 'UNLOCKED', 'COMPLETED']);
+
+export const challengeProgressSchema = z.object({
+  status: challengeStatusSchema,
+  streak: z.number(),
+  previousSimilarityScore: z.number(),
+  completedAt: timestampSchema.optional(),
+  attempts: z.number().optional(),
+  bestScore: z.number().optional()
+});
+
+// Progress by challenge id
+export const userProgressSchema = z.record(z.string(), challengeProgressSchema);
+
+// Attempts
+export const attemptRecordSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  challengeId: z.number().int(),
+  prompt: z.string(),
+  score: z.number(),
+  passed: z.boolean(),
+  feedback: z.array(z.string()),
+  service: z.string().optional().describe('Image service that generated the attempt'),
+  imageRef: z.string().optional().describe('Reference to the stored generated image'),
+  createdAt: timestampSchema
+});
+
+export const attemptPageSchema = z.object({
+  attempts: z.array(attemptRecordSchema),
+  nextCursor: z.string().nullable().describe('Pass as ?cursor= for the next page')
+});
+
+// Scoring
+export const streakChangeSchema = z.enum(['increase', 'decrease', 'none']);
+
+// Server-computed outcome of an attempt. `signature` is an HMAC over the
+// identifying fields so the result can be trusted wherever it is replayed.
+export const scoringResultSchema = z.object({
+  attemptId: z.string(),
+  userId: z.string(),
+  challengeId: z.number().int(),
+  score: z.number(),
+  passed: z.boolean(),
+  justCompleted: z.boolean(),
+  streakChange: streakChangeSchema,
+  progress: userProgressSchema,
+  stats: userStatsSchema,
+  issuedAt: z.iso.datetime().describe('Signed as sent, so it stays a string'),
+  signature: z.string()
+});
+
+export type ImageSize = z.infer<typeof imageSizeSchema>;
+export type ImageProviderCapabilities = z.infer<typeof imageProviderCapabilitiesSchema>;
+export type ImageProviderInfo = z.infer<typeof imageProviderInfoSchema>;
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+export type RubricPenalty = z.infer<typeof rubricPenaltySchema>;
+export type ChallengeRubric = z.infer<typeof challengeRubricSchema>;
+export type CriterionResult = z.infer<typeof criterionResultSchema>;
+export type RubricEvaluation = z.infer<typeof rubricEvaluationSchema>;
+export type ChallengeLifecycleStatus = z.infer<typeof challengeLifecycleStatusSchema>;
+export type Challenge = z.output<typeof challengeSchema>;
+export type DetailedAnalysis = z.infer<typeof detailedAnalysisSchema>;
+export type AnalysisSource = z.infer<typeof analysisSourceSchema>;
+export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+export type FeedbackTone = z.infer<typeof feedbackToneSchema>;
+export type FeedbackVerbosity = z.infer<typeof feedbackVerbositySchema>;
+export type FeedbackPersona = z.output<typeof feedbackPersonaSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type UserStats = z.output<typeof userStatsSchema>;
+export type ChallengeStatus = z.infer<typeof challengeStatusSchema>;
+export type ChallengeProgress = z.output<typeof challengeProgressSchema>;
+export type UserProgress = z.output<typeof userProgressSchema>;
+export type AttemptRecord = z.output<typeof attemptRecordSchema>;
+export type AttemptPage = z.output<typeof attemptPageSchema>;
+export type StreakChange = z.infer<typeof streakChangeSchema>;
+export type ScoringResult = z.output<typeof scoringResultSchema>;
+
+// What clients receive, with timestamps as ISO strings
+export type ChallengeJson = z.input<typeof challengeSchema>;
+export type FeedbackPersonaJson = z.input<typeof feedbackPersonaSchema>;
+export type UserProfileJson = z.input<typeof userProfileSchema>;
+export type UserStatsJson = z.input<typeof userStatsSchema>;
+export type ChallengeStatusJson = z.infer<typeof challengeStatusSchema>;
+export type ChallengeProgressJson = z.input<typeof challengeProgressSchema>;
+export type UserProgressJson = z.input<typeof userProgressSchema>;
+export type AttemptRecordJson = z.input<typeof attemptRecordSchema>;
+export type AttemptPageJson = z.input<typeof attemptPageSchema>;
+export type ScoringResultJson = z.input<typeof scoringResultSchema>;
+
+export const FEEDBACK_TONES: FeedbackTone[] = feedbackToneSchema.options;
+
+export const FEEDBACK_VERBOSITIES: FeedbackVerbosity[] = feedbackVerbositySchema.options;
+
+export const USER_ROLES: UserRole[] = userRoleSchema.options;
@@ -0,0 +1,147 @@
+/**
+ * 📖 OpenAPI Document
+ * Describes API_ROUTES as OpenAPI 3.1, served by both backends at
+ * /api/openapi.json. Schemas are the JSON forms of the zod schemas: what
+ * travels over the wire, so timestamps are date-time strings.
+ */
+
+import { z } from 'zod';
+import { errorResponseSchema } from './responses.js';
+import { API_ROUTES, ApiRoute } from './routes.js';
+
+export const OPENAPI_PATH = '/api/openapi.json';
+
+type JsonSchema = Record<string, any>;
+
+const ERROR_RESPONSE = {
+  description: 'Error',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+};
+
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+  return jsonSchema;
+}
+
+// /api/users/:uid/role -> /api/users/{uid}/role
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(route: ApiRoute): JsonSchema[] {
+  const pathParameters = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }));
+
+  if (!route.query) {
+    return pathParameters;
+  }
+
+  const { properties = {}, required = [] } = toJsonSchema(route.query);
+  const queryParameters = Object.entries<JsonSchema>(properties).map(([name, { description, ...schema }]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    ...(description && { description }),
+    schema
+  }));
+
+  return [...pathParameters, ...queryParameters];
+}
+
+function requestBody(route: ApiRoute): JsonSchema | undefined {
+  if (!route.body) {
+    return undefined;
+  }
+
+  const schema = toJsonSchema(route.body);
+  const content: JsonSchema = { 'application/json': { schema } };
+
+  if (route.upload) {
+    content['multipart/form-data'] = {
+      schema: {
+        ...schema,
+        properties: { ...schema.properties, [route.upload]: { type: 'string', format: 'binary' } }
+      }
+    };
+  }
+
+  return { required: true, content };
+}
+
+function responses(route: ApiRoute): JsonSchema {
+  if (route.response) {
+    return {
+      '200': { description: 'Success', content: { 'application/json': { schema: toJsonSchema(route.response) } } },
+      default: ERROR_RESPONSE
+    };
+  }
+
+  if (route.produces) {
+    return {
+      '200': { description: 'Success', content: { [route.produces]: { schema: { type: 'string', format: 'binary' } } } },
+      default: ERROR_RESPONSE
+    };
+  }
+
+  return { default: ERROR_RESPONSE };
+}
+
+function security(route: ApiRoute): JsonSchema[] | undefined {
+  switch (route.auth) {
+    case 'required':
+      return [{ firebaseAuth: [] }];
+    case 'optional':
+      return [{ firebaseAuth: [] }, {}];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the OpenAPI document for every route in API_ROUTES
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, JsonSchema> = {};
+
+  for (const [operationId, route] of Object.entries<ApiRoute>(API_ROUTES)) {
+    const path = toOpenApiPath(route.path);
+    const routeParameters = parameters(route);
+    const routeBody = requestBody(route);
+    const routeSecurity = security(route);
+
+    paths[path] = {
+      ...paths[path],
+      [route.method]: {
+        operationId,
+        summary: route.summary,
+        tags: [route.path.split('/')[2]],
+        ...(routeParameters.length > 0 && { parameters: routeParameters }),
+        ...(routeBody && { requestBody: routeBody }),
+        responses: responses(route),
+        ...(routeSecurity && { security: routeSecurity })
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Prompt Engineering Tool API',
+      version: '1.0.0',
+      description: 'Served by both the Express server and the Workers API'
+    },
+    paths,
+    components: {
+      schemas: {
+        ErrorResponse: toJsonSchema(errorResponseSchema)
+      },
+      securitySchemes: {
+        firebaseAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'Firebase ID token' }
+      }
+    }
+  };
+}
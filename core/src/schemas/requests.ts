@@ -0,0 +1,166 @@
+/**
+ * 📨 Request Schemas
+ * Bodies and query strings for every route that takes input. The
+ * validators in validators.ts parse against these and apply the legacy
+ * aliases older clients still send.
+ */
+
+import { z } from 'zod';
+import { ChallengeRubric, feedbackToneSchema, feedbackVerbositySchema, imageSizeSchema, userRoleSchema } from './models.js';
+import { rule, withCode } from './validation.js';
+import type { ErrorCode } from '../errors.js';
+
+export const MAX_PROMPT_LENGTH = 2000;
+
+export const DEFAULT_ATTEMPT_PAGE_SIZE = 20;
+export const MAX_ATTEMPT_PAGE_SIZE = 100;
+
+export const DEFAULT_LEADERBOARD_SIZE = 10;
+export const MAX_LEADERBOARD_SIZE = 100;
+
+/**
+ * A required, trimmed string; every failure reports `code`
+ */
+const requiredText = (code: ErrorCode, message: string, maxLength?: number) => {
+  const text = z.string({ error: message }).trim().min(1, message);
+  return withCode(maxLength ? text.max(maxLength, `Too long (max ${maxLength} characters)`) : text, code);
+};
+
+/**
+ * A ?limit= page size between 1 and `max`
+ */
+const limitParam = (max: number, fallback: number) => {
+  const message = `Limit must be between 1 and ${max}`;
+  return withCode(z.coerce.number({ error: message }).int(message).min(1, message).max(max, message), 'INVALID_LIMIT')
+    .default(fallback);
+};
+
+// Images
+export const imageGenerationRequestSchema = z.object({
+  prompt: withCode(
+    z.string({ error: 'Prompt is required and must be a string' })
+      .trim()
+      .refine(prompt => prompt.length > 0, rule('EMPTY_PROMPT', 'Prompt cannot be empty'))
+      .refine(prompt => prompt.length <= MAX_PROMPT_LENGTH,
+        rule('PROMPT_TOO_LONG', `Prompt is too long (max ${MAX_PROMPT_LENGTH} characters)`)),
+    'INVALID_PROMPT'
+  ),
+  service: withCode(z.string({ error: 'Service must be a provider id' }), 'INVALID_SERVICE').optional()
+    .describe('Provider id; defaults to the registry default'),
+  provider: z.string().optional().describe('Legacy backend name ("gemini" or "pollinations")'),
+  size: withCode(imageSizeSchema, 'INVALID_SIZE').optional(),
+  seed: withCode(z.number({ error: 'Seed must be an integer' }).int('Seed must be an integer'), 'INVALID_SEED').optional(),
+  apiKey: z.string().optional()
+});
+
+export const localImageRequestSchema = z.object({
+  imageUrl: requiredText('INVALID_IMAGE_URL', 'Image URL is required and must be a string')
+});
+
+// Analysis
+export const analysisRequestSchema = z.object({
+  challengeId: withCode(
+    z.coerce.number({ error: 'challengeId is required and must be an integer' })
+      .int('challengeId is required and must be an integer'),
+    'INVALID_CHALLENGE_ID'
+  ),
+  generatedImageId: requiredText('INVALID_GENERATED_IMAGE', 'generatedImageId is required')
+    .describe('Image the signed-in user generated with /api/images/generate'),
+  userPrompt: requiredText('MISSING_USER_PROMPT', 'User prompt is required', MAX_PROMPT_LENGTH),
+  service: z.string().optional(),
+  persona: z.string().optional().describe('Feedback persona id; defaults to the profile setting')
+});
+
+// Challenges (JSON or multipart form values, so numbers may arrive as strings)
+export const challengeInputSchema = z.object({
+  name: withCode(
+    z.string({ error: 'Name is required and must be a string' })
+      .trim()
+      .min(1, 'Name is required and must be a string')
+      .refine(name => name.length <= 100, rule('NAME_TOO_LONG', 'Name is too long (max 100 characters)')),
+    'INVALID_NAME'
+  ),
+  description: withCode(
+    z.string({ error: 'Description is required and must be a string' })
+      .trim()
+      .min(1, 'Description is required and must be a string')
+      .refine(description => description.length <= 1000,
+        rule('DESCRIPTION_TOO_LONG', 'Description is too long (max 1000 characters)')),
+    'INVALID_DESCRIPTION'
+  ),
+  imageUrl: requiredText('INVALID_IMAGE_URL', 'Image URL must be a non-empty string').optional(),
+  order: withCode(
+    z.coerce.number({ error: 'Order must be a positive integer' }).int('Order must be a positive integer').min(1, 'Order must be a positive integer'),
+    'INVALID_ORDER'
+  ).optional(),
+  passThreshold: withCode(
+    z.coerce.number({ error: 'Pass threshold must be a number between 1 and 100' })
+      .min(1, 'Pass threshold must be a number between 1 and 100')
+      .max(100, 'Pass threshold must be a number between 1 and 100'),
+    'INVALID_PASS_THRESHOLD'
+  ).optional(),
+  rubric: z.unknown().optional()
+    .describe('A rubric object, a list of rules, or either as a JSON string; see normalizeRubric')
+});
+
+// Feedback personas
+export const personaInputSchema = z.object({
+  name: requiredText('INVALID_PERSONA_NAME', 'Name is required and must be a string', 50),
+  tone: withCode(feedbackToneSchema, 'INVALID_TONE')
+    .describe(`One of: ${feedbackToneSchema.options.join(', ')}`),
+  language: requiredText('INVALID_LANGUAGE', 'Language is required and must be a string', 100),
+  verbosity: withCode(feedbackVerbositySchema, 'INVALID_VERBOSITY').default('standard'),
+  instructions: withCode(
+    z.string({ error: 'Instructions must be a string' }).trim().max(500, 'Instructions are too long (max 500 characters)'),
+    'INVALID_INSTRUCTIONS'
+  ).optional()
+});
+
+// Users
+const profileFields = {
+  displayName: withCode(z.string(), 'INVALID_DISPLAY_NAME').optional(),
+  photoURL: withCode(z.string(), 'INVALID_PHOTO_URL').optional(),
+  email: withCode(z.string(), 'INVALID_EMAIL').optional()
+};
+
+export const profileCreateSchema = z.object(profileFields);
+
+export const profileUpdateSchema = withCode(
+  z.strictObject({
+    ...profileFields,
+    feedbackPersona: withCode(z.string({ error: 'Feedback persona must be a persona id' }), 'UNKNOWN_PERSONA').optional()
+  }, {
+    error: issue => issue.code === 'unrecognized_keys' ? `Invalid fields: ${issue.keys.join(', ')}` : undefined
+  }),
+  'INVALID_FIELDS'
+);
+
+export const roleUpdateSchema = z.object({
+  role: withCode(userRoleSchema, 'INVALID_ROLE')
+    .describe(`One of: ${userRoleSchema.options.join(', ')}`)
+});
+
+// Query strings
+export const attemptQuerySchema = z.object({
+  challengeId: withCode(
+    z.coerce.number({ error: 'challengeId must be an integer' }).int('challengeId must be an integer'),
+    'INVALID_CHALLENGE_ID'
+  ).optional(),
+  cursor: z.string().optional().describe("Opaque; taken from a previous page's nextCursor"),
+  limit: limitParam(MAX_ATTEMPT_PAGE_SIZE, DEFAULT_ATTEMPT_PAGE_SIZE)
+});
+
+export const leaderboardQuerySchema = z.object({
+  limit: limitParam(MAX_LEADERBOARD_SIZE, DEFAULT_LEADERBOARD_SIZE)
+});
+
+export type ImageGenerationRequest = Omit<z.output<typeof imageGenerationRequestSchema>, 'provider'>;
+export type LocalImageRequest = z.output<typeof localImageRequestSchema>;
+export type AnalysisRequest = z.output<typeof analysisRequestSchema>;
+// Every field is optional for PATCH; the rubric is normalized after parsing
+export type ChallengeInput = Partial<Omit<z.output<typeof challengeInputSchema>, 'rubric'>> & {
+  rubric?: ChallengeRubric;
+};
+export type FeedbackPersonaInput = z.output<typeof personaInputSchema>;
+export type UserProfileUpdate = z.output<typeof profileUpdateSchema>;
+export type AttemptQuery = z.output<typeof attemptQuerySchema>;
@@ -0,0 +1,160 @@
+/**
+ * 📬 Response Schemas
+ * JSON bodies the routes return. Success bodies wrap their payload in
+ * `data` unless noted; every error body matches `errorResponseSchema`.
+ */
+
+import { z } from 'zod';
+import { ERROR_CODE_NAMES } from '../errors.js';
+import { GEMINI_ERROR_CLASSES } from '../geminiOperationMetrics.js';
+import {
+  analysisResultSchema,
+  attemptPageSchema,
+  attemptRecordSchema,
+  challengeSchema,
+  feedbackPersonaSchema,
+  imageProviderInfoSchema,
+  scoringResultSchema,
+  userProfileSchema,
+  userProgressSchema,
+  userStatsSchema
+} from './models.js';
+
+const responseTimestamp = z.iso.datetime();
+
+export const errorCodeSchema = z.enum(ERROR_CODE_NAMES).describe('See ERROR_CODES for what each code means');
+
+export const fieldErrorSchema = z.object({
+  field: z.string().describe('Dotted path into the body or query, e.g. "size.width"'),
+  code: errorCodeSchema,
+  message: z.string()
+});
+
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  code: errorCodeSchema,
+  message: z.string(),
+  error: z.string().describe('Same as message; kept for older clients'),
+  details: z.record(z.string(), z.unknown()).optional(),
+  fields: z.array(fieldErrorSchema).optional().describe('Every failing field of a rejected request'),
+  requestId: z.string().describe('Also sent as the X-Request-Id header; quote it when reporting a problem'),
+  retryAfter: z.number().int().nonnegative().optional().describe('Seconds to wait before retrying; also sent as Retry-After'),
+  timestamp: responseTimestamp
+});
+
+/**
+ * `{ success, data, timestamp }` around a payload
+ */
+export const dataResponse = <T extends z.ZodType>(data: T) => z.object({
+  success: z.literal(true),
+  data,
+  message: z.string().optional(),
+  timestamp: responseTimestamp
+});
+
+export const messageResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  timestamp: responseTimestamp
+});
+
+// Images (generate and local return their fields at the top level)
+export const imageGenerationResponseSchema = z.object({
+  success: z.literal(true),
+  imageId: z.string().describe('Pass to /api/analysis/compare as generatedImageId'),
+  imageUrl: z.string().describe('GET /api/images/:id'),
+  provider: z.string(),
+  model: z.string(),
+  timestamp: responseTimestamp
+});
+
+export const localImageResponseSchema = z.object({
+  success: z.literal(true),
+  imageBase64: z.string(),
+  imageUrl: z.string(),
+  timestamp: responseTimestamp
+});
+
+export const providerListSchema = z.object({
+  providers: z.array(imageProviderInfoSchema),
+  defaultProvider: z.string()
+});
+
+// Analysis
+export const analysisResponseSchema = z.object({
+  success: z.literal(true),
+  result: analysisResultSchema,
+  scoring: scoringResultSchema,
+  timestamp: responseTimestamp
+});
+
+// Status
+const callOutcomesSchema = z.object({
+  successes: z.number(),
+  errors: z.number(),
+  errorsByClass: z.partialRecord(z.enum(GEMINI_ERROR_CLASSES), z.number())
+});
+
+export const keyManagerStatusSchema = z.object({
+  success: z.literal(true),
+  timestamp: responseTimestamp,
+  keyManager: z.object({
+    store: z.string().describe('Where key metrics live: memory (this instance only), redis, kv or durable-object'),
+    totalKeys: z.number(),
+    availableKeys: z.number(),
+    blockedKeys: z.number(),
+    keyStats: z.array(z.object({
+      key: z.string().describe('First 8 characters only'),
+      id: z.string().describe('Stable id that operation metrics and block events name the key by'),
+      usageCount: z.number(),
+      lastUsed: z.iso.datetime(),
+      isBlocked: z.boolean(),
+      errorCount: z.number(),
+      budget: z.object({
+        weight: z.number(),
+        models: z.array(z.string()).nullable().describe('Models the key may call; null for any'),
+        requestsPerMinute: z.number().nullable().describe('null when unlimited'),
+        remainingThisMinute: z.number().nullable(),
+        dailyQuota: z.number().nullable().describe('Requests per UTC day; null when unlimited'),
+        remainingToday: z.number().nullable()
+      }),
+      calls: callOutcomesSchema.describe("This instance's Gemini calls on the key")
+    })).optional().describe('Admins only')
+  })
+});
+
+export const operationMetricsSchema = z.object({
+  success: z.literal(true),
+  timestamp: responseTimestamp,
+  since: z.iso.datetime().describe('When this instance started counting'),
+  operations: z.array(callOutcomesSchema.extend({
+    operation: z.string().describe('e.g. image-generation, image-analysis'),
+    latencyMs: z.object({
+      buckets: z.array(z.object({
+        le: z.number().nullable().describe('Bucket upper bound; null for +Inf'),
+        count: z.number().describe('Calls at or under le, cumulative')
+      })),
+      count: z.number(),
+      sumMs: z.number()
+    }),
+    byKey: z.array(callOutcomesSchema.extend({ key: z.string().describe('Id of the key, as in keyManager.keyStats') }))
+  }))
+});
+
+export const userProfileResponseSchema = dataResponse(userProfileSchema);
+export const userProgressResponseSchema = dataResponse(userProgressSchema);
+export const userStatsResponseSchema = dataResponse(userStatsSchema.nullable());
+export const leaderboardResponseSchema = dataResponse(z.array(userStatsSchema));
+export const attemptPageResponseSchema = dataResponse(attemptPageSchema);
+export const bestAttemptsResponseSchema = dataResponse(z.array(attemptRecordSchema));
+export const challengeResponseSchema = dataResponse(challengeSchema);
+export const challengeListResponseSchema = dataResponse(z.array(challengeSchema));
+export const personaResponseSchema = dataResponse(feedbackPersonaSchema);
+export const personaListResponseSchema = dataResponse(z.array(feedbackPersonaSchema));
+export const providerListResponseSchema = dataResponse(providerListSchema);
+
+export type FieldError = z.infer<typeof fieldErrorSchema>;
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+export type ImageGenerationResponse = z.infer<typeof imageGenerationResponseSchema>;
+export type ProviderList = z.infer<typeof providerListSchema>;
+export type AnalysisResponseJson = z.input<typeof analysisResponseSchema>;
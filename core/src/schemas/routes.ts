@@ -0,0 +1,202 @@
+/**
+ * 🗺️ API Routes
+ * Every route both backends serve, with the schemas for its input and
+ * output. Each backend checks its responses against `response`.
+ */
+
+import { z } from 'zod';
+import {
+  analysisRequestSchema,
+  attemptQuerySchema,
+  challengeInputSchema,
+  imageGenerationRequestSchema,
+  leaderboardQuerySchema,
+  localImageRequestSchema,
+  personaInputSchema,
+  profileCreateSchema,
+  profileUpdateSchema,
+  roleUpdateSchema
+} from './requests.js';
+import {
+  analysisResponseSchema,
+  attemptPageResponseSchema,
+  bestAttemptsResponseSchema,
+  challengeListResponseSchema,
+  challengeResponseSchema,
+  imageGenerationResponseSchema,
+  keyManagerStatusSchema,
+  leaderboardResponseSchema,
+  localImageResponseSchema,
+  messageResponseSchema,
+  operationMetricsSchema,
+  personaListResponseSchema,
+  personaResponseSchema,
+  providerListResponseSchema,
+  userProfileResponseSchema,
+  userProgressResponseSchema,
+  userStatsResponseSchema
+} from './responses.js';
+
+export interface ApiRoute {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;                  // Express-style, e.g. /api/images/:id
+  summary: string;
+  auth?: 'required' | 'optional';  // Firebase ID token as a Bearer header
+  body?: z.ZodType;
+  upload?: string;               // File part accepted when the body is sent as multipart/form-data
+  query?: z.ZodObject;
+  response?: z.ZodType;          // Success body; unset when the route sends bytes
+  produces?: string;             // Content type of a non-JSON success body
+}
+
+export const API_ROUTES = {
+  // Images
+  generateImage: {
+    method: 'post', path: '/api/images/generate', summary: 'Generate an image with a registered provider',
+    auth: 'optional',
+    body: imageGenerationRequestSchema, response: imageGenerationResponseSchema
+  },
+  getImageProviders: {
+    method: 'get', path: '/api/images/providers', summary: 'List the image providers',
+    response: providerListResponseSchema
+  },
+  getLocalImage: {
+    method: 'post', path: '/api/images/local', summary: 'Get a challenge image as base64',
+    body: localImageRequestSchema, response: localImageResponseSchema
+  },
+  getGeneratedImage: {
+    method: 'get', path: '/api/images/:id', summary: 'Serve a stored generated image',
+    produces: 'image/*'
+  },
+
+  // Analysis
+  compareImages: {
+    method: 'post', path: '/api/analysis/compare', summary: 'Score an attempt and record it',
+    auth: 'required',
+    body: analysisRequestSchema, response: analysisResponseSchema
+  },
+
+  // Challenges
+  getChallenges: {
+    method: 'get', path: '/api/challenges', summary: 'List the active challenges in mission order',
+    response: challengeListResponseSchema
+  },
+  getChallenge: {
+    method: 'get', path: '/api/challenges/:id', summary: 'Get one challenge',
+    response: challengeResponseSchema
+  },
+  getChallengeImage: {
+    method: 'get', path: '/api/challenges/:id/image', summary: "Serve a challenge's uploaded target image",
+    produces: 'image/*'
+  },
+  createChallenge: {
+    method: 'post', path: '/api/challenges', summary: 'Create a challenge (instructors)',
+    auth: 'required',
+    body: challengeInputSchema, upload: 'image', response: challengeResponseSchema
+  },
+  updateChallenge: {
+    method: 'patch', path: '/api/challenges/:id', summary: 'Update a challenge (instructors)',
+    auth: 'required',
+    body: challengeInputSchema.partial(), upload: 'image', response: challengeResponseSchema
+  },
+  archiveChallenge: {
+    method: 'delete', path: '/api/challenges/:id', summary: 'Archive a challenge (instructors)',
+    auth: 'required',
+    response: challengeResponseSchema
+  },
+
+  // Personas
+  getPersonas: {
+    method: 'get', path: '/api/personas', summary: 'List built-in and instructor-defined personas',
+    response: personaListResponseSchema
+  },
+  createPersona: {
+    method: 'post', path: '/api/personas', summary: 'Define a persona (instructors)',
+    auth: 'required',
+    body: personaInputSchema, response: personaResponseSchema
+  },
+  deletePersona: {
+    method: 'delete', path: '/api/personas/:id', summary: 'Delete an instructor-defined persona (instructors)',
+    auth: 'required',
+    response: messageResponseSchema
+  },
+
+  // Users
+  getUserProfile: {
+    method: 'get', path: '/api/users/profile', summary: "Get the signed-in user's profile",
+    auth: 'required',
+    response: userProfileResponseSchema
+  },
+  createOrUpdateProfile: {
+    method: 'post', path: '/api/users/profile', summary: 'Create the profile, or refresh it on sign-in',
+    auth: 'required',
+    body: profileCreateSchema, response: userProfileResponseSchema
+  },
+  updateProfile: {
+    method: 'patch', path: '/api/users/profile', summary: 'Update profile fields',
+    auth: 'required',
+    body: profileUpdateSchema, response: userProfileResponseSchema
+  },
+  deleteUser: {
+    method: 'delete', path: '/api/users/profile', summary: 'Delete the account',
+    auth: 'required',
+    response: messageResponseSchema
+  },
+  getUserProgress: {
+    method: 'get', path: '/api/users/progress', summary: 'Get challenge progress',
+    auth: 'required',
+    response: userProgressResponseSchema
+  },
+  saveUserProgress: {
+    method: 'post', path: '/api/users/progress', summary: 'Rejected: progress is recorded by scoring',
+    auth: 'required'
+  },
+  getUserStats: {
+    method: 'get', path: '/api/users/stats', summary: 'Get statistics; null before sign-up',
+    auth: 'required',
+    response: userStatsResponseSchema
+  },
+  updateUserStats: {
+    method: 'post', path: '/api/users/stats/update', summary: 'Rejected: stats are recorded by scoring',
+    auth: 'required'
+  },
+  getAttempts: {
+    method: 'get', path: '/api/users/attempts', summary: 'Page through attempts, newest first',
+    auth: 'required',
+    query: attemptQuerySchema, response: attemptPageResponseSchema
+  },
+  getBestAttempts: {
+    method: 'get', path: '/api/users/attempts/best', summary: 'Best attempt for each challenge played',
+    auth: 'required',
+    response: bestAttemptsResponseSchema
+  },
+  setUserRole: {
+    method: 'patch', path: '/api/users/:uid/role', summary: "Set a user's role (admins)",
+    auth: 'required',
+    body: roleUpdateSchema, response: userProfileResponseSchema
+  },
+  getLeaderboard: {
+    method: 'get', path: '/api/users/leaderboard', summary: 'Top users by total score',
+    auth: 'optional',
+    query: leaderboardQuerySchema, response: leaderboardResponseSchema
+  },
+
+  // Status
+  getKeyManagerStatus: {
+    method: 'get', path: '/api/status/keys', summary: 'Gemini key pool status (per-key detail for admins)',
+    auth: 'optional',
+    response: keyManagerStatusSchema
+  },
+  resetKeyManagerMetrics: {
+    method: 'post', path: '/api/status/keys/reset', summary: 'Reset key metrics (admins)',
+    auth: 'required',
+    response: messageResponseSchema
+  },
+  getOperationMetrics: {
+    method: 'get', path: '/api/status/metrics', summary: 'Gemini call latency and outcomes by operation and key (admins)',
+    auth: 'required',
+    response: operationMetricsSchema
+  }
+} satisfies Record<string, ApiRoute>;
+
+export type ApiRouteName = keyof typeof API_ROUTES;
@@ -0,0 +1,108 @@
+/**
+ * ✅ Schema Validation
+ * Runs the request and response schemas and turns zod issues into the
+ * error codes both backends return.
+ *
+ * A failing check reports, in order of preference: the code of the refinement
+ * that raised it (`rule`), the code registered on its top-level field
+ * (`withCode`), the code registered on the body schema itself, or
+ * INVALID_REQUEST.
+ */
+
+import { z } from 'zod';
+import { ApiError, FieldError } from '../types.js';
+import { ErrorCode, isErrorCode } from '../errors.js';
+import { errorResponseSchema } from './responses.js';
+import type { ApiRoute } from './routes.js';
+
+const DEFAULT_ERROR_CODE: ErrorCode = 'INVALID_REQUEST';
+
+// Error codes registered on request fields
+export const errorCodes = z.registry<{ code: ErrorCode }>();
+
+/**
+ * Report every issue a field raises under `code`
+ */
+export function withCode<T extends z.ZodType>(schema: T, code: ErrorCode): T {
+  errorCodes.add(schema, { code });
+  return schema;
+}
+
+/**
+ * Options for `.refine()`: the message and the code the check reports
+ */
+export function rule(code: ErrorCode, message: string) {
+  return { error: message, params: { code } };
+}
+
+/**
+ * Code registered on a schema, looking through optional and default wrappers
+ */
+function registeredCode(schema: z.ZodType | undefined): ErrorCode | undefined {
+  if (!schema) return undefined;
+
+  const code = errorCodes.get(schema)?.code;
+  if (code) return code;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodNullable) {
+    return registeredCode(schema.unwrap() as z.ZodType);
+  }
+
+  return undefined;
+}
+
+function issueCode(schema: z.ZodObject, issue: z.core.$ZodIssue): ErrorCode {
+  if (issue.code === 'custom' && isErrorCode(issue.params?.code)) {
+    return issue.params.code;
+  }
+
+  const field = typeof issue.path[0] === 'string' ? schema.shape[issue.path[0]] : undefined;
+  return registeredCode(field) ?? registeredCode(schema) ?? DEFAULT_ERROR_CODE;
+}
+
+/**
+ * Describe each issue as a field error
+ */
+export function toFieldErrors(schema: z.ZodObject, error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    field: issue.path.join('.'),
+    code: issueCode(schema, issue),
+    message: issue.message
+  }));
+}
+
+/**
+ * Parse a request body or query against its schema. Throws a 400 ApiError
+ * with the first failure's code and message and every field error.
+ */
+export function parseRequest<T extends z.ZodObject>(schema: T, input: unknown): z.output<T> {
+  const result = schema.safeParse(input ?? {});
+  if (result.success) {
+    return result.data;
+  }
+
+  const fields = toFieldErrors(schema, result.error);
+  throw new ApiError(fields[0].message, 400, fields[0].code, { fields });
+}
+
+/**
+ * Check a JSON response body against its schema.
+ * @returns One line per problem, or null when the body matches
+ */
+export function checkResponse(schema: z.ZodType, body: unknown): string[] | null {
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return null;
+  }
+
+  return result.error.issues.map(issue => `${issue.path.join('.') || '(body)'}: ${issue.message}`);
+}
+
+/**
+ * Check a route's JSON response: error bodies against the error envelope,
+ * success bodies against the route's own schema
+ */
+export function checkRouteResponse(route: ApiRoute, status: number, body: unknown): string[] | null {
+  const schema = status >= 400 ? errorResponseSchema : route.response;
+  return schema ? checkResponse(schema, body) : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * 🏁 Scoring Rules
+ * How attempts move a user along the mission path, shared by both backends
+ * so the same attempt is judged the same way wherever it is recorded.
+ */
+
+import type { Challenge, ChallengeProgress, StreakChange, UserStats } from './schemas/models.js';
+
+// Score needed to pass a challenge that doesn't set its own
+const DEFAULT_PASS_THRESHOLD = 80;
+
+export interface AttemptOutcome {
+  progress: Record<number, ChallengeProgress>;
+  passed: boolean;
+  justCompleted: boolean;
+  streakChange: StreakChange;
+  streak: number;
+}
+
+/**
+ * Whether a challenge is still locked for a user. A challenge without a
+ * progress entry is open when it is first on the path or follows a completed
+ * one, the same rule the client uses to fill in new catalog entries.
+ * @param progress The user's progress by challenge id
+ * @param catalog Active challenges in mission order
+ * @param challengeId Challenge being attempted
+ */
+export function isChallengeLocked(
+  progress: Record<number, { status?: string } | undefined>,
+  catalog: Array<{ id: number }>,
+  challengeId: number
+): boolean {
+  const entry = progress[challengeId];
+  if (entry) {
+    return entry.status === 'LOCKED';
+  }
+
+  const index = catalog.findIndex(challenge => challenge.id === challengeId);
+  if (index <= 0) {
+    return false;
+  }
+  return progress[catalog[index - 1].id]?.status !== 'COMPLETED';
+}
+
+/**
+ * Apply an attempt to a user's progress. A higher score than last time
+ * grows the streak by one; a lower score costs two.
+ * @param progress The user's progress by challenge id
+ * @param catalog Active challenges in mission order
+ * @param challenge Challenge the attempt was made against
+ * @param score Server-computed score (0-100)
+ */
+export function applyAttempt(
+  progress: Record<number, ChallengeProgress>,
+  catalog: Array<{ id: number }>,
+  challenge: Challenge,
+  score: number,
+  now: Date = new Date()
+): AttemptOutcome {
+  const current: ChallengeProgress = progress[challenge.id] || {
+    status: 'UNLOCKED',
+    streak: 0,
+    previousSimilarityScore: 0
+  };
+
+  const passed = score >= (challenge.passThreshold ?? DEFAULT_PASS_THRESHOLD);
+  const justCompleted = passed && current.status !== 'COMPLETED';
+
+  let streakChange: StreakChange = 'none';
+  let streak = current.streak || 0;
+  if (score > (current.previousSimilarityScore || 0)) {
+    streakChange = 'increase';
+    streak++;
+  } else if (score < (current.previousSimilarityScore || 0)) {
+    streakChange = 'decrease';
+    streak = Math.max(0, streak - 2);
+  }
+
+  const updated: Record<number, ChallengeProgress> = { ...progress };
+
+  // Firestore rejects undefined values, so optional fields are only set when known
+  updated[challenge.id] = {
+    ...current,
+    status: passed ? 'COMPLETED' : current.status,
+    streak,
+    previousSimilarityScore: score,
+    attempts: (current.attempts || 0) + 1,
+    bestScore: Math.max(current.bestScore || 0, score),
+    ...(justCompleted && { completedAt: now })
+  };
+
+  // Passing unlocks the next mission on the path
+  const index = catalog.findIndex(item => item.id === challenge.id);
+  const next = index >= 0 ? catalog[index + 1] : undefined;
+  if (passed && next) {
+    const nextProgress = updated[next.id];
+    if (!nextProgress || nextProgress.status === 'LOCKED') {
+      updated[next.id] = nextProgress
+        ? { ...nextProgress, status: 'UNLOCKED' }
+        : { status: 'UNLOCKED', streak: 0, previousSimilarityScore: 0 };
+    }
+  }
+
+  return { progress: updated, passed, justCompleted, streakChange, streak };
+}
+
+/**
+ * Fold an attempt into the user's stats. Only a challenge's first
+ * completion counts toward completions and total score.
+ * @param uid Firebase Auth UID
+ * @param current Stats before the attempt, null for a user's first
+ * @param outcome What applyAttempt made of the attempt
+ * @param score Server-computed score (0-100)
+ */
+export function applyStats(
+  uid: string,
+  current: UserStats | null,
+  outcome: AttemptOutcome,
+  score: number,
+  now: Date = new Date()
+): UserStats {
+  const totalChallengesCompleted = (current?.totalChallengesCompleted || 0) + (outcome.justCompleted ? 1 : 0);
+  const totalScore = (current?.totalScore || 0) + (outcome.justCompleted ? score : 0);
+
+  return {
+    userId: uid,
+    totalChallengesCompleted,
+    totalScore,
+    currentStreak: outcome.streak,
+    maxStreak: Math.max(current?.maxStreak || 0, outcome.streak),
+    averageScore: totalChallengesCompleted > 0 ? totalScore / totalChallengesCompleted : 0,
+    lastChallengeAt: now,
+    updatedAt: now
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Shared type definitions for the Express server and the Workers API.
+ * Shapes the API sends or receives are inferred from the zod schemas in
+ * schemas/ and re-exported here.
+ */
+
+import type { ImageProviderInfo, ImageSize } from './schemas/models.js';
+import type { FieldError } from './schemas/responses.js';
+import type { ErrorCode } from './errors.js';
+
+export type {
+  AnalysisResult,
+  AnalysisSource,
+  AttemptPage,
+  AttemptRecord,
+  Challenge,
+  ChallengeLifecycleStatus,
+  ChallengeProgress,
+  ChallengeRubric,
+  ChallengeStatus,
+  CriterionResult,
+  DetailedAnalysis,
+  FeedbackPersona,
+  FeedbackTone,
+  FeedbackVerbosity,
+  ImageProviderCapabilities,
+  ImageProviderInfo,
+  ImageSize,
+  RubricCriterion,
+  RubricEvaluation,
+  RubricPenalty,
+  ScoringResult,
+  StreakChange,
+  UserProgress,
+  UserRole,
+  UserStats
+} from './schemas/models.js';
+export type {
+  AnalysisRequest,
+  AttemptQuery,
+  ChallengeInput,
+  FeedbackPersonaInput,
+  ImageGenerationRequest,
+  LocalImageRequest,
+  UserProfileUpdate
+} from './schemas/requests.js';
+export type { FieldError, ImageGenerationResponse } from './schemas/responses.js';
+export { FEEDBACK_TONES, FEEDBACK_VERBOSITIES, USER_ROLES } from './schemas/models.js';
+
+// Image Service Types
+// Id of a registered image provider (see imageProviders/registry)
+export type ImageService = string;
+
+export type PollationsModel = 'flux' | 'realistic' | 'anime' | 'flux-schnell' | 'turbo' | 'majestic';
+
+export type GeminiModel = 'imagen-3.0-generate-001' | 'imagen-3.0-generate-002' | 'imagen-4.0-generate-001';
+
+export interface ImageProviderOptions {
+  size?: ImageSize;
+  seed?: number;
+}
+
+export interface GeneratedImageData {
+  imageBase64: string;
+  model: string;
+}
+
+// One image generation backend. Adding a provider means implementing this
+// and registering it in imageProviders/registry.ts. The rest of its fields
+// are what GET /api/images/providers reports.
+export interface ImageProvider extends ImageProviderInfo {
+  generate(prompt: string, options: ImageProviderOptions): Promise<GeneratedImageData>;
+}
+
+// The part of GeminiKeyManager providers need: run an operation with key rotation,
+// on keys allowed to call `model` when one is given
+export interface GeminiKeyRunner {
+  executeWithRetry<T>(operation: (apiKey: string) => Promise<T>, operationName?: string, model?: string): Promise<T>;
+}
+
+// The fetch used for outbound HTTP; injected so each runtime (and tests) can supply its own
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface HealthResponse {
+  status: 'OK' | 'ERROR';
+  timestamp: string;
+  service: string;
+  version?: string;
+}
+
+// Error Handling
+export interface ApiErrorExtras {
+  fields?: FieldError[];              // Every failing field of a rejected request
+  details?: Record<string, unknown>;  // Machine-readable context, e.g. { method, path }
+  retryAfter?: number;                // Seconds until a retry can succeed
+}
+
+export class ApiError extends Error {
+  public statusCode: number;
+  public code?: ErrorCode;
+  public fields?: FieldError[];
+  public details?: Record<string, unknown>;
+  public retryAfter?: number;
+
+  constructor(message: string, statusCode: number = 500, code?: ErrorCode, extras: ApiErrorExtras = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.statusCode = statusCode;
+    this.code = code;
+    this.fields = extras.fields;
+    this.details = extras.details;
+    this.retryAfter = extras.retryAfter;
+
+    // Ensure proper prototype chain
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
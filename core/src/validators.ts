@@ -0,0 +1,164 @@
+/**
+ * ✅ Request Validators
+ * Shared by the Express controllers and the Workers handlers so both
+ * backends accept the same bodies and reject them with the same codes.
+ * Each parses against its schema in schemas/requests and maps the legacy
+ * fields older clients still send.
+ */
+
+import { normalizeRubric } from './analysis/rubric.js';
+import {
+  analysisRequestSchema,
+  attemptQuerySchema,
+  challengeInputSchema,
+  imageGenerationRequestSchema,
+  leaderboardQuerySchema,
+  localImageRequestSchema,
+  personaInputSchema,
+  profileCreateSchema,
+  profileUpdateSchema,
+  roleUpdateSchema
+} from './schemas/requests.js';
+import { parseRequest } from './schemas/validation.js';
+import {
+  AnalysisRequest,
+  AttemptQuery,
+  ChallengeInput,
+  FeedbackPersonaInput,
+  ImageGenerationRequest,
+  ImageService,
+  LocalImageRequest,
+  UserProfileUpdate,
+  UserRole
+} from './types.js';
+
+// Legacy clients name a backend instead of a provider id
+const LEGACY_PROVIDER_IDS: Record<string, ImageService> = {
+  gemini: 'gemini-imagen-3',
+  pollinations: 'pollinations-flux'
+};
+
+/**
+ * Drop blank multipart form values so optional fields read as unset
+ */
+function withoutBlankFields(body: any, fields: string[]): Record<string, unknown> {
+  const copy = { ...body };
+  for (const field of fields) {
+    if (copy[field] === '') {
+      delete copy[field];
+    }
+  }
+  return copy;
+}
+
+/**
+ * Validate an image generation request. `service` is left unset when the
+ * client names none, so the caller's registry default applies.
+ */
+export function validateImageRequest(body: any): ImageGenerationRequest {
+  const { provider, service, ...request } = parseRequest(imageGenerationRequestSchema, body);
+  const resolvedService = service || (provider ? LEGACY_PROVIDER_IDS[provider] : undefined);
+
+  return {
+    ...request,
+    ...(resolvedService && { service: resolvedService })
+  };
+}
+
+/**
+ * Validate a request for a challenge image by URL
+ */
+export function validateLocalImageRequest(body: any): LocalImageRequest {
+  return parseRequest(localImageRequestSchema, body);
+}
+
+/**
+ * Validate an analysis request
+ */
+export function validateAnalysisRequest(body: any): AnalysisRequest {
+  // The challenge is loaded server-side; older clients send the whole object
+  const request = parseRequest(analysisRequestSchema, {
+    ...body,
+    challengeId: body?.challengeId ?? body?.challenge?.id
+  });
+
+  const { persona, ...rest } = request;
+  return { ...rest, ...(persona && { persona }) };
+}
+
+/**
+ * Validate challenge authoring fields. Accepts JSON or multipart form
+ * values, so numbers and the rubric may arrive as strings.
+ * @param partial Allow missing required fields (PATCH)
+ */
+export function validateChallengeInput(body: any, partial: boolean): ChallengeInput {
+  const schema = partial ? challengeInputSchema.partial() : challengeInputSchema;
+  const { rubric, ...input } = parseRequest(schema, withoutBlankFields(body, ['order', 'passThreshold']));
+
+  if (rubric === undefined) {
+    return input;
+  }
+
+  let rawRubric = rubric;
+  if (typeof rawRubric === 'string') {
+    // Multipart forms send the rubric as JSON, or as one rule per line
+    try {
+      rawRubric = JSON.parse(rawRubric);
+    } catch {
+      rawRubric = (rawRubric as string).split('\n').filter(rule => rule.trim().length > 0);
+    }
+  }
+
+  return { ...input, rubric: normalizeRubric(rawRubric) };
+}
+
+/**
+ * Validate an instructor-defined persona
+ */
+export function validatePersonaInput(body: any): FeedbackPersonaInput {
+  const { instructions, ...input } = parseRequest(personaInputSchema, withoutBlankFields(body, ['instructions']));
+  return {
+    ...input,
+    ...(instructions && { instructions })
+  };
+}
+
+/**
+ * Validate the profile fields sent on sign-in
+ */
+export function validateProfileCreate(body: any): UserProfileUpdate {
+  return parseRequest(profileCreateSchema, body);
+}
+
+/**
+ * Validate a profile update. Only the listed fields may change; the persona
+ * id is checked against the persona store by the caller.
+ */
+export function validateProfileUpdate(body: any): UserProfileUpdate {
+  return parseRequest(profileUpdateSchema, body);
+}
+
+/**
+ * Validate a role change
+ */
+export function validateRoleUpdate(body: any): UserRole {
+  return parseRequest(roleUpdateSchema, body).role;
+}
+
+/**
+ * Validate ?challengeId=&cursor=&limit= for the attempts listing
+ */
+export function validateAttemptQuery(query: Record<string, unknown>): AttemptQuery {
+  const { cursor, ...rest } = parseRequest(attemptQuerySchema, query);
+  return {
+    ...rest,
+    cursor: cursor || undefined
+  };
+}
+
+/**
+ * Validate ?limit= for the leaderboard
+ */
+export function validateLeaderboardQuery(query: Record<string, unknown>): number {
+  return parseRequest(leaderboardQuerySchema, query).limit;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApiClientError, createApiClient } from '../src/client/apiClient.js';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('createApiClient', () => {
+  it('fills in the path and query and sends the token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ success: true, data: [], timestamp: 'now' }));
+    const client = createApiClient({ baseUrl: 'https://api.test', getToken: async () => 'token-1', fetch: fetchMock });
+
+    await client.request('getLeaderboard', { query: { limit: 5 } });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/api/users/leaderboard?limit=5', {
+      method: 'GET',
+      headers: { Authorization: 'Bearer token-1' },
+      body: undefined
+    });
+    expect(client.url('getGeneratedImage', { params: { id: 'a/b' } })).toBe('https://api.test/api/images/a%2Fb');
+  });
+
+  it('sends JSON bodies', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ success: true, data: {}, timestamp: 'now' }));
+    const client = createApiClient({ baseUrl: '', getToken: async () => 'token-1', fetch: fetchMock });
+
+    await client.request('setUserRole', { params: { uid: 'user-2' }, body: { role: 'instructor' } });
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/users/user-2/role', {
+      method: 'PATCH',
+      headers: { Authorization: 'Bearer token-1', 'Content-Type': 'application/json' },
+      body: '{"role":"instructor"}'
+    });
+  });
+
+  it('rejects with the error envelope', async () => {
+    const fields = [{ field: 'prompt', code: 'INVALID_PROMPT', message: 'Prompt is required' }];
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      success: false, code: 'INVALID_PROMPT', message: 'Prompt is required', error: 'Prompt is required',
+      fields, requestId: 'req-1', timestamp: 'now'
+    }, 400));
+    const client = createApiClient({ baseUrl: '', fetch: fetchMock, maxRetries: 2 });
+
+    await expect(client.request('generateImage', { body: { prompt: '' } })).rejects.toEqual(
+      expect.objectContaining({ status: 400, code: 'INVALID_PROMPT', fields, requestId: 'req-1', message: 'Prompt is required' })
+    );
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it('retries retryable errors after retryAfter', async () => {
+    const exhausted = { success: false, code: 'ALL_KEYS_EXHAUSTED', message: 'Busy', error: 'Busy', requestId: 'req-1', retryAfter: 0, timestamp: 'now' };
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(exhausted, 429))
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: [], timestamp: 'now' }));
+    const client = createApiClient({ baseUrl: '', fetch: fetchMock, maxRetries: 1 });
+
+    await expect(client.request('getLeaderboard')).resolves.toMatchObject({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('needs a token for routes that require sign-in', async () => {
+    const fetchMock = vi.fn();
+    const client = createApiClient({ baseUrl: '', getToken: async () => null, fetch: fetchMock });
+
+    await expect(client.request('getUserStats')).rejects.toBeInstanceOf(ApiClientError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { resolveChallengeImageSource } from '../src/challengeImages.js';
+
+const ORIGINS = ['https://prompt-proj1.web.app', 'http://localhost:5173'];
+
+describe('resolveChallengeImageSource', () => {
+  it('reads uploaded challenge images from storage, whatever host they were saved under', () => {
+    expect(resolveChallengeImageSource('http://api.internal:3001/api/challenges/7/image', ORIGINS))
+      .toEqual({ type: 'upload', challengeId: 7 });
+    expect(resolveChallengeImageSource('/api/challenges/7/image', ORIGINS))
+      .toEqual({ type: 'upload', challengeId: 7 });
+  });
+
+  it('resolves catalog images against the preferred origin when it is allowed', () => {
+    expect(resolveChallengeImageSource('challenges/challenge-1.png', ORIGINS))
+      .toEqual({ type: 'url', url: 'https://prompt-proj1.web.app/challenges/challenge-1.png' });
+    expect(resolveChallengeImageSource('/challenges/challenge-1.png', ORIGINS, 'http://localhost:5173'))
+      .toEqual({ type: 'url', url: 'http://localhost:5173/challenges/challenge-1.png' });
+    expect(resolveChallengeImageSource('challenges/challenge-1.png', ORIGINS, 'https://attacker.example'))
+      .toEqual({ type: 'url', url: 'https://prompt-proj1.web.app/challenges/challenge-1.png' });
+  });
+
+  it('rejects every other origin', () => {
+    for (const imageUrl of [
+      'http://169.254.169.254/latest/meta-data/',
+      'http://localhost:5174/challenges/challenge-1.png',
+      '//attacker.example/challenges/challenge-1.png',
+      'https://prompt-proj1.web.app@attacker.example/x.png',
+      'file:///etc/passwd',
+      'http://[::1'
+    ]) {
+      expect(() => resolveChallengeImageSource(imageUrl, ORIGINS), imageUrl)
+        .toThrow(expect.objectContaining({ code: 'IMAGE_URL_NOT_ALLOWED', statusCode: 400 }));
+    }
+  });
+
+  it('refuses an empty URL rather than fetching the frontend root', () => {
+    expect(() => resolveChallengeImageSource(' ', ORIGINS)).toThrow(expect.objectContaining({ code: 'MISSING_TARGET_IMAGE' }));
+  });
+});
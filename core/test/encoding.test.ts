@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { base64ToBytes, bytesToBase64, detectImageMimeType } from '../src/encoding.js';
+
+const PNG_BASE64 = btoa(String.fromCharCode(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3));
+const JPEG_BASE64 = btoa(String.fromCharCode(0xff, 0xd8, 0xff, 0xe0, 4, 5, 6));
+
+describe('base64 helpers', () => {
+  it('round-trips bytes larger than one chunk', () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 2 + 7 }, (_, i) => i % 256);
+
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('detectImageMimeType', () => {
+  it('recognises PNG and WebP and falls back to JPEG', () => {
+    const webp = new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 ');
+
+    expect(detectImageMimeType(base64ToBytes(PNG_BASE64))).toBe('image/png');
+    expect(detectImageMimeType(webp)).toBe('image/webp');
+    expect(detectImageMimeType(base64ToBytes(JPEG_BASE64))).toBe('image/jpeg');
+  });
+});
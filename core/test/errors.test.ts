@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { ERROR_CODES, toErrorResponse } from '../src/errors.js';
+import { errorResponseSchema } from '../src/schemas/responses.js';
+import { ApiError } from '../src/types.js';
+
+const options = { requestId: 'req-1', fallbackMessage: 'Failed to load challenges' };
+
+describe('toErrorResponse', () => {
+  it('keeps the status, code and extras of an ApiError', () => {
+    const error = new ApiError('All keys exhausted', 429, 'ALL_KEYS_EXHAUSTED', { retryAfter: 30, details: { keys: 2 } });
+
+    const { status, body } = toErrorResponse(error, options);
+
+    expect(status).toBe(429);
+    expect(body).toMatchObject({
+      success: false,
+      code: 'ALL_KEYS_EXHAUSTED',
+      message: 'All keys exhausted',
+      error: 'All keys exhausted',
+      details: { keys: 2 },
+      requestId: 'req-1',
+      retryAfter: 30
+    });
+    expect(errorResponseSchema.safeParse(body).success).toBe(true);
+  });
+
+  it('picks a code from the status when the ApiError has none', () => {
+    expect(toErrorResponse(new ApiError('Gone', 404), options).body.code).toBe('NOT_FOUND');
+    expect(toErrorResponse(new ApiError('Teapot', 418), options).body.code).toBe('INTERNAL_SERVER_ERROR');
+  });
+
+  it('hides other errors behind the fallback message', () => {
+    const { status, body } = toErrorResponse(new Error('socket hang up'), { ...options, fallbackCode: 'ATTEMPT_QUERY_FAILED' });
+
+    expect(status).toBe(500);
+    expect(body).toMatchObject({
+      code: 'ATTEMPT_QUERY_FAILED',
+      message: 'Failed to load challenges',
+      details: { reason: 'socket hang up' }
+    });
+  });
+});
+
+describe('ERROR_CODES', () => {
+  it('gives every code an error status', () => {
+    for (const info of Object.values(ERROR_CODES)) {
+      expect(info.status).toBeGreaterThanOrEqual(400);
+    }
+  });
+});
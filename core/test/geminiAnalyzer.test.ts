@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { analyzeImages, getUserName, parseGeminiAnalysis } from '../src/analysis/geminiAnalyzer.js';
+import { BUILT_IN_PERSONAS } from '../src/config/personas.js';
+import { DEFAULT_CHALLENGES } from '../src/config/challenges.js';
+import { renderPromptImage } from '../src/imageProviders/proceduralImage.js';
+import { bytesToBase64 } from '../src/encoding.js';
+
+const challenge = DEFAULT_CHALLENGES[0];
+
+describe('getUserName', () => {
+  it('uses the first part of the email address', () => {
+    expect(getUserName('asha.k@example.com')).toBe('Asha');
+    expect(getUserName(undefined)).toBe('User');
+  });
+});
+
+describe('parseGeminiAnalysis', () => {
+  it('clamps the score and fills in missing sub-scores', () => {
+    const result = parseGeminiAnalysis(JSON.stringify({
+      similarityScore: 140,
+      feedback: ['Add a blue background'],
+      detailedAnalysis: { colorMatch: 70 }
+    }), { ...challenge, rubric: undefined });
+
+    expect(result).toEqual({
+      similarityScore: 100,
+      feedback: ['Add a blue background'],
+      detailedAnalysis: { colorMatch: 70, shapeMatch: 100, compositionMatch: 100, overallQuality: 100 },
+      rubric: undefined
+    });
+  });
+
+  it('scores rubric challenges from the criteria rather than the reported score', () => {
+    const rubric = {
+      requiredElements: [],
+      criteria: [{ id: 'color', description: 'Color matches', weight: 1 }],
+      penalties: [{ description: 'Extra objects', points: 10 }]
+    };
+    const result = parseGeminiAnalysis(JSON.stringify({
+      similarityScore: 98,
+      feedback: [],
+      detailedAnalysis: {},
+      rubric: { criteria: [{ id: 'color', score: 60 }], appliedPenalties: ['Extra objects'] }
+    }), { ...challenge, rubric });
+
+    expect(result.similarityScore).toBe(50);
+  });
+
+  it('throws rather than guess a score when the reply is not JSON', () => {
+    expect(() => parseGeminiAnalysis('not json', challenge)).toThrow();
+  });
+});
+
+describe('analyzeImages', () => {
+  const image = bytesToBase64(renderPromptImage('a red circle', 64, 64));
+  const input = {
+    userName: 'Asha',
+    challenge,
+    generatedImageBase64: image,
+    targetImageBase64: image,
+    userPrompt: 'a red circle',
+    persona: BUILT_IN_PERSONAS[0]
+  };
+
+  it('never touches the key pool in local mode', async () => {
+    const keyRunner = { executeWithRetry: vi.fn() };
+
+    const result = await analyzeImages({ mode: 'local', localWeight: 0 }, keyRunner, input);
+
+    expect(result.analyzer).toBe('local');
+    expect(result.similarityScore).toBe(100);
+    expect(keyRunner.executeWithRetry).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the local analyzer when Gemini fails', async () => {
+    const keyRunner = { executeWithRetry: vi.fn().mockRejectedValue(new Error('ALL_KEYS_EXHAUSTED')) };
+
+    const result = await analyzeImages({ mode: 'gemini', localWeight: 0 }, keyRunner, input);
+
+    expect(result.analyzer).toBe('local');
+    expect(keyRunner.executeWithRetry).toHaveBeenCalledWith(expect.any(Function), 'image-analysis', 'gemini-2.5-flash');
+  });
+
+  it('falls back to the local analyzer when Gemini replies with something other than JSON', async () => {
+    const keyRunner = { executeWithRetry: vi.fn().mockResolvedValue({ text: 'Sorry, I cannot compare these images.' }) };
+
+    const result = await analyzeImages({ mode: 'gemini', localWeight: 0 }, keyRunner, input);
+
+    expect(result.analyzer).toBe('local');
+    expect(result.similarityScore).toBe(100);
+  });
+
+  it('rejects missing images', async () => {
+    const keyRunner = { executeWithRetry: vi.fn() };
+
+    await expect(analyzeImages({ mode: 'local', localWeight: 0 }, keyRunner, { ...input, targetImageBase64: '' }))
+      .rejects.toMatchObject({ code: 'MISSING_TARGET_IMAGE' });
+  });
+});
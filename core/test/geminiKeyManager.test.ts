@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GeminiKeyManager } from '../src/geminiKeyManager.js';
+import { InMemoryKeyMetricsStore, keyMetricsId } from '../src/keyMetricsStore.js';
+
+const noTimer = { cleanupIntervalMs: 0 };
+
+// Keeps per-minute budgets from rolling over mid-test
+const pinClock = () => vi.useFakeTimers({ now: Date.UTC(2025, 0, 1, 12, 0, 30), toFake: ['Date'] });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('GeminiKeyManager', () => {
+  it('reads keys from GEMINI_API_KEYS', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh, key-two-abcdefgh,' }, noTimer);
+
+    expect((await manager.getStatus()).totalKeys).toBe(2);
+  });
+
+  it('falls back to the numbered legacy variables', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEY: 'first-key-abcdef', GEMINI_API_KEY2: 'second-key-abcde' }, noTimer);
+
+    expect((await manager.getStatus()).totalKeys).toBe(2);
+  });
+
+  it('refuses to start without keys', () => {
+    expect(() => new GeminiKeyManager({}, noTimer)).toThrow(expect.objectContaining({ code: 'NO_API_KEYS' }));
+  });
+
+  it('rotates through the keys', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh,key-two-abcdefgh' }, noTimer);
+
+    const used = [
+      await manager.executeWithRetry(async key => key),
+      await manager.executeWithRetry(async key => key)
+    ];
+
+    expect(used).toEqual(['key-one-abcdefgh', 'key-two-abcdefgh']);
+  });
+
+  it('says when to retry once every key is blocked', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh' }, noTimer);
+    const rateLimited = async () => { throw new Error('429 Too Many Requests'); };
+
+    await expect(manager.executeWithRetry(rateLimited)).rejects.toMatchObject({ code: 'ALL_KEYS_EXHAUSTED', statusCode: 429 });
+    await expect(manager.getNextKey()).rejects.toMatchObject({ retryAfter: 60 });
+  });
+
+  it('shares blocks and usage through a common store', async () => {
+    const store = new InMemoryKeyMetricsStore();
+    const env = { GEMINI_API_KEYS: 'key-one-abcdefgh,key-two-abcdefgh' };
+    const first = new GeminiKeyManager(env, { ...noTimer, store });
+    const second = new GeminiKeyManager(env, { ...noTimer, store });
+
+    await expect(first.executeWithRetry(async key => {
+      if (key === 'key-one-abcdefgh') throw new Error('429 Too Many Requests');
+      return key;
+    })).resolves.toBe('key-two-abcdefgh');
+
+    // The second instance skips the key the first one blocked
+    expect(await second.getNextKey()).toBe('key-two-abcdefgh');
+    expect(await second.getStatus()).toMatchObject({
+      store: 'memory',
+      availableKeys: 1,
+      keyStats: [{ isBlocked: true, usageCount: 1 }, { isBlocked: false, usageCount: 2 }]
+    });
+  });
+
+  it('prefers the key with the most budget left, scaled by weight', async () => {
+    pinClock();
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh,key-two-abcdefgh' }, {
+      ...noTimer,
+      keyConfig: [{ requestsPerMinute: 2, weight: 3 }, { requestsPerMinute: 10 }]
+    });
+
+    // key-one scores 3 * 2/2, then 3 * 1/2, then 0; key-two 1 * 10/10 until then
+    const used = [];
+    for (let i = 0; i < 4; i++) used.push(await manager.getNextKey());
+
+    expect(used).toEqual(['key-one-abcdefgh', 'key-one-abcdefgh', 'key-two-abcdefgh', 'key-two-abcdefgh']);
+    expect((await manager.getStatus()).keyStats.map(stat => stat.budget)).toEqual([
+      { weight: 3, models: null, requestsPerMinute: 2, remainingThisMinute: 0, dailyQuota: null, remainingToday: null },
+      { weight: 1, models: null, requestsPerMinute: 10, remainingThisMinute: 8, dailyQuota: null, remainingToday: null }
+    ]);
+  });
+
+  it('waits for the next window once every budget is spent', async () => {
+    pinClock();
+    const manager = new GeminiKeyManager({
+      GEMINI_API_KEYS: 'key-one-abcdefgh',
+      GEMINI_KEY_CONFIG: '[{ "requestsPerMinute": 1, "dailyQuota": 100 }]'
+    }, noTimer);
+
+    await manager.getNextKey();
+    const error = await manager.getNextKey().catch(error => error);
+
+    expect(error).toMatchObject({ code: 'ALL_KEYS_EXHAUSTED', statusCode: 429 });
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('only hands out keys allowed to call the model', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh,key-two-abcdefgh' }, {
+      ...noTimer,
+      keyConfig: [{ models: ['imagen-3.0-generate-002'] }, null]
+    });
+
+    expect(await manager.executeWithRetry(async key => key, 'analysis', 'gemini-2.5-flash')).toBe('key-two-abcdefgh');
+    expect(await manager.executeWithRetry(async key => key, 'analysis', 'gemini-2.5-flash')).toBe('key-two-abcdefgh');
+    await expect(new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh' }, {
+      ...noTimer,
+      keyConfig: [{ models: ['imagen-3.0-generate-002'] }]
+    }).getNextKey('gemini-2.5-flash')).rejects.toMatchObject({ code: 'NO_KEY_FOR_MODEL', statusCode: 500 });
+  });
+
+  it('blocks a rate-limited key for as long as the 429 asked', async () => {
+    const onKeyBlocked = vi.fn();
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh' }, { ...noTimer, onKeyBlocked });
+    const quotaError = new Error('got status: 429 Too Many Requests. {"error":{"details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay": "7s"}]}}');
+
+    await expect(manager.executeWithRetry(async () => { throw quotaError; })).rejects.toMatchObject({ code: 'ALL_KEYS_EXHAUSTED' });
+    await expect(manager.getNextKey()).rejects.toMatchObject({ retryAfter: 7 });
+    expect(onKeyBlocked).toHaveBeenCalledWith({ key: await keyMetricsId('key-one-abcdefgh'), reason: 'rate-limit', until: expect.any(Number) });
+  });
+
+  it('rejects malformed GEMINI_KEY_CONFIG', () => {
+    expect(() => new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh', GEMINI_KEY_CONFIG: '{' }, noTimer))
+      .toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }));
+    expect(() => new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh', GEMINI_KEY_CONFIG: '[{ "rpm": 5 }]' }, noTimer))
+      .toThrow(expect.objectContaining({ code: 'CONFIG_ERROR' }));
+  });
+
+  it('blames the key it handed to the failing call, even when others were used since', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh,key-two-abcdefgh' }, noTimer);
+    let failFirst!: () => void;
+    const firstCallStarted = new Promise<void>(resolve => {
+      failFirst = resolve;
+    });
+
+    // key-one's call is still running when key-two is handed out and succeeds
+    const slow = manager.executeWithRetry(async key => {
+      if (key === 'key-one-abcdefgh') {
+        await firstCallStarted;
+        throw new Error('429 Too Many Requests');
+      }
+      return key;
+    }, 'image-analysis');
+    await vi.waitFor(async () => expect((await manager.getStatus()).keyStats[0].usageCount).toBe(1));
+    await manager.executeWithRetry(async key => key, 'image-generation');
+    failFirst();
+    await slow;
+
+    const { keyStats } = await manager.getStatus();
+    expect(keyStats.map(stat => stat.isBlocked)).toEqual([true, false]);
+    expect(keyStats[0].calls).toEqual({ successes: 0, errors: 1, errorsByClass: { 'rate-limit': 1 } });
+    expect(keyStats[1].calls).toEqual({ successes: 2, errors: 0, errorsByClass: {} });
+  });
+
+  it('reports latency and outcomes by operation', async () => {
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'key-one-abcdefgh' }, noTimer);
+
+    await manager.executeWithRetry(async () => 'ok', 'image-generation');
+    await manager.executeWithRetry(async () => 'ok', 'image-generation');
+
+    const { operations } = manager.getOperationMetrics();
+    expect(operations).toEqual([expect.objectContaining({
+      operation: 'image-generation',
+      successes: 2,
+      errors: 0,
+      byKey: [{ key: await keyMetricsId('key-one-abcdefgh'), successes: 2, errors: 0, errorsByClass: {} }]
+    })]);
+    expect(operations[0].latencyMs.count).toBe(2);
+  });
+
+  it('tells apart keys that share a prefix', async () => {
+    // Every Gemini key starts with "AIzaSy"
+    const manager = new GeminiKeyManager({ GEMINI_API_KEYS: 'AIzaSyAAAA-first,AIzaSyAAAA-second' }, noTimer);
+
+    await manager.executeWithRetry(async () => 'ok', 'image-generation');
+    await manager.executeWithRetry(async () => 'ok', 'image-generation');
+
+    const { keyStats } = await manager.getStatus();
+    const [{ byKey }] = manager.getOperationMetrics().operations;
+    expect(new Set(keyStats.map(stat => stat.id)).size).toBe(2);
+    expect(byKey.map(entry => entry.key).sort()).toEqual(keyStats.map(stat => stat.id).sort());
+    expect(keyStats.map(stat => stat.calls.successes)).toEqual([1, 1]);
+  });
+});
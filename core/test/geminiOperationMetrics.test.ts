@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError } from '../src/types.js';
+import { classifyGeminiError, GeminiOperationMetrics } from '../src/geminiOperationMetrics.js';
+
+describe('classifyGeminiError', () => {
+  it('sorts errors by status, then by message', () => {
+    expect(classifyGeminiError(Object.assign(new Error('boom'), { status: 429 }))).toBe('rate-limit');
+    expect(classifyGeminiError(new Error('{"error":{"status":"RESOURCE_EXHAUSTED"}}'))).toBe('rate-limit');
+    expect(classifyGeminiError(new Error('API key not valid. Please pass a valid API key.'))).toBe('auth');
+    expect(classifyGeminiError(new Error('Request timed out'))).toBe('timeout');
+    expect(classifyGeminiError(Object.assign(new Error('bad'), { status: 400 }))).toBe('invalid-request');
+    expect(classifyGeminiError(Object.assign(new Error('bad'), { status: 503 }))).toBe('upstream');
+    expect(classifyGeminiError(new ApiError('No image returned from Gemini', 500, 'NO_IMAGE_GENERATED'))).toBe('upstream');
+    expect(classifyGeminiError(new Error('Empty response'))).toBe('other');
+  });
+});
+
+describe('GeminiOperationMetrics', () => {
+  it('keeps a cumulative latency histogram and outcomes per operation and key', () => {
+    const metrics = new GeminiOperationMetrics();
+
+    metrics.record('image-analysis', 'key-one-...', 80);
+    metrics.record('image-analysis', 'key-one-...', 900, 'rate-limit');
+    metrics.record('image-analysis', 'key-two-...', 120000, 'timeout');
+    metrics.record('image-generation', 'key-one-...', 3000);
+
+    const [analysis, generation] = metrics.snapshot().operations;
+    expect(analysis).toMatchObject({
+      operation: 'image-analysis',
+      successes: 1,
+      errors: 2,
+      errorsByClass: { 'rate-limit': 1, timeout: 1 },
+      byKey: [
+        { key: 'key-one-...', successes: 1, errors: 1, errorsByClass: { 'rate-limit': 1 } },
+        { key: 'key-two-...', successes: 0, errors: 1, errorsByClass: { timeout: 1 } }
+      ]
+    });
+    expect(analysis.latencyMs.buckets.find(bucket => bucket.le === 100)?.count).toBe(1);
+    expect(analysis.latencyMs.buckets.find(bucket => bucket.le === 1000)?.count).toBe(2);
+    expect(analysis.latencyMs.buckets.at(-1)).toEqual({ le: null, count: 3 });
+    expect(analysis.latencyMs).toMatchObject({ count: 3, sumMs: 120980 });
+    expect(generation.successes).toBe(1);
+
+    expect(metrics.forKey('key-one-...')).toEqual({ successes: 2, errors: 1, errorsByClass: { 'rate-limit': 1 } });
+  });
+});
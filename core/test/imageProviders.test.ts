@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_IMAGE_PROVIDER,
+  ImageProviderRegistry,
+  createDefaultImageProviderRegistry
+} from '../src/imageProviders/registry.js';
+import { PollinationsProvider } from '../src/imageProviders/pollinationsProvider.js';
+
+const keyRunner = {
+  executeWithRetry: vi.fn(async (operation: (apiKey: string) => Promise<any>) => operation('test-key'))
+};
+
+function pollinations(id: string, fetch?: (input: string) => Promise<Response>) {
+  return new PollinationsProvider({ id, name: id, description: '', model: 'flux', promptSuffix: '', fetch });
+}
+
+describe('ImageProviderRegistry', () => {
+  it('looks providers up by id and rejects duplicates', () => {
+    const registry = new ImageProviderRegistry('a').register(pollinations('a'));
+
+    expect(registry.get('a')?.id).toBe('a');
+    expect(registry.get('b')).toBeUndefined();
+    expect(registry.defaultProviderId).toBe('a');
+    expect(() => registry.register(pollinations('a'))).toThrow('already registered');
+  });
+
+  it('lists the built-in providers without their generators', () => {
+    const registry = createDefaultImageProviderRegistry(keyRunner);
+    const providers = registry.list();
+
+    expect(registry.defaultProviderId).toBe(DEFAULT_IMAGE_PROVIDER);
+    expect(providers.map(provider => provider.id)).toEqual([
+      'pollinations-flux',
+      'pollinations-kontext',
+      'pollinations-krea',
+      'gemini-imagen-3',
+      'gemini-imagen-4-fast',
+      'gemini-imagen-4-ultra',
+      'local-procedural'
+    ]);
+    expect(providers[0]).not.toHaveProperty('generate');
+    expect(providers[3].capabilities).toEqual({ seed: false, network: true, apiKey: true });
+  });
+
+  it('takes the default from configuration and rejects unknown defaults', () => {
+    expect(createDefaultImageProviderRegistry(keyRunner, 'local-procedural').defaultProviderId).toBe('local-procedural');
+    expect(() => createDefaultImageProviderRegistry(keyRunner, 'missing')).toThrow('not registered');
+  });
+});
+
+describe('PollinationsProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+  });
+
+  it('requests the configured model and size and returns base64', async () => {
+    fetchMock.mockResolvedValue(new Response(new Uint8Array([1, 2, 3])));
+    const provider = new PollinationsProvider({
+      id: 'pollinations-krea', name: 'Anime', description: '', model: 'anime', promptSuffix: ' plain', fetch: fetchMock
+    });
+
+    const result = await provider.generate('a red fox', { size: { width: 1024, height: 1024 } });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://image.pollinations.ai/prompt/a%20red%20fox%20plain?width=1024&height=1024&model=anime&nologo=true'
+    );
+    expect(result).toEqual({ imageBase64: btoa('\x01\x02\x03'), model: 'Pollinations AI' });
+  });
+
+  it('reports upstream failures as a bad gateway', async () => {
+    fetchMock.mockResolvedValue(new Response('busy', { status: 503 }));
+
+    await expect(pollinations('p', fetchMock).generate('cat', {}))
+      .rejects.toMatchObject({ code: 'POLLINATIONS_API_ERROR', statusCode: 502 });
+  });
+
+  it('uses the fetch handed to the registry', async () => {
+    fetchMock.mockResolvedValue(new Response(new Uint8Array([7])));
+    const registry = createDefaultImageProviderRegistry(keyRunner, DEFAULT_IMAGE_PROVIDER, fetchMock);
+
+    await registry.get('pollinations-flux')!.generate('cat', {});
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createRedisRestClient,
+  DocumentKeyMetricsStore,
+  emptyKeyMetrics,
+  InMemoryKeyMetricsStore,
+  keyMetricsId,
+  RedisKeyMetricsStore,
+  usageAt,
+  usageWindow
+} from '../src/keyMetricsStore.js';
+
+/**
+ * The handful of Redis commands the store uses, over a Map
+ */
+function fakeRedis() {
+  const command = fakeRedisCommand();
+  return {
+    command,
+    transaction: vi.fn(async (commands: Array<Array<string | number>>) => {
+      const replies = [];
+      for (const args of commands) replies.push(await command(args));
+      return replies;
+    })
+  };
+}
+
+function fakeRedisCommand() {
+  const hashes = new Map<string, Map<string, string>>();
+  const counters = new Map<string, number>();
+  const hash = (key: string) => hashes.get(key) ?? hashes.set(key, new Map()).get(key)!;
+
+  return vi.fn(async ([command, key, ...args]: Array<string | number>) => {
+    switch (command) {
+      case 'HGETALL':
+        return [...hash(String(key))].flat();
+      case 'HSET':
+        for (let i = 0; i < args.length; i += 2) hash(String(key)).set(String(args[i]), String(args[i + 1]));
+        return args.length / 2;
+      case 'HINCRBY': {
+        const value = Number(hash(String(key)).get(String(args[0])) ?? 0) + Number(args[1]);
+        hash(String(key)).set(String(args[0]), String(value));
+        return value;
+      }
+      case 'INCR': {
+        const value = (counters.get(String(key)) ?? 0) + 1;
+        counters.set(String(key), value);
+        return value;
+      }
+      case 'GET':
+        return counters.has(String(key)) ? String(counters.get(String(key))) : null;
+      case 'PEXPIRE':
+        return 1;
+    }
+    throw new Error(`Unexpected command ${command}`);
+  });
+}
+
+describe('RedisKeyMetricsStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps usage, errors and blocks in one hash per key', async () => {
+    const redis = fakeRedis();
+    const store = new RedisKeyMetricsStore(redis);
+
+    // Pinned so the reads land in the same minute as the writes
+    const now = Date.UTC(2025, 0, 1, 12, 0, 30);
+    vi.useFakeTimers({ now });
+    await store.recordUse('abc', now);
+    await store.recordUse('abc', now);
+    expect(await store.recordError('abc')).toBe(1);
+    await store.block('abc', now + 5000);
+
+    const { abc, new: unused } = await store.getAll(['abc', 'new']);
+    expect(abc).toMatchObject({ usageCount: 2, lastUsed: now, blockUntil: now + 5000, errorCount: 1 });
+    expect(usageAt(abc, now)).toEqual({ thisMinute: 2, today: 2 });
+    expect(usageAt(unused, now)).toEqual({ thisMinute: 0, today: 0 });
+    expect(redis.transaction).toHaveBeenCalledTimes(2);
+    expect(redis.transaction).toHaveBeenCalledWith([
+      ['HINCRBY', 'gemini-keys:key:abc', 'usageCount', 1],
+      ['HSET', 'gemini-keys:key:abc', 'lastUsed', now],
+      ['INCR', `gemini-keys:minute:abc:${usageWindow('minute', now)}`],
+      ['PEXPIRE', `gemini-keys:minute:abc:${usageWindow('minute', now)}`, 120_000],
+      ['INCR', `gemini-keys:day:abc:${usageWindow('day', now)}`],
+      ['PEXPIRE', `gemini-keys:day:abc:${usageWindow('day', now)}`, 2 * 86_400_000]
+    ]);
+
+    await store.unblock('abc');
+    expect((await store.getAll(['abc'])).abc).toMatchObject({ blockUntil: 0, errorCount: 0 });
+  });
+
+  it('hands out a shared cursor starting at 0', async () => {
+    const store = new RedisKeyMetricsStore(fakeRedis());
+
+    expect([await store.nextIndex(), await store.nextIndex()]).toEqual([0, 1]);
+  });
+});
+
+describe('DocumentKeyMetricsStore', () => {
+  it('stores one JSON document per key', async () => {
+    const documents = new Map<string, string>();
+    const store = new DocumentKeyMetricsStore({
+      get: async key => documents.get(key),
+      put: async (key, value) => { documents.set(key, value); }
+    });
+
+    await store.recordUse('abc', 1000);
+    await store.recordError('abc');
+
+    expect(JSON.parse(documents.get('gemini-keys:abc')!)).toEqual({
+      ...emptyKeyMetrics(),
+      usageCount: 1,
+      lastUsed: 1000,
+      errorCount: 1,
+      minuteCount: 1,
+      dayCount: 1
+    });
+    expect([await store.nextIndex(), await store.nextIndex()]).toEqual([0, 1]);
+  });
+});
+
+describe('usage windows', () => {
+  it('start counting again in a new minute and a new UTC day', async () => {
+    const store = new InMemoryKeyMetricsStore();
+    const noon = Date.UTC(2025, 0, 1, 12, 0, 30);
+
+    await store.recordUse('abc', noon);
+    await store.recordUse('abc', noon + 10_000);
+    await store.recordUse('abc', noon + 40_000);
+    const { abc } = await store.getAll(['abc']);
+
+    expect(usageAt(abc, noon + 40_000)).toEqual({ thisMinute: 1, today: 3 });
+    expect(usageAt(abc, Date.UTC(2025, 0, 2))).toEqual({ thisMinute: 0, today: 0 });
+    expect(abc.usageCount).toBe(3);
+  });
+});
+
+describe('createRedisRestClient', () => {
+  it('posts the command and unwraps the result', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ result: 3 })));
+    const redis = createRedisRestClient({ url: 'https://redis.test', token: 'secret', fetch: fetchMock });
+
+    expect(await redis.command(['INCR', 'cursor'])).toBe(3);
+    expect(fetchMock).toHaveBeenCalledWith('https://redis.test', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: '["INCR","cursor"]'
+    });
+  });
+
+  it('rejects Redis errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'WRONGTYPE' }), { status: 400 }));
+    const redis = createRedisRestClient({ url: 'https://redis.test', token: 'secret', fetch: fetchMock });
+
+    await expect(redis.command(['INCR', 'cursor'])).rejects.toThrow('Redis INCR failed: WRONGTYPE');
+  });
+
+  it('sends a transaction in one request to /multi-exec', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify([{ result: 1 }, { result: 1 }])));
+    const redis = createRedisRestClient({ url: 'https://redis.test/', token: 'secret', fetch: fetchMock });
+
+    expect(await redis.transaction([['INCR', 'a'], ['PEXPIRE', 'a', 1000]])).toEqual([1, 1]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://redis.test/multi-exec', expect.objectContaining({
+      body: '[["INCR","a"],["PEXPIRE","a",1000]]'
+    }));
+  });
+
+  it('rejects a transaction when any of its commands failed', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify([{ result: 1 }, { error: 'WRONGTYPE' }])));
+    const redis = createRedisRestClient({ url: 'https://redis.test', token: 'secret', fetch: fetchMock });
+
+    await expect(redis.transaction([['INCR', 'a'], ['HSET', 'a', 'f', 1]]))
+      .rejects.toThrow('Redis HSET failed in MULTI/EXEC: WRONGTYPE');
+  });
+});
+
+describe('keyMetricsId', () => {
+  it('derives a stable id that does not contain the key', async () => {
+    const id = await keyMetricsId('AIzaSy-secret-key');
+
+    expect(id).toMatch(/^[0-9a-f]{16}$/);
+    expect(await keyMetricsId('AIzaSy-secret-key')).toBe(id);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encode as encodeJpeg } from 'jpeg-js';
+import {
+  analyzeLocally,
+  analyzeWithFallback,
+  blendAnalyses,
+  getAnalysisOptions
+} from '../src/analysis/localAnalyzer.js';
+import { decodeImage } from '../src/analysis/imageDecoder.js';
+import { renderPromptImage, parseScene, renderScene } from '../src/imageProviders/proceduralImage.js';
+import { bytesToBase64 } from '../src/encoding.js';
+import { ApiError } from '../src/types.js';
+
+const png = (prompt: string, seed: number = 0) => bytesToBase64(renderPromptImage(prompt, 128, 128, seed));
+
+const TARGET = png('a red circle on a blue background');
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('decodeImage', () => {
+  it('undoes Sub, Up, Average and Paeth row filters', async () => {
+    // 2x4 RGB image; row y is filtered with type y + 1
+    const pixels = [
+      [[10, 20, 30], [40, 50, 60]],
+      [[15, 25, 35], [45, 55, 65]],
+      [[200, 100, 0], [1, 2, 3]],
+      [[9, 8, 7], [250, 251, 252]]
+    ];
+    const filtered = [
+      1, 10, 20, 30, 30, 30, 30,            // Sub
+      2, 5, 5, 5, 5, 5, 5,                  // Up
+      3, 193, 88, 239, 135, 181, 227,       // Average
+      4, 65, 164, 7, 249, 249, 245          // Paeth
+    ];
+    const header = new Uint8Array(13);
+    new DataView(header.buffer).setUint32(0, 2);
+    new DataView(header.buffer).setUint32(4, 4);
+    header.set([8, 2, 0, 0, 0], 8);
+
+    const idat = await deflate(new Uint8Array(filtered));
+    const chunk = (type: string, data: Uint8Array) => {
+      const bytes = new Uint8Array(12 + data.length);
+      new DataView(bytes.buffer).setUint32(0, data.length);
+      bytes.set([...type].map(ch => ch.charCodeAt(0)), 4);
+      bytes.set(data, 8);
+      return [...bytes];
+    };
+    const file = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ...chunk('IHDR', header), ...chunk('IDAT', idat), ...chunk('IEND', new Uint8Array(0))
+    ]);
+
+    const raster = await decodeImage(bytesToBase64(file));
+
+    expect([raster.width, raster.height]).toEqual([2, 4]);
+    const rgb = [];
+    for (let i = 0; i < 8; i++) rgb.push([...raster.data.subarray(i * 4, i * 4 + 3)]);
+    expect(rgb).toEqual(pixels.flat());
+  });
+
+  it('decodes JPEG and rejects other formats', async () => {
+    const width = 16;
+    const height = 16;
+    const data = new Uint8Array(width * height * 4).fill(200);
+    const jpeg = encodeJpeg({ width, height, data }, 90).data;
+
+    const raster = await decodeImage(bytesToBase64(new Uint8Array(jpeg)));
+    expect([raster.width, raster.height]).toEqual([16, 16]);
+
+    await expect(decodeImage(btoa('GIF89a...'))).rejects.toMatchObject({ code: 'UNSUPPORTED_IMAGE', statusCode: 422 });
+  });
+});
+
+describe('analyzeLocally', () => {
+  it('gives identical images a perfect score', async () => {
+    const result = await analyzeLocally(TARGET, TARGET);
+
+    expect(result.similarityScore).toBe(100);
+    expect(result.detailedAnalysis).toEqual({ colorMatch: 100, shapeMatch: 100, compositionMatch: 100, overallQuality: 100 });
+    expect(result.analyzer).toBe('local');
+  });
+
+  it('ranks a close match above an unrelated image', async () => {
+    const close = await analyzeLocally(png('a red circle on a blue background', 3), TARGET);
+    const unrelated = await analyzeLocally(png('three green triangles on a yellow background'), TARGET);
+
+    expect(close.similarityScore).toBeGreaterThan(unrelated.similarityScore);
+    expect(close.detailedAnalysis!.colorMatch).toBeGreaterThan(unrelated.detailedAnalysis!.colorMatch!);
+    expect(unrelated.feedback).toHaveLength(3);
+  });
+
+  it('scores a JPEG copy of the target close to the original', async () => {
+    const pixels = renderScene(parseScene('a red circle on a blue background'), 128, 128);
+    const rgba = new Uint8Array(128 * 128 * 4);
+    for (let i = 0; i < 128 * 128; i++) {
+      rgba.set([pixels[i * 3], pixels[i * 3 + 1], pixels[i * 3 + 2], 255], i * 4);
+    }
+    const jpeg = encodeJpeg({ width: 128, height: 128, data: rgba }, 90).data;
+
+    const result = await analyzeLocally(bytesToBase64(new Uint8Array(jpeg)), TARGET);
+
+    expect(result.similarityScore).toBeGreaterThanOrEqual(85);
+  });
+});
+
+describe('analyzeWithFallback', () => {
+  const gemini = { similarityScore: 90, feedback: ['Arre wah!'] };
+
+  it('falls back to the local analyzer when Gemini keys are exhausted', async () => {
+    const analyzeWithGemini = vi.fn().mockRejectedValue(new ApiError('All keys exhausted', 503, 'ALL_KEYS_EXHAUSTED'));
+
+    const result = await analyzeWithFallback(getAnalysisOptions(), analyzeWithGemini, TARGET, TARGET);
+
+    expect(analyzeWithGemini).toHaveBeenCalledOnce();
+    expect(result).toMatchObject({ similarityScore: 100, analyzer: 'local' });
+  });
+
+  it('blends the Gemini and local scores', async () => {
+    const result = await analyzeWithFallback(
+      getAnalysisOptions({ ANALYSIS_MODE: 'blend', ANALYSIS_LOCAL_WEIGHT: '0.5' }),
+      async () => gemini,
+      TARGET,
+      TARGET
+    );
+
+    expect(result).toMatchObject({ similarityScore: 95, feedback: ['Arre wah!'], analyzer: 'blended' });
+    // Gemini gave no breakdown, so the local one is used as is
+    expect(result.detailedAnalysis?.colorMatch).toBe(100);
+  });
+
+  it('skips Gemini in local mode and keeps Gemini results in gemini mode', async () => {
+    const analyzeWithGemini = vi.fn().mockResolvedValue(gemini);
+
+    await analyzeWithFallback(getAnalysisOptions({ ANALYSIS_MODE: 'local' }), analyzeWithGemini, TARGET, TARGET);
+    expect(analyzeWithGemini).not.toHaveBeenCalled();
+
+    const result = await analyzeWithFallback(getAnalysisOptions(), analyzeWithGemini, TARGET, TARGET);
+    expect(result).toEqual({ ...gemini, analyzer: 'gemini' });
+  });
+
+  it('rethrows the Gemini error when local analysis cannot run either', async () => {
+    const exhausted = new ApiError('All keys exhausted', 503, 'ALL_KEYS_EXHAUSTED');
+
+    await expect(analyzeWithFallback(getAnalysisOptions(), () => Promise.reject(exhausted), btoa('not an image'), TARGET))
+      .rejects.toBe(exhausted);
+  });
+});
+
+describe('getAnalysisOptions', () => {
+  it('defaults to Gemini with a 0.3 local weight and rejects bad values', () => {
+    expect(getAnalysisOptions()).toEqual({ mode: 'gemini', localWeight: 0.3 });
+    expect(() => getAnalysisOptions({ ANALYSIS_MODE: 'magic' })).toThrow('ANALYSIS_MODE');
+    expect(() => getAnalysisOptions({ ANALYSIS_LOCAL_WEIGHT: '2' })).toThrow('ANALYSIS_LOCAL_WEIGHT');
+  });
+});
+
+describe('blendAnalyses', () => {
+  it('weights the local scores by localWeight, overall and per dimension', () => {
+    const blended = blendAnalyses(
+      { similarityScore: 80, feedback: ['llm'], detailedAnalysis: { colorMatch: 100, shapeMatch: 60 } },
+      { similarityScore: 40, feedback: ['local'], detailedAnalysis: { colorMatch: 40, compositionMatch: 20 } },
+      0.25
+    );
+
+    expect(blended).toEqual({
+      similarityScore: 70,
+      feedback: ['llm'],
+      detailedAnalysis: { colorMatch: 85, shapeMatch: 60, compositionMatch: 20 },
+      analyzer: 'blended'
+    });
+  });
+});
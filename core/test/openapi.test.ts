@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiDocument } from '../src/schemas/openapi.js';
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument();
+
+  it('describes every route with OpenAPI paths', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.paths['/api/users/{uid}/role'].patch).toMatchObject({
+      operationId: 'setUserRole',
+      tags: ['users'],
+      parameters: [{ name: 'uid', in: 'path', required: true }],
+      security: [{ firebaseAuth: [] }]
+    });
+    expect(Object.keys(document.paths['/api/users/profile'])).toEqual(['get', 'post', 'patch', 'delete']);
+  });
+
+  it('documents query parameters and JSON timestamps', () => {
+    const getAttempts = document.paths['/api/users/attempts'].get;
+
+    expect(getAttempts.parameters).toContainEqual(expect.objectContaining({
+      name: 'limit', in: 'query', required: false, schema: expect.objectContaining({ maximum: 100, default: 20 })
+    }));
+    expect(getAttempts.responses['200'].content['application/json'].schema.properties.data
+      .properties.attempts.items.properties.createdAt).toMatchObject({ type: 'string', format: 'date-time' });
+  });
+
+  it('documents uploads, binary bodies and errors', () => {
+    expect(document.paths['/api/challenges'].post.requestBody.content['multipart/form-data'].schema.properties.image)
+      .toEqual({ type: 'string', format: 'binary' });
+    expect(document.paths['/api/images/{id}'].get.responses['200'].content).toHaveProperty('image/*');
+    expect(document.paths['/api/users/progress'].post.responses).toEqual({
+      default: expect.objectContaining({ description: 'Error' })
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildLocalFeedback, buildSystemPrompt } from '../src/analysis/persona.js';
+import { scoreLocalMetrics } from '../src/analysis/localAnalyzer.js';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID } from '../src/config/personas.js';
+import { FeedbackPersona } from '../src/types.js';
+
+const persona = (id: string): FeedbackPersona => BUILT_IN_PERSONAS.find(p => p.id === id)!;
+
+describe('buildSystemPrompt', () => {
+  it('writes the tone, language and verbosity of the persona into the prompt', () => {
+    const prompt = buildSystemPrompt({
+      id: 'gentle-mentor',
+      name: 'Gentle Mentor',
+      tone: 'neutral',
+      language: 'Spanish',
+      verbosity: 'brief',
+      instructions: 'Start every suggestion with praise',
+      builtIn: false
+    }, 'Asha');
+
+    expect(prompt).toContain('A student named Asha');
+    expect(prompt).toContain('Write every feedback suggestion in Spanish');
+    expect(prompt).toContain('without jokes or sarcasm');
+    expect(prompt).toContain('Give 1-2 suggestions');
+    expect(prompt).toContain('- Start every suggestion with praise');
+  });
+
+  it('only uses playful rules for playful personas', () => {
+    expect(buildSystemPrompt(persona(DEFAULT_PERSONA_ID), 'Asha')).toContain('quirky');
+    expect(buildSystemPrompt(persona('formal-reviewer'), 'Asha')).not.toContain('quirky');
+  });
+});
+
+describe('canned feedback', () => {
+  const HINGLISH = /\b(arre|yaar|boss|bhai|dekho|ekdum)\b/i;
+  const metrics = { perceptualHash: 0.2, colorHistogram: 0.3, structuralSimilarity: 0.4, edges: 0.1 };
+
+  const cannedFeedback = (persona?: FeedbackPersona) => scoreLocalMetrics(metrics, persona).feedback;
+
+  it('never gives Hinglish to a persona that does not ask for it', () => {
+    const spanish: FeedbackPersona = { ...persona('friendly-coach'), id: 'spanish', language: 'Spanish' };
+
+    for (const other of [...BUILT_IN_PERSONAS.filter(p => p.id !== DEFAULT_PERSONA_ID), spanish, undefined]) {
+      for (const line of cannedFeedback(other)) {
+        expect(line, other?.id).not.toMatch(HINGLISH);
+      }
+    }
+    expect(cannedFeedback(persona(DEFAULT_PERSONA_ID)).join(' ')).toMatch(HINGLISH);
+  });
+
+  it('follows the tone and verbosity of the persona', () => {
+    const weakest = ['colorMatch', 'shapeMatch', 'compositionMatch'] as const;
+
+    expect(buildLocalFeedback(persona('quick-tips'), 30, [...weakest])).toHaveLength(2);
+    expect(buildLocalFeedback(persona('formal-reviewer'), 30, [...weakest])).toHaveLength(4);
+    expect(buildLocalFeedback(persona('formal-reviewer'), 90, [...weakest]).join(' ')).not.toMatch(/[😅🎯🎨🤔📐]/u);
+    expect(buildLocalFeedback(undefined, 90, [...weakest])[0]).toBe('Very close to the target. Only small details differ.');
+  });
+});
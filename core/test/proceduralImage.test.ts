@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { encodePng, parseScene, renderPromptImage, renderScene } from '../src/imageProviders/proceduralImage.js';
+import { LocalProceduralProvider } from '../src/imageProviders/localProceduralProvider.js';
+
+async function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Pull the IHDR size and the unfiltered RGB pixels back out of a PNG
+async function decodePng(png: Uint8Array) {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  const idatLength = view.getUint32(33);
+  const scanlines = await inflate(png.slice(41, 41 + idatLength));
+
+  const stride = width * 3;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    expect(scanlines[y * (stride + 1)]).toBe(0);
+    pixels.set(scanlines.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)), y * stride);
+  }
+  return { width, height, pixels };
+}
+
+describe('parseScene', () => {
+  it('reads counts, colors, shapes and the background', () => {
+    const scene = parseScene('Three red circles and a blue square on a yellow background');
+
+    expect(scene.background).toEqual([245, 215, 40]);
+    expect(scene.shapes.map(shape => [shape.kind, shape.color])).toEqual([
+      ['circle', [220, 40, 40]],
+      ['circle', [220, 40, 40]],
+      ['circle', [220, 40, 40]],
+      ['square', [40, 90, 210]]
+    ]);
+  });
+
+  it('uses scenery words for the background and always draws something', () => {
+    const scene = parseScene('a quiet night');
+
+    expect(scene.background).toEqual([20, 24, 60]);
+    expect(scene.shapes).toHaveLength(1);
+  });
+
+  it('is deterministic for a prompt and seed', () => {
+    expect(parseScene('two green triangles', 4)).toEqual(parseScene('  Two green TRIANGLES', 4));
+    expect(parseScene('two green triangles', 4)).not.toEqual(parseScene('two green triangles', 5));
+  });
+});
+
+describe('encodePng', () => {
+  it('produces a valid PNG whose pixels round-trip', async () => {
+    const scene = parseScene('a pink circle on a black background', 1);
+    const pixels = renderScene(scene, 64, 48);
+
+    const decoded = await decodePng(encodePng(64, 48, pixels));
+
+    expect(decoded.width).toBe(64);
+    expect(decoded.height).toBe(48);
+    expect(decoded.pixels).toEqual(pixels);
+    expect([...pixels.subarray(0, 3)]).toEqual([20, 20, 20]);
+  });
+});
+
+describe('LocalProceduralProvider', () => {
+  it('returns the same PNG for the same prompt, seed and size', async () => {
+    const provider = new LocalProceduralProvider();
+
+    const first = await provider.generate('an orange house by the sea', { seed: 9 });
+    const second = await provider.generate('an orange house by the sea', { seed: 9, size: { width: 256, height: 256 } });
+
+    expect(first).toEqual(second);
+    expect(first.imageBase64.startsWith('iVBORw0KGgo')).toBe(true);
+    expect(provider.capabilities).toEqual({ seed: true, network: false, apiKey: false });
+  });
+
+  it('matches the renderer byte for byte', async () => {
+    const provider = new LocalProceduralProvider();
+    const { imageBase64 } = await provider.generate('three blue dots', { size: { width: 512, height: 512 } });
+    const expected = renderPromptImage('three blue dots', 512, 512);
+
+    expect(Uint8Array.from(atob(imageBase64), ch => ch.charCodeAt(0))).toEqual(expected);
+  });
+});
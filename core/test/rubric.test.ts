@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAnalysisSchema,
+  buildRubricPrompt,
+  normalizeRubric,
+  parseRubricEvaluation,
+  scoreRubricEvaluation
+} from '../src/analysis/rubric.js';
+import { DEFAULT_CHALLENGES } from '../src/config/challenges.js';
+import { ChallengeRubric } from '../src/types.js';
+
+const RUBRIC: ChallengeRubric = {
+  requiredElements: ['A red circle'],
+  criteria: [
+    { id: 'color', description: 'Color matches', weight: 3 },
+    { id: 'shape', description: 'Shape matches', weight: 1 }
+  ],
+  penalties: [{ description: 'Extra objects', points: 20 }]
+};
+
+describe('normalizeRubric', () => {
+  it('turns a legacy list of rules into equally weighted criteria', () => {
+    expect(normalizeRubric(['Use red', 'Keep it centered'])).toEqual({
+      requiredElements: [],
+      criteria: [
+        { id: 'rule-1', description: 'Use red', weight: 1 },
+        { id: 'rule-2', description: 'Keep it centered', weight: 1 }
+      ],
+      penalties: []
+    });
+  });
+
+  it('fills in default ids and weights', () => {
+    const rubric = normalizeRubric({ criteria: [{ description: ' Color matches ' }] });
+
+    expect(rubric.criteria).toEqual([{ id: 'criterion-1', description: 'Color matches', weight: 1 }]);
+    expect(normalizeRubric(undefined)).toEqual({ requiredElements: [], criteria: [], penalties: [] });
+  });
+
+  it('rejects malformed rubrics', () => {
+    const invalid = [
+      { criteria: [{ id: 'a', description: 'x' }, { id: 'a', description: 'y' }] },
+      { criteria: [{ id: 'Bad Id', description: 'x' }] },
+      { criteria: [{ description: 'x', weight: 0 }] },
+      { penalties: [{ description: 'x', points: 150 }] },
+      { requiredElements: 'a red circle' },
+      'not a rubric'
+    ];
+
+    for (const rubric of invalid) {
+      expect(() => normalizeRubric(rubric)).toThrow(expect.objectContaining({ code: 'INVALID_RUBRIC', statusCode: 400 }));
+    }
+  });
+
+  it('accepts every bundled challenge rubric', () => {
+    for (const challenge of DEFAULT_CHALLENGES) {
+      expect(normalizeRubric(challenge.rubric)).toEqual(challenge.rubric);
+    }
+  });
+});
+
+describe('buildRubricPrompt and buildAnalysisSchema', () => {
+  it('list the rubric in the prompt with normalized weights', () => {
+    const prompt = buildRubricPrompt(RUBRIC);
+
+    expect(prompt).toContain('A red circle');
+    expect(prompt).toContain('[color] Color matches (weight 75%)');
+    expect(prompt).toContain('Extra objects (-20)');
+  });
+
+  it('only asks for a rubric section when the challenge has one', () => {
+    const schema = buildAnalysisSchema(RUBRIC);
+    const rubric = schema.properties!.rubric.properties!;
+
+    expect(schema.required).toContain('rubric');
+    expect(rubric.criteria.items!.properties!.id.enum).toEqual(['color', 'shape']);
+    expect(rubric.appliedPenalties.items!.enum).toEqual(['Extra objects']);
+    expect(buildAnalysisSchema(normalizeRubric(undefined)).properties!.rubric).toBeUndefined();
+  });
+});
+
+describe('parseRubricEvaluation', () => {
+  it('keeps known entries and clamps scores', () => {
+    const evaluation = parseRubricEvaluation({
+      criteria: [{ id: 'color', score: 130 }, { id: 'made-up', score: 10 }],
+      missingElements: ['A red circle', 'A unicorn'],
+      appliedPenalties: ['Extra objects']
+    }, RUBRIC, 55);
+
+    expect(evaluation).toEqual({
+      criteria: [
+        { id: 'color', description: 'Color matches', weight: 3, score: 100 },
+        { id: 'shape', description: 'Shape matches', weight: 1, score: 55 }
+      ],
+      missingElements: ['A red circle'],
+      appliedPenalties: [{ description: 'Extra objects', points: 20 }]
+    });
+  });
+
+  it('returns nothing for challenges without a rubric', () => {
+    expect(parseRubricEvaluation({ criteria: [] }, normalizeRubric(undefined), 70)).toBeUndefined();
+  });
+});
+
+describe('scoreRubricEvaluation', () => {
+  const evaluate = (raw: unknown, rubric: ChallengeRubric = RUBRIC) => parseRubricEvaluation(raw, rubric, 95);
+
+  it('scores the weighted criteria minus the applied penalties, whatever Gemini reported', () => {
+    const criteria = [{ id: 'color', score: 80 }, { id: 'shape', score: 40 }];
+
+    expect(scoreRubricEvaluation(95, evaluate({ criteria }))).toBe(70);
+    expect(scoreRubricEvaluation(95, evaluate({ criteria, appliedPenalties: ['Extra objects'] }))).toBe(50);
+    expect(scoreRubricEvaluation(95, evaluate({ criteria: [{ id: 'color', score: 10 }, { id: 'shape', score: 10 }], appliedPenalties: ['Extra objects'] }))).toBe(0);
+  });
+
+  it('caps the score when a required element is missing', () => {
+    const criteria = [{ id: 'color', score: 100 }, { id: 'shape', score: 100 }];
+
+    expect(scoreRubricEvaluation(95, evaluate({ criteria, missingElements: ['A red circle'] }))).toBe(40);
+    expect(scoreRubricEvaluation(95, evaluate({ criteria: [{ id: 'color', score: 30 }, { id: 'shape', score: 30 }], missingElements: ['A red circle'] }))).toBe(30);
+  });
+
+  it('falls back to the reported score without criteria or a rubric', () => {
+    const penaltiesOnly: ChallengeRubric = { requiredElements: [], criteria: [], penalties: RUBRIC.penalties };
+
+    expect(scoreRubricEvaluation(95, evaluate({ appliedPenalties: ['Extra objects'] }, penaltiesOnly))).toBe(75);
+    expect(scoreRubricEvaluation(90, undefined)).toBe(90);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { API_ROUTES } from '../src/schemas/routes.js';
+import { imageGenerationRequestSchema } from '../src/schemas/requests.js';
+import { challengeSchema } from '../src/schemas/models.js';
+import { checkRouteResponse, parseRequest } from '../src/schemas/validation.js';
+
+describe('parseRequest', () => {
+  it('lists every failing field with its code', () => {
+    expect(() => parseRequest(imageGenerationRequestSchema, { prompt: '  ', size: { width: 'big' }, seed: 1.5 }))
+      .toThrow(expect.objectContaining({
+        statusCode: 400,
+        code: 'EMPTY_PROMPT',
+        fields: [
+          { field: 'prompt', code: 'EMPTY_PROMPT', message: 'Prompt cannot be empty' },
+          { field: 'size.width', code: 'INVALID_SIZE', message: expect.any(String) },
+          { field: 'size.height', code: 'INVALID_SIZE', message: expect.any(String) },
+          { field: 'seed', code: 'INVALID_SEED', message: 'Seed must be an integer' }
+        ]
+      }));
+  });
+
+  it('treats a missing body as empty', () => {
+    expect(() => parseRequest(imageGenerationRequestSchema, undefined))
+      .toThrow(expect.objectContaining({ code: 'INVALID_PROMPT' }));
+  });
+});
+
+describe('challengeSchema', () => {
+  it('decodes ISO timestamps into dates', () => {
+    const challenge = challengeSchema.parse({
+      id: 1, name: 'Sunset', imageUrl: '/sunset.jpg', description: 'Orange sky', createdAt: '2025-01-02T03:04:05.000Z'
+    });
+
+    expect(challenge.createdAt).toEqual(new Date('2025-01-02T03:04:05.000Z'));
+  });
+});
+
+describe('checkRouteResponse', () => {
+  const timestamp = new Date().toISOString();
+
+  it('checks success bodies against the route schema', () => {
+    const body = { success: true, data: { providers: [], defaultProvider: 'local-procedural' }, timestamp };
+
+    expect(checkRouteResponse(API_ROUTES.getImageProviders, 200, body)).toBeNull();
+    expect(checkRouteResponse(API_ROUTES.getImageProviders, 200, { ...body, data: { providers: [] } }))
+      .toEqual(['data.defaultProvider: Invalid input: expected string, received undefined']);
+  });
+
+  it('checks error bodies against the error envelope', () => {
+    const error = { success: false, code: 'NOT_FOUND', message: 'Nope', error: 'Nope', requestId: 'req-1', timestamp };
+
+    expect(checkRouteResponse(API_ROUTES.getImageProviders, 404, error)).toBeNull();
+    expect(checkRouteResponse(API_ROUTES.getImageProviders, 404, { ...error, code: 'NOPE' })).toHaveLength(1);
+    expect(checkRouteResponse(API_ROUTES.getImageProviders, 500, { error: 'Nope' })).toHaveLength(5);
+  });
+
+  it('skips routes that send bytes', () => {
+    expect(checkRouteResponse(API_ROUTES.getGeneratedImage, 200, 'PNG')).toBeNull();
+  });
+});
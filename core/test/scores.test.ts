@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { clampScore, parseDetailedAnalysis } from '../src/analysis/scores.js';
+
+describe('clampScore', () => {
+  it('rounds and clamps numbers and numeric strings to 0-100', () => {
+    expect(clampScore(72.6)).toBe(73);
+    expect(clampScore(140)).toBe(100);
+    expect(clampScore(-5)).toBe(0);
+    expect(clampScore('55')).toBe(55);
+  });
+
+  it('returns null for anything that is not a number', () => {
+    expect(clampScore(undefined)).toBeNull();
+    expect(clampScore('high')).toBeNull();
+    expect(clampScore(NaN)).toBeNull();
+    expect(clampScore({})).toBeNull();
+    expect(clampScore('')).toBeNull();
+  });
+});
+
+describe('parseDetailedAnalysis', () => {
+  it('keeps valid sub-scores and fills the rest from the overall score', () => {
+    expect(parseDetailedAnalysis({ colorMatch: 91.2, shapeMatch: 'bad', compositionMatch: 300 }, 64)).toEqual({
+      colorMatch: 91,
+      shapeMatch: 64,
+      compositionMatch: 100,
+      overallQuality: 64
+    });
+  });
+
+  it('falls back entirely when the breakdown is missing', () => {
+    expect(parseDetailedAnalysis(undefined, 40)).toEqual({
+      colorMatch: 40, shapeMatch: 40, compositionMatch: 40, overallQuality: 40
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { applyAttempt, applyStats, isChallengeLocked } from '../src/scoring.js';
+import type { Challenge, ChallengeProgress } from '../src/types.js';
+
+const NOW = new Date(Date.UTC(2025, 0, 1));
+
+function challenge(id: number, passThreshold?: number): Challenge {
+  return { id, name: `Challenge ${id}`, description: '', imageUrl: '', order: id, passThreshold };
+}
+
+const path = [challenge(1), challenge(2), challenge(3, 90)];
+
+function progressFor(overrides: Partial<ChallengeProgress> = {}): ChallengeProgress {
+  return {
+    status: 'UNLOCKED',
+    attempts: 0,
+    streak: 0,
+    previousSimilarityScore: 0,
+    ...overrides
+  };
+}
+
+describe('isChallengeLocked', () => {
+  const catalog = [{ id: 1 }, { id: 4 }, { id: 2 }];
+
+  it('opens the first challenge and the one after a completed challenge', () => {
+    expect(isChallengeLocked({}, catalog, 1)).toBe(false);
+    expect(isChallengeLocked({}, catalog, 4)).toBe(true);
+    expect(isChallengeLocked({ 1: { status: 'COMPLETED' } }, catalog, 4)).toBe(false);
+    expect(isChallengeLocked({ 1: { status: 'UNLOCKED' } }, catalog, 4)).toBe(true);
+  });
+
+  it('follows the stored status when there is one', () => {
+    expect(isChallengeLocked({ 2: { status: 'UNLOCKED' } }, catalog, 2)).toBe(false);
+    expect(isChallengeLocked({ 1: { status: 'COMPLETED' }, 4: { status: 'LOCKED' } }, catalog, 4)).toBe(true);
+  });
+});
+
+describe('applyAttempt', () => {
+  it('completes the challenge and unlocks the next one on a pass', () => {
+    const outcome = applyAttempt({ 1: progressFor() }, path, path[0], 85, NOW);
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.justCompleted).toBe(true);
+    expect(outcome.progress[1]).toMatchObject({
+      status: 'COMPLETED',
+      attempts: 1,
+      bestScore: 85,
+      previousSimilarityScore: 85,
+      completedAt: NOW
+    });
+    expect(outcome.progress[2].status).toBe('UNLOCKED');
+  });
+
+  it("uses the challenge's own pass threshold", () => {
+    const outcome = applyAttempt({}, path, path[2], 85, NOW);
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.progress[3].status).toBe('UNLOCKED');
+  });
+
+  it('grows the streak on improvement and costs two on regression', () => {
+    const improved = applyAttempt({ 1: progressFor({ streak: 3, previousSimilarityScore: 40 }) }, path, path[0], 50, NOW);
+    expect(improved.streakChange).toBe('increase');
+    expect(improved.streak).toBe(4);
+
+    const regressed = applyAttempt({ 1: progressFor({ streak: 3, previousSimilarityScore: 60 }) }, path, path[0], 50, NOW);
+    expect(regressed.streakChange).toBe('decrease');
+    expect(regressed.streak).toBe(1);
+  });
+
+  it('does not count a repeat pass as a new completion', () => {
+    const completedAt = new Date(Date.UTC(2024, 11, 1));
+    const outcome = applyAttempt(
+      { 1: progressFor({ status: 'COMPLETED', previousSimilarityScore: 90, completedAt }) },
+      path,
+      path[0],
+      95,
+      NOW
+    );
+
+    expect(outcome.justCompleted).toBe(false);
+    expect(outcome.progress[1].completedAt).toBe(completedAt);
+  });
+
+  it('leaves out unknown optional fields, which Firestore would reject as undefined', () => {
+    const outcome = applyAttempt({}, path, path[0], 40, NOW);
+
+    expect(outcome.progress[1]).not.toHaveProperty('completedAt');
+    expect(outcome.progress).not.toHaveProperty('2');
+  });
+});
+
+describe('applyStats', () => {
+  it('only adds score and completions on first completion', () => {
+    const first = applyAttempt({}, path, path[0], 80, NOW);
+    const stats = applyStats('user-1', null, first, 80, NOW);
+
+    expect(stats).toEqual({
+      userId: 'user-1',
+      totalChallengesCompleted: 1,
+      totalScore: 80,
+      currentStreak: 1,
+      maxStreak: 1,
+      averageScore: 80,
+      lastChallengeAt: NOW,
+      updatedAt: NOW
+    });
+
+    const repeat = applyAttempt(first.progress, path, path[0], 100, NOW);
+    const after = applyStats('user-1', stats, repeat, 100, NOW);
+
+    expect(after.totalChallengesCompleted).toBe(1);
+    expect(after.totalScore).toBe(80);
+    expect(after.averageScore).toBe(80);
+    expect(after.currentStreak).toBe(2);
+  });
+
+  it('keeps the longest streak once the current one drops', () => {
+    const stats = applyStats('user-1', null, applyAttempt({}, path, path[0], 50, NOW), 50, NOW);
+    const regressed = applyAttempt({ 1: progressFor({ streak: 1, previousSimilarityScore: 50 }) }, path, path[0], 20, NOW);
+
+    expect(applyStats('user-1', { ...stats, maxStreak: 4 }, regressed, 20, NOW)).toMatchObject({
+      currentStreak: 0,
+      maxStreak: 4,
+      totalChallengesCompleted: 0,
+      averageScore: 0
+    });
+  });
+});
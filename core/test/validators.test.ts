@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateAnalysisRequest,
+  validateAttemptQuery,
+  validateChallengeInput,
+  validateImageRequest,
+  validateLeaderboardQuery,
+  validatePersonaInput,
+  validateProfileUpdate
+} from '../src/validators.js';
+
+describe('validateImageRequest', () => {
+  it('trims the prompt and leaves the service to the registry default', () => {
+    expect(validateImageRequest({ prompt: '  a red circle ' })).toEqual({ prompt: 'a red circle' });
+  });
+
+  it('maps legacy provider names to provider ids', () => {
+    expect(validateImageRequest({ prompt: 'cat', provider: 'gemini' }).service).toBe('gemini-imagen-3');
+    expect(validateImageRequest({ prompt: 'cat', provider: 'gemini', service: 'local-procedural' }).service)
+      .toBe('local-procedural');
+  });
+
+  it('rejects bad prompts, sizes and seeds', () => {
+    expect(() => validateImageRequest({})).toThrow(expect.objectContaining({ code: 'INVALID_PROMPT' }));
+    expect(() => validateImageRequest({ prompt: '   ' })).toThrow(expect.objectContaining({ code: 'EMPTY_PROMPT' }));
+    expect(() => validateImageRequest({ prompt: 'x'.repeat(2001) })).toThrow(expect.objectContaining({ code: 'PROMPT_TOO_LONG' }));
+    expect(() => validateImageRequest({ prompt: 'cat', size: { width: 'big' } })).toThrow(expect.objectContaining({ code: 'INVALID_SIZE' }));
+    expect(() => validateImageRequest({ prompt: 'cat', seed: 1.5 })).toThrow(expect.objectContaining({ code: 'INVALID_SEED' }));
+  });
+});
+
+describe('validateAnalysisRequest', () => {
+  const body = { challengeId: '3', generatedImageId: 'img-1', userPrompt: 'cat' };
+
+  it('accepts a challenge id from legacy challenge objects', () => {
+    const { challengeId, ...rest } = body;
+    expect(validateAnalysisRequest({ ...rest, challenge: { id: 3 } }).challengeId).toBe(3);
+  });
+
+  it('scores stored images only, dropping images the client sends inline', () => {
+    expect(validateAnalysisRequest({ ...body, generatedImageBase64: 'BBBB', targetImageBase64: 'AAAA' })).toEqual({
+      challengeId: 3, generatedImageId: 'img-1', userPrompt: 'cat'
+    });
+    expect(() => validateAnalysisRequest({ ...body, generatedImageId: undefined, generatedImageBase64: 'BBBB' }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_GENERATED_IMAGE' }));
+  });
+
+  it('rejects missing fields with their codes', () => {
+    expect(() => validateAnalysisRequest({ ...body, challengeId: 'x' })).toThrow(expect.objectContaining({ code: 'INVALID_CHALLENGE_ID' }));
+    expect(() => validateAnalysisRequest({ ...body, generatedImageId: '' })).toThrow(expect.objectContaining({ code: 'INVALID_GENERATED_IMAGE' }));
+    expect(() => validateAnalysisRequest({ ...body, userPrompt: '' })).toThrow(expect.objectContaining({ code: 'MISSING_USER_PROMPT' }));
+  });
+});
+
+describe('validateChallengeInput', () => {
+  it('parses multipart strings and one-rule-per-line rubrics', () => {
+    const input = validateChallengeInput({
+      name: ' Sunset ', description: 'Orange sky', order: '2', passThreshold: '75', rubric: 'Orange sky\n\nSun on the horizon'
+    }, false);
+
+    expect(input).toMatchObject({ name: 'Sunset', order: 2, passThreshold: 75 });
+    expect(input.rubric?.criteria.map(criterion => criterion.id)).toEqual(['rule-1', 'rule-2']);
+  });
+
+  it('only requires name and description when creating', () => {
+    expect(validateChallengeInput({ order: 4 }, true)).toEqual({ order: 4 });
+    expect(() => validateChallengeInput({ order: 4 }, false)).toThrow(expect.objectContaining({ code: 'INVALID_NAME' }));
+  });
+});
+
+describe('validatePersonaInput', () => {
+  it('defaults the verbosity and trims the fields', () => {
+    expect(validatePersonaInput({ name: ' Mentor ', tone: 'neutral', language: ' Tamil ' })).toEqual({
+      name: 'Mentor', tone: 'neutral', language: 'Tamil', verbosity: 'standard'
+    });
+  });
+
+  it('rejects unknown tones and verbosities', () => {
+    expect(() => validatePersonaInput({ name: 'M', tone: 'grumpy', language: 'English' }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_TONE' }));
+    expect(() => validatePersonaInput({ name: 'M', tone: 'formal', language: 'English', verbosity: 'epic' }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_VERBOSITY' }));
+  });
+});
+
+describe('validateProfileUpdate', () => {
+  it('rejects fields clients may not change', () => {
+    expect(validateProfileUpdate({ displayName: 'Asha' })).toEqual({ displayName: 'Asha' });
+    expect(() => validateProfileUpdate({ displayName: 'Asha', role: 'admin' }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_FIELDS', message: 'Invalid fields: role' }));
+  });
+});
+
+describe('query validators', () => {
+  it('coerces query strings and applies the default page sizes', () => {
+    expect(validateAttemptQuery({ challengeId: '2', cursor: '' })).toEqual({ challengeId: 2, limit: 20 });
+    expect(validateLeaderboardQuery({})).toBe(10);
+    expect(validateLeaderboardQuery({ limit: '5' })).toBe(5);
+  });
+
+  it('rejects out-of-range limits', () => {
+    expect(() => validateAttemptQuery({ limit: '0' })).toThrow(expect.objectContaining({ code: 'INVALID_LIMIT' }));
+    expect(() => validateLeaderboardQuery({ limit: 'many' })).toThrow(expect.objectContaining({ code: 'INVALID_LIMIT' }));
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Express app with its middleware and routes. server.ts starts it;
+ * the contract tests mount it directly.
+ */
+
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import { ApiError, buildOpenApiDocument, configureLogger, OPENAPI_PATH, resolveLogLevel } from '@prompt-tool/core';
+import { errorHandler, sendError } from './middleware/errorHandler';
+import { requestId, REQUEST_ID_HEADER } from './middleware/requestId';
+import { requestLogger } from './middleware/requestLogger';
+import { corsOrigins } from './config/origins';
+import imageRoutes from './routes/imageRoutes';
+import analysisRoutes from './routes/analysisRoutes';
+import userRoutes from './routes/userRoutes';
+import statusRoutes from './routes/statusRoutes';
+import { getPrometheusMetrics } from './controllers/statusController';
+import challengeRoutes from './routes/challengeRoutes';
+import personaRoutes from './routes/personaRoutes';
+import { HealthResponse } from './types';
+
+// Initialize Firebase Admin SDK
+import './config/firebase.js';
+
+// LOG_LEVEL, or the default for NODE_ENV
+configureLogger({ level: resolveLogLevel(process.env) });
+
+const app = express();
+
+// Request ids, first so every response and log line carries one
+app.use(requestId);
+
+// Security middleware
+app.use(helmet({
+  crossOriginResourcePolicy: { policy: "cross-origin" },
+  contentSecurityPolicy: false // Allow inline scripts for development
+}));
+
+// CORS configuration
+app.use(cors({
+  origin: corsOrigins,
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposedHeaders: [REQUEST_ID_HEADER, 'Retry-After']
+}));
+
+// Compression middleware
+app.use(compression());
+
+// Request parsing middleware
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+// Prometheus scrapes, ahead of the request logger so they don't flood the logs
+app.get('/metrics', getPrometheusMetrics);
+
+// Request logging middleware
+app.use(requestLogger);
+
+// Health check endpoint
+app.get('/health', (req, res) => {
+  const response: HealthResponse = {
+    status: 'OK', 
+    timestamp: new Date().toISOString(),
+    service: 'Prompt Tool Server',
+    version: '1.0.0'
+  };
+  res.status(200).json(response);
+});
+
+// OpenAPI description of the API routes, built from their schemas
+const openApiDocument = buildOpenApiDocument();
+app.get(OPENAPI_PATH, (req, res) => {
+  res.json(openApiDocument);
+});
+
+// API routes
+app.use('/api/images', imageRoutes);
+app.use('/api/analysis', analysisRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/status', statusRoutes);
+app.use('/api/challenges', challengeRoutes);
+app.use('/api/personas', personaRoutes);
+
+// 404 handler
+app.use('*', (req, res) => {
+  const error = new ApiError(`Cannot ${req.method} ${req.originalUrl}`, 404, 'ROUTE_NOT_FOUND', {
+    details: { method: req.method, path: req.originalUrl }
+  });
+  sendError(req, res, error, 'Route not found');
+});
+
+// Error handling middleware
+app.use(errorHandler);
+
+export { corsOrigins };
+export default app;
@@ -0,0 +1,5 @@
+/**
+ * 🌐 Frontend Origins
+ * Allowed by CORS, and the only hosts challenge images are fetched from
+ */
+export const corsOrigins = process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : ['http://localhost:5173'];
@@ -1,264 +1,93 @@
 import { Request, Response } from 'express';
-import { GoogleGenAI, Type } from '@google/genai';
-import { AnalysisRequest, AnalysisResponse, ApiError, AnalysisResult, User, Challenge } from '../types/index.js';
-import { getGeminiKeyManager } from '../services/geminiKeyManager.js';
+import { logger, validateAnalysisRequest } from '@prompt-tool/core';
+import { AnalysisResponse, ApiError, User } from '../types/index.js';
+import { analyzeImages } from '../services/analysisService.js';
+import { ChallengeService } from '../services/challengeService.js';
+import { PersonaService } from '../services/personaService.js';
+import { ScoringService } from '../services/scoringService.js';
+import { loadGeneratedImageBase64 } from '../services/imageStorage.js';
+import { sendError } from '../middleware/errorHandler.js';
+import { analysisScore } from '../services/metricsService.js';
 
 /**
- * Google Gemini AI instance cache
+ * Analyze image comparison between generated and target images, then record
+ * the attempt. This is the only place scores enter progress and stats.
  */
-const aiInstances: Map<string, GoogleGenAI> = new Map();
-
-/**
- * 🔑 Get or create Gemini AI client for specific API key
- */
-const getGeminiClient = (apiKey: string): GoogleGenAI => {
-  if (!aiInstances.has(apiKey)) {
-    aiInstances.set(apiKey, new GoogleGenAI({ apiKey }));
-  }
-  return aiInstances.get(apiKey)!;
-};
-
-/**
- * Analyze images using Gemini AI with intelligent key rotation
- */
-const analyzeImages = async (
-  user: User,
-  challenge: Challenge,
-  generatedImageBase64: string,
-  userPrompt: string,
-  targetImageBase64: string
-): Promise<AnalysisResult> => {
-  const getUserName = (email: string): string => {
-    const namePart = email.split('@')[0];
-    return namePart.split('.')[0].charAt(0).toUpperCase() + namePart.split('.')[0].slice(1);
-  };
-  
-  const userName = getUserName(user.email);
-
-  const systemPrompt = `You are an expert image analysis AI for a prompt engineering learning tool. Your feedback should be quirky, fun, and slightly sarcastic in simple Indian English mixed with Hindi words. Keep technical terms in pure English but make the tone entertaining and memorable.
-  
-  A student named ${userName} is trying to generate an image to match a challenge requirement.
-  
-  IMPORTANT ANALYSIS RULES:
-  1. Check if the generated image matches the SPECIFIC challenge requirements
-  2. For "Simple Shape" - Look for basic geometric shapes (circle, square, triangle)
-  3. For "Object with Background" - Look for objects WITH detailed surroundings, textures, and lighting
-  4. For "Creative Portrait" - Look for people/faces with artistic elements
-  5. For "Nature Scene" - Look for landscapes, trees, animals in natural settings
-  6. For "Abstract Art" - Look for non-representational artistic elements
-  7. For "Architecture" - Look for buildings, structures, architectural details
-  
-  Be STRICT about challenge-specific requirements! A simple red circle for "Object with Background" should get 40-70% because it lacks textures, lighting details, and proper background description.
-
-  PERSONALITY TRAITS:
-  - Use quirky expressions like "Arre yaar", "Bhai", "Boss", "Dekho ji"
-  - Be playfully sarcastic when they're completely wrong
-  - Use emoji-like expressions in text like "😅", "🤔" 
-  - Mix Hindi-English naturally
-  - Be encouraging but honest about mistakes
-  - Make jokes about obvious mismatches
-
-  FEEDBACK RULES:
-  1. If content is COMPLETELY WRONG (e.g., dog for "Simple Shape"), be playfully dramatic about it
-  2. Give specific, actionable prompts with quirky explanations
-  3. Use fun analogies and comparisons
-  4. Keep it light-hearted but helpful
-
-  Provide:
-  1. A similarity score (0-100) - be strict but fair
-  2. 2-3 quirky feedback suggestions with actionable prompt improvements`;
-
-  const userTurnPrompt = `
-  Challenge Name: "${challenge.name}"
-  Challenge Description: "${challenge.description}"
-  The student ${userName} generated this image using their prompt.
-  Student's Prompt: "${userPrompt}"
-  
-  Compare the TARGET IMAGE (first image - what they should match) with the GENERATED IMAGE (second image - what they actually created).
-  
-  Grade strictly based on:
-  1. Challenge-specific requirements fulfillment
-  2. Technical quality and detail level
-  3. Prompt accuracy to image output
-  
-  Return JSON with:
-  - similarityScore: number (0-100, be strict!)
-  - feedback: array of 2-3 quirky suggestions for improvement`;
-
-  // 🔑 Use GeminiKeyManager for intelligent key rotation
-  const analysisResponse = await getGeminiKeyManager().executeWithRetry(async (apiKey) => {
-    const gemini = getGeminiClient(apiKey);
-    
-    const targetImagePart = {
-      inlineData: { data: targetImageBase64, mimeType: "image/jpeg" }
-    };
-    
-    const generatedImagePart = {
-      inlineData: { data: generatedImageBase64, mimeType: "image/jpeg" }
-    };
-
-    const responseSchema = {
-      type: Type.OBJECT,
-      properties: {
-        similarityScore: {
-          type: Type.NUMBER,
-          description: 'A similarity score from 0-100 comparing the generated image to the target image.',
-        },
-        feedback: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-          description: 'An array of up to 3 strings with quirky, entertaining, and helpful prompt improvement suggestions.',
-        },
-      },
-      required: ['similarityScore', 'feedback'],
-    };
-
-    return await gemini.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { text: "TARGET IMAGE (what student should match):" },
-          targetImagePart,
-          { text: "GENERATED IMAGE (what student actually created):" },
-          generatedImagePart,
-          { text: userTurnPrompt },
-        ]
-      },
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      }
-    });
-  }, 'image-analysis');
-
-  const jsonText = analysisResponse.text?.trim() || '';
-  if (!jsonText) {
-    throw new Error("Empty response from Gemini API");
-  }
-
+export const analyzeImageComparison = async (req: Request, res: Response): Promise<void> => {
   try {
-    const parsed = JSON.parse(jsonText);
-    return {
-      similarityScore: Math.min(100, Math.max(0, Math.round(parsed.similarityScore || 0))),
-      feedback: Array.isArray(parsed.feedback) ? parsed.feedback : ['Analysis failed, but keep trying! 🤖'],
-      detailedAnalysis: {
-        colorMatch: 50, shapeMatch: 50, compositionMatch: 50, overallQuality: 50
-      },
-    };
-  } catch (parseError) {
-    console.error('❌ Failed to parse Gemini response as JSON:', parseError);
-    return {
-      similarityScore: 50,
-      feedback: [
-        `Arre ${userName}! 😅 Something went wrong with the analysis, but don't worry!`,
-        "Try making your prompt more specific and detailed, boss! 🎯",
-        "Add more descriptive words about colors, shapes, and style preferences! ✨"
-      ],
-      detailedAnalysis: {
-        colorMatch: 50, shapeMatch: 50, compositionMatch: 50, overallQuality: 50
-      },
-    };
-  }
-};
+    if (!req.user?.uid) {
+      throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+    }
 
-/**
- * Validate analysis request
- */
-const validateAnalysisRequest = (body: any): AnalysisRequest => {
-  // Validate user
-  if (!body.user || typeof body.user !== 'object') {
-    throw new ApiError('User object is required', 400, 'INVALID_USER');
-  }
-  
-  if (!body.user.email || typeof body.user.email !== 'string') {
-    throw new ApiError('User email is required and must be a string', 400, 'INVALID_USER_EMAIL');
-  }
+    const request = validateAnalysisRequest(req.body);
+    const { challengeId, userPrompt, service } = request;
+    const persona = await PersonaService.resolvePersona(req.user.uid, request.persona);
 
-  // Validate challenge
-  if (!body.challenge || typeof body.challenge !== 'object') {
-    throw new ApiError('Challenge object is required', 400, 'INVALID_CHALLENGE');
-  }
-  
-  if (!body.challenge.name || !body.challenge.description) {
-    throw new ApiError('Challenge name and description are required', 400, 'INVALID_CHALLENGE_DATA');
-  }
+    const challenge = await ChallengeService.getChallengeById(challengeId);
+    if (!challenge) {
+      throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+    }
 
-  // Validate generated image
-  if (!body.generatedImageBase64 || typeof body.generatedImageBase64 !== 'string') {
-    throw new ApiError('Generated image base64 is required', 400, 'INVALID_GENERATED_IMAGE');
-  }
+    if (challenge.status === 'archived') {
+      throw new ApiError('Challenge has been archived', 400, 'CHALLENGE_ARCHIVED');
+    }
 
-  return {
-    user: body.user,
-    challenge: body.challenge,
-    generatedImageBase64: body.generatedImageBase64
-  };
-};
+    await ScoringService.assertChallengeUnlocked(req.user.uid, challenge);
 
-/**
- * Analyze image comparison between generated and target images
- */
-export const analyzeImageComparison = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { user, challenge, generatedImageBase64 } = validateAnalysisRequest(req.body);
-    const { userPrompt, targetImageBase64, apiKey } = req.body;
+    // The target always comes from the challenge, never the client, so an
+    // attempt can't be scored against an image of the student's choosing
+    const targetImageBase64 = await ChallengeService.loadImageBase64(challenge.imageUrl, req.get('Origin'));
 
-    console.log(`🔍 Analysis request: user=${user.email}, challenge="${challenge.name}"`);
-    console.log(`📸 Generated image length: ${generatedImageBase64 ? generatedImageBase64.length : 'MISSING'}`);
-    console.log(`🎯 Target image length: ${targetImageBase64 ? targetImageBase64.length : 'MISSING'}`);
-    console.log(`💬 User prompt: "${userPrompt}"`);
+    // Only images this user generated through the backend can be scored
+    const imageRef = request.generatedImageId;
+    const generatedImageBase64 = await loadGeneratedImageBase64(imageRef, req.user.uid);
 
-    // Validate that both images are present
-    if (!targetImageBase64) {
-      throw new ApiError('Target image is required for comparison', 400, 'MISSING_TARGET_IMAGE');
-    }
+    const user: User = { email: req.user.email || '' };
 
-    if (!generatedImageBase64) {
-      throw new ApiError('Generated image is required for comparison', 400, 'MISSING_GENERATED_IMAGE');
-    }
+    logger.info('🔍 Analysis request', { uid: req.user.uid, challengeId: challenge.id });
+    logger.info(`📸 Generated image length: ${generatedImageBase64.length}`);
+    logger.info(`🎯 Target image length: ${targetImageBase64.length}`);
+    logger.debug('💬 User prompt', { promptLength: userPrompt.length });
+    logger.info(`🗣️ Feedback persona: ${persona.id}`);
 
-    console.log('🤖 Starting image analysis with GeminiKeyManager...');
+    logger.info('🤖 Starting image analysis...');
     
     const analysisResult = await analyzeImages(
       user,
       challenge,
       generatedImageBase64,
       userPrompt,
-      targetImageBase64
+      targetImageBase64,
+      persona
     );
 
     // Validate analysis result
     if (!analysisResult || typeof analysisResult.similarityScore !== 'number') {
       throw new ApiError('Invalid analysis result received', 500, 'INVALID_ANALYSIS_RESULT');
     }
+    analysisScore.observe({ analyzer: analysisResult.analyzer ?? 'unknown' }, analysisResult.similarityScore);
+
+    const scoring = await ScoringService.recordAttempt(req.user.uid, challenge, {
+      prompt: userPrompt,
+      score: analysisResult.similarityScore,
+      feedback: analysisResult.feedback,
+      service,
+      imageRef
+    });
 
     const response: AnalysisResponse = {
       success: true,
-      result: analysisResult,
+      result: { ...analysisResult, passed: scoring.passed },
+      scoring,
       timestamp: new Date().toISOString()
     };
 
-    console.log(`✅ Analysis completed: similarity=${analysisResult.similarityScore}%`);
+    logger.info(`✅ Analysis completed: similarity=${analysisResult.similarityScore}%`);
     res.json(response);
 
   } catch (error) {
-    console.error('❌ Error analyzing images:', error);
+    logger.error('❌ Error analyzing images', { error });
     
-    if (error instanceof ApiError) {
-      const response: AnalysisResponse = {
-        success: false,
-        error: error.message,
-        timestamp: new Date().toISOString()
-      };
-      res.status(error.statusCode || 500).json(response);
-    } else {
-      const response: AnalysisResponse = {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to analyze images',
-        timestamp: new Date().toISOString()
-      };
-      res.status(500).json(response);
-    }
+    sendError(req, res, error, 'Failed to analyze images');
   }
 };
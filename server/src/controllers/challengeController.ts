@@ -0,0 +1,237 @@
+import { Request, Response } from 'express';
+import { logger, validateChallengeInput } from '@prompt-tool/core';
+import { ChallengeService } from '../services/challengeService.js';
+import { ApiError } from '../types/index.js';
+import { sendError } from '../middleware/errorHandler.js';
+
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Validate an uploaded target image, if any
+ */
+const validateImageUpload = (file?: Express.Multer.File) => {
+  if (!file) return undefined;
+
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.mimetype)) {
+    throw new ApiError('Image must be PNG, JPEG or WebP', 400, 'UNSUPPORTED_IMAGE_TYPE');
+  }
+
+  return { buffer: file.buffer, mimeType: file.mimetype };
+};
+
+/**
+ * Absolute URL the backend serves an uploaded challenge image from
+ */
+const getChallengeImageUrl = (req: Request, id: number): string =>
+  `${req.protocol}://${req.get('host')}/api/challenges/${id}/image`;
+
+/**
+ * Parse a challenge id route parameter
+ */
+const parseChallengeId = (value: string): number => {
+  const id = parseInt(value, 10);
+
+  if (isNaN(id)) {
+    throw new ApiError('Challenge id must be a number', 400, 'INVALID_CHALLENGE_ID');
+  }
+
+  return id;
+};
+
+/**
+ * 🎯 Challenge Controller - Challenge Catalog Endpoints
+ * Exposes the mission list that drives the client challenge path
+ */
+export class ChallengeController {
+
+  /**
+   * List all challenges
+   * GET /api/challenges
+   */
+  static async getChallenges(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info('🎯 Listing challenges...');
+
+      const includeArchived = req.query.includeArchived === 'true';
+      const challenges = await ChallengeService.getChallenges(includeArchived);
+
+      res.json({
+        success: true,
+        data: challenges,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error listing challenges', { error });
+      sendError(req, res, error, 'Failed to get challenges');
+    }
+  }
+
+  /**
+   * Get a single challenge
+   * GET /api/challenges/:id
+   */
+  static async getChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseChallengeId(req.params.id);
+
+      logger.info(`🎯 Getting challenge ${id}...`);
+
+      const challenge = await ChallengeService.getChallengeById(id);
+
+      if (!challenge) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: challenge,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error getting challenge', { error });
+      sendError(req, res, error, 'Failed to get challenge');
+    }
+  }
+
+  /**
+   * Serve an uploaded challenge target image
+   * GET /api/challenges/:id/image
+   */
+  static async getChallengeImage(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseChallengeId(req.params.id);
+      const image = await ChallengeService.getChallengeImage(id);
+
+      if (!image) {
+        throw new ApiError('Challenge image not found', 404, 'IMAGE_NOT_FOUND');
+      }
+
+      res.set('Content-Type', image.mimeType);
+      res.set('Cache-Control', 'no-cache');
+      res.send(image.buffer);
+
+    } catch (error) {
+      logger.error('❌ Error getting challenge image', { error });
+      sendError(req, res, error, 'Failed to get challenge image');
+    }
+  }
+
+  /**
+   * Create a challenge (instructor only)
+   * POST /api/challenges
+   * Accepts JSON or multipart/form-data with an `image` file
+   */
+  static async createChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info('🆕 Creating challenge...');
+
+      const input = validateChallengeInput(req.body, false);
+      const image = validateImageUpload(req.file);
+
+      if (!image && !input.imageUrl) {
+        throw new ApiError('A target image upload or imageUrl is required', 400, 'IMAGE_REQUIRED');
+      }
+
+      let challenge = await ChallengeService.createChallenge(input, req.user!.uid);
+
+      // The image is stored under the new id, so it can only be saved once the
+      // challenge exists; if that fails, don't leave it behind without one
+      if (image) {
+        try {
+          await ChallengeService.saveChallengeImage(challenge.id, image);
+          challenge = (await ChallengeService.updateChallenge(challenge.id, {
+            imageUrl: getChallengeImageUrl(req, challenge.id)
+          }))!;
+        } catch (error) {
+          await ChallengeService.deleteChallenge(challenge.id).catch(deleteError => {
+            logger.error(`❌ Could not remove challenge ${challenge.id} after its image failed`, { error: deleteError });
+          });
+          throw error;
+        }
+      }
+
+      res.status(201).json({
+        success: true,
+        data: challenge,
+        message: 'Challenge created successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error creating challenge', { error });
+      sendError(req, res, error, 'Failed to create challenge');
+    }
+  }
+
+  /**
+   * Update a challenge (instructor only)
+   * PATCH /api/challenges/:id
+   * Accepts JSON or multipart/form-data with an optional `image` file
+   */
+  static async updateChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseChallengeId(req.params.id);
+      logger.info(`✏️ Updating challenge ${id}...`);
+
+      const updates = validateChallengeInput(req.body, true);
+      const image = validateImageUpload(req.file);
+
+      if (!image && Object.keys(updates).length === 0) {
+        throw new ApiError('No valid fields to update', 400, 'NO_UPDATE_FIELDS');
+      }
+
+      const existing = await ChallengeService.getChallengeById(id);
+      if (!existing) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      if (image) {
+        await ChallengeService.saveChallengeImage(id, image);
+        updates.imageUrl = getChallengeImageUrl(req, id);
+      }
+
+      const challenge = await ChallengeService.updateChallenge(id, updates);
+
+      res.json({
+        success: true,
+        data: challenge,
+        message: 'Challenge updated successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error updating challenge', { error });
+      sendError(req, res, error, 'Failed to update challenge');
+    }
+  }
+
+  /**
+   * Archive a challenge (instructor only). Student progress is untouched.
+   * DELETE /api/challenges/:id
+   */
+  static async archiveChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseChallengeId(req.params.id);
+      logger.info(`📦 Archiving challenge ${id}...`);
+
+      const challenge = await ChallengeService.archiveChallenge(id);
+
+      if (!challenge) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: challenge,
+        message: 'Challenge archived successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error archiving challenge', { error });
+      sendError(req, res, error, 'Failed to archive challenge');
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { logger, validatePersonaInput } from '@prompt-tool/core';
+import { PersonaService } from '../services/personaService.js';
+import { ApiError } from '../types/index.js';
+import { sendError } from '../middleware/errorHandler.js';
+
+/**
+ * 🗣️ Persona Controller - Feedback Persona Endpoints
+ * Lists the personas students can pick for their analysis feedback
+ */
+export class PersonaController {
+
+  /**
+   * List built-in and instructor-defined personas
+   * GET /api/personas
+   */
+  static async getPersonas(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info('🗣️ Listing personas...');
+
+      const personas = await PersonaService.getPersonas();
+
+      res.json({
+        success: true,
+        data: personas,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error listing personas', { error });
+      sendError(req, res, error, 'Failed to get personas');
+    }
+  }
+
+  /**
+   * Define a persona (instructor only)
+   * POST /api/personas
+   */
+  static async createPersona(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info('🆕 Creating persona...');
+
+      const input = validatePersonaInput(req.body);
+      const persona = await PersonaService.createPersona(input, req.user!.uid);
+
+      res.status(201).json({
+        success: true,
+        data: persona,
+        message: 'Persona created successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error creating persona', { error });
+      sendError(req, res, error, 'Failed to create persona');
+    }
+  }
+
+  /**
+   * Delete an instructor-defined persona (instructor only)
+   * DELETE /api/personas/:id
+   */
+  static async deletePersona(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info(`🗑️ Deleting persona ${req.params.id}...`);
+
+      const deleted = await PersonaService.deletePersona(req.params.id);
+
+      if (!deleted) {
+        throw new ApiError('Persona not found', 404, 'PERSONA_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        message: 'Persona deleted successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('❌ Error deleting persona', { error });
+      sendError(req, res, error, 'Failed to delete persona');
+    }
+  }
+}
@@ -1,5 +1,11 @@
+import { timingSafeEqual } from 'node:crypto';
 import { Request, Response } from 'express';
+import { logger } from '@prompt-tool/core';
 import { getGeminiKeyManager } from '../services/geminiKeyManager.js';
+import { resolveUserRole } from '../middleware/firebaseAuth.js';
+import { sendError } from '../middleware/errorHandler.js';
+import { renderMetrics } from '../services/metricsService.js';
+import { ApiError } from '../types/index.js';
 
 /**
  * 📊 Get Gemini API Key Manager Status
@@ -7,35 +13,58 @@ import { getGeminiKeyManager } from '../services/geminiKeyManager.js';
  */
 export const getKeyManagerStatus = async (req: Request, res: Response) => {
   try {
-    console.log('📊 Key Manager Status Request');
+    logger.info('📊 Key Manager Status Request');
     
-    const status = getGeminiKeyManager().getStatus();
+    const status = await getGeminiKeyManager().getStatus();
+    const isAdmin = (await resolveUserRole(req)) === 'admin';
     
-    // Return comprehensive status information
+    // Per-key details are only shown to admins
     res.json({
       success: true,
       timestamp: new Date().toISOString(),
       keyManager: {
+        store: status.store,
         totalKeys: status.totalKeys,
         availableKeys: status.availableKeys,
         blockedKeys: status.blockedKeys,
-        keyStats: status.keyStats.map(stat => ({
-          key: stat.key.substring(0, 8) + '...', // Hide most of the key for security
-          usageCount: stat.usageCount,
-          lastUsed: stat.lastUsed,
-          isBlocked: stat.isBlocked,
-          errorCount: stat.errorCount
-        }))
+        ...(isAdmin && {
+          keyStats: status.keyStats.map(stat => ({
+            key: stat.key.substring(0, 8) + '...', // Hide most of the key for security
+            id: stat.id,
+            usageCount: stat.usageCount,
+            lastUsed: stat.lastUsed,
+            isBlocked: stat.isBlocked,
+            errorCount: stat.errorCount,
+            budget: stat.budget,
+            calls: stat.calls
+          }))
+        })
       }
     });
     
   } catch (error) {
-    console.error('❌ Error getting key manager status:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get key manager status',
-      message: error instanceof Error ? error.message : 'Unknown error'
+    logger.error('❌ Error getting key manager status', { error });
+    sendError(req, res, error, 'Failed to get key manager status');
+  }
+};
+
+/**
+ * ⏱️ Get Gemini call latency and outcomes by operation and key
+ * GET /api/status/metrics
+ */
+export const getOperationMetrics = async (req: Request, res: Response) => {
+  try {
+    logger.info('⏱️ Operation Metrics Request');
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...getGeminiKeyManager().getOperationMetrics()
     });
+
+  } catch (error) {
+    logger.error('❌ Error getting operation metrics', { error });
+    sendError(req, res, error, 'Failed to get operation metrics');
   }
 };
 
@@ -45,7 +74,7 @@ export const getKeyManagerStatus = async (req: Request, res: Response) => {
  */
 export const resetKeyManagerMetrics = async (req: Request, res: Response) => {
   try {
-    console.log('🔄 Key Manager Metrics Reset Request');
+    logger.info('🔄 Key Manager Metrics Reset Request');
     
     // Note: Reset functionality not implemented in current GeminiKeyManager
     // This would require adding a resetMetrics method to the GeminiKeyManager class
@@ -57,11 +86,36 @@ export const resetKeyManagerMetrics = async (req: Request, res: Response) => {
     });
     
   } catch (error) {
-    console.error('❌ Error resetting key manager metrics:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to reset key manager metrics',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
+    logger.error('❌ Error resetting key manager metrics', { error });
+    sendError(req, res, error, 'Failed to reset key manager metrics');
+  }
+};
+
+/**
+ * 📈 Prometheus metrics for scraping
+ * GET /metrics
+ * Scrapers must send METRICS_TOKEN as a Bearer token; without one set the
+ * endpoint stays disabled rather than exposing traffic and key pool state.
+ */
+export const getPrometheusMetrics = async (req: Request, res: Response) => {
+  try {
+    const token = process.env.METRICS_TOKEN;
+    if (!token) {
+      throw new ApiError('Metrics are disabled; set METRICS_TOKEN to enable them', 404, 'NOT_FOUND');
+    }
+
+    const expected = Buffer.from(`Bearer ${token}`);
+    const received = Buffer.from(req.get('Authorization') || '');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new ApiError('A valid metrics token is required', 401, 'INVALID_TOKEN');
+    }
+
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(await renderMetrics());
+
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      logger.error('❌ Error rendering metrics', { error });
+    }
+    sendError(req, res, error, 'Failed to render metrics');
   }
 };
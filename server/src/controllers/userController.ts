@@ -1,6 +1,18 @@
 import { Request, Response } from 'express';
+import {
+  logger,
+  validateAttemptQuery,
+  validateLeaderboardQuery,
+  validateProfileCreate,
+  validateProfileUpdate,
+  validateRoleUpdate
+} from '@prompt-tool/core';
 import { UserDataService } from '../services/userDataService.js';
+import { AttemptService } from '../services/attemptService.js';
+import { PersonaService } from '../services/personaService.js';
 import { ApiError, UserDocument } from '../types/index.js';
+import { resolveUserRole } from '../middleware/firebaseAuth.js';
+import { sendError } from '../middleware/errorHandler.js';
 
 /**
  * 👤 User Controller - User Management Endpoints
@@ -14,7 +26,7 @@ export class UserController {
    */
   static async getUserProfile(req: Request, res: Response): Promise<void> {
     try {
-      console.log('📝 Getting user profile...');
+      logger.info('📝 Getting user profile...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
@@ -26,30 +38,19 @@ export class UserController {
         throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
       }
       
+      // Report the effective role, which may come from a custom claim
+      const role = await resolveUserRole(req);
+      
       res.json({
         success: true,
-        data: user,
+        data: { ...user, role },
         timestamp: new Date().toISOString()
       });
       
     } catch (error) {
-      console.error('❌ Error getting user profile:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error getting user profile', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get user profile',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to get user profile');
     }
   }
   
@@ -59,13 +60,13 @@ export class UserController {
    */
   static async createOrUpdateProfile(req: Request, res: Response): Promise<void> {
     try {
-      console.log('📝 Creating/updating user profile...');
+      logger.info('📝 Creating/updating user profile...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      const { displayName, photoURL, email } = req.body;
+      const { displayName, photoURL, email } = validateProfileCreate(req.body);
       
       const userData: Partial<UserDocument> = {
         email: email || req.user.email || '',
@@ -83,23 +84,9 @@ export class UserController {
       });
       
     } catch (error) {
-      console.error('❌ Error creating/updating user profile:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error creating/updating user profile', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to create/update user profile',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to create/update user profile');
     }
   }
   
@@ -109,20 +96,16 @@ export class UserController {
    */
   static async updateProfile(req: Request, res: Response): Promise<void> {
     try {
-      console.log('📝 Updating user profile...');
+      logger.info('📝 Updating user profile...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      const updates = req.body;
-      
-      // Validate updates
-      const allowedFields = ['displayName', 'photoURL', 'email'];
-      const invalidFields = Object.keys(updates).filter(field => !allowedFields.includes(field));
+      const updates = validateProfileUpdate(req.body);
       
-      if (invalidFields.length > 0) {
-        throw new ApiError(`Invalid fields: ${invalidFields.join(', ')}`, 400, 'INVALID_FIELDS');
+      if (updates.feedbackPersona !== undefined && !await PersonaService.getPersonaById(updates.feedbackPersona)) {
+        throw new ApiError(`Unknown feedback persona: ${updates.feedbackPersona}`, 400, 'UNKNOWN_PERSONA');
       }
       
       const user = await UserDataService.updateUserProfile(req.user.uid, updates);
@@ -135,23 +118,9 @@ export class UserController {
       });
       
     } catch (error) {
-      console.error('❌ Error updating user profile:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error updating user profile', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update user profile',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to update user profile');
     }
   }
   
@@ -161,7 +130,7 @@ export class UserController {
    */
   static async getUserProgress(req: Request, res: Response): Promise<void> {
     try {
-      console.log('📊 Getting user progress...');
+      logger.info('📊 Getting user progress...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
@@ -176,159 +145,114 @@ export class UserController {
       });
       
     } catch (error) {
-      console.error('❌ Error getting user progress:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error getting user progress', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get user progress',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to get user progress');
     }
   }
   
   /**
    * Save user challenge progress
    * POST /api/users/progress
+   * Progress is only written by scoring, so client-supplied progress is rejected
    */
   static async saveUserProgress(req: Request, res: Response): Promise<void> {
+    logger.warn(`🚫 Rejected client progress write from ${req.user?.uid}`);
+    
+    const message = 'Progress is recorded by POST /api/analysis/compare';
+    sendError(req, res, new ApiError(message, 403, 'CLIENT_SCORES_REJECTED'), message);
+  }
+  
+  /**
+   * Get user statistics
+   * GET /api/users/stats
+   */
+  static async getUserStats(req: Request, res: Response): Promise<void> {
     try {
-      console.log('💾 Saving user progress...');
+      logger.info('📈 Getting user stats...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      const { progress } = req.body;
-      
-      if (!progress || typeof progress !== 'object') {
-        throw new ApiError('Invalid progress data', 400, 'INVALID_PROGRESS_DATA');
-      }
-      
-      await UserDataService.saveUserProgress(req.user.uid, progress);
+      const stats = await UserDataService.getUserStats(req.user.uid);
       
       res.json({
         success: true,
-        message: 'Progress saved successfully',
+        data: stats,
         timestamp: new Date().toISOString()
       });
       
     } catch (error) {
-      console.error('❌ Error saving user progress:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error getting user stats', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to save user progress',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to get user stats');
     }
   }
   
   /**
-   * Get user statistics
-   * GET /api/users/stats
+   * Update user stats after challenge completion
+   * POST /api/users/stats/update
+   * Stats are only written by scoring, so client-supplied scores are rejected
    */
-  static async getUserStats(req: Request, res: Response): Promise<void> {
+  static async updateUserStats(req: Request, res: Response): Promise<void> {
+    logger.warn(`🚫 Rejected client stats write from ${req.user?.uid}`);
+    
+    const message = 'Stats are recorded by POST /api/analysis/compare';
+    sendError(req, res, new ApiError(message, 403, 'CLIENT_SCORES_REJECTED'), message);
+  }
+  
+  /**
+   * Get the user's attempt history, newest first
+   * GET /api/users/attempts?challengeId=&cursor=&limit=
+   */
+  static async getAttempts(req: Request, res: Response): Promise<void> {
     try {
-      console.log('📈 Getting user stats...');
+      logger.info('📜 Getting user attempts...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      const stats = await UserDataService.getUserStats(req.user.uid);
+      const page = await AttemptService.listAttempts(req.user.uid, validateAttemptQuery(req.query));
       
       res.json({
         success: true,
-        data: stats,
+        data: page,
         timestamp: new Date().toISOString()
       });
       
     } catch (error) {
-      console.error('❌ Error getting user stats:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error getting user attempts', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get user stats',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to get user attempts');
     }
   }
   
   /**
-   * Update user stats after challenge completion
-   * POST /api/users/stats/update
+   * Get the user's best attempt for each challenge played
+   * GET /api/users/attempts/best
    */
-  static async updateUserStats(req: Request, res: Response): Promise<void> {
+  static async getBestAttempts(req: Request, res: Response): Promise<void> {
     try {
-      console.log('📈 Updating user stats...');
+      logger.info('🏅 Getting best attempts...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      const { challengeScore, newStreak } = req.body;
-      
-      if (typeof challengeScore !== 'number' || typeof newStreak !== 'number') {
-        throw new ApiError('Invalid score or streak data', 400, 'INVALID_STATS_DATA');
-      }
-      
-      const stats = await UserDataService.updateUserStats(req.user.uid, challengeScore, newStreak);
+      const attempts = await AttemptService.getBestAttempts(req.user.uid);
       
       res.json({
         success: true,
-        data: stats,
-        message: 'Stats updated successfully',
+        data: attempts,
         timestamp: new Date().toISOString()
       });
       
     } catch (error) {
-      console.error('❌ Error updating user stats:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error getting best attempts', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update user stats',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to get best attempts');
     }
   }
   
@@ -338,14 +262,9 @@ export class UserController {
    */
   static async getLeaderboard(req: Request, res: Response): Promise<void> {
     try {
-      console.log('🏆 Getting leaderboard...');
-      
-      const limit = parseInt(req.query.limit as string) || 10;
-      
-      if (limit < 1 || limit > 100) {
-        throw new ApiError('Limit must be between 1 and 100', 400, 'INVALID_LIMIT');
-      }
+      logger.info('🏆 Getting leaderboard...');
       
+      const limit = validateLeaderboardQuery(req.query);
       const leaderboard = await UserDataService.getLeaderboard(limit);
       
       res.json({
@@ -355,23 +274,44 @@ export class UserController {
       });
       
     } catch (error) {
-      console.error('❌ Error getting leaderboard:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
+      logger.error('❌ Error getting leaderboard', { error });
+      
+      sendError(req, res, error, 'Failed to get leaderboard');
+    }
+  }
+  
+  /**
+   * Set another user's role (admin only)
+   * PATCH /api/users/:uid/role
+   */
+  static async setUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { uid } = req.params;
+      const role = validateRoleUpdate(req.body);
+      
+      logger.info(`🎭 Setting role for user ${uid}...`);
+      
+      if (uid === req.user?.uid && role !== 'admin') {
+        throw new ApiError('Admins cannot remove their own admin role', 400, 'CANNOT_DEMOTE_SELF');
+      }
+      
+      const user = await UserDataService.setUserRole(uid, role);
+      
+      if (!user) {
+        throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
       }
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get leaderboard',
+      res.json({
+        success: true,
+        data: user,
+        message: `User role set to ${role}`,
         timestamp: new Date().toISOString()
       });
+      
+    } catch (error) {
+      logger.error('❌ Error setting user role', { error });
+      
+      sendError(req, res, error, 'Failed to set user role');
     }
   }
   
@@ -381,7 +321,7 @@ export class UserController {
    */
   static async deleteUser(req: Request, res: Response): Promise<void> {
     try {
-      console.log('🗑️ Deleting user account...');
+      logger.info('🗑️ Deleting user account...');
       
       if (!req.user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
@@ -396,23 +336,9 @@ export class UserController {
       });
       
     } catch (error) {
-      console.error('❌ Error deleting user:', error);
-      
-      if (error instanceof ApiError) {
-        res.status(error.statusCode || 500).json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+      logger.error('❌ Error deleting user', { error });
       
-      res.status(500).json({
-        success: false,
-        error: 'Failed to delete user account',
-        timestamp: new Date().toISOString()
-      });
+      sendError(req, res, error, 'Failed to delete user account');
     }
   }
 }
@@ -1,38 +1,66 @@
 import { Request, Response, NextFunction } from 'express';
+import { logger, toErrorResponse } from '@prompt-tool/core';
+import { ApiError, ErrorCode } from '../types/index.js';
 
-export const errorHandler = (
-  err: Error,
+/**
+ * 📮 Send the error envelope for a caught error. ApiErrors keep their
+ * status and code; anything else is a 500 with `fallbackMessage`.
+ */
+export const sendError = (
   req: Request,
   res: Response,
-  next: NextFunction
+  error: unknown,
+  fallbackMessage: string,
+  fallbackCode?: ErrorCode
 ) => {
-  console.error('Error occurred:', err.stack);
+  const { status, body } = toErrorResponse(error, { requestId: req.requestId, fallbackMessage, fallbackCode });
 
-  // Default error
-  let status = 500;
-  let message = 'Internal Server Error';
+  if (body.retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(body.retryAfter));
+  }
+  res.status(status).json(body);
+};
 
-  // Handle specific error types
-  if (err.name === 'ValidationError') {
-    status = 400;
-    message = err.message;
+/**
+ * Map errors thrown by libraries onto catalog codes
+ */
+const toApiError = (err: Error): Error => {
+  if (err instanceof ApiError) {
+    return err;
+  } else if (err.name === 'ValidationError') {
+    return new ApiError(err.message, 400, 'INVALID_REQUEST');
+  } else if (err.name === 'MulterError') {
+    return new ApiError(err.message, 400, 'INVALID_REQUEST');
   } else if (err.name === 'UnauthorizedError') {
-    status = 401;
-    message = 'Unauthorized';
+    return new ApiError('Unauthorized', 401, 'AUTH_FAILED');
   } else if (err.message.includes('API key')) {
-    status = 401;
-    message = 'Invalid or missing API key';
+    return new ApiError('Invalid or missing API key', 401, 'INVALID_API_KEY');
   } else if (err.message.includes('rate limit')) {
-    status = 429;
-    message = 'Rate limit exceeded';
+    return new ApiError('Rate limit exceeded', 429, 'RATE_LIMITED');
   } else if (err.message.includes('timeout')) {
-    status = 504;
-    message = 'Request timeout';
+    return new ApiError('Request timeout', 504, 'REQUEST_TIMEOUT');
   }
+  return err;
+};
+
+export const errorHandler = (
+  err: Error,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  logger.error('❌ Unhandled error', { error: err });
+
+  const { status, body } = toErrorResponse(toApiError(err), {
+    requestId: req.requestId,
+    fallbackMessage: 'Internal Server Error'
+  });
 
+  if (body.retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(body.retryAfter));
+  }
   res.status(status).json({
-    error: true,
-    message,
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    ...body,
+    ...(process.env.NODE_ENV === 'development' && { details: { ...body.details, stack: err.stack } })
   });
 };
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
+import { logger } from '@prompt-tool/core';
 import { auth } from '../config/firebase.js';
-import { ApiError } from '../types/index.js';
+import { ApiError, ErrorCode, USER_ROLES, UserRole } from '../types/index.js';
+import { UserDataService } from '../services/userDataService.js';
+import { sendError } from './errorHandler.js';
 
 // Extend Express Request to include Firebase user
 declare global {
@@ -10,11 +13,52 @@ declare global {
         uid: string;
         email?: string;
         emailVerified?: boolean;
+        role?: UserRole;
       };
     }
   }
 }
 
+// Firebase Admin error codes and what the client is told
+const FIREBASE_AUTH_ERRORS: Record<string, [string, ErrorCode]> = {
+  'auth/id-token-expired': ['Token expired', 'TOKEN_EXPIRED'],
+  'auth/id-token-revoked': ['Token revoked', 'TOKEN_REVOKED'],
+  'auth/argument-error': ['Invalid token format', 'INVALID_TOKEN_FORMAT']
+};
+
+/**
+ * Turn a failed token check into a 401 ApiError
+ */
+const toAuthError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const [message, code] = FIREBASE_AUTH_ERRORS[(error as any)?.code] ?? ['Authentication failed', 'AUTH_FAILED'];
+  return new ApiError(message, 401, code);
+};
+
+/**
+ * Narrow a custom claim value to a known role
+ */
+const toUserRole = (value: unknown): UserRole | undefined =>
+  USER_ROLES.includes(value as UserRole) ? value as UserRole : undefined;
+
+/**
+ * Resolve the caller's role: the `role` custom claim wins, then the role
+ * stored on the user document, then 'student'. Caches the result on req.user.
+ */
+export const resolveUserRole = async (req: Request): Promise<UserRole | undefined> => {
+  if (!req.user) return undefined;
+
+  if (!req.user.role) {
+    const userDoc = await UserDataService.getUserById(req.user.uid);
+    req.user.role = toUserRole(userDoc?.role) || 'student';
+  }
+
+  return req.user.role;
+};
+
 /**
  * 🛡️ Firebase Authentication Middleware
  * Verifies Firebase JWT tokens and protects API endpoints
@@ -41,7 +85,7 @@ export const authenticateFirebaseToken = async (
       throw new ApiError('No token provided', 401, 'NO_TOKEN');
     }
     
-    console.log('🔍 Verifying Firebase token...');
+    logger.debug('🔍 Verifying Firebase token...');
     
     // Verify the Firebase ID token
     const decodedToken = await auth.verifyIdToken(token);
@@ -54,65 +98,17 @@ export const authenticateFirebaseToken = async (
     req.user = {
       uid: decodedToken.uid,
       email: decodedToken.email,
-      emailVerified: decodedToken.email_verified
+      emailVerified: decodedToken.email_verified,
+      role: toUserRole(decodedToken.role)
     };
     
-    console.log(`✅ Token verified for user: ${decodedToken.email} (${decodedToken.uid})`);
+    logger.debug('✅ Token verified', { uid: decodedToken.uid });
     next();
     
   } catch (error) {
-    console.error('❌ Authentication failed:', error);
-    
-    if (error instanceof ApiError) {
-      res.status(error.statusCode || 401).json({
-        success: false,
-        error: error.message,
-        code: error.code,
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-    
-    // Handle Firebase auth errors
-    const firebaseError = error as any;
-    
-    if (firebaseError.code === 'auth/id-token-expired') {
-      res.status(401).json({
-        success: false,
-        error: 'Token expired',
-        code: 'TOKEN_EXPIRED',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+    logger.error('❌ Authentication failed', { error });
     
-    if (firebaseError.code === 'auth/id-token-revoked') {
-      res.status(401).json({
-        success: false,
-        error: 'Token revoked',
-        code: 'TOKEN_REVOKED',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-    
-    if (firebaseError.code === 'auth/argument-error') {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid token format',
-        code: 'INVALID_TOKEN_FORMAT',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-    
-    // Generic auth error
-    res.status(401).json({
-      success: false,
-      error: 'Authentication failed',
-      code: 'AUTH_FAILED',
-      timestamp: new Date().toISOString()
-    });
+    sendError(req, res, toAuthError(error), 'Authentication failed');
   }
 };
 
@@ -147,20 +143,53 @@ export const optionalAuth = async (
       req.user = {
         uid: decodedToken.uid,
         email: decodedToken.email,
-        emailVerified: decodedToken.email_verified
+        emailVerified: decodedToken.email_verified,
+        role: toUserRole(decodedToken.role)
       };
       
-      console.log(`🔓 Optional auth successful for: ${decodedToken.email}`);
+      logger.debug('🔓 Optional auth successful', { uid: decodedToken.uid });
     } catch (tokenError) {
-      console.log('🔓 Optional auth failed, continuing without user info');
+      logger.info('🔓 Optional auth failed, continuing without user info');
       // Continue without user info if token is invalid
     }
     
     next();
     
   } catch (error) {
-    console.error('❌ Optional auth middleware error:', error);
+    logger.error('❌ Optional auth middleware error', { error });
     // Continue without user info on any error
     next();
   }
 };
+
+/**
+ * 🎭 Role Authorization Middleware
+ * Must run after authenticateFirebaseToken. Allows only the given roles.
+ * Usage: router.post('/x', authenticateFirebaseToken, requireRole('admin'), handler)
+ */
+export const requireRole = (...roles: UserRole[]) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const role = await resolveUserRole(req);
+
+    if (!role) {
+      throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+    }
+
+    if (!roles.includes(role)) {
+      logger.warn('🚫 Access denied', { uid: req.user?.uid, role, requires: roles });
+      throw new ApiError(`Requires role: ${roles.join(' or ')}`, 403, 'FORBIDDEN');
+    }
+
+    next();
+
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      logger.error('❌ Role check failed', { error });
+    }
+    sendError(req, res, error, 'Failed to verify user role');
+  }
+};
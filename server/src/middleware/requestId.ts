@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept a caller's id only if it is short and log-safe
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Extend Express Request to include the request id
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string;
+    }
+  }
+}
+
+/**
+ * 🏷️ Give every request an id, echoed in X-Request-Id and in error bodies.
+ * An incoming X-Request-Id (e.g. from a proxy) is kept so logs line up.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  req.requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+};
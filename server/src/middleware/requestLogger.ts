@@ -1,21 +1,47 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { Request, Response, NextFunction } from 'express';
+import { configureLogger, LogFields, logger } from '@prompt-tool/core';
+import { httpRequestDuration, httpRequestsTotal } from '../services/metricsService.js';
 
+// Fields for every line logged while a request is handled, wherever it is logged from
+const requestContext = new AsyncLocalStorage<LogFields>();
+configureLogger({ context: () => requestContext.getStore() });
+
+/**
+ * 📨 Log and count each request once it is answered. Lines logged while it
+ * is handled carry its requestId, so one request's lines can be pulled together.
+ */
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
-  const timestamp = new Date().toISOString();
   const method = req.method;
-  const url = req.originalUrl;
-  const userAgent = req.get('User-Agent') || 'Unknown';
-  
-  console.log(`[${timestamp}] ${method} ${url} - ${userAgent}`);
-  
-  // Log request body for debugging (exclude sensitive data)
+  const path = req.originalUrl.split('?')[0];
+  const context = { requestId: req.requestId };
+
+  // Field names only; bodies carry prompts and images
   if (req.body && Object.keys(req.body).length > 0) {
-    const logBody = { ...req.body };
-    // Remove sensitive fields
-    if (logBody.apiKey) logBody.apiKey = '[REDACTED]';
-    if (logBody.password) logBody.password = '[REDACTED]';
-    console.log(`[${timestamp}] Request body:`, logBody);
+    requestContext.run(context, () => logger.debug(`📥 ${method} ${path}`, { bodyFields: Object.keys(req.body) }));
   }
-  
-  next();
+
+  // Counted by route pattern so ids don't split the series
+  const start = performance.now();
+  res.on('finish', () => {
+    const seconds = (performance.now() - start) / 1000;
+    const labels = {
+      method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status: res.statusCode
+    };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, seconds);
+
+    logger[res.statusCode >= 500 ? 'error' : 'info'](`${method} ${path} ${res.statusCode}`, {
+      ...context,
+      method,
+      path,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1000),
+      userAgent: req.get('User-Agent') || 'Unknown'
+    });
+  });
+
+  requestContext.run(context, next);
 };
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiRoute, checkRouteResponse, logger } from '@prompt-tool/core';
+
+// Fail loudly where a mismatch can still be fixed before it ships
+const rejectMismatches = () => ['development', 'test'].includes(process.env.NODE_ENV || '');
+
+/**
+ * 📐 Check the JSON a route sends against its schema in API_ROUTES
+ * Mismatches are logged; in development and test they become a 500.
+ */
+export const validateResponse = (route: ApiRoute) => (req: Request, res: Response, next: NextFunction) => {
+  const json = res.json.bind(res);
+
+  res.json = (body: any) => {
+    // Compare what the client will receive, with dates already serialized
+    const problems = checkRouteResponse(route, res.statusCode, JSON.parse(JSON.stringify(body ?? null)));
+    if (!problems) {
+      return json(body);
+    }
+
+    logger.error(`❌ ${route.method.toUpperCase()} ${route.path} response does not match its schema`, { problems });
+
+    if (!rejectMismatches()) {
+      return json(body);
+    }
+
+    const message = `Response does not match its schema: ${problems.join('; ')}`;
+    res.status(500);
+    return json({
+      success: false,
+      code: 'RESPONSE_SCHEMA_MISMATCH',
+      message,
+      error: message,
+      details: { problems },
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    });
+  };
+
+  next();
+};
@@ -1,10 +1,14 @@
 import { Router } from 'express';
+import { API_ROUTES } from '@prompt-tool/core';
 import { analyzeImageComparison } from '../controllers/analysisController';
+import { authenticateFirebaseToken } from '../middleware/firebaseAuth.js';
+import { validateResponse } from '../middleware/validateResponse.js';
 
 const router = Router();
 
 // POST /api/analysis/compare
-// Analyze and compare generated image with target image
-router.post('/compare', analyzeImageComparison);
+// Analyze and compare generated image with target image, recording the
+// attempt against the signed-in user's progress and stats
+router.post('/compare', validateResponse(API_ROUTES.compareImages), authenticateFirebaseToken, analyzeImageComparison);
 
 export default router;
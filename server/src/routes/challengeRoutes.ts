@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { API_ROUTES } from '@prompt-tool/core';
+import { ChallengeController } from '../controllers/challengeController.js';
+import { authenticateFirebaseToken, requireRole } from '../middleware/firebaseAuth.js';
+import { validateResponse } from '../middleware/validateResponse.js';
+
+const router = Router();
+
+// Target images are kept in memory until the controller validates and stores them
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: Number(process.env.MAX_FILE_SIZE) || 10 * 1024 * 1024 }
+});
+
+/**
+ * 🎯 Challenge Routes
+ *
+ * GET    /api/challenges           - List challenges in mission order (?includeArchived=true)
+ * GET    /api/challenges/:id       - Get a single challenge
+ * GET    /api/challenges/:id/image - Get an uploaded target image
+ * POST   /api/challenges           - Create a challenge (instructor)
+ * PATCH  /api/challenges/:id       - Update a challenge (instructor)
+ * DELETE /api/challenges/:id       - Archive a challenge (instructor)
+ */
+
+// Public catalog
+router.get('/', validateResponse(API_ROUTES.getChallenges), ChallengeController.getChallenges);
+router.get('/:id', validateResponse(API_ROUTES.getChallenge), ChallengeController.getChallenge);
+router.get('/:id/image', validateResponse(API_ROUTES.getChallengeImage), ChallengeController.getChallengeImage);
+
+// Instructor authoring
+router.post('/', validateResponse(API_ROUTES.createChallenge), authenticateFirebaseToken, requireRole('instructor', 'admin'), upload.single('image'), ChallengeController.createChallenge);
+router.patch('/:id', validateResponse(API_ROUTES.updateChallenge), authenticateFirebaseToken, requireRole('instructor', 'admin'), upload.single('image'), ChallengeController.updateChallenge);
+router.delete('/:id', validateResponse(API_ROUTES.archiveChallenge), authenticateFirebaseToken, requireRole('instructor', 'admin'), ChallengeController.archiveChallenge);
+
+export default router;
@@ -1,14 +1,25 @@
 import { Router } from 'express';
-import { generateImage, getLocalImage } from '../controllers/imageController';
+import { API_ROUTES } from '@prompt-tool/core';
+import { generateImage, getGeneratedImage, getImageProviders, getLocalImage } from '../controllers/imageController';
+import { optionalAuth } from '../middleware/firebaseAuth.js';
+import { validateResponse } from '../middleware/validateResponse.js';
 
 const router = Router();
 
 // POST /api/images/generate
-// Generate an image using either Pollinations or Gemini
-router.post('/generate', generateImage);
+// Generate an image with a registered provider; signed-in users own what they generate
+router.post('/generate', validateResponse(API_ROUTES.generateImage), optionalAuth, generateImage);
 
 // POST /api/images/local
 // Get a local image as base64
-router.post('/local', getLocalImage);
+router.post('/local', validateResponse(API_ROUTES.getLocalImage), getLocalImage);
+
+// GET /api/images/providers
+// List the registered image providers
+router.get('/providers', validateResponse(API_ROUTES.getImageProviders), getImageProviders);
+
+// GET /api/images/:id
+// Serve an image stored by /generate
+router.get('/:id', validateResponse(API_ROUTES.getGeneratedImage), getGeneratedImage);
 
 export default router;
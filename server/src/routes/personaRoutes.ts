@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { API_ROUTES } from '@prompt-tool/core';
+import { PersonaController } from '../controllers/personaController.js';
+import { authenticateFirebaseToken, requireRole } from '../middleware/firebaseAuth.js';
+import { validateResponse } from '../middleware/validateResponse.js';
+
+const router = Router();
+
+/**
+ * 🗣️ Feedback Persona Routes
+ *
+ * GET    /api/personas     - List built-in and instructor-defined personas
+ * POST   /api/personas     - Define a persona (instructor)
+ * DELETE /api/personas/:id - Delete an instructor-defined persona (instructor)
+ */
+
+router.get('/', validateResponse(API_ROUTES.getPersonas), PersonaController.getPersonas);
+router.post('/', validateResponse(API_ROUTES.createPersona), authenticateFirebaseToken, requireRole('instructor', 'admin'), PersonaController.createPersona);
+router.delete('/:id', validateResponse(API_ROUTES.deletePersona), authenticateFirebaseToken, requireRole('instructor', 'admin'), PersonaController.deletePersona);
+
+export default router;
@@ -1,19 +1,26 @@
 import { Router } from 'express';
-import { getKeyManagerStatus, resetKeyManagerMetrics } from '../controllers/statusController';
+import { API_ROUTES } from '@prompt-tool/core';
+import { getKeyManagerStatus, getOperationMetrics, resetKeyManagerMetrics } from '../controllers/statusController';
+import { authenticateFirebaseToken, optionalAuth, requireRole } from '../middleware/firebaseAuth.js';
+import { validateResponse } from '../middleware/validateResponse.js';
 
 const router = Router();
 
 /**
  * Status Routes
  * 
- * GET /api/status/keys - Get Gemini Key Manager status
- * POST /api/status/keys/reset - Reset key manager metrics
+ * GET /api/status/keys - Get Gemini Key Manager status (per-key detail for admins)
+ * POST /api/status/keys/reset - Reset key manager metrics (admin only)
+ * GET /api/status/metrics - Gemini call latency and outcomes by operation and key (admin only)
  */
 
 // Get key manager status
-router.get('/keys', getKeyManagerStatus);
+router.get('/keys', validateResponse(API_ROUTES.getKeyManagerStatus), optionalAuth, getKeyManagerStatus);
 
 // Reset key manager metrics  
-router.post('/keys/reset', resetKeyManagerMetrics);
+router.post('/keys/reset', validateResponse(API_ROUTES.resetKeyManagerMetrics), authenticateFirebaseToken, requireRole('admin'), resetKeyManagerMetrics);
+
+// Gemini operation metrics
+router.get('/metrics', validateResponse(API_ROUTES.getOperationMetrics), authenticateFirebaseToken, requireRole('admin'), getOperationMetrics);
 
 export default router;
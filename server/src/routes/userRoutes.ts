@@ -1,29 +1,39 @@
 import { Router } from 'express';
+import { API_ROUTES } from '@prompt-tool/core';
 import { UserController } from '../controllers/userController.js';
-import { authenticateFirebaseToken, optionalAuth } from '../middleware/firebaseAuth.js';
+import { authenticateFirebaseToken, optionalAuth, requireRole } from '../middleware/firebaseAuth.js';
+import { validateResponse } from '../middleware/validateResponse.js';
 
 const router = Router();
 
 /**
  * 👤 User Routes - Firebase Auth Protected Endpoints
  * All routes require Firebase authentication except leaderboard
+ * Role management is restricted to admins
  */
 
 // User Profile Routes
-router.get('/profile', authenticateFirebaseToken, UserController.getUserProfile);
-router.post('/profile', authenticateFirebaseToken, UserController.createOrUpdateProfile);
-router.patch('/profile', authenticateFirebaseToken, UserController.updateProfile);
-router.delete('/profile', authenticateFirebaseToken, UserController.deleteUser);
+router.get('/profile', validateResponse(API_ROUTES.getUserProfile), authenticateFirebaseToken, UserController.getUserProfile);
+router.post('/profile', validateResponse(API_ROUTES.createOrUpdateProfile), authenticateFirebaseToken, UserController.createOrUpdateProfile);
+router.patch('/profile', validateResponse(API_ROUTES.updateProfile), authenticateFirebaseToken, UserController.updateProfile);
+router.delete('/profile', validateResponse(API_ROUTES.deleteUser), authenticateFirebaseToken, UserController.deleteUser);
 
-// User Progress Routes
-router.get('/progress', authenticateFirebaseToken, UserController.getUserProgress);
-router.post('/progress', authenticateFirebaseToken, UserController.saveUserProgress);
+// User Progress Routes (writes are rejected; scoring owns progress and stats)
+router.get('/progress', validateResponse(API_ROUTES.getUserProgress), authenticateFirebaseToken, UserController.getUserProgress);
+router.post('/progress', validateResponse(API_ROUTES.saveUserProgress), authenticateFirebaseToken, UserController.saveUserProgress);
 
 // User Statistics Routes
-router.get('/stats', authenticateFirebaseToken, UserController.getUserStats);
-router.post('/stats/update', authenticateFirebaseToken, UserController.updateUserStats);
+router.get('/stats', validateResponse(API_ROUTES.getUserStats), authenticateFirebaseToken, UserController.getUserStats);
+router.post('/stats/update', validateResponse(API_ROUTES.updateUserStats), authenticateFirebaseToken, UserController.updateUserStats);
+
+// Attempt History Routes
+router.get('/attempts', validateResponse(API_ROUTES.getAttempts), authenticateFirebaseToken, UserController.getAttempts);
+router.get('/attempts/best', validateResponse(API_ROUTES.getBestAttempts), authenticateFirebaseToken, UserController.getBestAttempts);
+
+// Role Management (admin only)
+router.patch('/:uid/role', validateResponse(API_ROUTES.setUserRole), authenticateFirebaseToken, requireRole('admin'), UserController.setUserRole);
 
 // Leaderboard (optionally authenticated for user context)
-router.get('/leaderboard', optionalAuth, UserController.getLeaderboard);
+router.get('/leaderboard', validateResponse(API_ROUTES.getLeaderboard), optionalAuth, UserController.getLeaderboard);
 
 export default router;
@@ -1,83 +1,13 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
-import dotenv from 'dotenv';
-import { errorHandler } from './middleware/errorHandler';
-import { requestLogger } from './middleware/requestLogger';
-import imageRoutes from './routes/imageRoutes';
-import analysisRoutes from './routes/analysisRoutes';
-import userRoutes from './routes/userRoutes';
-import statusRoutes from './routes/statusRoutes';
-import { HealthResponse } from './types';
+// Load environment variables before any module reads them
+import 'dotenv/config';
+import { logger } from '@prompt-tool/core';
+import app, { corsOrigins } from './app';
 
-// Load environment variables
-dotenv.config();
-
-// Initialize Firebase Admin SDK
-import './config/firebase.js';
-
-const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Security middleware
-app.use(helmet({
-  crossOriginResourcePolicy: { policy: "cross-origin" },
-  contentSecurityPolicy: false // Allow inline scripts for development
-}));
-
-// CORS configuration
-const corsOrigins = process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : ['http://localhost:5173'];
-app.use(cors({
-  origin: corsOrigins,
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
-}));
-
-// Compression middleware
-app.use(compression());
-
-// Request parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-
-// Request logging middleware
-app.use(requestLogger);
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  const response: HealthResponse = {
-    status: 'OK', 
-    timestamp: new Date().toISOString(),
-    service: 'Prompt Tool Server',
-    version: '1.0.0'
-  };
-  res.status(200).json(response);
-});
-
-// API routes
-app.use('/api/images', imageRoutes);
-app.use('/api/analysis', analysisRoutes);
-app.use('/api/users', userRoutes);
-app.use('/api/status', statusRoutes);
-
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({ 
-    error: 'Route not found',
-    message: `Cannot ${req.method} ${req.originalUrl}`
-  });
-});
-
-// Error handling middleware
-app.use(errorHandler);
-
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 CORS origins: ${corsOrigins.join(', ')}`);
+  logger.info(`🚀 Server running on port ${PORT}`);
+  logger.info(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+  logger.info(`🔗 CORS origins: ${corsOrigins.join(', ')}`);
 });
-
-export default app;
@@ -0,0 +1,118 @@
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import { logger } from '@prompt-tool/core';
+import { db } from '../config/firebase.js';
+import { UserDataService } from './userDataService.js';
+import { timeFirestore } from './metricsService.js';
+import { ApiError, AttemptPage, AttemptQuery, AttemptRecord } from '../types/index.js';
+
+const ATTEMPTS_COLLECTION = 'attempts';
+
+interface AttemptCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Cursors point at the last attempt of a page: (createdAt, id) is unique
+ * and matches the query's sort order.
+ */
+export const encodeAttemptCursor = (attempt: AttemptRecord): string =>
+  Buffer.from(JSON.stringify({ createdAt: attempt.createdAt.toISOString(), id: attempt.id })).toString('base64url');
+
+export const decodeAttemptCursor = (cursor: string): AttemptCursor => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded?.id !== 'string' || isNaN(Date.parse(decoded?.createdAt))) {
+      throw new Error('Malformed cursor');
+    }
+    return decoded;
+  } catch {
+    throw new ApiError('Invalid cursor', 400, 'INVALID_CURSOR');
+  }
+};
+
+/**
+ * Convert an attempt document, unwrapping Timestamps
+ */
+const toAttempt = (doc: FirebaseFirestore.DocumentSnapshot): AttemptRecord => {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    userId: data.userId,
+    challengeId: data.challengeId,
+    prompt: data.prompt || '',
+    score: data.score ?? 0,
+    passed: !!data.passed,
+    feedback: data.feedback || [],
+    ...(data.service && { service: data.service }),
+    ...(data.imageRef && { imageRef: data.imageRef }),
+    createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt)
+  };
+};
+
+/**
+ * 📜 Attempt Service - Queries over the attempts collection
+ * Attempts are written by ScoringService; this service only reads them.
+ * Requires composite indexes on (userId, createdAt desc),
+ * (userId, challengeId, createdAt desc) and (userId, challengeId, score desc, createdAt).
+ */
+export class AttemptService {
+
+  /**
+   * Page through a user's attempts, newest first
+   * @param uid Firebase Auth UID
+   * @param query Optional challenge filter, cursor and page size
+   * @returns Promise<AttemptPage>
+   */
+  static async listAttempts(uid: string, query: AttemptQuery): Promise<AttemptPage> {
+    logger.info(`📜 Fetching attempts for user: ${uid} (challenge=${query.challengeId ?? 'all'}, limit=${query.limit})`);
+
+    let ref: FirebaseFirestore.Query = db.collection(ATTEMPTS_COLLECTION).where('userId', '==', uid);
+    if (query.challengeId !== undefined) {
+      ref = ref.where('challengeId', '==', query.challengeId);
+    }
+    ref = ref.orderBy('createdAt', 'desc').orderBy(FieldPath.documentId(), 'desc');
+
+    if (query.cursor) {
+      const cursor = decodeAttemptCursor(query.cursor);
+      ref = ref.startAfter(Timestamp.fromDate(new Date(cursor.createdAt)), cursor.id);
+    }
+
+    // Fetch one extra to learn whether another page exists
+    const snapshot = await timeFirestore('query', ATTEMPTS_COLLECTION, () => ref.limit(query.limit + 1).get());
+    const attempts = snapshot.docs.slice(0, query.limit).map(toAttempt);
+    const hasMore = snapshot.docs.length > query.limit;
+
+    logger.info(`✅ Loaded ${attempts.length} attempts for user: ${uid}`);
+    return {
+      attempts,
+      nextCursor: hasMore ? encodeAttemptCursor(attempts[attempts.length - 1]) : null
+    };
+  }
+
+  /**
+   * Best-scoring attempt for each challenge the user has played.
+   * Ties go to the earliest attempt.
+   * @param uid Firebase Auth UID
+   * @returns Promise<AttemptRecord[]> ordered by challenge id
+   */
+  static async getBestAttempts(uid: string): Promise<AttemptRecord[]> {
+    logger.info(`🏅 Fetching best attempts for user: ${uid}`);
+
+    const progress = await UserDataService.getUserProgress(uid);
+    const challengeIds = Object.keys(progress || {}).map(Number).sort((a, b) => a - b);
+
+    const best = await Promise.all(challengeIds.map(async challengeId => {
+      const snapshot = await timeFirestore('query', ATTEMPTS_COLLECTION, () => db.collection(ATTEMPTS_COLLECTION)
+        .where('userId', '==', uid)
+        .where('challengeId', '==', challengeId)
+        .orderBy('score', 'desc')
+        .orderBy('createdAt', 'asc')
+        .limit(1)
+        .get());
+      return snapshot.empty ? null : toAttempt(snapshot.docs[0]);
+    }));
+
+    return best.filter((attempt): attempt is AttemptRecord => attempt !== null);
+  }
+}
@@ -0,0 +1,336 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_CHALLENGES, emptyRubric, logger, normalizeRubric, resolveChallengeImageSource } from '@prompt-tool/core';
+import { db } from '../config/firebase.js';
+import { corsOrigins } from '../config/origins.js';
+import { ApiError, Challenge, ChallengeImageUpload, ChallengeInput } from '../types/index.js';
+import { timeFirestore } from './metricsService.js';
+
+const CHALLENGES_COLLECTION = 'challenges';
+
+/**
+ * Directory where instructor-uploaded target images are written
+ */
+const getUploadDir = (): string => process.env.CHALLENGE_UPLOAD_DIR || path.resolve('uploads', 'challenges');
+
+// Concurrent creates can race for the next id; the loser retries with a fresh read
+const MAX_CREATE_ATTEMPTS = 5;
+
+// gRPC status Firestore raises when create() finds the document already there
+const ALREADY_EXISTS = 6;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+/**
+ * 🎯 Challenge Service - Firestore Operations
+ * Serves the challenge catalog so new missions don't require a client release
+ */
+export class ChallengeService {
+
+  /**
+   * Get all challenges ordered by their position in the mission path.
+   * Seeds the default catalog when the collection is empty.
+   * @param includeArchived Include retired challenges
+   * @returns Promise<Challenge[]>
+   */
+  static async getChallenges(includeArchived: boolean = false): Promise<Challenge[]> {
+    try {
+      logger.info('🎯 Fetching challenge catalog...');
+
+      const snapshot = await timeFirestore('query', CHALLENGES_COLLECTION, () => db.collection(CHALLENGES_COLLECTION).get());
+
+      if (snapshot.empty) {
+        logger.info('🌱 Challenge catalog empty, seeding defaults');
+        return await this.seedDefaultChallenges();
+      }
+
+      const challenges = snapshot.docs
+        .map(doc => this.toChallenge(doc.data()))
+        .filter(challenge => includeArchived || challenge.status !== 'archived');
+      challenges.sort((a, b) => (a.order ?? a.id) - (b.order ?? b.id));
+
+      logger.info(`✅ Loaded ${challenges.length} challenges`);
+      return challenges;
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logger.error('❌ Error fetching challenges', { error });
+      throw new Error(`Failed to fetch challenges: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a single challenge by id. Archived challenges are still returned so
+   * existing progress can reference them.
+   * @param id Challenge id
+   * @returns Promise<Challenge | null>
+   */
+  static async getChallengeById(id: number): Promise<Challenge | null> {
+    try {
+      logger.info(`🎯 Fetching challenge: ${id}`);
+
+      const challengeDoc = await timeFirestore('get', CHALLENGES_COLLECTION, () => db.collection(CHALLENGES_COLLECTION).doc(String(id)).get());
+
+      if (!challengeDoc.exists) {
+        // The catalog may not have been seeded yet
+        if (DEFAULT_CHALLENGES.some(challenge => challenge.id === id)) {
+          const challenges = await this.getChallenges();
+          return challenges.find(challenge => challenge.id === id) || null;
+        }
+
+        logger.info(`❓ Challenge not found: ${id}`);
+        return null;
+      }
+
+      return this.toChallenge(challengeDoc.data());
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logger.error(`❌ Error fetching challenge ${id}`, { error });
+      throw new Error(`Failed to fetch challenge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a new challenge. The id is allocated after the highest existing id;
+   * create() refuses an id another request took first, and we read again.
+   * @param input Challenge fields
+   * @param createdBy UID of the authoring instructor
+   * @returns Promise<Challenge>
+   */
+  static async createChallenge(input: ChallengeInput, createdBy: string): Promise<Challenge> {
+    try {
+      logger.info(`🆕 Creating challenge: ${input.name}`);
+
+      for (let attempt = 1; ; attempt++) {
+        const existing = await this.getChallenges(true);
+        const id = existing.reduce((max, challenge) => Math.max(max, challenge.id), 0) + 1;
+        const now = new Date();
+
+        const challenge: Challenge = {
+          id,
+          name: input.name || '',
+          description: input.description || '',
+          imageUrl: input.imageUrl || '',
+          order: input.order ?? existing.reduce((max, c) => Math.max(max, c.order ?? c.id), 0) + 1,
+          passThreshold: input.passThreshold ?? 80,
+          rubric: input.rubric || emptyRubric(),
+          status: 'active',
+          createdBy,
+          createdAt: now,
+          updatedAt: now
+        };
+
+        try {
+          await timeFirestore('create', CHALLENGES_COLLECTION, () => db.collection(CHALLENGES_COLLECTION).doc(String(id)).create(challenge));
+        } catch (error) {
+          if ((error as { code?: unknown }).code !== ALREADY_EXISTS) throw error;
+          if (attempt === MAX_CREATE_ATTEMPTS) {
+            throw new ApiError('Could not allocate a challenge id, try again', 409, 'CONFLICT');
+          }
+          logger.warn(`⚠️ Challenge id ${id} was taken, retrying`, { attempt });
+          continue;
+        }
+
+        logger.info(`✅ Challenge created: ${id}`);
+        return challenge;
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logger.error('❌ Error creating challenge', { error });
+      throw new Error(`Failed to create challenge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update an existing challenge
+   * @param id Challenge id
+   * @param updates Fields to change
+   * @returns Promise<Challenge | null> null when the challenge does not exist
+   */
+  static async updateChallenge(id: number, updates: ChallengeInput): Promise<Challenge | null> {
+    try {
+      logger.info(`✏️ Updating challenge: ${id}`);
+
+      const challengeRef = db.collection(CHALLENGES_COLLECTION).doc(String(id));
+      const challengeDoc = await timeFirestore('get', CHALLENGES_COLLECTION, () => challengeRef.get());
+
+      if (!challengeDoc.exists) {
+        return null;
+      }
+
+      // Firestore rejects undefined values, so only send provided fields
+      const updateData: Record<string, any> = { updatedAt: new Date() };
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined) updateData[key] = value;
+      });
+
+      await timeFirestore('update', CHALLENGES_COLLECTION, () => challengeRef.update(updateData));
+
+      const updatedDoc = await timeFirestore('get', CHALLENGES_COLLECTION, () => challengeRef.get());
+      logger.info(`✅ Challenge updated: ${id}`);
+      return this.toChallenge(updatedDoc.data());
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logger.error(`❌ Error updating challenge ${id}`, { error });
+      throw new Error(`Failed to update challenge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Retire a challenge. The document is kept so students' progress for it
+   * stays valid; it is only hidden from the catalog listing.
+   * @param id Challenge id
+   * @returns Promise<Challenge | null> null when the challenge does not exist
+   */
+  static async archiveChallenge(id: number): Promise<Challenge | null> {
+    try {
+      logger.info(`📦 Archiving challenge: ${id}`);
+
+      const challengeRef = db.collection(CHALLENGES_COLLECTION).doc(String(id));
+      const challengeDoc = await timeFirestore('get', CHALLENGES_COLLECTION, () => challengeRef.get());
+
+      if (!challengeDoc.exists) {
+        return null;
+      }
+
+      const now = new Date();
+      await timeFirestore('update', CHALLENGES_COLLECTION, () => challengeRef.update({ status: 'archived', archivedAt: now, updatedAt: now }));
+
+      const archivedDoc = await timeFirestore('get', CHALLENGES_COLLECTION, () => challengeRef.get());
+      logger.info(`✅ Challenge archived: ${id}`);
+      return this.toChallenge(archivedDoc.data());
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logger.error(`❌ Error archiving challenge ${id}`, { error });
+      throw new Error(`Failed to archive challenge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a challenge outright. Only for undoing a create that couldn't
+   * finish; published challenges are archived so attempts keep their reference.
+   * @param id Challenge id
+   */
+  static async deleteChallenge(id: number): Promise<void> {
+    logger.info(`🗑️ Deleting challenge: ${id}`);
+    await timeFirestore('delete', CHALLENGES_COLLECTION, () => db.collection(CHALLENGES_COLLECTION).doc(String(id)).delete());
+  }
+
+  /**
+   * Store an uploaded target image for a challenge, replacing any previous one
+   * @param id Challenge id
+   * @param image Uploaded image
+   */
+  static async saveChallengeImage(id: number, image: ChallengeImageUpload): Promise<void> {
+    const extension = IMAGE_EXTENSIONS[image.mimeType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${image.mimeType}`);
+    }
+
+    const uploadDir = getUploadDir();
+    await fs.mkdir(uploadDir, { recursive: true });
+
+    // Remove images stored under a different extension
+    await Promise.all(Object.values(IMAGE_EXTENSIONS)
+      .filter(ext => ext !== extension)
+      .map(ext => fs.rm(path.join(uploadDir, `${id}.${ext}`), { force: true })));
+
+    await fs.writeFile(path.join(uploadDir, `${id}.${extension}`), image.buffer);
+    logger.info(`🖼️ Stored target image for challenge ${id} (${image.buffer.length} bytes)`);
+  }
+
+  /**
+   * Load the uploaded target image for a challenge
+   * @param id Challenge id
+   * @returns Promise<ChallengeImageUpload | null>
+   */
+  static async getChallengeImage(id: number): Promise<ChallengeImageUpload | null> {
+    for (const [mimeType, extension] of Object.entries(IMAGE_EXTENSIONS)) {
+      try {
+        const buffer = await fs.readFile(path.join(getUploadDir(), `${id}.${extension}`));
+        return { buffer, mimeType };
+      } catch {
+        // Try the next extension
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Load a challenge target image as base64. Uploaded images come straight
+   * from storage; anything else is fetched only from the frontend origins.
+   * @param imageUrl The challenge's imageUrl
+   * @param preferredOrigin Frontend to resolve relative URLs against, if it is one of ours
+   * @returns Promise<string>
+   */
+  static async loadImageBase64(imageUrl: string, preferredOrigin?: string): Promise<string> {
+    const source = resolveChallengeImageSource(imageUrl, corsOrigins, preferredOrigin);
+
+    if (source.type === 'upload') {
+      const image = await this.getChallengeImage(source.challengeId);
+      if (!image) {
+        throw new ApiError('Challenge image not found', 404, 'IMAGE_NOT_FOUND');
+      }
+      return image.buffer.toString('base64');
+    }
+
+    logger.debug(`🔗 Fetching challenge image from ${source.url}`);
+
+    // A redirect could lead off the allowed origins
+    const response = await fetch(source.url, { redirect: 'manual' });
+    if (!response.ok) {
+      throw new ApiError(`Failed to fetch image: ${response.statusText}`, 404, 'IMAGE_NOT_FOUND');
+    }
+    return Buffer.from(await response.arrayBuffer()).toString('base64');
+  }
+
+  /**
+   * Write the default catalog to Firestore
+   * @returns Promise<Challenge[]>
+   */
+  private static async seedDefaultChallenges(): Promise<Challenge[]> {
+    const now = new Date();
+    const batch = db.batch();
+
+    const challenges: Challenge[] = DEFAULT_CHALLENGES.map(challenge => ({
+      ...challenge,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    }));
+
+    challenges.forEach(challenge => {
+      batch.set(db.collection(CHALLENGES_COLLECTION).doc(String(challenge.id)), challenge);
+    });
+
+    await timeFirestore('batch', CHALLENGES_COLLECTION, () => batch.commit());
+    logger.info(`🌱 Seeded ${challenges.length} default challenges`);
+
+    return challenges;
+  }
+
+  /**
+   * Convert a Firestore document into a Challenge, unwrapping Timestamps
+   */
+  private static toChallenge(data: FirebaseFirestore.DocumentData | undefined): Challenge {
+    const toDate = (value: any) => value?.toDate ? value.toDate() : value;
+
+    return {
+      id: Number(data?.id),
+      name: data?.name || '',
+      imageUrl: data?.imageUrl || '',
+      description: data?.description || '',
+      order: data?.order ?? Number(data?.id),
+      passThreshold: data?.passThreshold ?? 80,
+      rubric: normalizeRubric(data?.rubric),
+      status: data?.status || 'active',
+      createdBy: data?.createdBy,
+      createdAt: toDate(data?.createdAt),
+      updatedAt: toDate(data?.updatedAt),
+      archivedAt: toDate(data?.archivedAt)
+    };
+  }
+}
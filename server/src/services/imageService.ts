@@ -0,0 +1,21 @@
+import {
+  createDefaultImageProviderRegistry,
+  DEFAULT_IMAGE_PROVIDER,
+  ImageProviderRegistry
+} from '@prompt-tool/core';
+import { geminiKeyRunner } from './geminiKeyManager.js';
+
+let imageProviderRegistry: ImageProviderRegistry | null = null;
+
+/**
+ * Get the shared provider registry
+ */
+export const getImageProviderRegistry = (): ImageProviderRegistry => {
+  if (!imageProviderRegistry) {
+    imageProviderRegistry = createDefaultImageProviderRegistry(
+      geminiKeyRunner,
+      process.env.DEFAULT_IMAGE_PROVIDER || DEFAULT_IMAGE_PROVIDER
+    );
+  }
+  return imageProviderRegistry;
+};
@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { detectImageMimeType, logger } from '@prompt-tool/core';
+import { storage } from '../config/firebase.js';
+import { ApiError, StoredImage } from '../types/index.js';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+// Image ids are UUIDs; anything else never reaches a file path or object key
+const IMAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 🖼️ Image Storage - Where generated images live
+ * Selected with IMAGE_STORAGE:
+ * - "local" (default): files under IMAGE_STORAGE_DIR
+ * - "firebase": Firebase Storage, in FIREBASE_STORAGE_BUCKET or the project's default bucket
+ */
+export interface ImageStorage {
+  saveImage(id: string, image: StoredImage): Promise<void>;
+  getImage(id: string): Promise<StoredImage | null>;
+}
+
+/**
+ * Check that an image id is one this server could have issued
+ */
+export const isValidImageId = (id: string): boolean => IMAGE_ID_PATTERN.test(id);
+
+/**
+ * Local disk storage for development and single-instance deployments
+ */
+export class LocalImageStorage implements ImageStorage {
+  constructor(private directory: string) {}
+
+  async saveImage(id: string, image: StoredImage): Promise<void> {
+    const extension = IMAGE_EXTENSIONS[image.mimeType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${image.mimeType}`);
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${id}.${extension}`), image.buffer);
+    if (image.ownerUid) {
+      await fs.writeFile(path.join(this.directory, `${id}.json`), JSON.stringify({ ownerUid: image.ownerUid }));
+    }
+  }
+
+  async getImage(id: string): Promise<StoredImage | null> {
+    for (const [mimeType, extension] of Object.entries(IMAGE_EXTENSIONS)) {
+      try {
+        const buffer = await fs.readFile(path.join(this.directory, `${id}.${extension}`));
+        return { buffer, mimeType, ownerUid: await this.readOwner(id) };
+      } catch {
+        // Try the next extension
+      }
+    }
+    return null;
+  }
+
+  private async readOwner(id: string): Promise<string | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, `${id}.json`), 'utf8')).ownerUid;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Firebase Storage backed images
+ */
+export class FirebaseImageStorage implements ImageStorage {
+  constructor(private bucketName?: string) {}
+
+  private file(id: string) {
+    return storage.bucket(this.bucketName).file(`generated/${id}`);
+  }
+
+  async saveImage(id: string, image: StoredImage): Promise<void> {
+    await this.file(id).save(image.buffer, {
+      contentType: image.mimeType,
+      metadata: image.ownerUid ? { metadata: { ownerUid: image.ownerUid } } : undefined,
+      resumable: false
+    });
+  }
+
+  async getImage(id: string): Promise<StoredImage | null> {
+    const file = this.file(id);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    const [[buffer], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+    return {
+      buffer,
+      mimeType: metadata.contentType || detectImageMimeType(buffer),
+      ownerUid: metadata.metadata?.ownerUid as string | undefined
+    };
+  }
+}
+
+let imageStorage: ImageStorage | null = null;
+
+/**
+ * Get the image storage configured for this environment
+ */
+export const getImageStorage = (): ImageStorage => {
+  if (!imageStorage) {
+    const storageType = process.env.IMAGE_STORAGE || 'local';
+    logger.info(`🖼️ Using ${storageType} image storage`);
+
+    imageStorage = storageType === 'firebase'
+      ? new FirebaseImageStorage(process.env.FIREBASE_STORAGE_BUCKET)
+      : new LocalImageStorage(process.env.IMAGE_STORAGE_DIR || path.resolve('uploads', 'generated'));
+  }
+  return imageStorage;
+};
+
+/**
+ * Store a generated image under a new id
+ * @param imageBase64 Image bytes as base64
+ * @param ownerUid UID of the signed-in user who generated it
+ * @returns Promise<string> The image id
+ */
+export const saveGeneratedImage = async (imageBase64: string, ownerUid?: string): Promise<string> => {
+  const buffer = Buffer.from(imageBase64, 'base64');
+  if (buffer.length === 0) {
+    throw new ApiError('Generated image is empty', 500, 'EMPTY_IMAGE');
+  }
+
+  const id = randomUUID();
+  await getImageStorage().saveImage(id, {
+    buffer,
+    mimeType: detectImageMimeType(buffer),
+    ...(ownerUid && { ownerUid })
+  });
+
+  logger.info(`🖼️ Stored generated image ${id} (${buffer.length} bytes)`);
+  return id;
+};
+
+/**
+ * Load an image the user generated as base64 for analysis. Images generated
+ * by someone else, or while signed out, can't be scored.
+ * @param id Image id from /api/images/generate
+ * @param uid UID of the user submitting it
+ * @returns Promise<string>
+ */
+export const loadGeneratedImageBase64 = async (id: string, uid: string): Promise<string> => {
+  const image = isValidImageId(id) ? await getImageStorage().getImage(id) : null;
+  if (!image) {
+    throw new ApiError('Generated image not found', 404, 'IMAGE_NOT_FOUND');
+  }
+  if (image.ownerUid !== uid) {
+    throw new ApiError('Generated image belongs to another user', 403, 'IMAGE_NOT_OWNED');
+  }
+  return image.buffer.toString('base64');
+};
@@ -0,0 +1,261 @@
+/**
+ * 📈 Metrics Service
+ * Counters and histograms for GET /metrics, rendered in the Prometheus text
+ * format (which OpenMetrics scrapers also read). The handful of metric types
+ * we need are small enough to keep here rather than pull in a client library.
+ */
+
+import { GeminiKeyBlockEvent, GeminiKeyManager } from '@prompt-tool/core';
+
+type Labels = Record<string, string | number>;
+
+// Prometheus' default buckets, in seconds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabel = (value: string | number): string =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatNumber = (value: number): string =>
+  value === Infinity ? '+Inf' : String(value);
+
+// One series per distinct label set
+const seriesKey = (labels: Labels): string =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  protected abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.values.set(key, series);
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * Gauge whose values are read when /metrics is scraped
+ */
+export class Gauge extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string, private collect?: (gauge: Gauge) => void | Promise<void>) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(seriesKey(labels), { labels, value });
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.collect) return;
+    this.values.clear();
+    await this.collect(this);
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Time an async call and observe its duration in seconds, whether it resolves or rejects
+   */
+  async time<T>(labels: Labels, run: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await run();
+    } finally {
+      this.observe(labels, (performance.now() - start) / 1000);
+    }
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map((bound, i) => `${this.name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${counts[i]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`
+    ]);
+  }
+}
+
+// HTTP, recorded by requestLogger
+export const httpRequestsTotal = new Counter(
+  'http_requests_total',
+  'HTTP requests by method, route and status'
+);
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency by method, route and status'
+);
+
+// Images and scoring
+export const imageGenerationsTotal = new Counter(
+  'image_generations_total',
+  'Image generations by provider and outcome (success or error)'
+);
+export const analysisScore = new Histogram(
+  'analysis_score',
+  'Similarity scores (0-100) by analyzer',
+  [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+);
+
+// Gemini key pool
+export const geminiKeyBlocksTotal = new Counter(
+  'gemini_key_blocks_total',
+  'Gemini keys taken out of rotation, by reason (rate-limit or errors)'
+);
+
+// Firestore
+export const firestoreOperationDuration = new Histogram(
+  'firestore_operation_duration_seconds',
+  'Firestore call latency by operation and collection'
+);
+
+let keyManagerSource: (() => GeminiKeyManager | null) | null = null;
+
+const geminiKeys = new Gauge('gemini_keys', 'Gemini keys by state (available or blocked)', async gauge => {
+  const keyManager = keyManagerSource?.();
+  if (!keyManager) return;
+
+  const status = await keyManager.getStatus();
+  gauge.set({ state: 'available' }, status.availableKeys);
+  gauge.set({ state: 'blocked' }, status.blockedKeys);
+});
+
+const METRICS: Metric[] = [
+  httpRequestsTotal,
+  httpRequestDuration,
+  imageGenerationsTotal,
+  analysisScore,
+  geminiKeyBlocksTotal,
+  geminiKeys,
+  firestoreOperationDuration
+];
+
+/**
+ * Run a provider's generate and count it as a success or an error
+ */
+export const recordImageGeneration = async <T>(provider: string, generate: () => Promise<T>): Promise<T> => {
+  try {
+    const result = await generate();
+    imageGenerationsTotal.inc({ provider, outcome: 'success' });
+    return result;
+  } catch (error) {
+    imageGenerationsTotal.inc({ provider, outcome: 'error' });
+    throw error;
+  }
+};
+
+/**
+ * Time a Firestore call by operation and collection. Batches and transactions
+ * can span collections, so they are recorded under the collection they start from.
+ */
+export const timeFirestore = <T>(operation: string, collection: string, run: () => Promise<T>): Promise<T> =>
+  firestoreOperationDuration.time({ operation, collection }, run);
+
+/**
+ * Count a key block reported by GeminiKeyManager
+ */
+export const recordKeyBlock = (event: GeminiKeyBlockEvent): void => {
+  geminiKeyBlocksTotal.inc({ reason: event.reason });
+};
+
+/**
+ * Read key pool gauges and Gemini call metrics from the key manager, once it exists
+ */
+export const watchGeminiKeyManager = (source: () => GeminiKeyManager | null): void => {
+  keyManagerSource = source;
+};
+
+/**
+ * Gemini call latency and outcomes as the key manager counts them, with its
+ * millisecond buckets converted to seconds
+ */
+const renderGeminiCalls = (keyManager: GeminiKeyManager): string => {
+  const { operations } = keyManager.getOperationMetrics();
+  if (operations.length === 0) return '';
+
+  const calls = new Counter('gemini_calls_total', 'Gemini calls by operation, outcome and error class; every retry counts');
+  const lines: string[] = [
+    '# HELP gemini_call_duration_seconds Gemini call latency by operation',
+    '# TYPE gemini_call_duration_seconds histogram'
+  ];
+
+  for (const operation of operations) {
+    calls.inc({ operation: operation.operation, outcome: 'success' }, operation.successes);
+    for (const [errorClass, count] of Object.entries(operation.errorsByClass)) {
+      calls.inc({ operation: operation.operation, outcome: 'error', error_class: errorClass }, count ?? 0);
+    }
+
+    for (const bucket of operation.latencyMs.buckets) {
+      const le = bucket.le === null ? '+Inf' : formatNumber(bucket.le / 1000);
+      lines.push(`gemini_call_duration_seconds_bucket${formatLabels({ operation: operation.operation, le })} ${bucket.count}`);
+    }
+    lines.push(`gemini_call_duration_seconds_sum${formatLabels({ operation: operation.operation })} ${operation.latencyMs.sumMs / 1000}`);
+    lines.push(`gemini_call_duration_seconds_count${formatLabels({ operation: operation.operation })} ${operation.latencyMs.count}`);
+  }
+
+  return `${calls.render()}\n${lines.join('\n')}`;
+};
+
+/**
+ * Everything in the Prometheus text format
+ */
+export const renderMetrics = async (): Promise<string> => {
+  await geminiKeys.refresh();
+
+  const sections = METRICS.map(metric => metric.render());
+  const keyManager = keyManagerSource?.();
+  if (keyManager) {
+    sections.push(renderGeminiCalls(keyManager));
+  }
+
+  return sections.filter(Boolean).join('\n') + '\n';
+};
@@ -0,0 +1,166 @@
+import { db } from '../config/firebase.js';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, logger } from '@prompt-tool/core';
+import { ApiError, FeedbackPersona, FeedbackPersonaInput } from '../types/index.js';
+import { timeFirestore } from './metricsService.js';
+import { UserDataService } from './userDataService.js';
+
+const PERSONAS_COLLECTION = 'personas';
+
+/**
+ * Persona id derived from its name, e.g. "Gentle Mentor" -> "gentle-mentor"
+ */
+export const toPersonaId = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * 🗣️ Persona Service - Firestore Operations
+ * Serves the built-in feedback personas plus instructor-defined ones
+ * from the `personas` collection
+ */
+export class PersonaService {
+
+  /**
+   * List built-in personas followed by instructor-defined ones
+   * @returns Promise<FeedbackPersona[]>
+   */
+  static async getPersonas(): Promise<FeedbackPersona[]> {
+    try {
+      logger.info('🗣️ Fetching feedback personas...');
+
+      const snapshot = await timeFirestore('query', PERSONAS_COLLECTION, () => db.collection(PERSONAS_COLLECTION).get());
+      const custom = snapshot.docs
+        .map(doc => this.toPersona(doc.id, doc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return [...BUILT_IN_PERSONAS, ...custom];
+    } catch (error) {
+      logger.error('❌ Error fetching personas', { error });
+      throw new Error(`Failed to fetch personas: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a built-in or instructor-defined persona by id
+   * @param id Persona id
+   * @returns Promise<FeedbackPersona | null>
+   */
+  static async getPersonaById(id: string): Promise<FeedbackPersona | null> {
+    const builtIn = BUILT_IN_PERSONAS.find(persona => persona.id === id);
+    if (builtIn) return builtIn;
+
+    try {
+      const personaDoc = await timeFirestore('get', PERSONAS_COLLECTION, () => db.collection(PERSONAS_COLLECTION).doc(id).get());
+      return personaDoc.exists ? this.toPersona(id, personaDoc.data()) : null;
+    } catch (error) {
+      logger.error(`❌ Error fetching persona ${id}`, { error });
+      throw new Error(`Failed to fetch persona: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create an instructor-defined persona. The id comes from its name.
+   * @param input Persona fields
+   * @param createdBy UID of the authoring instructor
+   * @returns Promise<FeedbackPersona>
+   */
+  static async createPersona(input: FeedbackPersonaInput, createdBy: string): Promise<FeedbackPersona> {
+    const id = toPersonaId(input.name);
+    if (!id) {
+      throw new ApiError('Persona name must contain letters or digits', 400, 'INVALID_PERSONA_NAME');
+    }
+    if (await this.getPersonaById(id)) {
+      throw new ApiError(`A persona with id "${id}" already exists`, 409, 'PERSONA_EXISTS');
+    }
+
+    try {
+      logger.info(`🆕 Creating persona: ${id}`);
+
+      const persona: FeedbackPersona = {
+        id,
+        ...input,
+        builtIn: false,
+        createdBy,
+        createdAt: new Date()
+      };
+
+      await timeFirestore('set', PERSONAS_COLLECTION, () => db.collection(PERSONAS_COLLECTION).doc(id).set(persona));
+      logger.info(`✅ Persona created: ${id}`);
+
+      return persona;
+    } catch (error) {
+      logger.error(`❌ Error creating persona ${id}`, { error });
+      throw new Error(`Failed to create persona: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete an instructor-defined persona. Users who picked it fall back
+   * to the default persona.
+   * @param id Persona id
+   * @returns Promise<boolean> false when no such persona exists
+   */
+  static async deletePersona(id: string): Promise<boolean> {
+    if (BUILT_IN_PERSONAS.some(persona => persona.id === id)) {
+      throw new ApiError('Built-in personas cannot be deleted', 400, 'PERSONA_BUILT_IN');
+    }
+
+    try {
+      logger.info(`🗑️ Deleting persona: ${id}`);
+
+      const personaRef = db.collection(PERSONAS_COLLECTION).doc(id);
+      if (!(await timeFirestore('get', PERSONAS_COLLECTION, () => personaRef.get())).exists) {
+        return false;
+      }
+
+      await timeFirestore('delete', PERSONAS_COLLECTION, () => personaRef.delete());
+      return true;
+    } catch (error) {
+      logger.error(`❌ Error deleting persona ${id}`, { error });
+      throw new Error(`Failed to delete persona: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Pick the persona for an analysis: the requested one, else the user's
+   * profile setting, else the default
+   * @param uid Firebase Auth UID
+   * @param requestedId Persona id sent with the request
+   * @returns Promise<FeedbackPersona>
+   */
+  static async resolvePersona(uid: string, requestedId?: string): Promise<FeedbackPersona> {
+    if (requestedId) {
+      const requested = await this.getPersonaById(requestedId);
+      if (!requested) {
+        throw new ApiError(`Unknown feedback persona: ${requestedId}`, 400, 'UNKNOWN_PERSONA');
+      }
+      return requested;
+    }
+
+    try {
+      const profileId = (await UserDataService.getUserById(uid))?.feedbackPersona;
+      const saved = profileId ? await this.getPersonaById(profileId) : null;
+      if (saved) return saved;
+    } catch (error) {
+      logger.warn('⚠️ Could not load the saved feedback persona, using the default', { error });
+    }
+
+    return BUILT_IN_PERSONAS.find(persona => persona.id === DEFAULT_PERSONA_ID)!;
+  }
+
+  /**
+   * Convert a Firestore document into a FeedbackPersona
+   */
+  private static toPersona(id: string, data: FirebaseFirestore.DocumentData | undefined): FeedbackPersona {
+    return {
+      id,
+      name: data?.name || id,
+      tone: data?.tone || 'neutral',
+      language: data?.language || 'English',
+      verbosity: data?.verbosity || 'standard',
+      instructions: data?.instructions || undefined,
+      builtIn: false,
+      createdBy: data?.createdBy,
+      createdAt: data?.createdAt?.toDate ? data.createdAt.toDate() : data?.createdAt
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { applyAttempt, applyStats, isChallengeLocked, logger } from '@prompt-tool/core';
+import { db } from '../config/firebase.js';
+import { ChallengeService } from './challengeService.js';
+import { timeFirestore } from './metricsService.js';
+import { UserDataService } from './userDataService.js';
+import {
+  ApiError,
+  AttemptRecord,
+  Challenge,
+  ChallengeProgress,
+  ImageService,
+  ScoringResult,
+  UserStats
+} from '../types/index.js';
+
+const ATTEMPTS_COLLECTION = 'attempts';
+const USER_PROGRESS_COLLECTION = 'userProgress';
+const USER_STATS_COLLECTION = 'userStats';
+
+export interface AttemptInput {
+  prompt: string;
+  score: number;
+  feedback: string[];
+  service?: ImageService;
+  imageRef?: string;
+}
+
+/**
+ * Secret used to sign scoring results
+ */
+const getSigningSecret = (): string => {
+  const secret = process.env.RESULT_SIGNING_SECRET;
+  if (!secret) {
+    throw new ApiError('RESULT_SIGNING_SECRET is not configured', 500, 'CONFIG_ERROR');
+  }
+  return secret;
+};
+
+/**
+ * Convert Firestore Timestamps in stored progress back to Dates
+ */
+const fromStoredProgress = (stored: Record<string, any>): Record<number, ChallengeProgress> => {
+  const toDate = (value: any) => value?.toDate ? value.toDate() : value;
+  const progress: Record<number, ChallengeProgress> = {};
+
+  Object.entries(stored).forEach(([challengeId, entry]) => {
+    progress[Number(challengeId)] = {
+      ...entry,
+      ...(entry.completedAt && { completedAt: toDate(entry.completedAt) })
+    };
+  });
+
+  return progress;
+};
+
+/**
+ * 🏁 Scoring Service - Server-authoritative attempt recording
+ * The only writer of challenge progress and user stats. Scores come from
+ * analysis run on the server, never from the client.
+ */
+export class ScoringService {
+
+  /**
+   * Refuse attempts at a challenge the user hasn't reached on the mission path
+   * @param uid Firebase Auth UID
+   * @param challenge Challenge being attempted
+   * @throws ApiError CHALLENGE_LOCKED
+   */
+  static async assertChallengeUnlocked(uid: string, challenge: Challenge): Promise<void> {
+    const [catalog, progress] = await Promise.all([
+      ChallengeService.getChallenges(),
+      UserDataService.getUserProgress(uid)
+    ]);
+
+    if (isChallengeLocked(progress || {}, catalog, challenge.id)) {
+      throw new ApiError('Challenge is locked; pass the previous one first', 403, 'CHALLENGE_LOCKED');
+    }
+  }
+
+  /**
+   * Record a scored attempt: persist it, update the user's progress, streak
+   * and stats in one transaction, and return the signed outcome.
+   * @param uid Firebase Auth UID
+   * @param challenge Challenge the attempt was made against
+   * @param input Prompt, server-computed score and feedback
+   * @returns Promise<ScoringResult>
+   */
+  static async recordAttempt(uid: string, challenge: Challenge, input: AttemptInput): Promise<ScoringResult> {
+    // Fail before writing anything if results can't be signed
+    getSigningSecret();
+
+    logger.info(`🏁 Recording attempt: user=${uid}, challenge=${challenge.id}, score=${input.score}`);
+
+    const catalog = await ChallengeService.getChallenges();
+    const progressRef = db.collection(USER_PROGRESS_COLLECTION).doc(uid);
+    const statsRef = db.collection(USER_STATS_COLLECTION).doc(uid);
+    const attemptRef = db.collection(ATTEMPTS_COLLECTION).doc();
+    const now = new Date();
+
+    const { outcome, stats } = await timeFirestore('transaction', USER_PROGRESS_COLLECTION, () => db.runTransaction(async transaction => {
+      const [progressDoc, statsDoc] = await Promise.all([
+        transaction.get(progressRef),
+        transaction.get(statsRef)
+      ]);
+
+      const outcome = applyAttempt(
+        fromStoredProgress(progressDoc.data()?.progress || {}),
+        catalog,
+        challenge,
+        input.score,
+        now
+      );
+      const stats = applyStats(
+        uid,
+        statsDoc.exists ? statsDoc.data() as UserStats : null,
+        outcome,
+        input.score,
+        now
+      );
+
+      const attempt: Omit<AttemptRecord, 'id'> = {
+        userId: uid,
+        challengeId: challenge.id,
+        prompt: input.prompt,
+        score: input.score,
+        passed: outcome.passed,
+        feedback: input.feedback,
+        ...(input.service && { service: input.service }),
+        ...(input.imageRef && { imageRef: input.imageRef }),
+        createdAt: now
+      };
+
+      transaction.set(attemptRef, attempt);
+      transaction.set(progressRef, { userId: uid, progress: outcome.progress, lastUpdated: now });
+      transaction.set(statsRef, stats);
+
+      return { outcome, stats };
+    }));
+
+    const result: Omit<ScoringResult, 'signature'> = {
+      attemptId: attemptRef.id,
+      userId: uid,
+      challengeId: challenge.id,
+      score: input.score,
+      passed: outcome.passed,
+      justCompleted: outcome.justCompleted,
+      streakChange: outcome.streakChange,
+      progress: outcome.progress,
+      stats,
+      issuedAt: now.toISOString()
+    };
+
+    logger.info(`✅ Attempt recorded: ${attemptRef.id} (passed=${outcome.passed})`);
+    return { ...result, signature: this.signResult(result) };
+  }
+
+  /**
+   * HMAC-SHA256 over the fields that identify an attempt's outcome
+   */
+  static signResult(result: Omit<ScoringResult, 'signature'>): string {
+    const payload = [
+      result.attemptId,
+      result.userId,
+      result.challengeId,
+      result.score,
+      result.passed,
+      result.issuedAt
+    ].join('.');
+
+    return crypto.createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+  }
+
+  /**
+   * Check a scoring result's signature
+   */
+  static verifyResult(result: ScoringResult): boolean {
+    const expected = Buffer.from(this.signResult(result));
+    const actual = Buffer.from(result.signature || '');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+}
@@ -1,15 +1,34 @@
-import { db } from '../config/firebase.js';
-import { FieldValue } from 'firebase-admin/firestore';
+import { logger } from '@prompt-tool/core';
+import { db, auth } from '../config/firebase.js';
 import { 
   UserDocument, 
   ChallengeProgress, 
   UserStats,
-  UserProfileUpdate 
+  UserProfileUpdate,
+  UserRole
 } from '../types/index.js';
+import { timeFirestore } from './metricsService.js';
 
 const USERS_COLLECTION = 'users';
 const USER_STATS_COLLECTION = 'userStats';
 const USER_PROGRESS_COLLECTION = 'userProgress';
+const ATTEMPTS_COLLECTION = 'attempts';
+
+// Firestore caps a batched write at 500 operations
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Convert Firestore Timestamps in a stored document (at any depth) back to
+ * Dates, so responses carry ISO strings like the Workers API
+ */
+const fromFirestore = (value: any): any => {
+  if (value?.toDate) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestore);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fromFirestore(entry)]));
+  }
+  return value;
+};
 
 /**
  * 🧑‍💻 User Data Service - Firestore Operations
@@ -25,10 +44,10 @@ export class UserDataService {
    */
   static async createOrUpdateUser(uid: string, userData: Partial<UserDocument>): Promise<UserDocument> {
     try {
-      console.log(`👤 Creating/updating user: ${uid}`);
+      logger.info(`👤 Creating/updating user: ${uid}`);
       
       const userRef = db.collection(USERS_COLLECTION).doc(uid);
-      const userDoc = await userRef.get();
+      const userDoc = await timeFirestore('get', USERS_COLLECTION, () => userRef.get());
       
       const now = new Date();
       
@@ -40,11 +59,11 @@ export class UserDataService {
           updatedAt: now
         };
         
-        await userRef.update(updateData);
-        console.log(`✅ User updated: ${uid}`);
+        await timeFirestore('update', USERS_COLLECTION, () => userRef.update(updateData));
+        logger.info(`✅ User updated: ${uid}`);
         
-        const updatedDoc = await userRef.get();
-        return { id: uid, ...updatedDoc.data() } as UserDocument;
+        const updatedDoc = await timeFirestore('get', USERS_COLLECTION, () => userRef.get());
+        return { id: uid, ...fromFirestore(updatedDoc.data()) } as UserDocument;
       } else {
         // Create new user
         const newUser: UserDocument = {
@@ -60,11 +79,12 @@ export class UserDataService {
           currentStreak: 0,
           maxStreak: 0,
           isActive: true,
-          ...userData
+          ...userData,
+          role: 'student'
         };
         
-        await userRef.set(newUser);
-        console.log(`🎉 New user created: ${uid}`);
+        await timeFirestore('set', USERS_COLLECTION, () => userRef.set(newUser));
+        logger.info(`🎉 New user created: ${uid}`);
         
         // Initialize user stats
         await this.initializeUserStats(uid);
@@ -72,7 +92,7 @@ export class UserDataService {
         return newUser;
       }
     } catch (error) {
-      console.error(`❌ Error creating/updating user ${uid}:`, error);
+      logger.error(`❌ Error creating/updating user ${uid}`, { error });
       throw new Error(`Failed to create/update user: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -84,21 +104,21 @@ export class UserDataService {
    */
   static async getUserById(uid: string): Promise<UserDocument | null> {
     try {
-      console.log(`🔍 Fetching user: ${uid}`);
+      logger.info(`🔍 Fetching user: ${uid}`);
       
-      const userDoc = await db.collection(USERS_COLLECTION).doc(uid).get();
+      const userDoc = await timeFirestore('get', USERS_COLLECTION, () => db.collection(USERS_COLLECTION).doc(uid).get());
       
       if (!userDoc.exists) {
-        console.log(`❓ User not found: ${uid}`);
+        logger.info(`❓ User not found: ${uid}`);
         return null;
       }
       
-      const userData = { id: uid, ...userDoc.data() } as UserDocument;
-      console.log(`✅ User found: ${userData.email}`);
+      const userData = { id: uid, ...fromFirestore(userDoc.data()) } as UserDocument;
+      logger.info(`✅ User found: ${uid}`);
       
       return userData;
     } catch (error) {
-      console.error(`❌ Error fetching user ${uid}:`, error);
+      logger.error(`❌ Error fetching user ${uid}`, { error });
       throw new Error(`Failed to fetch user: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -111,7 +131,7 @@ export class UserDataService {
    */
   static async updateUserProfile(uid: string, updates: UserProfileUpdate): Promise<UserDocument> {
     try {
-      console.log(`📝 Updating user profile: ${uid}`);
+      logger.info(`📝 Updating user profile: ${uid}`);
       
       const userRef = db.collection(USERS_COLLECTION).doc(uid);
       const updateData = {
@@ -119,41 +139,50 @@ export class UserDataService {
         updatedAt: new Date()
       };
       
-      await userRef.update(updateData);
+      await timeFirestore('update', USERS_COLLECTION, () => userRef.update(updateData));
       
-      const updatedDoc = await userRef.get();
-      const userData = { id: uid, ...updatedDoc.data() } as UserDocument;
+      const updatedDoc = await timeFirestore('get', USERS_COLLECTION, () => userRef.get());
+      const userData = { id: uid, ...fromFirestore(updatedDoc.data()) } as UserDocument;
       
-      console.log(`✅ User profile updated: ${uid}`);
+      logger.info(`✅ User profile updated: ${uid}`);
       return userData;
     } catch (error) {
-      console.error(`❌ Error updating user profile ${uid}:`, error);
+      logger.error(`❌ Error updating user profile ${uid}`, { error });
       throw new Error(`Failed to update user profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   /**
-   * Save user challenge progress
+   * Set a user's role on their profile and as a Firebase custom claim
    * @param uid Firebase Auth UID
-   * @param progress Challenge progress data
-   * @returns Promise<void>
+   * @param role New role
+   * @returns Promise<UserDocument | null> null when the user does not exist
    */
-  static async saveUserProgress(uid: string, progress: Record<number, ChallengeProgress>): Promise<void> {
+  static async setUserRole(uid: string, role: UserRole): Promise<UserDocument | null> {
     try {
-      console.log(`💾 Saving progress for user: ${uid}`);
+      logger.info(`🎭 Setting role for user ${uid}: ${role}`);
       
-      const progressRef = db.collection(USER_PROGRESS_COLLECTION).doc(uid);
+      const userRef = db.collection(USERS_COLLECTION).doc(uid);
+      const userDoc = await timeFirestore('get', USERS_COLLECTION, () => userRef.get());
       
-      await progressRef.set({
-        userId: uid,
-        progress,
-        lastUpdated: new Date()
-      });
+      if (!userDoc.exists) {
+        logger.info(`❓ User not found: ${uid}`);
+        return null;
+      }
+      
+      await timeFirestore('update', USERS_COLLECTION, () => userRef.update({ role, updatedAt: new Date() }));
+      
+      // Keep the custom claim in sync so role checks can skip the Firestore read
+      const authUser = await auth.getUser(uid);
+      await auth.setCustomUserClaims(uid, { ...authUser.customClaims, role });
+      
+      const updatedDoc = await timeFirestore('get', USERS_COLLECTION, () => userRef.get());
+      logger.info(`✅ Role updated for user: ${uid}`);
       
-      console.log(`✅ Progress saved for user: ${uid}`);
+      return { id: uid, ...fromFirestore(updatedDoc.data()) } as UserDocument;
     } catch (error) {
-      console.error(`❌ Error saving progress for user ${uid}:`, error);
-      throw new Error(`Failed to save user progress: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      logger.error(`❌ Error setting role for user ${uid}`, { error });
+      throw new Error(`Failed to set user role: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
@@ -164,77 +193,25 @@ export class UserDataService {
    */
   static async getUserProgress(uid: string): Promise<Record<number, ChallengeProgress> | null> {
     try {
-      console.log(`📊 Fetching progress for user: ${uid}`);
+      logger.info(`📊 Fetching progress for user: ${uid}`);
       
-      const progressDoc = await db.collection(USER_PROGRESS_COLLECTION).doc(uid).get();
+      const progressDoc = await timeFirestore('get', USER_PROGRESS_COLLECTION, () => db.collection(USER_PROGRESS_COLLECTION).doc(uid).get());
       
       if (!progressDoc.exists) {
-        console.log(`❓ No progress found for user: ${uid}`);
+        logger.info(`❓ No progress found for user: ${uid}`);
         return null;
       }
       
       const data = progressDoc.data();
-      console.log(`✅ Progress loaded for user: ${uid}`);
+      logger.info(`✅ Progress loaded for user: ${uid}`);
       
-      return data?.progress || null;
+      return data?.progress ? fromFirestore(data.progress) : null;
     } catch (error) {
-      console.error(`❌ Error fetching progress for user ${uid}:`, error);
+      logger.error(`❌ Error fetching progress for user ${uid}`, { error });
       throw new Error(`Failed to fetch user progress: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
-  /**
-   * Update user statistics after challenge completion
-   * @param uid Firebase Auth UID
-   * @param challengeScore Score from completed challenge
-   * @param newStreak Updated streak count
-   * @returns Promise<UserStats>
-   */
-  static async updateUserStats(uid: string, challengeScore: number, newStreak: number): Promise<UserStats> {
-    try {
-      console.log(`📈 Updating stats for user: ${uid}`);
-      
-      const userRef = db.collection(USERS_COLLECTION).doc(uid);
-      const statsRef = db.collection(USER_STATS_COLLECTION).doc(uid);
-      
-      // Update user document
-      await userRef.update({
-        totalChallengesCompleted: FieldValue.increment(1),
-        totalScore: FieldValue.increment(challengeScore),
-        currentStreak: newStreak,
-        maxStreak: newStreak > 0 ? FieldValue.increment(0) : newStreak, // Will be handled in transaction
-        lastChallengeAt: new Date(),
-        updatedAt: new Date()
-      });
-      
-      // Update detailed stats
-      const statsDoc = await statsRef.get();
-      const currentStats = statsDoc.exists ? statsDoc.data() as UserStats : null;
-      
-      const updatedStats: UserStats = {
-        userId: uid,
-        totalChallengesCompleted: (currentStats?.totalChallengesCompleted || 0) + 1,
-        totalScore: (currentStats?.totalScore || 0) + challengeScore,
-        currentStreak: newStreak,
-        maxStreak: Math.max(currentStats?.maxStreak || 0, newStreak),
-        averageScore: 0, // Will be calculated
-        lastChallengeAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      // Calculate average score
-      updatedStats.averageScore = updatedStats.totalScore / updatedStats.totalChallengesCompleted;
-      
-      await statsRef.set(updatedStats);
-      
-      console.log(`✅ Stats updated for user: ${uid}`);
-      return updatedStats;
-    } catch (error) {
-      console.error(`❌ Error updating stats for user ${uid}:`, error);
-      throw new Error(`Failed to update user stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-  
   /**
    * Get user statistics
    * @param uid Firebase Auth UID
@@ -242,21 +219,21 @@ export class UserDataService {
    */
   static async getUserStats(uid: string): Promise<UserStats | null> {
     try {
-      console.log(`📊 Fetching stats for user: ${uid}`);
+      logger.info(`📊 Fetching stats for user: ${uid}`);
       
-      const statsDoc = await db.collection(USER_STATS_COLLECTION).doc(uid).get();
+      const statsDoc = await timeFirestore('get', USER_STATS_COLLECTION, () => db.collection(USER_STATS_COLLECTION).doc(uid).get());
       
       if (!statsDoc.exists) {
-        console.log(`❓ No stats found for user: ${uid}`);
+        logger.info(`❓ No stats found for user: ${uid}`);
         return null;
       }
       
-      const stats = statsDoc.data() as UserStats;
-      console.log(`✅ Stats loaded for user: ${uid}`);
+      const stats = fromFirestore(statsDoc.data()) as UserStats;
+      logger.info(`✅ Stats loaded for user: ${uid}`);
       
       return stats;
     } catch (error) {
-      console.error(`❌ Error fetching stats for user ${uid}:`, error);
+      logger.error(`❌ Error fetching stats for user ${uid}`, { error });
       throw new Error(`Failed to fetch user stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -281,10 +258,10 @@ export class UserDataService {
         updatedAt: new Date()
       };
       
-      await statsRef.set(initialStats);
-      console.log(`📊 Initial stats created for user: ${uid}`);
+      await timeFirestore('set', USER_STATS_COLLECTION, () => statsRef.set(initialStats));
+      logger.info(`📊 Initial stats created for user: ${uid}`);
     } catch (error) {
-      console.error(`❌ Error initializing stats for user ${uid}:`, error);
+      logger.error(`❌ Error initializing stats for user ${uid}`, { error });
       throw error;
     }
   }
@@ -296,19 +273,19 @@ export class UserDataService {
    */
   static async getLeaderboard(limit: number = 10): Promise<UserStats[]> {
     try {
-      console.log(`🏆 Fetching leaderboard (top ${limit})`);
+      logger.info(`🏆 Fetching leaderboard (top ${limit})`);
       
-      const snapshot = await db.collection(USER_STATS_COLLECTION)
+      const snapshot = await timeFirestore('query', USER_STATS_COLLECTION, () => db.collection(USER_STATS_COLLECTION)
         .orderBy('totalScore', 'desc')
         .limit(limit)
-        .get();
+        .get());
       
-      const leaderboard = snapshot.docs.map(doc => doc.data() as UserStats);
+      const leaderboard = snapshot.docs.map(doc => fromFirestore(doc.data()) as UserStats);
       
-      console.log(`✅ Leaderboard fetched: ${leaderboard.length} entries`);
+      logger.info(`✅ Leaderboard fetched: ${leaderboard.length} entries`);
       return leaderboard;
     } catch (error) {
-      console.error(`❌ Error fetching leaderboard:`, error);
+      logger.error(`❌ Error fetching leaderboard`, { error });
       throw new Error(`Failed to fetch leaderboard: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -320,20 +297,28 @@ export class UserDataService {
    */
   static async deleteUser(uid: string): Promise<void> {
     try {
-      console.log(`🗑️ Deleting user: ${uid}`);
+      logger.info(`🗑️ Deleting user: ${uid}`);
       
       // Delete user document
-      await db.collection(USERS_COLLECTION).doc(uid).delete();
+      await timeFirestore('delete', USERS_COLLECTION, () => db.collection(USERS_COLLECTION).doc(uid).delete());
       
       // Delete user stats
-      await db.collection(USER_STATS_COLLECTION).doc(uid).delete();
+      await timeFirestore('delete', USER_STATS_COLLECTION, () => db.collection(USER_STATS_COLLECTION).doc(uid).delete());
       
       // Delete user progress
-      await db.collection(USER_PROGRESS_COLLECTION).doc(uid).delete();
+      await timeFirestore('delete', USER_PROGRESS_COLLECTION, () => db.collection(USER_PROGRESS_COLLECTION).doc(uid).delete());
+      
+      // Delete attempt history
+      const attempts = await timeFirestore('query', ATTEMPTS_COLLECTION, () => db.collection(ATTEMPTS_COLLECTION).where('userId', '==', uid).select().get());
+      for (let i = 0; i < attempts.docs.length; i += MAX_BATCH_SIZE) {
+        const batch = db.batch();
+        attempts.docs.slice(i, i + MAX_BATCH_SIZE).forEach(doc => batch.delete(doc.ref));
+        await timeFirestore('batch', ATTEMPTS_COLLECTION, () => batch.commit());
+      }
       
-      console.log(`✅ User deleted: ${uid}`);
+      logger.info(`✅ User deleted: ${uid}`);
     } catch (error) {
-      console.error(`❌ Error deleting user ${uid}:`, error);
+      logger.error(`❌ Error deleting user ${uid}`, { error });
       throw new Error(`Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -1,96 +1,80 @@
 /**
- * Type definitions for the server application
+ * Type definitions for the server application.
+ * Types shared with the Workers API live in @prompt-tool/core.
  */
 
-export interface ImageGenerationRequest {
-  prompt: string;
-  service: ImageService;
-  apiKey?: string;
-}
-
-export interface ImageGenerationResponse {
-  success: boolean;
-  imageBase64?: string;
-  error?: string;
-  model?: string;
-  timestamp?: string;
-}
-
-export interface LocalImageRequest {
-  imageUrl: string;
-}
-
-export interface AnalysisRequest {
-  user: User;
-  challenge: Challenge;
-  generatedImageBase64: string;
-}
+export { ApiError, FEEDBACK_TONES, FEEDBACK_VERBOSITIES, USER_ROLES } from '@prompt-tool/core';
+export type {
+  AnalysisRequest,
+  AnalysisResult,
+  AnalysisSource,
+  AttemptPage,
+  AttemptQuery,
+  AttemptRecord,
+  Challenge,
+  ChallengeInput,
+  ChallengeLifecycleStatus,
+  ChallengeProgress,
+  ChallengeRubric,
+  ChallengeStatus,
+  CriterionResult,
+  DetailedAnalysis,
+  ErrorCode,
+  ErrorResponse,
+  FeedbackPersona,
+  FeedbackPersonaInput,
+  FeedbackTone,
+  FeedbackVerbosity,
+  FieldError,
+  GeminiModel,
+  GeneratedImageData,
+  HealthResponse,
+  ImageGenerationRequest,
+  ImageGenerationResponse,
+  ImageProvider,
+  ImageProviderCapabilities,
+  ImageProviderInfo,
+  ImageProviderOptions,
+  ImageService,
+  ImageSize,
+  LocalImageRequest,
+  PollationsModel,
+  RubricCriterion,
+  RubricEvaluation,
+  RubricPenalty,
+  ScoringResult,
+  StreakChange,
+  UserProfileUpdate,
+  UserProgress,
+  UserRole,
+  UserStats
+} from '@prompt-tool/core';
+
+import type { AnalysisResult, ScoringResult, UserRole } from '@prompt-tool/core';
 
 export interface AnalysisResponse {
   success: boolean;
   result?: AnalysisResult;
+  scoring?: ScoringResult;
   error?: string;
+  code?: string;
   timestamp?: string;
 }
 
-export interface HealthResponse {
-  status: 'OK' | 'ERROR';
-  timestamp: string;
-  service: string;
-  version?: string;
-}
-
-export type ImageService = 
-  | 'pollinations-flux' 
-  | 'pollinations-kontext' 
-  | 'pollinations-krea' 
-  | 'gemini-imagen-3' 
-  | 'gemini-imagen-4-fast' 
-  | 'gemini-imagen-4-ultra';
-
-export type PollationsModel = 'flux' | 'realistic' | 'anime' | 'flux-schnell' | 'turbo' | 'majestic';
-
-export type GeminiModel = 'imagen-3.0-generate-001' | 'imagen-3.0-generate-002' | 'imagen-4.0-generate-001';
-
 export interface User {
   email: string;
 }
 
-export interface Challenge {
-  id: number;
-  name: string;
-  imageUrl: string;
-  description: string;
+export interface ChallengeImageUpload {
+  buffer: Buffer;
+  mimeType: string;
 }
 
-export interface AnalysisResult {
-  similarityScore: number;
-  feedback: string[];
-  similarity?: number; // Legacy support
-  passed?: boolean;    // Legacy support
-  detailedAnalysis?: {
-    colorMatch?: number;
-    shapeMatch?: number;
-    compositionMatch?: number;
-    overallQuality?: number;
-  };
-}
-
-export class ApiError extends Error {
-  public statusCode?: number;
-  public code?: string;
-
-  constructor(message: string, statusCode?: number, code?: string) {
-    super(message);
-    this.name = 'ApiError';
-    this.statusCode = statusCode;
-    this.code = code;
-    
-    // Maintains proper stack trace for where our error was thrown (only available on V8)
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, ApiError);
-    }
-  }
+// A generated image kept in image storage
+export interface StoredImage {
+  buffer: Buffer;
+  mimeType: string;
+  ownerUid?: string;   // Who generated it; only they may submit it for scoring
 }
 
 export interface ServiceConfig {
@@ -106,6 +90,8 @@ export interface UserDocument {
   email: string;
   displayName: string;
   photoURL: string;
+  role?: UserRole;    // Defaults to 'student' when missing
+  feedbackPersona?: string;  // Persona id for analysis feedback
   createdAt: Date;
   updatedAt: Date;
   lastLoginAt: Date;
@@ -115,48 +101,3 @@ export interface UserDocument {
   maxStreak: number;
   isActive: boolean;
 }
-
-// Challenge Progress Types
-export enum ChallengeStatus {
-  LOCKED = 'locked',
-  UNLOCKED = 'unlocked',
-  COMPLETED = 'completed'
-}
-
-export interface ChallengeProgress {
-  status: ChallengeStatus;
-  streak: number;
-  previousSimilarityScore: number;
-  completedAt?: Date;
-  attempts?: number;
-  bestScore?: number;
-  promptHistory?: PromptAttempt[];
-}
-
-// Prompt Attempt Type for storing user's written prompts
-export interface PromptAttempt {
-  prompt: string;
-  score: number;
-  timestamp: Date;
-  imageGenerated?: boolean;
-  feedback?: string[];
-}
-
-// User Statistics
-export interface UserStats {
-  userId: string;
-  totalChallengesCompleted: number;
-  totalScore: number;
-  currentStreak: number;
-  maxStreak: number;
-  averageScore: number;
-  lastChallengeAt: Date;
-  updatedAt: Date;
-}
-
-// User Profile Update Type
-export interface UserProfileUpdate {
-  displayName?: string;
-  photoURL?: string;
-  email?: string;
-}
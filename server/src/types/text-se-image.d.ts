@@ -1,8 +0,0 @@
-declare module 'text-se-image' {
-  interface ModelConfig {
-    id: string;
-  }
-
-  const generateImage: (prompt: string, model?: ModelConfig) => Promise<string>;
-  export = generateImage;
-}
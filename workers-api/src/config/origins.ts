@@ -0,0 +1,6 @@
+/**
+ * 🌐 Frontend Origins
+ * Allowed by CORS, and the only hosts challenge images are fetched from
+ * Based on server implementation
+ */
+export const CORS_ORIGINS = ['https://prompt-proj1.web.app', 'http://localhost:5173'];
@@ -0,0 +1,106 @@
+/**
+ * 🧠 Analysis Controller for Workers
+ * Scores an attempt against its challenge and records it
+ * Based on server implementation
+ */
+
+import { logger, validateAnalysisRequest } from '@prompt-tool/core';
+import { loadChallengeImageBase64 } from '../localImageService';
+import { analyzeImages } from '../services/analysisService';
+import { getChallengeStore } from '../services/challengeStore';
+import { loadGeneratedImageBase64 } from '../services/imageStorage';
+import { resolvePersona } from '../services/personaStore';
+import { ScoringService } from '../services/scoringService';
+import { ApiError } from '../types';
+import { sendError } from '../middleware/errorHandler';
+
+export class AnalysisController {
+
+  /**
+   * Compare the generated image with the challenge target, then record the
+   * attempt against the signed-in user. This is the only place scores enter
+   * progress and stats.
+   * POST /api/analysis/compare
+   */
+  static async compareImages(c: any) {
+    try {
+      const request = validateAnalysisRequest(await c.req.json());
+      const { challengeId, userPrompt, service } = request;
+      const user = c.get('user');
+
+      const challenge = await getChallengeStore(c.env).getChallenge(challengeId);
+      if (!challenge) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      if (challenge.status === 'archived') {
+        throw new ApiError('Challenge has been archived', 400, 'CHALLENGE_ARCHIVED');
+      }
+
+      await ScoringService.assertChallengeUnlocked(c.env, user.uid, challenge);
+
+      // The target always comes from the challenge, never the client, so an
+      // attempt can't be scored against an image of the student's choosing
+      const targetImageBase64 = await loadChallengeImageBase64(c.env, challenge.imageUrl, c.req.header('Origin'));
+
+      // Only images this user generated through the Worker can be scored
+      const imageRef = request.generatedImageId;
+      const generatedImageBase64 = await loadGeneratedImageBase64(c.env, imageRef, user.uid);
+
+      // Requested persona, else the one saved on the profile, else the default
+      const persona = await resolvePersona(c.env, user.uid, request.persona);
+
+      logger.info(`🧠 Analyzing images for challenge: ${challenge.name} (persona: ${persona.id})`);
+
+      const analysis = await analyzeImages(
+        c.env,
+        user.email,
+        challenge,
+        generatedImageBase64,
+        userPrompt,
+        targetImageBase64,
+        persona
+      );
+
+      const scoring = await ScoringService.recordAttempt(c.env, user.uid, challenge, {
+        prompt: userPrompt,
+        score: analysis.similarityScore,
+        feedback: analysis.feedback,
+        service,
+        imageRef
+      });
+
+      // Return in client-expected format
+      return c.json({
+        success: true,
+        result: {
+          similarityScore: analysis.similarityScore,
+          feedback: analysis.feedback,
+          // Legacy support
+          similarity: analysis.similarityScore,
+          passed: scoring.passed,
+          detailedAnalysis: analysis.detailedAnalysis,
+          rubric: analysis.rubric,
+          analyzer: analysis.analyzer
+        },
+        scoring,
+        // Additional metadata
+        challengeInfo: {
+          id: challenge.id,
+          name: challenge.name,
+          description: challenge.description
+        },
+        userInfo: {
+          prompt: userPrompt,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Analysis error', { error });
+
+      return sendError(c, error, 'Failed to analyze images', 'ANALYSIS_FAILED');
+    }
+  }
+}
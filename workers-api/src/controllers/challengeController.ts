@@ -0,0 +1,258 @@
+/**
+ * 🎯 Challenge Controller for Workers
+ * Exposes the mission list that drives the client challenge path
+ * Based on server implementation
+ */
+
+import { logger, validateChallengeInput } from '@prompt-tool/core';
+import { getChallengeStore, getChallengeImageStore } from '../services/challengeStore';
+import { ApiError, ChallengeImageUpload } from '../types';
+import { sendError } from '../middleware/errorHandler';
+
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Read the request body as JSON or multipart form data, returning any
+ * uploaded `image` file separately
+ */
+async function parseChallengeRequest(c: any): Promise<{ body: any; image?: ChallengeImageUpload }> {
+  const contentType = c.req.header('content-type') || '';
+
+  if (!contentType.includes('multipart/form-data')) {
+    return { body: await c.req.json() };
+  }
+
+  const { image, ...body } = await c.req.parseBody();
+
+  if (!(image instanceof File)) {
+    return { body };
+  }
+
+  if (!SUPPORTED_IMAGE_TYPES.includes(image.type)) {
+    throw new ApiError('Image must be PNG, JPEG or WebP', 400, 'UNSUPPORTED_IMAGE_TYPE');
+  }
+
+  if (image.size > MAX_IMAGE_SIZE) {
+    throw new ApiError('Image is too large (max 10MB)', 400, 'IMAGE_TOO_LARGE');
+  }
+
+  return { body, image: { data: await image.arrayBuffer(), mimeType: image.type } };
+}
+
+/**
+ * Parse a challenge id route parameter
+ */
+function parseChallengeId(value: string): number {
+  const id = parseInt(value, 10);
+
+  if (isNaN(id)) {
+    throw new ApiError('Challenge id must be a number', 400, 'INVALID_CHALLENGE_ID');
+  }
+
+  return id;
+}
+
+/**
+ * Absolute URL the worker serves an uploaded challenge image from
+ */
+function getChallengeImageUrl(c: any, id: number): string {
+  return `${new URL(c.req.url).origin}/api/challenges/${id}/image`;
+}
+
+export class ChallengeController {
+
+  /**
+   * List all challenges
+   * GET /api/challenges
+   */
+  static async getChallenges(c: any) {
+    try {
+      logger.info('🎯 Listing challenges...');
+
+      const includeArchived = c.req.query('includeArchived') === 'true';
+      const challenges = await getChallengeStore(c.env).listChallenges(includeArchived);
+
+      return c.json({
+        success: true,
+        data: challenges,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error listing challenges', { error });
+      return sendError(c, error, 'Failed to get challenges');
+    }
+  }
+
+  /**
+   * Get a single challenge
+   * GET /api/challenges/:id
+   */
+  static async getChallenge(c: any) {
+    try {
+      const id = parseChallengeId(c.req.param('id'));
+
+      logger.info(`🎯 Getting challenge ${id}...`);
+
+      const challenge = await getChallengeStore(c.env).getChallenge(id);
+
+      if (!challenge) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      return c.json({
+        success: true,
+        data: challenge,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error getting challenge', { error });
+      return sendError(c, error, 'Failed to get challenge');
+    }
+  }
+
+  /**
+   * Serve an uploaded challenge target image
+   * GET /api/challenges/:id/image
+   */
+  static async getChallengeImage(c: any) {
+    try {
+      const id = parseChallengeId(c.req.param('id'));
+      const image = await getChallengeImageStore(c.env).getImage(id);
+
+      if (!image) {
+        throw new ApiError('Challenge image not found', 404, 'IMAGE_NOT_FOUND');
+      }
+
+      return c.body(image.data, 200, {
+        'Content-Type': image.mimeType,
+        'Cache-Control': 'no-cache'
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error getting challenge image', { error });
+      return sendError(c, error, 'Failed to get challenge image');
+    }
+  }
+
+  /**
+   * Create a challenge (instructor only)
+   * POST /api/challenges
+   * Accepts JSON or multipart/form-data with an `image` file
+   */
+  static async createChallenge(c: any) {
+    try {
+      logger.info('🆕 Creating challenge...');
+
+      const { body, image } = await parseChallengeRequest(c);
+      const input = validateChallengeInput(body, false);
+
+      if (!image && !input.imageUrl) {
+        throw new ApiError('A target image upload or imageUrl is required', 400, 'IMAGE_REQUIRED');
+      }
+
+      const store = getChallengeStore(c.env);
+      let challenge = await store.createChallenge(input, c.get('user').uid);
+
+      // The image is stored under the new id, so it can only be saved once the
+      // challenge exists; if that fails, don't leave it behind without one
+      if (image) {
+        try {
+          await getChallengeImageStore(c.env).saveImage(challenge.id, image);
+          challenge = (await store.updateChallenge(challenge.id, {
+            imageUrl: getChallengeImageUrl(c, challenge.id)
+          }))!;
+        } catch (error) {
+          await store.deleteChallenge(challenge.id).catch(deleteError => {
+            logger.error(`❌ Could not remove challenge ${challenge.id} after its image failed`, { error: deleteError });
+          });
+          throw error;
+        }
+      }
+
+      return c.json({
+        success: true,
+        data: challenge,
+        message: 'Challenge created successfully',
+        timestamp: new Date().toISOString()
+      }, 201);
+
+    } catch (error: any) {
+      logger.error('❌ Error creating challenge', { error });
+      return sendError(c, error, 'Failed to create challenge');
+    }
+  }
+
+  /**
+   * Update a challenge (instructor only)
+   * PATCH /api/challenges/:id
+   * Accepts JSON or multipart/form-data with an optional `image` file
+   */
+  static async updateChallenge(c: any) {
+    try {
+      const id = parseChallengeId(c.req.param('id'));
+      logger.info(`✏️ Updating challenge ${id}...`);
+
+      const { body, image } = await parseChallengeRequest(c);
+      const updates = validateChallengeInput(body, true);
+
+      if (!image && Object.keys(updates).length === 0) {
+        throw new ApiError('No valid fields to update', 400, 'NO_UPDATE_FIELDS');
+      }
+
+      const store = getChallengeStore(c.env);
+      const existing = await store.getChallenge(id);
+      if (!existing) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      if (image) {
+        await getChallengeImageStore(c.env).saveImage(id, image);
+        updates.imageUrl = getChallengeImageUrl(c, id);
+      }
+
+      const challenge = await store.updateChallenge(id, updates);
+
+      return c.json({
+        success: true,
+        data: challenge,
+        message: 'Challenge updated successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error updating challenge', { error });
+      return sendError(c, error, 'Failed to update challenge');
+    }
+  }
+
+  /**
+   * Archive a challenge (instructor only). Student progress is untouched.
+   * DELETE /api/challenges/:id
+   */
+  static async archiveChallenge(c: any) {
+    try {
+      const id = parseChallengeId(c.req.param('id'));
+      logger.info(`📦 Archiving challenge ${id}...`);
+
+      const challenge = await getChallengeStore(c.env).archiveChallenge(id);
+
+      if (!challenge) {
+        throw new ApiError('Challenge not found', 404, 'CHALLENGE_NOT_FOUND');
+      }
+
+      return c.json({
+        success: true,
+        data: challenge,
+        message: 'Challenge archived successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error archiving challenge', { error });
+      return sendError(c, error, 'Failed to archive challenge');
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * 🎨 Image Controller for Workers
+ * Generates images with the registered providers and serves stored ones
+ * Based on server implementation
+ */
+
+import { logger, validateImageRequest, validateLocalImageRequest } from '@prompt-tool/core';
+import { getImageProviderRegistry } from '../services/imageService';
+import { getImageStorage, isValidImageId, saveGeneratedImage } from '../services/imageStorage';
+import { getLocalImage } from '../localImageService';
+import { ApiError, ImageGenerationRequest, ImageGenerationResponse, ImageProvider } from '../types';
+import { sendError } from '../middleware/errorHandler';
+
+/**
+ * Resolve the requested provider (or the default) and check it supports the requested options
+ */
+function resolveProvider(env: any, { service, size }: ImageGenerationRequest): ImageProvider {
+  const registry = getImageProviderRegistry(env);
+  const providerId = service || registry.defaultProviderId;
+
+  const provider = registry.get(providerId);
+  if (!provider) {
+    throw new ApiError(`Unknown image service: ${providerId}`, 400, 'UNKNOWN_IMAGE_SERVICE');
+  }
+
+  if (size && !provider.sizes.some(supported => supported.width === size.width && supported.height === size.height)) {
+    throw new ApiError(`${provider.name} does not support ${size.width}x${size.height}`, 400, 'UNSUPPORTED_SIZE');
+  }
+
+  return provider;
+}
+
+export class ImageController {
+
+  /**
+   * Generate an image with the requested provider
+   * POST /api/images/generate
+   */
+  static async generateImage(c: any) {
+    try {
+      const request = validateImageRequest(await c.req.json());
+      const provider = resolveProvider(c.env, request);
+
+      logger.info(`🎨 Generating image with ${provider.id}`, { promptLength: request.prompt.length });
+
+      const { imageBase64, model } = await provider.generate(request.prompt, {
+        size: request.size,
+        seed: provider.capabilities.seed ? request.seed : undefined
+      });
+
+      // Clients get a reference; the bytes stay in storage for analysis and history.
+      // Only the signed-in user who generated an image may have it scored.
+      const imageId = await saveGeneratedImage(c.env, imageBase64, c.get('user')?.uid);
+
+      logger.info(`✅ Image generated successfully with ${model}`);
+
+      const response: ImageGenerationResponse = {
+        success: true,
+        imageId,
+        imageUrl: `${new URL(c.req.url).origin}/api/images/${imageId}`,
+        provider: provider.id,
+        model,
+        timestamp: new Date().toISOString()
+      };
+      return c.json(response);
+
+    } catch (error: any) {
+      logger.error('❌ Image generation error', { error });
+      return sendError(c, error, 'Failed to generate image');
+    }
+  }
+
+  /**
+   * List the image providers for the client's service picker
+   * GET /api/images/providers
+   */
+  static async getImageProviders(c: any) {
+    const registry = getImageProviderRegistry(c.env);
+
+    return c.json({
+      success: true,
+      data: {
+        providers: registry.list(),
+        defaultProvider: registry.defaultProviderId
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Serve an image stored by /api/images/generate
+   * GET /api/images/:id
+   */
+  static async getGeneratedImage(c: any) {
+    try {
+      const id = c.req.param('id');
+      const image = isValidImageId(id) ? await getImageStorage(c.env).getImage(id) : null;
+
+      if (!image) {
+        throw new ApiError('Image not found', 404, 'IMAGE_NOT_FOUND');
+      }
+
+      // Stored images never change, so clients may cache them indefinitely
+      return c.body(image.data, 200, {
+        'Content-Type': image.mimeType,
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error serving image', { error });
+      return sendError(c, error, 'Failed to load image');
+    }
+  }
+
+  /**
+   * Fetch a challenge image and return it as base64
+   * POST /api/images/local
+   */
+  static async getLocalImage(c: any) {
+    try {
+      // Handle client format: { imageUrl: "/challenges/challenge-1.jpg" }
+      const request = validateLocalImageRequest(await c.req.json());
+      const result = await getLocalImage(c.env, request, c.req.header('origin'));
+
+      return c.json({
+        success: result.success,
+        imageBase64: result.imageBase64,
+        imageUrl: result.imageUrl,
+        timestamp: result.timestamp
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Local image error', { error });
+      return sendError(c, error, 'Failed to fetch local image', 'LOCAL_IMAGE_ERROR');
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 🗣️ Persona Controller for Workers
+ * Lists the feedback personas students can pick for their analysis feedback
+ * Based on server implementation
+ */
+
+import { logger, validatePersonaInput } from '@prompt-tool/core';
+import { createPersona, deletePersona, listPersonas } from '../services/personaStore';
+import { ApiError } from '../types';
+import { sendError } from '../middleware/errorHandler';
+
+export class PersonaController {
+
+  /**
+   * List built-in and instructor-defined personas
+   * GET /api/personas
+   */
+  static async getPersonas(c: any) {
+    try {
+      logger.info('🗣️ Listing personas...');
+
+      const personas = await listPersonas(c.env);
+
+      return c.json({
+        success: true,
+        data: personas,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error listing personas', { error });
+      return sendError(c, error, 'Failed to get personas');
+    }
+  }
+
+  /**
+   * Define a persona (instructor only)
+   * POST /api/personas
+   */
+  static async createPersona(c: any) {
+    try {
+      logger.info('🆕 Creating persona...');
+
+      const input = validatePersonaInput(await c.req.json());
+      const persona = await createPersona(c.env, input, c.get('user').uid);
+
+      return c.json({
+        success: true,
+        data: persona,
+        message: 'Persona created successfully',
+        timestamp: new Date().toISOString()
+      }, 201);
+
+    } catch (error: any) {
+      logger.error('❌ Error creating persona', { error });
+      return sendError(c, error, 'Failed to create persona');
+    }
+  }
+
+  /**
+   * Delete an instructor-defined persona (instructor only)
+   * DELETE /api/personas/:id
+   */
+  static async deletePersona(c: any) {
+    try {
+      const id = c.req.param('id');
+      logger.info(`🗑️ Deleting persona ${id}...`);
+
+      if (!(await deletePersona(c.env, id))) {
+        throw new ApiError('Persona not found', 404, 'PERSONA_NOT_FOUND');
+      }
+
+      return c.json({
+        success: true,
+        message: 'Persona deleted successfully',
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      logger.error('❌ Error deleting persona', { error });
+      return sendError(c, error, 'Failed to delete persona');
+    }
+  }
+}
@@ -4,7 +4,10 @@
  * Based on server implementation
  */
 
+import { logger } from '@prompt-tool/core';
 import { getGeminiKeyManager } from '../geminiKeyManager';
+import { resolveUserRole } from '../middleware/firebaseAuth';
+import { sendError } from '../middleware/errorHandler';
 
 /**
  * Get Gemini API Key Manager Status
@@ -12,37 +15,59 @@ import { getGeminiKeyManager } from '../geminiKeyManager';
  */
 export async function getKeyManagerStatus(c: any) {
   try {
-    console.log('📊 Key Manager Status Request');
+    logger.info('📊 Key Manager Status Request');
     
     const keyManager = getGeminiKeyManager(c.env);
-    const status = keyManager.getStatus();
+    const status = await keyManager.getStatus();
+    const isAdmin = (await resolveUserRole(c)) === 'admin';
     
-    // Return comprehensive status information
+    // Per-key details are only shown to admins
     return c.json({
       success: true,
       timestamp: new Date().toISOString(),
       keyManager: {
+        store: status.store,
         totalKeys: status.totalKeys,
         availableKeys: status.availableKeys,
         blockedKeys: status.blockedKeys,
-        keyStats: status.keyStats.map(stat => ({
-          key: stat.key.substring(0, 8) + '...', // Hide most of the key for security
-          usageCount: stat.usageCount,
-          lastUsed: stat.lastUsed,
-          isBlocked: stat.isBlocked,
-          errorCount: stat.errorCount
-        }))
+        ...(isAdmin && {
+          keyStats: status.keyStats.map(stat => ({
+            key: stat.key.substring(0, 8) + '...', // Hide most of the key for security
+            id: stat.id,
+            usageCount: stat.usageCount,
+            lastUsed: stat.lastUsed,
+            isBlocked: stat.isBlocked,
+            errorCount: stat.errorCount,
+            budget: stat.budget,
+            calls: stat.calls
+          }))
+        })
       }
     });
     
   } catch (error) {
-    console.error('❌ Error getting key manager status:', error);
+    logger.error('❌ Error getting key manager status', { error });
+    return sendError(c, error, 'Failed to get key manager status');
+  }
+}
+
+/**
+ * Get Gemini call latency and outcomes by operation and key
+ * GET /api/status/metrics
+ */
+export async function getOperationMetrics(c: any) {
+  try {
+    logger.info('⏱️ Operation Metrics Request');
+
     return c.json({
-      success: false,
-      error: 'Failed to get key manager status',
-      message: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString()
-    }, 500);
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...getGeminiKeyManager(c.env).getOperationMetrics()
+    });
+
+  } catch (error) {
+    logger.error('❌ Error getting operation metrics', { error });
+    return sendError(c, error, 'Failed to get operation metrics');
   }
 }
 
@@ -52,7 +77,7 @@ export async function getKeyManagerStatus(c: any) {
  */
 export async function resetKeyManagerMetrics(c: any) {
   try {
-    console.log('🔄 Key Manager Metrics Reset Request');
+    logger.info('🔄 Key Manager Metrics Reset Request');
     
     // Note: Reset functionality would need to be implemented in GeminiKeyManager
     // This would require adding a resetMetrics method to the GeminiKeyManager class
@@ -64,13 +89,8 @@ export async function resetKeyManagerMetrics(c: any) {
     });
     
   } catch (error) {
-    console.error('❌ Error resetting key manager metrics:', error);
-    return c.json({
-      success: false,
-      error: 'Failed to reset key manager metrics',
-      message: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString()
-    }, 500);
+    logger.error('❌ Error resetting key manager metrics', { error });
+    return sendError(c, error, 'Failed to reset key manager metrics');
   }
 }
 
@@ -4,8 +4,21 @@
  * Based on server implementation but adapted for Cloudflare Workers
  */
 
+import {
+  logger,
+  validateAttemptQuery,
+  validateLeaderboardQuery,
+  validateProfileCreate,
+  validateProfileUpdate,
+  validateRoleUpdate
+} from '@prompt-tool/core';
 import { UserDataService } from '../services/userDataService';
+import { AttemptService } from '../services/attemptService';
 import { ApiError } from '../types';
+import { resolveUserRole } from '../middleware/firebaseAuth';
+import { getServiceAccessToken } from '../services/serviceAccountToken';
+import { findPersona } from '../services/personaStore';
+import { sendError } from '../middleware/errorHandler';
 
 /**
  * User Controller Class for Workers
@@ -18,15 +31,14 @@ export class UserController {
    */
   static async createOrUpdateProfile(c: any) {
     try {
-      console.log('📝 Creating/updating user profile...');
+      logger.info('📝 Creating/updating user profile...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      const body = await c.req.json();
-      const { displayName, photoURL, email } = body;
+      const { displayName, photoURL, email } = validateProfileCreate(await c.req.json());
       
       const userData = {
         email: email || user.email || '',
@@ -34,7 +46,7 @@ export class UserController {
         photoURL: photoURL || ''
       };
       
-      const accessToken = getFirebaseAccessToken(c.env);
+      const accessToken = await getFirebaseAccessToken(c.env);
       const updatedUser = await UserDataService.createOrUpdateUser(user.uid, userData, accessToken);
       
       return c.json({
@@ -45,22 +57,9 @@ export class UserController {
       });
       
     } catch (error: any) {
-      console.error('❌ Error creating/updating user profile:', error);
-      
-      if (error instanceof ApiError) {
-        return c.json({
-          success: false,
-          error: error.message,
-          code: error.code,
-          timestamp: new Date().toISOString()
-        }, error.statusCode || 500);
-      }
+      logger.error('❌ Error creating/updating user profile', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to create/update user profile',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to create/update user profile');
     }
   }
 
@@ -70,39 +69,33 @@ export class UserController {
    */
   static async getUserProfile(c: any) {
     try {
-      console.log('📝 Getting user profile...');
+      logger.info('📝 Getting user profile...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, just return the authenticated user data
-      const accessToken = getFirebaseAccessToken(c.env);
+      const accessToken = await getFirebaseAccessToken(c.env);
       const userData = await UserDataService.getUserById(user.uid, accessToken);
       
+      if (!userData) {
+        throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+      }
+      
+      // Report the effective role, which may come from a custom claim
+      const role = await resolveUserRole(c);
+      
       return c.json({
         success: true,
-        data: userData || {
-          id: user.uid,
-          email: user.email || '',
-          displayName: user.displayName || '',
-          photoURL: user.photoURL || '',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          lastLoginAt: new Date()
-        },
+        data: { ...userData, role },
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error getting user profile:', error);
+      logger.error('❌ Error getting user profile', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to get user profile',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to get user profile');
     }
   }
 
@@ -112,122 +105,138 @@ export class UserController {
    */
   static async getUserProgress(c: any) {
     try {
-      console.log('📊 Getting user progress...');
+      logger.info('📊 Getting user progress...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, return empty progress
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const progress = await UserDataService.getUserProgress(user.uid, accessToken);
+      
       return c.json({
         success: true,
-        data: {},
+        data: progress || {},
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error getting user progress:', error);
+      logger.error('❌ Error getting user progress', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to get user progress',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to get user progress');
     }
   }
 
   /**
    * Save user challenge progress
    * POST /api/users/progress
+   * Progress is only written by scoring, so client-supplied progress is rejected
    */
   static async saveUserProgress(c: any) {
+    logger.warn(`🚫 Rejected client progress write from ${c.get('user')?.uid}`);
+    
+    const message = 'Progress is recorded by POST /api/analysis/compare';
+    return sendError(c, new ApiError(message, 403, 'CLIENT_SCORES_REJECTED'), message);
+  }
+
+  /**
+   * Get user statistics
+   * GET /api/users/stats
+   */
+  static async getUserStats(c: any) {
     try {
-      console.log('💾 Saving user progress...');
+      logger.info('📈 Getting user stats...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, just return success
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const stats = await UserDataService.getUserStats(user.uid, accessToken);
+      
       return c.json({
         success: true,
-        message: 'Progress saved successfully',
+        data: stats,
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error saving user progress:', error);
+      logger.error('❌ Error getting user stats', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to save user progress',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to get user stats');
     }
   }
 
   /**
-   * Get user statistics
-   * GET /api/users/stats
+   * Update user statistics
+   * POST /api/users/stats/update
+   * Stats are only written by scoring, so client-supplied scores are rejected
    */
-  static async getUserStats(c: any) {
+  static async updateUserStats(c: any) {
+    logger.warn(`🚫 Rejected client stats write from ${c.get('user')?.uid}`);
+    
+    const message = 'Stats are recorded by POST /api/analysis/compare';
+    return sendError(c, new ApiError(message, 403, 'CLIENT_SCORES_REJECTED'), message);
+  }
+
+  /**
+   * Get the user's attempt history, newest first
+   * GET /api/users/attempts?challengeId=&cursor=&limit=
+   */
+  static async getAttempts(c: any) {
     try {
-      console.log('📈 Getting user stats...');
+      logger.info('📜 Getting user attempts...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, return empty stats
+      const query = validateAttemptQuery(c.req.query());
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const page = await AttemptService.listAttempts(user.uid, query, accessToken);
+      
       return c.json({
         success: true,
-        data: null,
+        data: page,
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error getting user stats:', error);
+      logger.error('❌ Error getting user attempts', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to get user stats',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to get user attempts');
     }
   }
 
   /**
-   * Update user statistics
-   * POST /api/users/stats/update
+   * Get the user's best attempt for each challenge played
+   * GET /api/users/attempts/best
    */
-  static async updateUserStats(c: any) {
+  static async getBestAttempts(c: any) {
     try {
-      console.log('📊 Updating user stats...');
+      logger.info('🏅 Getting best attempts...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, return success
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const attempts = await AttemptService.getBestAttempts(user.uid, accessToken);
+      
       return c.json({
         success: true,
-        data: {},
-        message: 'User stats updated successfully',
+        data: attempts,
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error updating user stats:', error);
+      logger.error('❌ Error getting best attempts', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to update user stats',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to get best attempts');
     }
   }
 
@@ -237,23 +246,23 @@ export class UserController {
    */
   static async getLeaderboard(c: any) {
     try {
-      console.log('🏆 Getting leaderboard...');
+      logger.info('🏆 Getting leaderboard...');
+      
+      const limit = validateLeaderboardQuery(c.req.query());
+      
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const leaderboard = await UserDataService.getLeaderboard(limit, accessToken);
       
-      // For development, return empty leaderboard
       return c.json({
         success: true,
-        data: [],
+        data: leaderboard,
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error getting leaderboard:', error);
+      logger.error('❌ Error getting leaderboard', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to get leaderboard',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to get leaderboard');
     }
   }
 
@@ -263,29 +272,69 @@ export class UserController {
    */
   static async updateProfile(c: any) {
     try {
-      console.log('📝 Updating user profile...');
+      logger.info('📝 Updating user profile...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, return success
+      const updates = validateProfileUpdate(await c.req.json());
+      
+      if (updates.feedbackPersona !== undefined && !await findPersona(c.env, updates.feedbackPersona)) {
+        throw new ApiError(`Unknown feedback persona: ${updates.feedbackPersona}`, 400, 'UNKNOWN_PERSONA');
+      }
+      
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const updatedUser = await UserDataService.updateUserProfile(user.uid, updates, accessToken);
+      
       return c.json({
         success: true,
-        data: {},
+        data: updatedUser,
         message: 'User profile updated successfully',
         timestamp: new Date().toISOString()
       });
       
     } catch (error: any) {
-      console.error('❌ Error updating user profile:', error);
+      logger.error('❌ Error updating user profile', { error });
+      
+      return sendError(c, error, 'Failed to update user profile');
+    }
+  }
+
+  /**
+   * Set another user's role (admin only)
+   * PATCH /api/users/:uid/role
+   */
+  static async setUserRole(c: any) {
+    try {
+      const uid = c.req.param('uid');
+      const role = validateRoleUpdate(await c.req.json());
+      
+      logger.info(`🎭 Setting role for user ${uid}...`);
+      
+      if (uid === c.get('user')?.uid && role !== 'admin') {
+        throw new ApiError('Admins cannot remove their own admin role', 400, 'CANNOT_DEMOTE_SELF');
+      }
+      
+      const accessToken = await getFirebaseAccessToken(c.env);
+      const user = await UserDataService.setUserRole(uid, role, accessToken);
+      
+      if (!user) {
+        throw new ApiError('User not found', 404, 'USER_NOT_FOUND');
+      }
       
       return c.json({
-        success: false,
-        error: 'Failed to update user profile',
+        success: true,
+        data: user,
+        message: `User role set to ${role}`,
         timestamp: new Date().toISOString()
-      }, 500);
+      });
+      
+    } catch (error: any) {
+      logger.error('❌ Error setting user role', { error });
+      
+      return sendError(c, error, 'Failed to set user role');
     }
   }
 
@@ -295,14 +344,16 @@ export class UserController {
    */
   static async deleteUser(c: any) {
     try {
-      console.log('🗑️ Deleting user account...');
+      logger.info('🗑️ Deleting user account...');
       
       const user = c.get('user');
       if (!user?.uid) {
         throw new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
       }
       
-      // For development, return success
+      const accessToken = await getFirebaseAccessToken(c.env);
+      await UserDataService.deleteUser(user.uid, accessToken);
+      
       return c.json({
         success: true,
         message: 'User account deleted successfully',
@@ -310,34 +361,18 @@ export class UserController {
       });
       
     } catch (error: any) {
-      console.error('❌ Error deleting user account:', error);
+      logger.error('❌ Error deleting user account', { error });
       
-      return c.json({
-        success: false,
-        error: 'Failed to delete user account',
-        timestamp: new Date().toISOString()
-      }, 500);
+      return sendError(c, error, 'Failed to delete user account');
     }
   }
 }
 
 /**
- * Get Firebase access token for Firestore REST API access
- * In a real implementation, this would use service account credentials
+ * Get the Worker's own access token for Firestore REST API access.
+ * Requests run as the service account, so server-owned documents such as
+ * userStats can be written regardless of client security rules.
  */
-export function getFirebaseAccessToken(env: any): string {
-  // Log environment debugging info
-  console.log('🔧 Environment vars available:', Object.keys(env || {}));
-  console.log('🔧 ENABLE_REAL_FIREBASE value:', env?.ENABLE_REAL_FIREBASE);
-  
-  // For testing: Always return firebase-service-token to enable real operations
-  const enableRealFirebase = true; // Forced enable for testing
-  
-  if (enableRealFirebase) {
-    console.log('🔥 Real Firebase operations ENABLED (forced for testing)');
-    return `firebase-service-token:firebase-adminsdk-fbsvc@prompt-proj1.iam.gserviceaccount.com`;
-  }
-  
-  console.log('⚠️ Using development mode - Firebase access token bypassed');
-  return 'dev-mode-token';
+export function getFirebaseAccessToken(env: any): Promise<string> {
+  return getServiceAccessToken(env);
 }
@@ -1,13 +1,13 @@
 /**
  * 📷 Local Image Service for Cloudflare Workers
- * Fetches challenge images and converts them to base64
+ * Loads challenge target images and converts them to base64: uploaded images
+ * from the image store, catalog images only from the frontend origins
  */
 
-import { ApiError } from './types';
-
-export interface LocalImageRequest {
-  imageUrl: string;
-}
+import { bytesToBase64, logger, resolveChallengeImageSource } from '@prompt-tool/core';
+import { CORS_ORIGINS } from './config/origins';
+import { getChallengeImageStore } from './services/challengeStore';
+import { ApiError, LocalImageRequest } from './types';
 
 export interface LocalImageResponse {
   success: boolean;
@@ -18,67 +18,47 @@ export interface LocalImageResponse {
 }
 
 /**
- * Validate local image request
+ * Load a challenge target image as base64
+ * @param imageUrl The challenge's imageUrl
+ * @param preferredOrigin Frontend to resolve relative URLs against, if it is one of ours
  */
-export const validateLocalImageRequest = (body: any): LocalImageRequest => {
-  if (!body.imageUrl || typeof body.imageUrl !== 'string') {
-    throw new ApiError('Image URL is required and must be a string', 400, 'INVALID_IMAGE_URL');
+export const loadChallengeImageBase64 = async (env: any, imageUrl: string, preferredOrigin?: string): Promise<string> => {
+  const source = resolveChallengeImageSource(imageUrl, CORS_ORIGINS, preferredOrigin);
+
+  if (source.type === 'upload') {
+    const image = await getChallengeImageStore(env).getImage(source.challengeId);
+    if (!image) {
+      throw new ApiError('Challenge image not found', 404, 'IMAGE_NOT_FOUND');
+    }
+    return bytesToBase64(new Uint8Array(image.data));
   }
 
-  return {
-    imageUrl: body.imageUrl.trim()
-  };
-};
+  logger.debug(`🔗 Fetching challenge image from ${source.url}`);
 
-/**
- * Convert ArrayBuffer to Base64 string for Workers environment
- */
-const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
-  const uint8Array = new Uint8Array(buffer);
-  const binaryString = Array.from(uint8Array)
-    .map((byte) => String.fromCharCode(byte))
-    .join('');
-  
-  // In Workers environment, use btoa instead of Buffer
-  return btoa(binaryString);
+  // A redirect could lead off the allowed origins
+  const response = await fetch(source.url, { redirect: 'manual' });
+  if (!response.ok) {
+    throw new ApiError(`Failed to fetch image: ${response.statusText}`, 404, 'IMAGE_NOT_FOUND');
+  }
+  return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
 };
 
 /**
  * Get local image and convert to base64
  */
 export const getLocalImage = async (
+  env: any,
   request: LocalImageRequest,
   originHeader?: string
 ): Promise<LocalImageResponse> => {
   try {
     const { imageUrl } = request;
 
-    console.log(`📷 Local image request: ${imageUrl}`);
-
-    // Get origin from request headers to determine frontend URL
-    const origin = originHeader || 'https://prompt-proj1.web.app';
-    
-    // Construct full URL for local images
-    const fullImageUrl = imageUrl.startsWith('/') 
-      ? `${origin}${imageUrl}` 
-      : `${origin}/${imageUrl}`;
-    
-    console.log(`🔗 Fetching from: ${fullImageUrl}`);
-    
-    const response = await fetch(fullImageUrl);
-    
-    if (!response.ok) {
-      throw new ApiError(
-        `Failed to fetch image: ${response.statusText}`, 
-        404, 
-        'IMAGE_NOT_FOUND'
-      );
-    }
+    logger.info(`📷 Local image request: ${imageUrl}`);
 
-    const arrayBuffer = await response.arrayBuffer();
-    const base64 = arrayBufferToBase64(arrayBuffer);
+    const base64 = await loadChallengeImageBase64(env, imageUrl, originHeader);
 
-    console.log(`✅ Local image loaded successfully (${base64.length} chars)`);
+    logger.info(`✅ Local image loaded successfully (${base64.length} chars)`);
 
     return {
       success: true,
@@ -88,7 +68,7 @@ export const getLocalImage = async (
     };
 
   } catch (error) {
-    console.error('❌ Error fetching local image:', error);
+    logger.error('❌ Error fetching local image', { error });
     
     throw error instanceof ApiError ? error : new ApiError(
       `Failed to fetch image: ${error instanceof Error ? error.message : 'Unknown error'}`,
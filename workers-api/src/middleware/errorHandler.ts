@@ -3,55 +3,84 @@
  * Based on server implementation
  */
 
-import { ApiError } from '../types';
+import { getContext } from 'hono/context-storage';
+import { configureLogger, logger, resolveLogLevel, toErrorResponse } from '@prompt-tool/core';
+import { ApiError, ErrorCode } from '../types';
 
-export function errorHandler(err: Error, c: any) {
-  console.error('Error occurred:', err.stack);
+/**
+ * 📮 Send the error envelope for a caught error. ApiErrors keep their
+ * status and code; anything else is a 500 with `fallbackMessage`.
+ */
+export function sendError(c: any, error: unknown, fallbackMessage: string, fallbackCode?: ErrorCode) {
+  const { status, body } = toErrorResponse(error, {
+    requestId: c.get('requestId') ?? crypto.randomUUID(),
+    fallbackMessage,
+    fallbackCode
+  });
 
-  // Default error
-  let status = 500;
-  let message = 'Internal Server Error';
+  if (body.retryAfter !== undefined) {
+    c.header('Retry-After', String(body.retryAfter));
+  }
+  return c.json(body, status);
+}
 
-  // Handle specific error types
+/**
+ * Map errors thrown by libraries onto catalog codes
+ */
+function toApiError(err: Error): Error {
   if (err instanceof ApiError) {
-    status = err.statusCode || 500;
-    message = err.message;
+    return err;
   } else if (err.name === 'ValidationError') {
-    status = 400;
-    message = err.message;
+    return new ApiError(err.message, 400, 'INVALID_REQUEST');
   } else if (err.name === 'UnauthorizedError') {
-    status = 401;
-    message = 'Unauthorized';
+    return new ApiError('Unauthorized', 401, 'AUTH_FAILED');
   } else if (err.message.includes('API key')) {
-    status = 401;
-    message = 'Invalid or missing API key';
+    return new ApiError('Invalid or missing API key', 401, 'INVALID_API_KEY');
   } else if (err.message.includes('rate limit')) {
-    status = 429;
-    message = 'Rate limit exceeded';
+    return new ApiError('Rate limit exceeded', 429, 'RATE_LIMITED');
   } else if (err.message.includes('timeout')) {
-    status = 504;
-    message = 'Request timeout';
+    return new ApiError('Request timeout', 504, 'REQUEST_TIMEOUT');
   }
+  return err;
+}
+
+/**
+ * app.onError handler for anything a route didn't catch
+ */
+export function errorHandler(err: Error, c: any) {
+  logger.error('❌ Unhandled error', { error: err });
+  return sendError(c, toApiError(err), 'Internal server error');
+}
 
-  return c.json({
-    success: false,
-    error: message,
-    timestamp: new Date().toISOString(),
-    // Include stack trace in development
-    ...(c.env?.NODE_ENV === 'development' && { stack: err.stack })
-  }, status);
+/**
+ * Fields for every line logged while a request is handled; contextStorage()
+ * makes the request's context reachable from services that never see it
+ */
+function requestLogContext() {
+  try {
+    return { requestId: getContext().get('requestId') };
+  } catch {
+    return undefined;   // Not inside a request, e.g. a Durable Object call
+  }
 }
 
 /**
- * Request Logger Middleware for Cloudflare Workers
+ * 📨 Request Logger Middleware for Cloudflare Workers
+ * Logs each request once it is answered. The level comes from the bindings,
+ * which a Worker only sees per request.
  */
-export function requestLogger(c: any, next: () => Promise<void>) {
-  const timestamp = new Date().toISOString();
-  const method = c.req.method;
-  const url = c.req.url;
-  const userAgent = c.req.header('User-Agent') || 'Unknown';
-  
-  console.log(`[${timestamp}] ${method} ${url} - ${userAgent}`);
-  
-  return next();
+export async function requestLogger(c: any, next: () => Promise<void>) {
+  configureLogger({ level: resolveLogLevel(c.env), context: requestLogContext });
+
+  const start = Date.now();
+  await next();
+
+  const status = c.res.status;
+  logger[status >= 500 ? 'error' : 'info'](`${c.req.method} ${c.req.path} ${status}`, {
+    method: c.req.method,
+    path: c.req.path,
+    status,
+    durationMs: Date.now() - start,
+    userAgent: c.req.header('User-Agent') || 'Unknown'
+  });
 }
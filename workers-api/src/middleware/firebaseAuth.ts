@@ -1,9 +1,15 @@
 /**
  * 🛡️ Firebase Authentication Middleware for Cloudflare Workers
- * Verifies Firebase JWT tokens using REST API calls
+ * Verifies Firebase ID tokens against Google's published signing keys
  */
 
-import { ApiError } from '../types';
+import { logger } from '@prompt-tool/core';
+import { ApiError, USER_ROLES, UserRole } from '../types';
+import { UserDataService } from '../services/userDataService';
+import { getServiceAccessToken } from '../services/serviceAccountToken';
+import { FirebaseTokenVerifier } from '../services/firebaseTokenVerifier';
+import { initializeFirebaseWorkers } from '../config/firebase';
+import { sendError } from './errorHandler';
 
 // Extend context to include Firebase user
 export interface AuthenticatedContext {
@@ -11,61 +17,77 @@ export interface AuthenticatedContext {
     uid: string;
     email?: string;
     emailVerified?: boolean;
+    role?: UserRole;
   };
 }
 
 /**
- * Firebase ID Token verification using Google's public keys
+ * Narrow a custom claim value to a known role
  */
-export async function verifyFirebaseToken(token: string): Promise<any> {
-  try {
-    console.log('🔑 Starting Firebase token verification...');
-    
-    // Decode the JWT token header to get the key ID
-    const tokenParts = token.split('.');
-    if (tokenParts.length !== 3) {
-      throw new ApiError('Invalid token format', 401, 'INVALID_TOKEN_FORMAT');
+function toUserRole(value: unknown): UserRole | undefined {
+  return USER_ROLES.includes(value as UserRole) ? value as UserRole : undefined;
+}
+
+/**
+ * Resolve the caller's role: the `role` custom claim wins, then the role
+ * stored on the user document, then 'student'. Caches the result on the context user.
+ */
+export async function resolveUserRole(c: any): Promise<UserRole | undefined> {
+  const user = c.get('user');
+  if (!user) return undefined;
+
+  if (!user.role) {
+    try {
+      const userDoc = await UserDataService.getUserById(user.uid, await getServiceAccessToken(c.env));
+      user.role = toUserRole(userDoc?.role) || 'student';
+    } catch (error) {
+      logger.warn('⚠️ Could not load user role, defaulting to student', { error });
+      user.role = 'student';
     }
-    
-    // For development, we'll implement a simpler verification approach
-    // In production, you should implement proper JWT verification with Google's public keys
-    
-    // Get the token payload
-    const payload = JSON.parse(atob(tokenParts[1]));
-    console.log('🔍 Token payload decoded:', { 
-      iss: payload.iss, 
-      aud: payload.aud, 
-      exp: payload.exp,
-      iat: payload.iat,
-      user_id: payload.user_id?.substring(0, 8) + '...' // Log partial user ID for privacy
+    c.set('user', user);
+  }
+
+  return user.role;
+}
+
+let tokenVerifier: FirebaseTokenVerifier | null = null;
+
+/**
+ * Get the shared token verifier. Reusing it across requests keeps the
+ * signing keys cached for their max-age.
+ */
+function getTokenVerifier(env: any): FirebaseTokenVerifier {
+  if (!tokenVerifier) {
+    tokenVerifier = new FirebaseTokenVerifier({
+      projectId: initializeFirebaseWorkers(env).projectId
     });
-    
-    // Basic validation
-    if (!payload.user_id) {
-      throw new ApiError('Invalid token: missing user_id', 401, 'INVALID_TOKEN');
-    }
-    
-    if (payload.exp < Date.now() / 1000) {
-      throw new ApiError('Token expired', 401, 'TOKEN_EXPIRED');
-    }
-    
-    if (payload.aud !== 'prompt-proj1') {
-      console.warn('⚠️ Token audience mismatch:', payload.aud);
-      // For development, we'll allow this but log a warning
-    }
-    
-    // For development purposes, if the token is properly formatted and not expired, accept it
-    // In production, you would verify the signature using Google's public keys
-    console.log('✅ Token verification successful (development mode)');
-    
+  }
+  return tokenVerifier;
+}
+
+/**
+ * Replace the token verifier (tests inject one backed by a local key pair)
+ */
+export function setTokenVerifier(verifier: FirebaseTokenVerifier | null): void {
+  tokenVerifier = verifier;
+}
+
+/**
+ * Firebase ID Token verification using Google's public keys
+ */
+export async function verifyFirebaseToken(token: string, env?: any): Promise<any> {
+  try {
+    const decoded = await getTokenVerifier(env).verify(token);
+
     return {
-      uid: payload.user_id || payload.sub,
-      email: payload.email,
-      emailVerified: payload.email_verified
+      uid: decoded.uid,
+      email: decoded.email,
+      emailVerified: decoded.emailVerified,
+      role: toUserRole(decoded.claims.role)
     };
     
   } catch (error) {
-    console.error('❌ Token verification failed:', error);
+    logger.error('❌ Token verification failed', { error });
     if (error instanceof ApiError) {
       throw error;
     }
@@ -94,10 +116,10 @@ export async function authenticateFirebaseToken(c: any, next: () => Promise<void
       throw new ApiError('No token provided', 401, 'NO_TOKEN');
     }
     
-    console.log('🔍 Verifying Firebase token...');
+    logger.debug('🔍 Verifying Firebase token...');
     
     // Verify the Firebase ID token
-    const decodedToken = await verifyFirebaseToken(token);
+    const decodedToken = await verifyFirebaseToken(token, c.env);
     
     if (!decodedToken) {
       throw new ApiError('Invalid token', 401, 'INVALID_TOKEN');
@@ -107,29 +129,18 @@ export async function authenticateFirebaseToken(c: any, next: () => Promise<void
     c.set('user', {
       uid: decodedToken.uid,
       email: decodedToken.email,
-      emailVerified: decodedToken.emailVerified
+      emailVerified: decodedToken.emailVerified,
+      role: decodedToken.role
     });
     
-    console.log(`✅ Token verified for user: ${decodedToken.email} (${decodedToken.uid})`);
+    logger.debug('✅ Token verified', { uid: decodedToken.uid });
     await next();
     
   } catch (error: any) {
-    console.error('❌ Authentication failed:', error);
-    
-    if (error instanceof ApiError) {
-      return c.json({
-        success: false,
-        error: error.message,
-        code: error.code,
-        timestamp: new Date().toISOString()
-      }, error.statusCode || 401);
-    }
+    logger.error('❌ Authentication failed', { error });
     
-    return c.json({
-      success: false,
-      error: 'Authentication failed',
-      timestamp: new Date().toISOString()
-    }, 401);
+    const authError = error instanceof ApiError ? error : new ApiError('Authentication failed', 401, 'AUTH_FAILED');
+    return sendError(c, authError, 'Authentication failed');
   }
 }
 
@@ -146,22 +157,47 @@ export async function optionalAuth(c: any, next: () => Promise<void>) {
       
       if (token) {
         try {
-          const decodedToken = await verifyFirebaseToken(token);
+          const decodedToken = await verifyFirebaseToken(token, c.env);
           c.set('user', {
             uid: decodedToken.uid,
             email: decodedToken.email,
-            emailVerified: decodedToken.emailVerified
+            emailVerified: decodedToken.emailVerified,
+            role: decodedToken.role
           });
-          console.log(`✅ Optional auth: Token verified for user: ${decodedToken.email}`);
+          logger.debug('✅ Optional auth: Token verified', { uid: decodedToken.uid });
         } catch (error) {
-          console.log(`⚠️ Optional auth: Token verification failed, continuing without auth`);
+          logger.info(`⚠️ Optional auth: Token verification failed, continuing without auth`);
         }
       }
     }
     
     await next();
   } catch (error) {
-    console.error('❌ Optional auth error:', error);
+    logger.error('❌ Optional auth error', { error });
     await next(); // Continue even if optional auth fails
   }
 }
+
+/**
+ * Role Authorization Middleware
+ * Must run after authenticateFirebaseToken. Allows only the given roles.
+ * Usage: routes.post('/x', authenticateFirebaseToken, requireRole('admin'), handler)
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (c: any, next: () => Promise<void>) => {
+    const role = await resolveUserRole(c);
+
+    if (!role) {
+      return sendError(c, new ApiError('User not authenticated', 401, 'NOT_AUTHENTICATED'), 'User not authenticated');
+    }
+
+    if (!roles.includes(role)) {
+      logger.warn('🚫 Access denied', { uid: c.get('user')?.uid, role, requires: roles });
+
+      const message = `Requires role: ${roles.join(' or ')}`;
+      return sendError(c, new ApiError(message, 403, 'FORBIDDEN'), message);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * 📐 Response Validation Middleware for Cloudflare Workers
+ * Checks the JSON a route sends against its schema in API_ROUTES.
+ * Mismatches are logged; in development and test they become a 500.
+ * Based on server implementation
+ */
+
+import { ApiRoute, checkRouteResponse, logger } from '@prompt-tool/core';
+
+export function validateResponse(route: ApiRoute) {
+  return async (c: any, next: () => Promise<void>) => {
+    await next();
+
+    if (!c.res.headers.get('Content-Type')?.includes('application/json')) {
+      return;
+    }
+
+    const problems = checkRouteResponse(route, c.res.status, await c.res.clone().json());
+    if (!problems) {
+      return;
+    }
+
+    logger.error(`❌ ${route.method.toUpperCase()} ${route.path} response does not match its schema`, { problems });
+
+    // Fail loudly where a mismatch can still be fixed before it ships
+    if (['development', 'test'].includes(c.env?.NODE_ENV)) {
+      const message = `Response does not match its schema: ${problems.join('; ')}`;
+      c.res = c.json({
+        success: false,
+        code: 'RESPONSE_SCHEMA_MISMATCH',
+        message,
+        error: message,
+        details: { problems },
+        requestId: c.get('requestId'),
+        timestamp: new Date().toISOString()
+      }, 500);
+    }
+  };
+}
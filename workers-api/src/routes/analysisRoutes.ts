@@ -3,15 +3,19 @@
  */
 
 import { Hono } from 'hono';
+import { API_ROUTES } from '@prompt-tool/core';
+import { AnalysisController } from '../controllers/analysisController';
+import { authenticateFirebaseToken } from '../middleware/firebaseAuth';
+import { validateResponse } from '../middleware/validateResponse';
 
 const analysisRoutes = new Hono();
 
-// POST /api/analysis/compare
-// Analyze and compare generated image with target image
-analysisRoutes.post('/compare', async (c) => {
-  // This would call the existing analysis logic from index.ts
-  // For now, we'll integrate it directly in the main index file
-  return c.json({ message: 'Analysis endpoint - implement in main index' });
-});
+/**
+ * 🧠 Analysis Routes
+ *
+ * POST /api/analysis/compare - Score a generated image against its challenge and record the attempt
+ */
+
+analysisRoutes.post('/compare', validateResponse(API_ROUTES.compareImages), authenticateFirebaseToken, AnalysisController.compareImages);
 
 export default analysisRoutes;
@@ -0,0 +1,35 @@
+/**
+ * Challenge Routes for Workers API
+ * Public challenge catalog and instructor authoring
+ */
+
+import { Hono } from 'hono';
+import { API_ROUTES } from '@prompt-tool/core';
+import { ChallengeController } from '../controllers/challengeController';
+import { authenticateFirebaseToken, requireRole } from '../middleware/firebaseAuth';
+import { validateResponse } from '../middleware/validateResponse';
+
+const challengeRoutes = new Hono();
+
+/**
+ * 🎯 Challenge Routes
+ *
+ * GET    /api/challenges           - List challenges in mission order (?includeArchived=true)
+ * GET    /api/challenges/:id       - Get a single challenge
+ * GET    /api/challenges/:id/image - Get an uploaded target image
+ * POST   /api/challenges           - Create a challenge (instructor)
+ * PATCH  /api/challenges/:id       - Update a challenge (instructor)
+ * DELETE /api/challenges/:id       - Archive a challenge (instructor)
+ */
+
+// Public catalog
+challengeRoutes.get('/', validateResponse(API_ROUTES.getChallenges), ChallengeController.getChallenges);
+challengeRoutes.get('/:id', validateResponse(API_ROUTES.getChallenge), ChallengeController.getChallenge);
+challengeRoutes.get('/:id/image', validateResponse(API_ROUTES.getChallengeImage), ChallengeController.getChallengeImage);
+
+// Instructor authoring
+challengeRoutes.post('/', validateResponse(API_ROUTES.createChallenge), authenticateFirebaseToken, requireRole('instructor', 'admin'), ChallengeController.createChallenge);
+challengeRoutes.patch('/:id', validateResponse(API_ROUTES.updateChallenge), authenticateFirebaseToken, requireRole('instructor', 'admin'), ChallengeController.updateChallenge);
+challengeRoutes.delete('/:id', validateResponse(API_ROUTES.archiveChallenge), authenticateFirebaseToken, requireRole('instructor', 'admin'), ChallengeController.archiveChallenge);
+
+export default challengeRoutes;
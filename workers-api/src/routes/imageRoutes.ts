@@ -3,22 +3,25 @@
  */
 
 import { Hono } from 'hono';
+import { API_ROUTES } from '@prompt-tool/core';
+import { ImageController } from '../controllers/imageController';
+import { optionalAuth } from '../middleware/firebaseAuth';
+import { validateResponse } from '../middleware/validateResponse';
 
 const imageRoutes = new Hono();
 
-// POST /api/images/generate
-// Generate an image using either Pollinations or Gemini
-imageRoutes.post('/generate', async (c) => {
-  // This would call the existing image generation logic from index.ts
-  // For now, we'll integrate it directly in the main index file
-  return c.json({ message: 'Image generation endpoint - implement in main index' });
-});
+/**
+ * 🎨 Image Routes
+ *
+ * POST /api/images/generate  - Generate an image with a registered provider (owned by the signed-in user)
+ * GET  /api/images/providers - List the image providers
+ * POST /api/images/local     - Get a challenge image as base64
+ * GET  /api/images/:id       - Serve a stored generated image
+ */
 
-// POST /api/images/local
-// Get a local image as base64
-imageRoutes.post('/local', async (c) => {
-  // This would call the existing local image logic
-  return c.json({ message: 'Local image endpoint - implement in main index' });
-});
+imageRoutes.post('/generate', validateResponse(API_ROUTES.generateImage), optionalAuth, ImageController.generateImage);
+imageRoutes.get('/providers', validateResponse(API_ROUTES.getImageProviders), ImageController.getImageProviders);
+imageRoutes.post('/local', validateResponse(API_ROUTES.getLocalImage), ImageController.getLocalImage);
+imageRoutes.get('/:id', validateResponse(API_ROUTES.getGeneratedImage), ImageController.getGeneratedImage);
 
 export default imageRoutes;
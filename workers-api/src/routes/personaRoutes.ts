@@ -0,0 +1,26 @@
+/**
+ * Persona Routes for Workers API
+ * Feedback persona catalog and instructor authoring
+ */
+
+import { Hono } from 'hono';
+import { API_ROUTES } from '@prompt-tool/core';
+import { PersonaController } from '../controllers/personaController';
+import { authenticateFirebaseToken, requireRole } from '../middleware/firebaseAuth';
+import { validateResponse } from '../middleware/validateResponse';
+
+const personaRoutes = new Hono();
+
+/**
+ * 🗣️ Feedback Persona Routes
+ *
+ * GET    /api/personas     - List built-in and instructor-defined personas
+ * POST   /api/personas     - Define a persona (instructor)
+ * DELETE /api/personas/:id - Delete an instructor-defined persona (instructor)
+ */
+
+personaRoutes.get('/', validateResponse(API_ROUTES.getPersonas), PersonaController.getPersonas);
+personaRoutes.post('/', validateResponse(API_ROUTES.createPersona), authenticateFirebaseToken, requireRole('instructor', 'admin'), PersonaController.createPersona);
+personaRoutes.delete('/:id', validateResponse(API_ROUTES.deletePersona), authenticateFirebaseToken, requireRole('instructor', 'admin'), PersonaController.deletePersona);
+
+export default personaRoutes;
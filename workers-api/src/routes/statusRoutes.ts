@@ -3,21 +3,28 @@
  */
 
 import { Hono } from 'hono';
-import { getKeyManagerStatus, resetKeyManagerMetrics } from '../controllers/statusController';
+import { API_ROUTES } from '@prompt-tool/core';
+import { getKeyManagerStatus, getOperationMetrics, resetKeyManagerMetrics } from '../controllers/statusController';
+import { authenticateFirebaseToken, optionalAuth, requireRole } from '../middleware/firebaseAuth';
+import { validateResponse } from '../middleware/validateResponse';
 
 const statusRoutes = new Hono();
 
 /**
  * Status Routes
  * 
- * GET /api/status/keys - Get Gemini Key Manager status
- * POST /api/status/keys/reset - Reset key manager metrics
+ * GET /api/status/keys - Get Gemini Key Manager status (per-key detail for admins)
+ * POST /api/status/keys/reset - Reset key manager metrics (admin only)
+ * GET /api/status/metrics - Gemini call latency and outcomes by operation and key (admin only)
  */
 
 // Get key manager status
-statusRoutes.get('/keys', getKeyManagerStatus);
+statusRoutes.get('/keys', validateResponse(API_ROUTES.getKeyManagerStatus), optionalAuth, getKeyManagerStatus);
 
 // Reset key manager metrics  
-statusRoutes.post('/keys/reset', resetKeyManagerMetrics);
+statusRoutes.post('/keys/reset', validateResponse(API_ROUTES.resetKeyManagerMetrics), authenticateFirebaseToken, requireRole('admin'), resetKeyManagerMetrics);
+
+// Gemini operation metrics
+statusRoutes.get('/metrics', validateResponse(API_ROUTES.getOperationMetrics), authenticateFirebaseToken, requireRole('admin'), getOperationMetrics);
 
 export default statusRoutes;
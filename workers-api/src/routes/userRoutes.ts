@@ -4,31 +4,41 @@
  */
 
 import { Hono } from 'hono';
+import { API_ROUTES } from '@prompt-tool/core';
 import { UserController } from '../controllers/userController';
-import { authenticateFirebaseToken, optionalAuth } from '../middleware/firebaseAuth';
+import { authenticateFirebaseToken, optionalAuth, requireRole } from '../middleware/firebaseAuth';
+import { validateResponse } from '../middleware/validateResponse';
 
 const userRoutes = new Hono();
 
 /**
  * 👤 User Routes - Firebase Auth Protected Endpoints
  * All routes require Firebase authentication except leaderboard
+ * Role management is restricted to admins
  */
 
 // User Profile Routes
-userRoutes.get('/profile', authenticateFirebaseToken, UserController.getUserProfile);
-userRoutes.post('/profile', authenticateFirebaseToken, UserController.createOrUpdateProfile);
-userRoutes.patch('/profile', authenticateFirebaseToken, UserController.updateProfile);
-userRoutes.delete('/profile', authenticateFirebaseToken, UserController.deleteUser);
+userRoutes.get('/profile', validateResponse(API_ROUTES.getUserProfile), authenticateFirebaseToken, UserController.getUserProfile);
+userRoutes.post('/profile', validateResponse(API_ROUTES.createOrUpdateProfile), authenticateFirebaseToken, UserController.createOrUpdateProfile);
+userRoutes.patch('/profile', validateResponse(API_ROUTES.updateProfile), authenticateFirebaseToken, UserController.updateProfile);
+userRoutes.delete('/profile', validateResponse(API_ROUTES.deleteUser), authenticateFirebaseToken, UserController.deleteUser);
 
-// User Progress Routes
-userRoutes.get('/progress', authenticateFirebaseToken, UserController.getUserProgress);
-userRoutes.post('/progress', authenticateFirebaseToken, UserController.saveUserProgress);
+// User Progress Routes (writes are rejected; scoring owns progress and stats)
+userRoutes.get('/progress', validateResponse(API_ROUTES.getUserProgress), authenticateFirebaseToken, UserController.getUserProgress);
+userRoutes.post('/progress', validateResponse(API_ROUTES.saveUserProgress), authenticateFirebaseToken, UserController.saveUserProgress);
 
 // User Statistics Routes
-userRoutes.get('/stats', authenticateFirebaseToken, UserController.getUserStats);
-userRoutes.post('/stats/update', authenticateFirebaseToken, UserController.updateUserStats);
+userRoutes.get('/stats', validateResponse(API_ROUTES.getUserStats), authenticateFirebaseToken, UserController.getUserStats);
+userRoutes.post('/stats/update', validateResponse(API_ROUTES.updateUserStats), authenticateFirebaseToken, UserController.updateUserStats);
+
+// Attempt History Routes
+userRoutes.get('/attempts', validateResponse(API_ROUTES.getAttempts), authenticateFirebaseToken, UserController.getAttempts);
+userRoutes.get('/attempts/best', validateResponse(API_ROUTES.getBestAttempts), authenticateFirebaseToken, UserController.getBestAttempts);
+
+// Role Management (admin only)
+userRoutes.patch('/:uid/role', validateResponse(API_ROUTES.setUserRole), authenticateFirebaseToken, requireRole('admin'), UserController.setUserRole);
 
 // Leaderboard (optionally authenticated for user context)
-userRoutes.get('/leaderboard', optionalAuth, UserController.getLeaderboard);
+userRoutes.get('/leaderboard', validateResponse(API_ROUTES.getLeaderboard), optionalAuth, UserController.getLeaderboard);
 
 export default userRoutes;
@@ -0,0 +1,34 @@
+/**
+ * 🧠 Analysis Service for Workers
+ * Scores attempts with the shared analyzer, using the Worker's key pool
+ * Based on server implementation
+ */
+
+import { analyzeImages as analyzeWithCore, getAnalysisOptions, getUserName } from '@prompt-tool/core';
+import { getGeminiKeyRunner } from '../geminiKeyManager';
+import { AnalysisResult, Challenge, FeedbackPersona } from '../types';
+
+/**
+ * 🤖 Analyze a generated image against the challenge target.
+ * ANALYSIS_MODE picks the analyzer: "gemini" (default) falls back to the
+ * local analyzer when Gemini fails, "blend" mixes both scores, "local"
+ * never calls Gemini. Gemini writes its feedback in the persona's voice.
+ */
+export async function analyzeImages(
+  env: any,
+  email: string | undefined,
+  challenge: Challenge,
+  generatedImageBase64: string,
+  userPrompt: string,
+  targetImageBase64: string,
+  persona: FeedbackPersona
+): Promise<AnalysisResult> {
+  return analyzeWithCore(getAnalysisOptions(env), getGeminiKeyRunner(env), {
+    userName: getUserName(email),
+    challenge,
+    generatedImageBase64,
+    targetImageBase64,
+    userPrompt,
+    persona
+  });
+}
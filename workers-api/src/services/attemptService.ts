@@ -0,0 +1,186 @@
+/**
+ * 📜 Attempt Service for Workers - Queries over the attempts collection
+ * Attempts are written by ScoringService; this service only reads them,
+ * using Firestore REST structured queries.
+ * Based on server implementation
+ */
+
+import { logger } from '@prompt-tool/core';
+import { getFirebaseConfig, getFirestoreBaseUrl } from '../config/firebase';
+import { UserDataService } from './userDataService';
+import { ApiError, AttemptPage, AttemptQuery, AttemptRecord, ImageService } from '../types';
+
+const ATTEMPTS_COLLECTION = 'attempts';
+
+interface AttemptCursor {
+  createdAt: string;
+  id: string;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Cursors point at the last attempt of a page: (createdAt, id) is unique
+ * and matches the query's sort order.
+ */
+export function encodeAttemptCursor(attempt: AttemptRecord): string {
+  return toBase64Url(JSON.stringify({ createdAt: attempt.createdAt.toISOString(), id: attempt.id }));
+}
+
+export function decodeAttemptCursor(cursor: string): AttemptCursor {
+  try {
+    const decoded = JSON.parse(fromBase64Url(cursor));
+    if (typeof decoded?.id !== 'string' || isNaN(Date.parse(decoded?.createdAt))) {
+      throw new Error('Malformed cursor');
+    }
+    return decoded;
+  } catch {
+    throw new ApiError('Invalid cursor', 400, 'INVALID_CURSOR');
+  }
+}
+
+function fieldFilter(fieldPath: string, value: any) {
+  return { fieldFilter: { field: { fieldPath }, op: 'EQUAL', value } };
+}
+
+function attemptDocumentName(id: string): string {
+  return `projects/${getFirebaseConfig().projectId}/databases/(default)/documents/${ATTEMPTS_COLLECTION}/${id}`;
+}
+
+export class AttemptService {
+
+  /**
+   * Page through a user's attempts, newest first
+   */
+  static async listAttempts(uid: string, query: AttemptQuery, accessToken: string): Promise<AttemptPage> {
+    logger.info(`📜 Fetching attempts for user: ${uid} (challenge=${query.challengeId ?? 'all'}, limit=${query.limit})`);
+
+    const filters = [fieldFilter('userId', { stringValue: uid })];
+    if (query.challengeId !== undefined) {
+      filters.push(fieldFilter('challengeId', { integerValue: String(query.challengeId) }));
+    }
+
+    const structuredQuery: Record<string, any> = {
+      from: [{ collectionId: ATTEMPTS_COLLECTION }],
+      where: { compositeFilter: { op: 'AND', filters } },
+      orderBy: [
+        { field: { fieldPath: 'createdAt' }, direction: 'DESCENDING' },
+        { field: { fieldPath: '__name__' }, direction: 'DESCENDING' }
+      ],
+      // Fetch one extra to learn whether another page exists
+      limit: query.limit + 1
+    };
+
+    if (query.cursor) {
+      const cursor = decodeAttemptCursor(query.cursor);
+      structuredQuery.startAt = {
+        values: [
+          { timestampValue: new Date(cursor.createdAt).toISOString() },
+          { referenceValue: attemptDocumentName(cursor.id) }
+        ],
+        before: false
+      };
+    }
+
+    const documents = await this.runQuery(structuredQuery, accessToken);
+    const attempts = documents.slice(0, query.limit).map(doc => this.parseAttempt(doc));
+    const hasMore = documents.length > query.limit;
+
+    logger.info(`✅ Loaded ${attempts.length} attempts for user: ${uid}`);
+    return {
+      attempts,
+      nextCursor: hasMore ? encodeAttemptCursor(attempts[attempts.length - 1]) : null
+    };
+  }
+
+  /**
+   * Best-scoring attempt for each challenge the user has played.
+   * Ties go to the earliest attempt. Ordered by challenge id.
+   */
+  static async getBestAttempts(uid: string, accessToken: string): Promise<AttemptRecord[]> {
+    logger.info(`🏅 Fetching best attempts for user: ${uid}`);
+
+    const progress = await UserDataService.getUserProgress(uid, accessToken);
+    const challengeIds = Object.keys(progress || {}).map(Number).sort((a, b) => a - b);
+
+    const best = await Promise.all(challengeIds.map(async challengeId => {
+      const documents = await this.runQuery({
+        from: [{ collectionId: ATTEMPTS_COLLECTION }],
+        where: {
+          compositeFilter: {
+            op: 'AND',
+            filters: [
+              fieldFilter('userId', { stringValue: uid }),
+              fieldFilter('challengeId', { integerValue: String(challengeId) })
+            ]
+          }
+        },
+        orderBy: [
+          { field: { fieldPath: 'score' }, direction: 'DESCENDING' },
+          { field: { fieldPath: 'createdAt' }, direction: 'ASCENDING' }
+        ],
+        limit: 1
+      }, accessToken);
+      return documents.length > 0 ? this.parseAttempt(documents[0]) : null;
+    }));
+
+    return best.filter((attempt): attempt is AttemptRecord => attempt !== null);
+  }
+
+  /**
+   * Run a structured query and return the matched documents
+   */
+  private static async runQuery(structuredQuery: Record<string, any>, accessToken: string): Promise<any[]> {
+    const response = await fetch(`${getFirestoreBaseUrl()}:runQuery`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ structuredQuery })
+    });
+
+    if (!response.ok) {
+      throw new ApiError(`Failed to query attempts: ${response.status}`, 500, 'ATTEMPT_QUERY_FAILED');
+    }
+
+    // One entry per result; an empty result set still returns a single entry without a document
+    const results = await response.json() as Array<{ document?: any }>;
+    return results.filter(result => result.document).map(result => result.document);
+  }
+
+  /**
+   * Convert an attempt document from Firestore format
+   */
+  static parseAttempt(doc: any): AttemptRecord {
+    const fields = doc.fields || {};
+    return {
+      id: doc.name.split('/').pop(),
+      userId: fields.userId?.stringValue || '',
+      challengeId: parseInt(fields.challengeId?.integerValue || '0'),
+      prompt: fields.prompt?.stringValue || '',
+      score: parseInt(fields.score?.integerValue || '0'),
+      passed: fields.passed?.booleanValue || false,
+      feedback: (fields.feedback?.arrayValue?.values || []).map((value: any) => value.stringValue || ''),
+      ...(fields.service?.stringValue && { service: fields.service.stringValue as ImageService }),
+      ...(fields.imageRef?.stringValue && { imageRef: fields.imageRef.stringValue }),
+      createdAt: new Date(fields.createdAt?.timestampValue || 0)
+    };
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * 🎯 Challenge Store for Workers - Pluggable Catalog Backends
+ * Selected per environment with the CHALLENGE_STORE binding:
+ * - "memory": serves the bundled default catalog (local development)
+ * - "firestore": reads the `challenges` collection via Firestore REST API
+ *
+ * Uploaded target images go to the CHALLENGE_IMAGES R2 bucket when bound,
+ * otherwise they are kept in memory for the lifetime of the isolate.
+ */
+
+import { DEFAULT_CHALLENGES, emptyRubric, logger, normalizeRubric } from '@prompt-tool/core';
+import { getFirestoreBaseUrl } from '../config/firebase';
+import { getServiceAccessToken } from './serviceAccountToken';
+import { ApiError, Challenge, ChallengeImageUpload, ChallengeInput } from '../types';
+
+const CHALLENGES_COLLECTION = 'challenges';
+const DEFAULT_PASS_THRESHOLD = 80;
+
+// Concurrent creates can race for the next id; the loser retries with a fresh read
+const MAX_CREATE_ATTEMPTS = 5;
+
+export interface ChallengeStore {
+  listChallenges(includeArchived?: boolean): Promise<Challenge[]>;
+  getChallenge(id: number): Promise<Challenge | null>;
+  createChallenge(input: ChallengeInput, createdBy: string): Promise<Challenge>;
+  updateChallenge(id: number, updates: ChallengeInput): Promise<Challenge | null>;
+  archiveChallenge(id: number): Promise<Challenge | null>;
+  // Only for undoing a create that couldn't finish; published challenges are archived
+  deleteChallenge(id: number): Promise<void>;
+}
+
+export interface ChallengeImageStore {
+  saveImage(id: number, image: ChallengeImageUpload): Promise<void>;
+  getImage(id: number): Promise<ChallengeImageUpload | null>;
+}
+
+function sortChallenges(challenges: Challenge[]): Challenge[] {
+  return [...challenges].sort((a, b) => (a.order ?? a.id) - (b.order ?? b.id));
+}
+
+function withDefaults(challenge: Challenge): Challenge {
+  return {
+    ...challenge,
+    order: challenge.order ?? challenge.id,
+    passThreshold: challenge.passThreshold ?? DEFAULT_PASS_THRESHOLD,
+    rubric: challenge.rubric || emptyRubric(),
+    status: challenge.status || 'active'
+  };
+}
+
+/**
+ * Build a new challenge record from authoring input
+ */
+function buildChallenge(existing: Challenge[], input: ChallengeInput, createdBy: string): Challenge {
+  const id = existing.reduce((max, challenge) => Math.max(max, challenge.id), 0) + 1;
+  const now = new Date();
+
+  return {
+    id,
+    name: input.name || '',
+    description: input.description || '',
+    imageUrl: input.imageUrl || '',
+    order: input.order ?? existing.reduce((max, c) => Math.max(max, c.order ?? c.id), 0) + 1,
+    passThreshold: input.passThreshold ?? DEFAULT_PASS_THRESHOLD,
+    rubric: input.rubric || emptyRubric(),
+    status: 'active',
+    createdBy,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * In-memory store backed by the bundled default catalog
+ */
+export class InMemoryChallengeStore implements ChallengeStore {
+  private challenges: Map<number, Challenge>;
+
+  constructor(challenges: Challenge[] = DEFAULT_CHALLENGES) {
+    this.challenges = new Map(challenges.map(challenge => [challenge.id, withDefaults(challenge)]));
+  }
+
+  async listChallenges(includeArchived: boolean = false): Promise<Challenge[]> {
+    return sortChallenges(Array.from(this.challenges.values())
+      .filter(challenge => includeArchived || challenge.status !== 'archived'));
+  }
+
+  async getChallenge(id: number): Promise<Challenge | null> {
+    return this.challenges.get(id) || null;
+  }
+
+  async createChallenge(input: ChallengeInput, createdBy: string): Promise<Challenge> {
+    const challenge = buildChallenge(Array.from(this.challenges.values()), input, createdBy);
+    this.challenges.set(challenge.id, challenge);
+    return challenge;
+  }
+
+  async updateChallenge(id: number, updates: ChallengeInput): Promise<Challenge | null> {
+    const existing = this.challenges.get(id);
+    if (!existing) return null;
+
+    const definedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    const challenge = { ...existing, ...definedUpdates, updatedAt: new Date() };
+    this.challenges.set(id, challenge);
+    return challenge;
+  }
+
+  async archiveChallenge(id: number): Promise<Challenge | null> {
+    const existing = this.challenges.get(id);
+    if (!existing) return null;
+
+    const now = new Date();
+    const challenge: Challenge = { ...existing, status: 'archived', archivedAt: now, updatedAt: now };
+    this.challenges.set(id, challenge);
+    return challenge;
+  }
+
+  async deleteChallenge(id: number): Promise<void> {
+    this.challenges.delete(id);
+  }
+}
+
+/**
+ * Firestore store using the REST API, authenticated as the service account
+ */
+export class FirestoreChallengeStore implements ChallengeStore {
+
+  constructor(private env: any) {}
+
+  async listChallenges(includeArchived: boolean = false): Promise<Challenge[]> {
+    logger.info('🔥 Fetching challenge catalog from Firestore');
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${CHALLENGES_COLLECTION}`, {
+      headers: await this.authHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore list failed: ${response.status}`);
+    }
+
+    const data = await response.json() as { documents?: any[] };
+    const documents = data.documents || [];
+
+    if (documents.length === 0) {
+      logger.info('🌱 Challenge catalog empty, seeding defaults');
+      await this.seedDefaultChallenges();
+      return sortChallenges(DEFAULT_CHALLENGES.map(withDefaults));
+    }
+
+    return sortChallenges(documents
+      .map(doc => this.parseChallenge(doc.fields || {}))
+      .filter(challenge => includeArchived || challenge.status !== 'archived'));
+  }
+
+  async getChallenge(id: number): Promise<Challenge | null> {
+    logger.info(`🔥 Fetching challenge ${id} from Firestore`);
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${CHALLENGES_COLLECTION}/${id}`, {
+      headers: await this.authHeaders()
+    });
+
+    if (response.status === 404) {
+      // The catalog may not have been seeded yet
+      if (DEFAULT_CHALLENGES.some(challenge => challenge.id === id)) {
+        const challenges = await this.listChallenges();
+        return challenges.find(challenge => challenge.id === id) || null;
+      }
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Firestore get failed: ${response.status}`);
+    }
+
+    const doc = await response.json() as { fields?: any };
+    return this.parseChallenge(doc.fields || {});
+  }
+
+  async createChallenge(input: ChallengeInput, createdBy: string): Promise<Challenge> {
+    logger.info(`🔥 Creating challenge in Firestore: ${input.name}`);
+
+    for (let attempt = 1; attempt <= MAX_CREATE_ATTEMPTS; attempt++) {
+      const existing = await this.listChallenges(true);
+      const challenge = buildChallenge(existing, input, createdBy);
+
+      if (await this.createDocument(challenge.id, this.toFirestoreFields(challenge))) {
+        return challenge;
+      }
+      logger.warn(`⚠️ Challenge id ${challenge.id} was taken, retrying`, { attempt });
+    }
+
+    throw new ApiError('Could not allocate a challenge id, try again', 409, 'CONFLICT');
+  }
+
+  async updateChallenge(id: number, updates: ChallengeInput): Promise<Challenge | null> {
+    logger.info(`🔥 Updating challenge ${id} in Firestore`);
+
+    const existing = await this.getChallenge(id);
+    if (!existing) return null;
+
+    await this.writeFields(id, this.toFirestoreFields({ ...updates, updatedAt: new Date() }), true);
+    return this.getChallenge(id);
+  }
+
+  async archiveChallenge(id: number): Promise<Challenge | null> {
+    logger.info(`🔥 Archiving challenge ${id} in Firestore`);
+
+    const existing = await this.getChallenge(id);
+    if (!existing) return null;
+
+    const now = new Date();
+    await this.writeFields(id, this.toFirestoreFields({ status: 'archived', archivedAt: now, updatedAt: now }), true);
+    return this.getChallenge(id);
+  }
+
+  async deleteChallenge(id: number): Promise<void> {
+    logger.info(`🔥 Deleting challenge ${id} from Firestore`);
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${CHALLENGES_COLLECTION}/${id}`, {
+      method: 'DELETE',
+      headers: await this.authHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore delete failed: ${response.status}`);
+    }
+  }
+
+  /**
+   * Write document fields. With `partial`, only the given fields are
+   * changed (updateMask); otherwise the document is replaced.
+   */
+  private async writeFields(id: number, fields: Record<string, any>, partial: boolean = false): Promise<void> {
+    const mask = partial
+      ? '?' + Object.keys(fields).map(field => `updateMask.fieldPaths=${encodeURIComponent(field)}`).join('&')
+      : '';
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${CHALLENGES_COLLECTION}/${id}${mask}`, {
+      method: 'PATCH',
+      headers: { ...await this.authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore write failed: ${response.status}`);
+    }
+  }
+
+  /**
+   * Create a document under the given id. Unlike a PATCH this never
+   * overwrites, so two creates can't both claim an id.
+   * @returns false when a document with that id already exists
+   */
+  private async createDocument(id: number, fields: Record<string, any>): Promise<boolean> {
+    const response = await fetch(`${getFirestoreBaseUrl()}/${CHALLENGES_COLLECTION}?documentId=${id}`, {
+      method: 'POST',
+      headers: { ...await this.authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields })
+    });
+
+    if (response.status === 409) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Firestore create failed: ${response.status}`);
+    }
+    return true;
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    return { 'Authorization': `Bearer ${await getServiceAccessToken(this.env)}` };
+  }
+
+  /**
+   * Write the default catalog to Firestore (best effort)
+   */
+  private async seedDefaultChallenges(): Promise<void> {
+    const now = new Date();
+
+    await Promise.all(DEFAULT_CHALLENGES.map(async challenge => {
+      try {
+        await this.writeFields(challenge.id, this.toFirestoreFields(withDefaults({
+          ...challenge,
+          createdAt: now,
+          updatedAt: now
+        })));
+      } catch (error) {
+        logger.error(`❌ Failed to seed challenge ${challenge.id}`, { error });
+      }
+    }));
+  }
+
+  /**
+   * Convert challenge fields to Firestore fields format, skipping undefined values
+   */
+  private toFirestoreFields(challenge: Record<string, any>): Record<string, any> {
+    const fields: Record<string, any> = {};
+
+    Object.entries(challenge).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields[key] = this.toFirestoreValue(value);
+      }
+    });
+
+    return fields;
+  }
+
+  private toFirestoreValue(value: any): any {
+    if (value instanceof Date) {
+      return { timestampValue: value.toISOString() };
+    }
+    if (Array.isArray(value)) {
+      return { arrayValue: { values: value.map(item => this.toFirestoreValue(item)) } };
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? { integerValue: value.toString() } : { doubleValue: value };
+    }
+    if (value && typeof value === 'object') {
+      // Nested objects such as the rubric
+      return { mapValue: { fields: this.toFirestoreFields(value) } };
+    }
+    return { stringValue: String(value) };
+  }
+
+  /**
+   * Unwrap a Firestore array or map value into plain data
+   */
+  private fromFirestoreValue(value: any): any {
+    if (!value) return undefined;
+    if (value.arrayValue) {
+      return (value.arrayValue.values || []).map((item: any) => this.fromFirestoreValue(item));
+    }
+    if (value.mapValue) {
+      return Object.fromEntries(Object.entries(value.mapValue.fields || {})
+        .map(([key, field]) => [key, this.fromFirestoreValue(field)]));
+    }
+    if (value.integerValue !== undefined) return parseInt(value.integerValue);
+    return value.doubleValue ?? value.stringValue;
+  }
+
+  /**
+   * Parse challenge from Firestore fields format
+   */
+  private parseChallenge(fields: any): Challenge {
+    const id = parseInt(fields.id?.integerValue || '0');
+    const parseNumber = (field: any) => field?.integerValue !== undefined
+      ? parseInt(field.integerValue)
+      : field?.doubleValue;
+    const parseDate = (field: any) => field?.timestampValue ? new Date(field.timestampValue) : undefined;
+
+    return withDefaults({
+      id,
+      name: fields.name?.stringValue || '',
+      imageUrl: fields.imageUrl?.stringValue || '',
+      description: fields.description?.stringValue || '',
+      order: parseNumber(fields.order),
+      passThreshold: parseNumber(fields.passThreshold),
+      rubric: normalizeRubric(this.fromFirestoreValue(fields.rubric)),
+      status: fields.status?.stringValue === 'archived' ? 'archived' : 'active',
+      createdBy: fields.createdBy?.stringValue,
+      createdAt: parseDate(fields.createdAt),
+      updatedAt: parseDate(fields.updatedAt),
+      archivedAt: parseDate(fields.archivedAt)
+    });
+  }
+}
+
+/**
+ * R2-backed target image storage
+ */
+export class R2ChallengeImageStore implements ChallengeImageStore {
+  constructor(private bucket: R2Bucket) {}
+
+  async saveImage(id: number, image: ChallengeImageUpload): Promise<void> {
+    await this.bucket.put(`challenges/${id}`, image.data, {
+      httpMetadata: { contentType: image.mimeType }
+    });
+  }
+
+  async getImage(id: number): Promise<ChallengeImageUpload | null> {
+    const object = await this.bucket.get(`challenges/${id}`);
+    if (!object) return null;
+
+    return {
+      data: await object.arrayBuffer(),
+      mimeType: object.httpMetadata?.contentType || 'image/png'
+    };
+  }
+}
+
+/**
+ * In-memory target image storage for local development
+ */
+export class InMemoryChallengeImageStore implements ChallengeImageStore {
+  private images: Map<number, ChallengeImageUpload> = new Map();
+
+  async saveImage(id: number, image: ChallengeImageUpload): Promise<void> {
+    this.images.set(id, image);
+  }
+
+  async getImage(id: number): Promise<ChallengeImageUpload | null> {
+    return this.images.get(id) || null;
+  }
+}
+
+let challengeStore: ChallengeStore | null = null;
+let challengeImageStore: ChallengeImageStore | null = null;
+
+/**
+ * Get the challenge store configured for this environment
+ */
+export function getChallengeStore(env: any): ChallengeStore {
+  if (!challengeStore) {
+    const storeType = env?.CHALLENGE_STORE || (env?.ENABLE_REAL_FIREBASE === 'true' ? 'firestore' : 'memory');
+    logger.info(`🎯 Using ${storeType} challenge store`);
+
+    challengeStore = storeType === 'firestore'
+      ? new FirestoreChallengeStore(env)
+      : new InMemoryChallengeStore();
+  }
+  return challengeStore;
+}
+
+/**
+ * Get the target image store configured for this environment
+ */
+export function getChallengeImageStore(env: any): ChallengeImageStore {
+  if (!challengeImageStore) {
+    if (env?.CHALLENGE_IMAGES) {
+      challengeImageStore = new R2ChallengeImageStore(env.CHALLENGE_IMAGES);
+    } else {
+      logger.warn('⚠️ CHALLENGE_IMAGES bucket not bound, storing challenge images in memory');
+      challengeImageStore = new InMemoryChallengeImageStore();
+    }
+  }
+  return challengeImageStore;
+}
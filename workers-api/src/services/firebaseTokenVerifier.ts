@@ -0,0 +1,226 @@
+/**
+ * 🔐 Firebase ID Token Verifier for Workers
+ * Verifies RS256 signatures against Google's securetoken JWKS using WebCrypto
+ * and validates the claims Firebase requires:
+ * https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+ */
+
+import { logger } from '@prompt-tool/core';
+import { ApiError } from '../types';
+
+export const FIREBASE_JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+// Used when the JWKS response carries no max-age
+const DEFAULT_KEY_CACHE_SECONDS = 60 * 60;
+
+// Unknown kids only trigger a refetch this often, so forged tokens can't hammer the JWKS endpoint
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface DecodedFirebaseToken {
+  uid: string;
+  email?: string;
+  emailVerified?: boolean;
+  authTime: number;
+  issuedAt: number;
+  expiresAt: number;
+  claims: Record<string, any>;
+}
+
+export interface FirebaseTokenVerifierOptions {
+  projectId: string;
+  jwksUrl?: string;
+  fetchFn?: typeof fetch;
+  now?: () => number;          // Milliseconds since epoch
+  clockToleranceSeconds?: number;
+}
+
+interface CachedKeys {
+  keys: Map<string, CryptoKey>;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Decode a base64url string into bytes
+ */
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJsonSegment(segment: string): any {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+  } catch {
+    throw new ApiError('Invalid token format', 401, 'INVALID_TOKEN_FORMAT');
+  }
+}
+
+/**
+ * Read max-age from a Cache-Control header
+ */
+function parseMaxAge(cacheControl: string | null): number | null {
+  const match = cacheControl?.match(/max-age=(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export class FirebaseTokenVerifier {
+  private projectId: string;
+  private jwksUrl: string;
+  private fetchFn: typeof fetch;
+  private now: () => number;
+  private clockToleranceSeconds: number;
+  private cache: CachedKeys | null = null;
+
+  constructor(options: FirebaseTokenVerifierOptions) {
+    if (!options.projectId) {
+      throw new Error('FirebaseTokenVerifier requires a projectId');
+    }
+
+    this.projectId = options.projectId;
+    this.jwksUrl = options.jwksUrl || FIREBASE_JWKS_URL;
+    this.fetchFn = options.fetchFn || ((input, init) => fetch(input, init));
+    this.now = options.now || (() => Date.now());
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 0;
+  }
+
+  /**
+   * Verify a Firebase ID token and return its decoded claims
+   * @throws ApiError (401) when the token is malformed, forged or expired
+   */
+  async verify(token: string): Promise<DecodedFirebaseToken> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new ApiError('Invalid token format', 401, 'INVALID_TOKEN_FORMAT');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeJsonSegment(encodedHeader);
+    const payload = decodeJsonSegment(encodedPayload);
+
+    if (header.alg !== 'RS256') {
+      throw new ApiError(`Unsupported token algorithm: ${header.alg}`, 401, 'INVALID_TOKEN');
+    }
+
+    if (!header.kid || typeof header.kid !== 'string') {
+      throw new ApiError('Token has no key id', 401, 'INVALID_TOKEN');
+    }
+
+    const key = await this.getKey(header.kid);
+    if (!key) {
+      throw new ApiError('Token signed with an unknown key', 401, 'INVALID_TOKEN');
+    }
+
+    const isValid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      base64UrlToBytes(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+
+    if (!isValid) {
+      throw new ApiError('Invalid token signature', 401, 'INVALID_SIGNATURE');
+    }
+
+    this.validateClaims(payload);
+
+    return {
+      uid: payload.sub,
+      email: payload.email,
+      emailVerified: payload.email_verified,
+      authTime: payload.auth_time,
+      issuedAt: payload.iat,
+      expiresAt: payload.exp,
+      claims: payload
+    };
+  }
+
+  /**
+   * Check the claims Firebase documents for ID tokens
+   */
+  private validateClaims(payload: any): void {
+    const nowSeconds = Math.floor(this.now() / 1000);
+    const tolerance = this.clockToleranceSeconds;
+
+    if (typeof payload.exp !== 'number' || payload.exp + tolerance <= nowSeconds) {
+      throw new ApiError('Token expired', 401, 'TOKEN_EXPIRED');
+    }
+
+    if (typeof payload.iat !== 'number' || payload.iat - tolerance > nowSeconds) {
+      throw new ApiError('Token issued in the future', 401, 'INVALID_TOKEN');
+    }
+
+    if (typeof payload.auth_time !== 'number' || payload.auth_time - tolerance > nowSeconds) {
+      throw new ApiError('Token auth_time is invalid', 401, 'INVALID_TOKEN');
+    }
+
+    if (payload.aud !== this.projectId) {
+      throw new ApiError('Token audience mismatch', 401, 'INVALID_TOKEN');
+    }
+
+    if (payload.iss !== `https://securetoken.google.com/${this.projectId}`) {
+      throw new ApiError('Token issuer mismatch', 401, 'INVALID_TOKEN');
+    }
+
+    if (typeof payload.sub !== 'string' || payload.sub.length === 0 || payload.sub.length > 128) {
+      throw new ApiError('Token subject is invalid', 401, 'INVALID_TOKEN');
+    }
+  }
+
+  /**
+   * Get the public key for a kid, refreshing the JWKS when the cache has
+   * expired or the kid is unknown (Google rotates keys)
+   */
+  private async getKey(kid: string): Promise<CryptoKey | undefined> {
+    const now = this.now();
+    const isFresh = this.cache && this.cache.expiresAt > now;
+
+    if (isFresh && this.cache!.keys.has(kid)) {
+      return this.cache!.keys.get(kid);
+    }
+
+    const recentlyFetched = this.cache && now - this.cache.fetchedAt < MIN_REFRESH_INTERVAL_MS;
+    if (!isFresh || !recentlyFetched) {
+      await this.refreshKeys();
+    }
+
+    return this.cache?.keys.get(kid);
+  }
+
+  private async refreshKeys(): Promise<void> {
+    logger.info('🔑 Fetching Firebase signing keys...');
+
+    const response = await this.fetchFn(this.jwksUrl);
+    if (!response.ok) {
+      throw new ApiError(`Failed to fetch signing keys: ${response.status}`, 503, 'JWKS_UNAVAILABLE');
+    }
+
+    const jwks = await response.json() as { keys?: (JsonWebKey & { kid?: string })[] };
+    const keys = new Map<string, CryptoKey>();
+
+    for (const jwk of jwks.keys || []) {
+      if (!jwk.kid || jwk.kty !== 'RSA') continue;
+
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      keys.set(jwk.kid, key);
+    }
+
+    const maxAge = parseMaxAge(response.headers.get('cache-control')) ?? DEFAULT_KEY_CACHE_SECONDS;
+    const fetchedAt = this.now();
+    this.cache = { keys, fetchedAt, expiresAt: fetchedAt + maxAge * 1000 };
+
+    logger.info(`✅ Cached ${keys.size} Firebase signing keys for ${maxAge}s`);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * 🎨 Image Service for Workers
+ * The provider registry the image routes generate with
+ */
+
+import { createDefaultImageProviderRegistry, DEFAULT_IMAGE_PROVIDER, ImageProviderRegistry } from '@prompt-tool/core';
+import { getGeminiKeyRunner } from '../geminiKeyManager';
+
+let imageProviderRegistry: ImageProviderRegistry | null = null;
+
+/**
+ * Get the shared provider registry, built on first use from the bindings
+ */
+export function getImageProviderRegistry(env: any): ImageProviderRegistry {
+  if (!imageProviderRegistry) {
+    imageProviderRegistry = createDefaultImageProviderRegistry(
+      getGeminiKeyRunner(env),
+      env?.DEFAULT_IMAGE_PROVIDER || DEFAULT_IMAGE_PROVIDER
+    );
+  }
+  return imageProviderRegistry;
+}
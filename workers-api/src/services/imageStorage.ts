@@ -0,0 +1,124 @@
+/**
+ * 🖼️ Image Storage for Workers - Where generated images live
+ * Generated images go to the GENERATED_IMAGES R2 bucket when bound,
+ * otherwise they are kept in memory for the lifetime of the isolate.
+ * Based on server implementation
+ */
+
+import { base64ToBytes, bytesToBase64, detectImageMimeType, logger } from '@prompt-tool/core';
+import { ApiError, StoredImage } from '../types';
+
+// Image ids are UUIDs; anything else never reaches an object key
+const IMAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ImageStorage {
+  saveImage(id: string, image: StoredImage): Promise<void>;
+  getImage(id: string): Promise<StoredImage | null>;
+}
+
+/**
+ * Check that an image id is one this Worker could have issued
+ */
+export function isValidImageId(id: string): boolean {
+  return IMAGE_ID_PATTERN.test(id);
+}
+
+/**
+ * R2-backed generated image storage
+ */
+export class R2ImageStorage implements ImageStorage {
+  constructor(private bucket: R2Bucket) {}
+
+  async saveImage(id: string, image: StoredImage): Promise<void> {
+    await this.bucket.put(`generated/${id}`, image.data, {
+      httpMetadata: { contentType: image.mimeType },
+      ...(image.ownerUid && { customMetadata: { ownerUid: image.ownerUid } })
+    });
+  }
+
+  async getImage(id: string): Promise<StoredImage | null> {
+    const object = await this.bucket.get(`generated/${id}`);
+    if (!object) return null;
+
+    const data = await object.arrayBuffer();
+    return {
+      data,
+      mimeType: object.httpMetadata?.contentType || detectImageMimeType(new Uint8Array(data)),
+      ownerUid: object.customMetadata?.ownerUid
+    };
+  }
+}
+
+/**
+ * In-memory generated image storage for local development
+ */
+export class InMemoryImageStorage implements ImageStorage {
+  private images: Map<string, StoredImage> = new Map();
+
+  async saveImage(id: string, image: StoredImage): Promise<void> {
+    this.images.set(id, image);
+  }
+
+  async getImage(id: string): Promise<StoredImage | null> {
+    return this.images.get(id) || null;
+  }
+}
+
+let imageStorage: ImageStorage | null = null;
+
+/**
+ * Get the image storage configured for this environment
+ */
+export function getImageStorage(env: any): ImageStorage {
+  if (!imageStorage) {
+    if (env?.GENERATED_IMAGES) {
+      imageStorage = new R2ImageStorage(env.GENERATED_IMAGES);
+    } else {
+      logger.warn('⚠️ GENERATED_IMAGES bucket not bound, storing generated images in memory');
+      imageStorage = new InMemoryImageStorage();
+    }
+  }
+  return imageStorage;
+}
+
+/**
+ * Replace the image storage (tests inject one)
+ */
+export function setImageStorage(storage: ImageStorage | null): void {
+  imageStorage = storage;
+}
+
+/**
+ * Store a generated image under a new id, owned by the signed-in user who generated it
+ */
+export async function saveGeneratedImage(env: any, imageBase64: string, ownerUid?: string): Promise<string> {
+  const bytes = base64ToBytes(imageBase64);
+  if (bytes.length === 0) {
+    throw new ApiError('Generated image is empty', 500, 'EMPTY_IMAGE');
+  }
+
+  const id = crypto.randomUUID();
+  await getImageStorage(env).saveImage(id, {
+    data: bytes.buffer,
+    mimeType: detectImageMimeType(bytes),
+    ...(ownerUid && { ownerUid })
+  });
+
+  logger.info(`🖼️ Stored generated image ${id} (${bytes.length} bytes)`);
+  return id;
+}
+
+/**
+ * Load an image the user generated as base64 for analysis. Images generated
+ * by someone else, or while signed out, can't be scored.
+ */
+export async function loadGeneratedImageBase64(env: any, id: string, uid: string): Promise<string> {
+  const image = isValidImageId(id) ? await getImageStorage(env).getImage(id) : null;
+  if (!image) {
+    throw new ApiError('Generated image not found', 404, 'IMAGE_NOT_FOUND');
+  }
+  if (image.ownerUid !== uid) {
+    throw new ApiError('Generated image belongs to another user', 403, 'IMAGE_NOT_OWNED');
+  }
+  return bytesToBase64(new Uint8Array(image.data));
+}
@@ -0,0 +1,116 @@
+/**
+ * 🗄️ Key Metrics Store for Workers - Where Gemini key usage and blocks live
+ * Isolates don't share memory, so a key one isolate saw rate-limited would
+ * still be handed out by the rest. With the KEY_METRICS Durable Object bound,
+ * every isolate reads and writes one shared copy; KEY_METRICS_KV is a cheaper
+ * fallback whose counts can drift under concurrent writes.
+ * Based on server implementation
+ */
+
+import {
+  DocumentKeyMetricsStore,
+  InMemoryKeyMetricsStore,
+  KeyMetricsState,
+  KeyMetricsStore,
+  logger
+} from '@prompt-tool/core';
+
+// Store methods the Durable Object accepts over fetch
+const STORE_METHODS = ['getAll', 'recordUse', 'recordSuccess', 'recordError', 'block', 'unblock', 'nextIndex'] as const;
+type StoreMethod = typeof STORE_METHODS[number];
+
+// Every isolate talks to the same object
+const KEY_METRICS_OBJECT_NAME = 'gemini-keys';
+
+/**
+ * Durable Object holding the key metrics. Requests are handled one at a
+ * time, so the read-modify-write updates never lose each other's counts.
+ */
+export class KeyMetricsObject {
+  private store: DocumentKeyMetricsStore;
+
+  constructor(state: DurableObjectState) {
+    this.store = new DocumentKeyMetricsStore({
+      get: (key) => state.storage.get<string>(key),
+      put: (key, value) => state.storage.put(key, value)
+    }, 'durable-object');
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { method, args } = await request.json() as { method: StoreMethod; args: unknown[] };
+    if (!STORE_METHODS.includes(method)) {
+      return Response.json({ error: `Unknown key metrics method: ${method}` }, { status: 400 });
+    }
+
+    const result = await (this.store[method] as (...args: unknown[]) => Promise<unknown>)(...args);
+    return Response.json({ result: result ?? null });
+  }
+}
+
+/**
+ * Store that forwards every call to the KeyMetricsObject
+ */
+export class DurableObjectKeyMetricsStore implements KeyMetricsStore {
+  readonly name = 'durable-object';
+
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  private async call<T>(method: StoreMethod, ...args: unknown[]): Promise<T> {
+    // The key manager outlives requests, and a stub can't be used outside the request that made it
+    const stub = this.namespace.get(this.namespace.idFromName(KEY_METRICS_OBJECT_NAME));
+    const response = await stub.fetch('https://key-metrics/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ method, args })
+    });
+
+    const body = await response.json() as { result?: T; error?: string };
+    if (!response.ok) {
+      throw new Error(`Key metrics ${method} failed: ${body.error || response.status}`);
+    }
+    return body.result as T;
+  }
+
+  getAll(keyIds: string[]): Promise<Record<string, KeyMetricsState>> {
+    return this.call('getAll', keyIds);
+  }
+
+  async recordUse(keyId: string, at: number): Promise<void> {
+    await this.call('recordUse', keyId, at);
+  }
+
+  async recordSuccess(keyId: string): Promise<void> {
+    await this.call('recordSuccess', keyId);
+  }
+
+  recordError(keyId: string): Promise<number> {
+    return this.call('recordError', keyId);
+  }
+
+  async block(keyId: string, until: number): Promise<void> {
+    await this.call('block', keyId, until);
+  }
+
+  async unblock(keyId: string): Promise<void> {
+    await this.call('unblock', keyId);
+  }
+
+  nextIndex(): Promise<number> {
+    return this.call('nextIndex');
+  }
+}
+
+/**
+ * Pick the key metrics store for this environment
+ */
+export function createKeyMetricsStore(env: any): KeyMetricsStore {
+  if (env?.KEY_METRICS) {
+    return new DurableObjectKeyMetricsStore(env.KEY_METRICS);
+  }
+  if (env?.KEY_METRICS_KV) {
+    return new DocumentKeyMetricsStore(env.KEY_METRICS_KV, 'kv');
+  }
+
+  logger.warn('⚠️ KEY_METRICS not bound, keeping Gemini key metrics in this isolate only');
+  return new InMemoryKeyMetricsStore();
+}
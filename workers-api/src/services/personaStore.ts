@@ -0,0 +1,244 @@
+/**
+ * 🗣️ Persona Store for Workers - Instructor-defined Feedback Personas
+ * Built-in personas live in config; instructor-defined ones are kept in the
+ * `personas` collection via Firestore REST API, or in memory for local
+ * development (same switch as the challenge store).
+ */
+
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, logger } from '@prompt-tool/core';
+import { getFirestoreBaseUrl } from '../config/firebase';
+import { getServiceAccessToken } from './serviceAccountToken';
+import { UserDataService } from './userDataService';
+import { ApiError, FeedbackPersona, FeedbackPersonaInput } from '../types';
+
+const PERSONAS_COLLECTION = 'personas';
+
+export interface PersonaStore {
+  listPersonas(): Promise<FeedbackPersona[]>;
+  getPersona(id: string): Promise<FeedbackPersona | null>;
+  savePersona(persona: FeedbackPersona): Promise<void>;
+  deletePersona(id: string): Promise<boolean>;
+}
+
+/**
+ * Persona id derived from its name, e.g. "Gentle Mentor" -> "gentle-mentor"
+ */
+export function toPersonaId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * In-memory store for local development
+ */
+export class InMemoryPersonaStore implements PersonaStore {
+  private personas: Map<string, FeedbackPersona> = new Map();
+
+  async listPersonas(): Promise<FeedbackPersona[]> {
+    return Array.from(this.personas.values());
+  }
+
+  async getPersona(id: string): Promise<FeedbackPersona | null> {
+    return this.personas.get(id) || null;
+  }
+
+  async savePersona(persona: FeedbackPersona): Promise<void> {
+    this.personas.set(persona.id, persona);
+  }
+
+  async deletePersona(id: string): Promise<boolean> {
+    return this.personas.delete(id);
+  }
+}
+
+/**
+ * Firestore store using the REST API, authenticated as the service account
+ */
+export class FirestorePersonaStore implements PersonaStore {
+
+  constructor(private env: any) {}
+
+  async listPersonas(): Promise<FeedbackPersona[]> {
+    logger.info('🔥 Fetching feedback personas from Firestore');
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${PERSONAS_COLLECTION}`, {
+      headers: await this.authHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore list failed: ${response.status}`);
+    }
+
+    const data = await response.json() as { documents?: any[] };
+    return (data.documents || []).map(doc => this.parsePersona(doc.name.split('/').pop(), doc.fields || {}));
+  }
+
+  async getPersona(id: string): Promise<FeedbackPersona | null> {
+    const response = await fetch(`${getFirestoreBaseUrl()}/${PERSONAS_COLLECTION}/${encodeURIComponent(id)}`, {
+      headers: await this.authHeaders()
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Firestore get failed: ${response.status}`);
+    }
+
+    const doc = await response.json() as { fields?: any };
+    return this.parsePersona(id, doc.fields || {});
+  }
+
+  async savePersona(persona: FeedbackPersona): Promise<void> {
+    logger.info(`🔥 Saving persona ${persona.id} to Firestore`);
+
+    const fields: Record<string, any> = {
+      name: { stringValue: persona.name },
+      tone: { stringValue: persona.tone },
+      language: { stringValue: persona.language },
+      verbosity: { stringValue: persona.verbosity },
+      createdBy: { stringValue: persona.createdBy || '' },
+      createdAt: { timestampValue: (persona.createdAt || new Date()).toISOString() }
+    };
+    if (persona.instructions) {
+      fields.instructions = { stringValue: persona.instructions };
+    }
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${PERSONAS_COLLECTION}/${encodeURIComponent(persona.id)}`, {
+      method: 'PATCH',
+      headers: { ...await this.authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore write failed: ${response.status}`);
+    }
+  }
+
+  async deletePersona(id: string): Promise<boolean> {
+    logger.info(`🔥 Deleting persona ${id} from Firestore`);
+
+    if (!(await this.getPersona(id))) {
+      return false;
+    }
+
+    const response = await fetch(`${getFirestoreBaseUrl()}/${PERSONAS_COLLECTION}/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: await this.authHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore delete failed: ${response.status}`);
+    }
+    return true;
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    return { 'Authorization': `Bearer ${await getServiceAccessToken(this.env)}` };
+  }
+
+  private parsePersona(id: string, fields: any): FeedbackPersona {
+    return {
+      id,
+      name: fields.name?.stringValue || id,
+      tone: fields.tone?.stringValue || 'neutral',
+      language: fields.language?.stringValue || 'English',
+      verbosity: fields.verbosity?.stringValue || 'standard',
+      instructions: fields.instructions?.stringValue || undefined,
+      builtIn: false,
+      createdBy: fields.createdBy?.stringValue || undefined,
+      createdAt: fields.createdAt?.timestampValue ? new Date(fields.createdAt.timestampValue) : undefined
+    };
+  }
+}
+
+let personaStore: PersonaStore | null = null;
+
+/**
+ * Get the persona store configured for this environment
+ */
+export function getPersonaStore(env: any): PersonaStore {
+  if (!personaStore) {
+    const storeType = env?.CHALLENGE_STORE || (env?.ENABLE_REAL_FIREBASE === 'true' ? 'firestore' : 'memory');
+    logger.info(`🗣️ Using ${storeType} persona store`);
+
+    personaStore = storeType === 'firestore'
+      ? new FirestorePersonaStore(env)
+      : new InMemoryPersonaStore();
+  }
+  return personaStore;
+}
+
+/**
+ * Replace the cached store (tests)
+ */
+export function setPersonaStore(store: PersonaStore | null): void {
+  personaStore = store;
+}
+
+/**
+ * List built-in personas followed by instructor-defined ones
+ */
+export async function listPersonas(env: any): Promise<FeedbackPersona[]> {
+  const custom = await getPersonaStore(env).listPersonas();
+  return [...BUILT_IN_PERSONAS, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+/**
+ * Get a built-in or instructor-defined persona by id
+ */
+export async function findPersona(env: any, id: string): Promise<FeedbackPersona | null> {
+  return BUILT_IN_PERSONAS.find(persona => persona.id === id) || getPersonaStore(env).getPersona(id);
+}
+
+/**
+ * Create an instructor-defined persona. The id comes from its name.
+ */
+export async function createPersona(env: any, input: FeedbackPersonaInput, createdBy: string): Promise<FeedbackPersona> {
+  const id = toPersonaId(input.name);
+  if (!id) {
+    throw new ApiError('Persona name must contain letters or digits', 400, 'INVALID_PERSONA_NAME');
+  }
+  if (await findPersona(env, id)) {
+    throw new ApiError(`A persona with id "${id}" already exists`, 409, 'PERSONA_EXISTS');
+  }
+
+  const persona: FeedbackPersona = { id, ...input, builtIn: false, createdBy, createdAt: new Date() };
+  await getPersonaStore(env).savePersona(persona);
+  return persona;
+}
+
+/**
+ * Delete an instructor-defined persona; false when it doesn't exist.
+ * Users who picked it fall back to the default persona.
+ */
+export async function deletePersona(env: any, id: string): Promise<boolean> {
+  if (BUILT_IN_PERSONAS.some(persona => persona.id === id)) {
+    throw new ApiError('Built-in personas cannot be deleted', 400, 'PERSONA_BUILT_IN');
+  }
+  return getPersonaStore(env).deletePersona(id);
+}
+
+/**
+ * Pick the persona for an analysis: the requested one, else the user's
+ * profile setting, else the default
+ */
+export async function resolvePersona(env: any, uid: string, requestedId?: string): Promise<FeedbackPersona> {
+  if (requestedId) {
+    const requested = await findPersona(env, requestedId);
+    if (!requested) {
+      throw new ApiError(`Unknown feedback persona: ${requestedId}`, 400, 'UNKNOWN_PERSONA');
+    }
+    return requested;
+  }
+
+  try {
+    const profile = await UserDataService.getUserById(uid, await getServiceAccessToken(env));
+    const saved = profile?.feedbackPersona ? await findPersona(env, profile.feedbackPersona) : null;
+    if (saved) return saved;
+  } catch (error) {
+    logger.warn('⚠️ Could not load the saved feedback persona, using the default', { error });
+  }
+
+  return BUILT_IN_PERSONAS.find(persona => persona.id === DEFAULT_PERSONA_ID)!;
+}
@@ -0,0 +1,250 @@
+/**
+ * 🏁 Scoring Service for Workers - Server-authoritative attempt recording
+ * The only writer of challenge progress and user stats. Scores come from
+ * analysis run in the Worker, never from the client.
+ * Based on server implementation
+ */
+
+import { applyAttempt, applyStats, isChallengeLocked, logger } from '@prompt-tool/core';
+import { getFirebaseConfig, getFirestoreBaseUrl } from '../config/firebase';
+import { getServiceAccessToken } from './serviceAccountToken';
+import { getChallengeStore } from './challengeStore';
+import { UserDataService } from './userDataService';
+import {
+  ApiError,
+  AttemptOutcome,
+  Challenge,
+  ImageService,
+  ScoringResult,
+  UserStats
+} from '../types';
+
+const ATTEMPTS_COLLECTION = 'attempts';
+const USER_PROGRESS_COLLECTION = 'userProgress';
+const USER_STATS_COLLECTION = 'userStats';
+
+// Concurrent attempts by one user abort each other's commits; the loser reads again
+const MAX_COMMIT_ATTEMPTS = 5;
+
+// HTTP status of an ABORTED commit
+const ABORTED = 409;
+
+export interface AttemptInput {
+  prompt: string;
+  score: number;
+  feedback: string[];
+  service?: ImageService;
+  imageRef?: string;
+}
+
+/**
+ * Secret used to sign scoring results
+ */
+function getSigningSecret(env: any): string {
+  const secret = env?.RESULT_SIGNING_SECRET;
+  if (!secret) {
+    throw new ApiError('RESULT_SIGNING_SECRET is not configured', 500, 'CONFIG_ERROR');
+  }
+  return secret;
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export class ScoringService {
+
+  /**
+   * Refuse attempts at a challenge the user hasn't reached on the mission path
+   */
+  static async assertChallengeUnlocked(env: any, uid: string, challenge: Challenge): Promise<void> {
+    const accessToken = await getServiceAccessToken(env);
+    const [catalog, progress] = await Promise.all([
+      getChallengeStore(env).listChallenges(),
+      UserDataService.getUserProgress(uid, accessToken)
+    ]);
+
+    if (isChallengeLocked(progress || {}, catalog, challenge.id)) {
+      throw new ApiError('Challenge is locked; pass the previous one first', 403, 'CHALLENGE_LOCKED');
+    }
+  }
+
+  /**
+   * Record a scored attempt: persist it and update the user's progress,
+   * streak and stats in one transaction, then return the signed outcome.
+   */
+  static async recordAttempt(env: any, uid: string, challenge: Challenge, input: AttemptInput): Promise<ScoringResult> {
+    // Fail before writing anything if results can't be signed
+    getSigningSecret(env);
+
+    logger.info(`🏁 Recording attempt: user=${uid}, challenge=${challenge.id}, score=${input.score}`);
+
+    const accessToken = await getServiceAccessToken(env);
+    const catalog = await getChallengeStore(env).listChallenges();
+    const attemptId = crypto.randomUUID();
+
+    for (let attempt = 1; ; attempt++) {
+      // Progress and stats are read in the transaction, so the commit fails
+      // rather than overwrite an attempt recorded in the meantime
+      const transaction = await this.beginTransaction(accessToken);
+      const [progress, currentStats] = await Promise.all([
+        UserDataService.getUserProgress(uid, accessToken, transaction),
+        UserDataService.getUserStats(uid, accessToken, transaction)
+      ]);
+
+      const now = new Date();
+      const outcome = applyAttempt(progress || {}, catalog, challenge, input.score, now);
+      const stats = applyStats(uid, currentStats, outcome, input.score, now);
+
+      const response = await fetch(`${getFirestoreBaseUrl()}:commit`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ writes: this.attemptWrites(uid, challenge, input, attemptId, outcome, stats, now), transaction })
+      });
+
+      if (response.status === ABORTED && attempt < MAX_COMMIT_ATTEMPTS) {
+        logger.warn(`⚠️ Attempt commit for user ${uid} was aborted, retrying`, { attempt });
+        continue;
+      }
+      if (!response.ok) {
+        throw new ApiError(`Failed to record attempt: ${response.status}`, 500, 'ATTEMPT_WRITE_FAILED');
+      }
+
+      const result: Omit<ScoringResult, 'signature'> = {
+        attemptId,
+        userId: uid,
+        challengeId: challenge.id,
+        score: input.score,
+        passed: outcome.passed,
+        justCompleted: outcome.justCompleted,
+        streakChange: outcome.streakChange,
+        progress: outcome.progress,
+        stats,
+        issuedAt: now.toISOString()
+      };
+
+      logger.info(`✅ Attempt recorded: ${attemptId} (passed=${outcome.passed})`);
+      return { ...result, signature: await this.signResult(env, result) };
+    }
+  }
+
+  /**
+   * Start a read-write Firestore transaction
+   * @returns The transaction id to read and commit with
+   */
+  private static async beginTransaction(accessToken: string): Promise<string> {
+    const response = await fetch(`${getFirestoreBaseUrl()}:beginTransaction`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ options: { readWrite: {} } })
+    });
+
+    if (!response.ok) {
+      throw new ApiError(`Failed to start attempt transaction: ${response.status}`, 500, 'ATTEMPT_WRITE_FAILED');
+    }
+    return ((await response.json()) as { transaction: string }).transaction;
+  }
+
+  /**
+   * The attempt document plus the user's new progress and stats, as commit writes
+   */
+  private static attemptWrites(
+    uid: string,
+    challenge: Challenge,
+    input: AttemptInput,
+    attemptId: string,
+    outcome: AttemptOutcome,
+    stats: UserStats,
+    now: Date
+  ): any[] {
+    const attemptFields: Record<string, any> = {
+      userId: { stringValue: uid },
+      challengeId: { integerValue: String(challenge.id) },
+      prompt: { stringValue: input.prompt },
+      score: { integerValue: String(input.score) },
+      passed: { booleanValue: outcome.passed },
+      feedback: { arrayValue: { values: input.feedback.map(item => ({ stringValue: item })) } },
+      createdAt: { timestampValue: now.toISOString() }
+    };
+    if (input.service) {
+      attemptFields.service = { stringValue: input.service };
+    }
+    if (input.imageRef) {
+      attemptFields.imageRef = { stringValue: input.imageRef };
+    }
+
+    const documentRoot = `projects/${getFirebaseConfig().projectId}/databases/(default)/documents`;
+    return [
+      {
+        update: {
+          name: `${documentRoot}/${ATTEMPTS_COLLECTION}/${attemptId}`,
+          fields: attemptFields
+        }
+      },
+      {
+        update: {
+          name: `${documentRoot}/${USER_PROGRESS_COLLECTION}/${uid}`,
+          fields: {
+            userId: { stringValue: uid },
+            progress: { mapValue: { fields: UserDataService.convertProgressToFirestore(outcome.progress) } },
+            lastUpdated: { timestampValue: now.toISOString() }
+          }
+        }
+      },
+      {
+        update: {
+          name: `${documentRoot}/${USER_STATS_COLLECTION}/${uid}`,
+          fields: UserDataService.convertStatsToFirestore(stats)
+        }
+      }
+    ];
+  }
+
+  /**
+   * HMAC-SHA256 over the fields that identify an attempt's outcome
+   */
+  static async signResult(env: any, result: Omit<ScoringResult, 'signature'>): Promise<string> {
+    const payload = [
+      result.attemptId,
+      result.userId,
+      result.challengeId,
+      result.score,
+      result.passed,
+      result.issuedAt
+    ].join('.');
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(getSigningSecret(env)),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+    return bytesToBase64Url(new Uint8Array(signature));
+  }
+
+  /**
+   * Check a scoring result's signature
+   */
+  static async verifyResult(env: any, result: ScoringResult): Promise<boolean> {
+    const expected = await this.signResult(env, result);
+    if (expected.length !== (result.signature || '').length) return false;
+
+    let difference = 0;
+    for (let i = 0; i < expected.length; i++) {
+      difference |= expected.charCodeAt(i) ^ result.signature.charCodeAt(i);
+    }
+    return difference === 0;
+  }
+}
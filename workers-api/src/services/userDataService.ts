@@ -4,18 +4,33 @@
  * Based on server implementation but adapted for Cloudflare Workers
  */
 
-import { FIRESTORE_BASE_URL, FIREBASE_PROJECT_ID } from '../config/firebase';
+import { logger } from '@prompt-tool/core';
+import { getFirestoreBaseUrl } from '../config/firebase';
 import { 
   UserDocument, 
   ChallengeProgress, 
   UserStats,
   UserProfileUpdate,
+  UserRole,
+  USER_ROLES,
+  ChallengeStatus,
   ApiError 
 } from '../types';
 
 const USERS_COLLECTION = 'users';
 const USER_STATS_COLLECTION = 'userStats';
 const USER_PROGRESS_COLLECTION = 'userProgress';
+const ATTEMPTS_COLLECTION = 'attempts';
+
+// Firestore caps a commit at 500 writes
+const MAX_COMMIT_SIZE = 500;
+
+/**
+ * Add a transaction id to a document read, so the commit fails if it changed since
+ */
+function withTransaction(url: string, transaction?: string): string {
+  return transaction ? `${url}?transaction=${encodeURIComponent(transaction)}` : url;
+}
 
 export class UserDataService {
   
@@ -24,100 +39,18 @@ export class UserDataService {
    */
   static async createOrUpdateUser(uid: string, userData: Partial<UserDocument>, accessToken: string): Promise<UserDocument> {
     try {
-      console.log(`👤 Creating/updating user: ${uid}`);
-      
-      // Real Firebase operations
-      if (accessToken.startsWith('firebase-service-token:')) {
-        console.log('🔥 REAL FIREBASE: Creating/updating user in Firestore');
-        
-        const userDocUrl = `${FIRESTORE_BASE_URL}/${USERS_COLLECTION}/${uid}`;
-        const now = new Date();
-        
-        const firestoreUserData: any = {
-          fields: {
-            email: { stringValue: userData.email || '' },
-            displayName: { stringValue: userData.displayName || '' },
-            photoURL: { stringValue: userData.photoURL || '' },
-            updatedAt: { timestampValue: now.toISOString() },
-            lastLoginAt: { timestampValue: now.toISOString() }
-          }
-        };
-        
-        try {
-          // Check if user exists first
-          const checkResponse = await fetch(userDocUrl);
-          
-          if (checkResponse.status === 404) {
-            // Create new user
-            console.log(`🆕 CREATING NEW USER in Firestore: ${userData.email}`);
-            firestoreUserData.fields.createdAt = { timestampValue: now.toISOString() };
-            
-            const createResponse = await fetch(userDocUrl, {
-              method: 'PATCH',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(firestoreUserData)
-            });
-            
-            if (createResponse.ok) {
-              console.log(`✅ USER CREATED IN FIRESTORE: ${userData.email}`);
-            } else {
-              console.error(`❌ Firestore create failed: ${createResponse.status}`);
-            }
-          } else if (checkResponse.ok) {
-            // Update existing user
-            console.log(`🔄 UPDATING USER in Firestore: ${userData.email}`);
-            
-            const updateResponse = await fetch(userDocUrl, {
-              method: 'PATCH',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(firestoreUserData)
-            });
-            
-            if (updateResponse.ok) {
-              console.log(`✅ USER UPDATED IN FIRESTORE: ${userData.email}`);
-            } else {
-              console.error(`❌ Firestore update failed: ${updateResponse.status}`);
-            }
-          }
-          
-          // Initialize user stats
-          await this.initializeUserStats(uid, accessToken);
-          
-          return {
-            id: uid,
-            email: userData.email || '',
-            displayName: userData.displayName || '',
-            photoURL: userData.photoURL || '',
-            createdAt: now,
-            updatedAt: now,
-            lastLoginAt: now
-          };
-          
-        } catch (error) {
-          console.error('❌ FIRESTORE ERROR:', error);
-        }
-      }
-      
-      // For development mode, simulate user creation/update
-      if (accessToken === 'dev-mode-token') {
-        console.log('🛠️ Development mode: Simulating user creation/update');
-        
-        const now = new Date();
-        const user: UserDocument = {
-          id: uid,
-          email: userData.email || '',
-          displayName: userData.displayName || '',
-          photoURL: userData.photoURL || '',
-          createdAt: now,
-          updatedAt: now,
-          lastLoginAt: now
-        };
-        
-        console.log(`✅ User simulated successfully: ${user.email}`);
-        return user;
-      }
+      logger.info(`👤 Creating/updating user: ${uid}`);
+      
+      const userDocUrl = `${getFirestoreBaseUrl()}/${USERS_COLLECTION}/${uid}`;
+      const now = new Date().toISOString();
+      const profileFields: Record<string, any> = {
+        email: { stringValue: userData.email || '' },
+        displayName: { stringValue: userData.displayName || '' },
+        photoURL: { stringValue: userData.photoURL || '' },
+        updatedAt: { timestampValue: now },
+        lastLoginAt: { timestampValue: now }
+      };
       
-      const userDocUrl = `${FIRESTORE_BASE_URL}/${USERS_COLLECTION}/${uid}`;
       const response = await fetch(userDocUrl, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
@@ -125,76 +58,56 @@ export class UserDataService {
         }
       });
       
-      const now = new Date();
-      
       if (response.ok) {
-        // Update existing user
-        const updateData = {
-          fields: {
-            ...userData,
-            lastLoginAt: { timestampValue: now.toISOString() },
-            updatedAt: { timestampValue: now.toISOString() }
-          }
-        };
-        
-        const updateResponse = await fetch(userDocUrl, {
+        // Update existing user, leaving role and createdAt untouched
+        const mask = Object.keys(profileFields).map(field => `updateMask.fieldPaths=${field}`).join('&');
+        const updateResponse = await fetch(`${userDocUrl}?${mask}`, {
           method: 'PATCH',
           headers: {
             'Authorization': `Bearer ${accessToken}`,
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify(updateData)
+          body: JSON.stringify({ fields: profileFields })
         });
         
         if (!updateResponse.ok) {
           throw new ApiError('Failed to update user', updateResponse.status);
         }
         
-        const updatedDoc = await updateResponse.json();
-        return this.parseFirestoreDocument(uid, updatedDoc);
+        logger.info(`🔄 User updated: ${uid}`);
+        return this.parseFirestoreDocument(uid, await updateResponse.json());
       } else if (response.status === 404) {
         // Create new user
-        const newUser: any = {
-          fields: {
-            email: { stringValue: userData.email || '' },
-            displayName: { stringValue: userData.displayName || '' },
-            photoURL: { stringValue: userData.photoURL || '' },
-            createdAt: { timestampValue: now.toISOString() },
-            updatedAt: { timestampValue: now.toISOString() },
-            lastLoginAt: { timestampValue: now.toISOString() },
-            totalChallengesCompleted: { integerValue: '0' },
-            totalScore: { integerValue: '0' },
-            currentStreak: { integerValue: '0' },
-            maxStreak: { integerValue: '0' },
-            isActive: { booleanValue: true }
-          }
-        };
-        
         const createResponse = await fetch(userDocUrl, {
           method: 'PATCH',
           headers: {
             'Authorization': `Bearer ${accessToken}`,
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify(newUser)
+          body: JSON.stringify({
+            fields: {
+              ...profileFields,
+              role: { stringValue: 'student' },
+              createdAt: { timestampValue: now }
+            }
+          })
         });
         
         if (!createResponse.ok) {
           throw new ApiError('Failed to create user', createResponse.status);
         }
         
-        console.log(`🎉 New user created: ${uid}`);
+        logger.info(`🎉 New user created: ${uid}`);
         
         // Initialize user stats
         await this.initializeUserStats(uid, accessToken);
         
-        const createdDoc = await createResponse.json();
-        return this.parseFirestoreDocument(uid, createdDoc);
+        return this.parseFirestoreDocument(uid, await createResponse.json());
       } else {
         throw new ApiError('Failed to fetch user', response.status);
       }
     } catch (error) {
-      console.error(`❌ Error creating/updating user ${uid}:`, error);
+      logger.error(`❌ Error creating/updating user ${uid}`, { error });
       throw new ApiError(`Failed to create/update user: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
@@ -204,9 +117,9 @@ export class UserDataService {
    */
   static async getUserById(uid: string, accessToken: string): Promise<UserDocument | null> {
     try {
-      console.log(`🔍 Fetching user: ${uid}`);
+      logger.info(`🔍 Fetching user: ${uid}`);
       
-      const userDocUrl = `${FIRESTORE_BASE_URL}/${USERS_COLLECTION}/${uid}`;
+      const userDocUrl = `${getFirestoreBaseUrl()}/${USERS_COLLECTION}/${uid}`;
       const response = await fetch(userDocUrl, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
@@ -215,7 +128,7 @@ export class UserDataService {
       });
       
       if (response.status === 404) {
-        console.log(`❓ User not found: ${uid}`);
+        logger.info(`❓ User not found: ${uid}`);
         return null;
       }
       
@@ -225,98 +138,106 @@ export class UserDataService {
       
       const userDoc = await response.json();
       const userData = this.parseFirestoreDocument(uid, userDoc);
-      console.log(`✅ User found: ${userData.email}`);
+      logger.info(`✅ User found: ${uid}`);
       
       return userData;
     } catch (error) {
-      console.error(`❌ Error fetching user ${uid}:`, error);
+      logger.error(`❌ Error fetching user ${uid}`, { error });
       throw new ApiError(`Failed to fetch user: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
   
   /**
-   * Update user profile
+   * Set a user's role on their profile document
+   * Custom claims are managed by the Express server, which has the Admin SDK
    */
-  static async updateUserProfile(uid: string, updates: UserProfileUpdate, accessToken: string): Promise<UserDocument> {
+  static async setUserRole(uid: string, role: UserRole, accessToken: string): Promise<UserDocument | null> {
     try {
-      console.log(`📝 Updating user profile: ${uid}`);
+      logger.info(`🎭 Setting role for user ${uid}: ${role}`);
       
-      const userDocUrl = `${FIRESTORE_BASE_URL}/${USERS_COLLECTION}/${uid}`;
-      const updateData = {
-        fields: {
-          ...updates,
-          updatedAt: { timestampValue: new Date().toISOString() }
-        }
-      };
+      const existing = await this.getUserById(uid, accessToken);
+      if (!existing) {
+        return null;
+      }
       
+      const userDocUrl = `${getFirestoreBaseUrl()}/${USERS_COLLECTION}/${uid}?updateMask.fieldPaths=role&updateMask.fieldPaths=updatedAt`;
       const response = await fetch(userDocUrl, {
         method: 'PATCH',
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(updateData)
+        body: JSON.stringify({
+          fields: {
+            role: { stringValue: role },
+            updatedAt: { timestampValue: new Date().toISOString() }
+          }
+        })
       });
       
       if (!response.ok) {
-        throw new ApiError('Failed to update user profile', response.status);
+        throw new ApiError('Failed to set user role', response.status);
       }
       
-      const updatedDoc = await response.json();
-      const userData = this.parseFirestoreDocument(uid, updatedDoc);
-      
-      console.log(`✅ User profile updated: ${uid}`);
-      return userData;
+      logger.info(`✅ Role updated for user: ${uid}`);
+      return this.parseFirestoreDocument(uid, await response.json());
     } catch (error) {
-      console.error(`❌ Error updating user profile ${uid}:`, error);
-      throw new ApiError(`Failed to update user profile: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+      logger.error(`❌ Error setting role for user ${uid}`, { error });
+      throw new ApiError(`Failed to set user role: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
   
   /**
-   * Save user challenge progress
+   * Update user profile
    */
-  static async saveUserProgress(uid: string, progress: Record<number, ChallengeProgress>, accessToken: string): Promise<void> {
+  static async updateUserProfile(uid: string, updates: UserProfileUpdate, accessToken: string): Promise<UserDocument> {
     try {
-      console.log(`💾 Saving progress for user: ${uid}`);
+      logger.info(`📝 Updating user profile: ${uid}`);
       
-      const progressDocUrl = `${FIRESTORE_BASE_URL}/${USER_PROGRESS_COLLECTION}/${uid}`;
-      const progressData = {
-        fields: {
-          userId: { stringValue: uid },
-          progress: { mapValue: { fields: this.convertProgressToFirestore(progress) } },
-          lastUpdated: { timestampValue: new Date().toISOString() }
-        }
+      const fields: Record<string, any> = {
+        updatedAt: { timestampValue: new Date().toISOString() }
       };
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined) fields[key] = { stringValue: value };
+      });
       
-      const response = await fetch(progressDocUrl, {
+      const mask = Object.keys(fields).map(field => `updateMask.fieldPaths=${field}`).join('&');
+      const userDocUrl = `${getFirestoreBaseUrl()}/${USERS_COLLECTION}/${uid}?${mask}`;
+      const updateData = { fields };
+      
+      const response = await fetch(userDocUrl, {
         method: 'PATCH',
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(progressData)
+        body: JSON.stringify(updateData)
       });
       
       if (!response.ok) {
-        throw new ApiError('Failed to save user progress', response.status);
+        throw new ApiError('Failed to update user profile', response.status);
       }
       
-      console.log(`✅ Progress saved for user: ${uid}`);
+      const updatedDoc = await response.json();
+      const userData = this.parseFirestoreDocument(uid, updatedDoc);
+      
+      logger.info(`✅ User profile updated: ${uid}`);
+      return userData;
     } catch (error) {
-      console.error(`❌ Error saving progress for user ${uid}:`, error);
-      throw new ApiError(`Failed to save user progress: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+      logger.error(`❌ Error updating user profile ${uid}`, { error });
+      throw new ApiError(`Failed to update user profile: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
   
   /**
    * Get user challenge progress
+   * @param transaction Read inside this Firestore transaction
    */
-  static async getUserProgress(uid: string, accessToken: string): Promise<Record<number, ChallengeProgress> | null> {
+  static async getUserProgress(uid: string, accessToken: string, transaction?: string): Promise<Record<number, ChallengeProgress> | null> {
     try {
-      console.log(`📊 Fetching progress for user: ${uid}`);
+      logger.info(`📊 Fetching progress for user: ${uid}`);
       
-      const progressDocUrl = `${FIRESTORE_BASE_URL}/${USER_PROGRESS_COLLECTION}/${uid}`;
+      const progressDocUrl = withTransaction(`${getFirestoreBaseUrl()}/${USER_PROGRESS_COLLECTION}/${uid}`, transaction);
       const response = await fetch(progressDocUrl, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
@@ -325,7 +246,7 @@ export class UserDataService {
       });
       
       if (response.status === 404) {
-        console.log(`❓ No progress found for user: ${uid}`);
+        logger.info(`❓ No progress found for user: ${uid}`);
         return null;
       }
       
@@ -336,103 +257,23 @@ export class UserDataService {
       const progressDoc = await response.json() as any;
       const progress = this.parseProgressFromFirestore(progressDoc.fields?.progress?.mapValue?.fields || {});
       
-      console.log(`✅ Progress loaded for user: ${uid}`);
+      logger.info(`✅ Progress loaded for user: ${uid}`);
       return progress;
     } catch (error) {
-      console.error(`❌ Error fetching progress for user ${uid}:`, error);
+      logger.error(`❌ Error fetching progress for user ${uid}`, { error });
       throw new ApiError(`Failed to fetch user progress: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
   
-  /**
-   * Update user statistics after challenge completion
-   */
-  static async updateUserStats(uid: string, challengeScore: number, newStreak: number, accessToken: string): Promise<UserStats> {
-    try {
-      console.log(`📈 Updating stats for user: ${uid}`);
-      
-      // Get current stats
-      const statsDocUrl = `${FIRESTORE_BASE_URL}/${USER_STATS_COLLECTION}/${uid}`;
-      const statsResponse = await fetch(statsDocUrl, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      let currentStats: UserStats | null = null;
-      if (statsResponse.ok) {
-        const statsDoc = await statsResponse.json();
-        currentStats = this.parseStatsFromFirestore(uid, statsDoc);
-      }
-      
-      // Calculate updated stats
-      const updatedStats: UserStats = {
-        userId: uid,
-        totalChallengesAttempted: (currentStats?.totalChallengesAttempted || 0) + 1,
-        totalChallengesCompleted: (currentStats?.totalChallengesCompleted || 0) + 1,
-        averageSimilarityScore: challengeScore,
-        averageScore: 0, // Will be calculated
-        bestSimilarityScore: Math.max(currentStats?.bestSimilarityScore || 0, challengeScore),
-        totalTimeSpent: (currentStats?.totalTimeSpent || 0) + 5, // Default 5 minutes
-        streak: newStreak,
-        currentStreak: newStreak,
-        maxStreak: Math.max(currentStats?.maxStreak || 0, newStreak),
-        level: Math.floor(((currentStats?.totalChallengesCompleted || 0) + 1) / 5) + 1,
-        experiencePoints: (currentStats?.experiencePoints || 0) + challengeScore,
-        totalScore: (currentStats?.totalScore || 0) + challengeScore,
-        lastChallengeAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      // Calculate average score
-      if (updatedStats.totalScore && updatedStats.totalChallengesCompleted > 0) {
-        updatedStats.averageScore = updatedStats.totalScore / updatedStats.totalChallengesCompleted;
-      }
-      
-      // Update stats document
-      const statsData = {
-        fields: {
-          userId: { stringValue: uid },
-          totalChallengesCompleted: { integerValue: updatedStats.totalChallengesCompleted.toString() },
-          totalScore: { integerValue: updatedStats.totalScore!.toString() },
-          currentStreak: { integerValue: updatedStats.currentStreak!.toString() },
-          maxStreak: { integerValue: updatedStats.maxStreak!.toString() },
-          averageScore: { doubleValue: updatedStats.averageScore! },
-          lastChallengeAt: { timestampValue: updatedStats.lastChallengeAt!.toISOString() },
-          updatedAt: { timestampValue: updatedStats.updatedAt!.toISOString() }
-        }
-      };
-      
-      const updateResponse = await fetch(statsDocUrl, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(statsData)
-      });
-      
-      if (!updateResponse.ok) {
-        throw new ApiError('Failed to update user stats', updateResponse.status);
-      }
-      
-      console.log(`✅ Stats updated for user: ${uid}`);
-      return updatedStats;
-    } catch (error) {
-      console.error(`❌ Error updating stats for user ${uid}:`, error);
-      throw new ApiError(`Failed to update user stats: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
-    }
-  }
-  
   /**
    * Get user statistics
+   * @param transaction Read inside this Firestore transaction
    */
-  static async getUserStats(uid: string, accessToken: string): Promise<UserStats | null> {
+  static async getUserStats(uid: string, accessToken: string, transaction?: string): Promise<UserStats | null> {
     try {
-      console.log(`📊 Fetching stats for user: ${uid}`);
+      logger.info(`📊 Fetching stats for user: ${uid}`);
       
-      const statsDocUrl = `${FIRESTORE_BASE_URL}/${USER_STATS_COLLECTION}/${uid}`;
+      const statsDocUrl = withTransaction(`${getFirestoreBaseUrl()}/${USER_STATS_COLLECTION}/${uid}`, transaction);
       const response = await fetch(statsDocUrl, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
@@ -441,7 +282,7 @@ export class UserDataService {
       });
       
       if (response.status === 404) {
-        console.log(`❓ No stats found for user: ${uid}`);
+        logger.info(`❓ No stats found for user: ${uid}`);
         return null;
       }
       
@@ -451,11 +292,11 @@ export class UserDataService {
       
       const statsDoc = await response.json();
       const stats = this.parseStatsFromFirestore(uid, statsDoc);
-      console.log(`✅ Stats loaded for user: ${uid}`);
+      logger.info(`✅ Stats loaded for user: ${uid}`);
       
       return stats;
     } catch (error) {
-      console.error(`❌ Error fetching stats for user ${uid}:`, error);
+      logger.error(`❌ Error fetching stats for user ${uid}`, { error });
       throw new ApiError(`Failed to fetch user stats: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
@@ -465,59 +306,8 @@ export class UserDataService {
    */
   private static async initializeUserStats(uid: string, accessToken: string): Promise<void> {
     try {
-      // Real Firebase operations
-      if (accessToken.startsWith('firebase-service-token:')) {
-        console.log(`🔥 REAL FIREBASE: Initializing stats for user: ${uid}`);
-        
-        const statsDocUrl = `${FIRESTORE_BASE_URL}/${USER_STATS_COLLECTION}/${uid}`;
-        
-        const initialStats = {
-          fields: {
-            userId: { stringValue: uid },
-            totalChallengesAttempted: { integerValue: '0' },
-            totalChallengesCompleted: { integerValue: '0' },
-            averageSimilarityScore: { doubleValue: 0 },
-            averageScore: { doubleValue: 0 },
-            bestSimilarityScore: { doubleValue: 0 },
-            totalTimeSpent: { integerValue: '0' },
-            streak: { integerValue: '0' },
-            currentStreak: { integerValue: '0' },
-            maxStreak: { integerValue: '0' },
-            level: { integerValue: '1' },
-            experiencePoints: { integerValue: '0' },
-            totalScore: { integerValue: '0' },
-            lastChallengeAt: { timestampValue: new Date().toISOString() },
-            updatedAt: { timestampValue: new Date().toISOString() }
-          }
-        };
-        
-        try {
-          const response = await fetch(statsDocUrl, {
-            method: 'PATCH',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(initialStats)
-          });
-          
-          if (response.ok) {
-            console.log(`✅ STATS CREATED IN FIRESTORE: ${uid}`);
-          } else {
-            console.error(`❌ Stats creation failed: ${response.status}`);
-          }
-          
-        } catch (error) {
-          console.error('❌ FIRESTORE STATS ERROR:', error);
-        }
-        
-        return;
-      }
-      
-      // For development mode, simulate stats initialization
-      if (accessToken === 'dev-mode-token') {
-        console.log(`📊 Initial stats simulated for user: ${uid}`);
-        return;
-      }
-      
-      const statsDocUrl = `${FIRESTORE_BASE_URL}/${USER_STATS_COLLECTION}/${uid}`;
+      const statsDocUrl = `${getFirestoreBaseUrl()}/${USER_STATS_COLLECTION}/${uid}`;
+      const now = new Date().toISOString();
       
       const initialStats = {
         fields: {
@@ -527,8 +317,8 @@ export class UserDataService {
           currentStreak: { integerValue: '0' },
           maxStreak: { integerValue: '0' },
           averageScore: { doubleValue: 0 },
-          lastChallengeAt: { timestampValue: new Date().toISOString() },
-          updatedAt: { timestampValue: new Date().toISOString() }
+          lastChallengeAt: { timestampValue: now },
+          updatedAt: { timestampValue: now }
         }
       };
       
@@ -545,9 +335,9 @@ export class UserDataService {
         throw new ApiError('Failed to initialize user stats', response.status);
       }
       
-      console.log(`📊 Initial stats created for user: ${uid}`);
+      logger.info(`📊 Initial stats created for user: ${uid}`);
     } catch (error) {
-      console.error(`❌ Error initializing stats for user ${uid}:`, error);
+      logger.error(`❌ Error initializing stats for user ${uid}`, { error });
       throw error;
     }
   }
@@ -557,11 +347,11 @@ export class UserDataService {
    */
   static async getLeaderboard(limit: number = 10, accessToken: string): Promise<UserStats[]> {
     try {
-      console.log(`🏆 Fetching leaderboard (top ${limit})`);
+      logger.info(`🏆 Fetching leaderboard (top ${limit})`);
       
       // Note: Firestore REST API doesn't support orderBy directly in the URL
       // You would need to implement this using queries or structured documents
-      const statsCollectionUrl = `${FIRESTORE_BASE_URL}/${USER_STATS_COLLECTION}`;
+      const statsCollectionUrl = `${getFirestoreBaseUrl()}/${USER_STATS_COLLECTION}`;
       const response = await fetch(statsCollectionUrl, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
@@ -582,10 +372,10 @@ export class UserDataService {
         .sort((a: UserStats, b: UserStats) => (b.totalScore || 0) - (a.totalScore || 0))
         .slice(0, limit);
       
-      console.log(`✅ Leaderboard fetched: ${leaderboard.length} entries`);
+      logger.info(`✅ Leaderboard fetched: ${leaderboard.length} entries`);
       return leaderboard;
     } catch (error) {
-      console.error(`❌ Error fetching leaderboard:`, error);
+      logger.error(`❌ Error fetching leaderboard`, { error });
       throw new ApiError(`Failed to fetch leaderboard: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
@@ -595,10 +385,10 @@ export class UserDataService {
    */
   static async deleteUser(uid: string, accessToken: string): Promise<void> {
     try {
-      console.log(`🗑️ Deleting user: ${uid}`);
+      logger.info(`🗑️ Deleting user: ${uid}`);
       
       // Delete user document
-      const userDocUrl = `${FIRESTORE_BASE_URL}/${USERS_COLLECTION}/${uid}`;
+      const userDocUrl = `${getFirestoreBaseUrl()}/${USERS_COLLECTION}/${uid}`;
       await fetch(userDocUrl, {
         method: 'DELETE',
         headers: {
@@ -608,7 +398,7 @@ export class UserDataService {
       });
       
       // Delete user stats
-      const statsDocUrl = `${FIRESTORE_BASE_URL}/${USER_STATS_COLLECTION}/${uid}`;
+      const statsDocUrl = `${getFirestoreBaseUrl()}/${USER_STATS_COLLECTION}/${uid}`;
       await fetch(statsDocUrl, {
         method: 'DELETE',
         headers: {
@@ -618,7 +408,7 @@ export class UserDataService {
       });
       
       // Delete user progress
-      const progressDocUrl = `${FIRESTORE_BASE_URL}/${USER_PROGRESS_COLLECTION}/${uid}`;
+      const progressDocUrl = `${getFirestoreBaseUrl()}/${USER_PROGRESS_COLLECTION}/${uid}`;
       await fetch(progressDocUrl, {
         method: 'DELETE',
         headers: {
@@ -627,13 +417,53 @@ export class UserDataService {
         }
       });
       
-      console.log(`✅ User deleted: ${uid}`);
+      // Delete attempt history
+      await this.deleteAttempts(uid, accessToken);
+      
+      logger.info(`✅ User deleted: ${uid}`);
     } catch (error) {
-      console.error(`❌ Error deleting user ${uid}:`, error);
+      logger.error(`❌ Error deleting user ${uid}`, { error });
       throw new ApiError(`Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
     }
   }
   
+  /**
+   * Delete every attempt recorded for a user
+   */
+  private static async deleteAttempts(uid: string, accessToken: string): Promise<void> {
+    const headers = {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    };
+    
+    const queryResponse = await fetch(`${getFirestoreBaseUrl()}:runQuery`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        structuredQuery: {
+          from: [{ collectionId: ATTEMPTS_COLLECTION }],
+          where: { fieldFilter: { field: { fieldPath: 'userId' }, op: 'EQUAL', value: { stringValue: uid } } },
+          select: { fields: [{ fieldPath: '__name__' }] }
+        }
+      })
+    });
+    
+    if (!queryResponse.ok) {
+      throw new ApiError(`Failed to list attempts: ${queryResponse.status}`, 500);
+    }
+    
+    const results = await queryResponse.json() as Array<{ document?: { name: string } }>;
+    const names = results.filter(result => result.document).map(result => result.document!.name);
+    
+    for (let i = 0; i < names.length; i += MAX_COMMIT_SIZE) {
+      await fetch(`${getFirestoreBaseUrl()}:commit`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ writes: names.slice(i, i + MAX_COMMIT_SIZE).map(name => ({ delete: name })) })
+      });
+    }
+  }
+  
   /**
    * Helper method to parse Firestore document to UserDocument
    */
@@ -644,6 +474,8 @@ export class UserDataService {
       email: fields.email?.stringValue || '',
       displayName: fields.displayName?.stringValue || '',
       photoURL: fields.photoURL?.stringValue || '',
+      role: USER_ROLES.includes(fields.role?.stringValue) ? fields.role.stringValue : undefined,
+      feedbackPersona: fields.feedbackPersona?.stringValue || undefined,
       createdAt: new Date(fields.createdAt?.timestampValue || Date.now()),
       updatedAt: new Date(fields.updatedAt?.timestampValue || Date.now()),
       lastLoginAt: new Date(fields.lastLoginAt?.timestampValue || Date.now())
@@ -657,48 +489,59 @@ export class UserDataService {
     const fields = doc.fields || {};
     return {
       userId: uid,
-      totalChallengesAttempted: parseInt(fields.totalChallengesAttempted?.integerValue || '0'),
       totalChallengesCompleted: parseInt(fields.totalChallengesCompleted?.integerValue || '0'),
-      averageSimilarityScore: fields.averageSimilarityScore?.doubleValue || 0,
-      averageScore: fields.averageScore?.doubleValue || 0,
-      bestSimilarityScore: fields.bestSimilarityScore?.doubleValue || 0,
-      totalTimeSpent: parseInt(fields.totalTimeSpent?.integerValue || '0'),
-      streak: parseInt(fields.streak?.integerValue || '0'),
+      totalScore: parseInt(fields.totalScore?.integerValue || '0'),
       currentStreak: parseInt(fields.currentStreak?.integerValue || '0'),
       maxStreak: parseInt(fields.maxStreak?.integerValue || '0'),
-      level: parseInt(fields.level?.integerValue || '1'),
-      experiencePoints: parseInt(fields.experiencePoints?.integerValue || '0'),
-      totalScore: parseInt(fields.totalScore?.integerValue || '0'),
+      averageScore: fields.averageScore?.doubleValue || 0,
       lastChallengeAt: new Date(fields.lastChallengeAt?.timestampValue || Date.now()),
       updatedAt: new Date(fields.updatedAt?.timestampValue || Date.now())
     };
   }
   
   /**
-   * Helper method to convert progress to Firestore format
+   * Convert progress to Firestore map fields, omitting unset values
    */
-  private static convertProgressToFirestore(progress: Record<number, ChallengeProgress>): any {
+  static convertProgressToFirestore(progress: Record<number, ChallengeProgress>): any {
     const firestoreProgress: any = {};
     
     for (const [challengeId, challengeProgress] of Object.entries(progress)) {
-      firestoreProgress[challengeId] = {
-        mapValue: {
-          fields: {
-            challengeId: { integerValue: challengeProgress.challengeId.toString() },
-            status: { stringValue: challengeProgress.status },
-            streak: { integerValue: (challengeProgress.streak || 0).toString() },
-            previousSimilarityScore: { integerValue: (challengeProgress.previousSimilarityScore || 0).toString() },
-            completedAt: challengeProgress.completedAt ? { timestampValue: challengeProgress.completedAt.toISOString() } : null,
-            attempts: { integerValue: challengeProgress.attempts.toString() },
-            bestScore: challengeProgress.bestScore ? { integerValue: challengeProgress.bestScore.toString() } : null
-          }
-        }
+      const fields: Record<string, any> = {
+        status: { stringValue: challengeProgress.status },
+        streak: { integerValue: (challengeProgress.streak || 0).toString() },
+        previousSimilarityScore: { integerValue: (challengeProgress.previousSimilarityScore || 0).toString() },
+        attempts: { integerValue: (challengeProgress.attempts || 0).toString() }
       };
+      
+      if (challengeProgress.completedAt) {
+        fields.completedAt = { timestampValue: new Date(challengeProgress.completedAt).toISOString() };
+      }
+      if (challengeProgress.bestScore !== undefined) {
+        fields.bestScore = { integerValue: challengeProgress.bestScore.toString() };
+      }
+      
+      firestoreProgress[challengeId] = { mapValue: { fields } };
     }
     
     return firestoreProgress;
   }
   
+  /**
+   * Convert stats to Firestore document fields
+   */
+  static convertStatsToFirestore(stats: UserStats): Record<string, any> {
+    return {
+      userId: { stringValue: stats.userId },
+      totalChallengesCompleted: { integerValue: stats.totalChallengesCompleted.toString() },
+      totalScore: { integerValue: stats.totalScore.toString() },
+      currentStreak: { integerValue: stats.currentStreak.toString() },
+      maxStreak: { integerValue: stats.maxStreak.toString() },
+      averageScore: { doubleValue: stats.averageScore },
+      lastChallengeAt: { timestampValue: stats.lastChallengeAt.toISOString() },
+      updatedAt: { timestampValue: stats.updatedAt.toISOString() }
+    };
+  }
+  
   /**
    * Helper method to parse progress from Firestore format
    */
@@ -708,8 +551,7 @@ export class UserDataService {
     for (const [challengeId, challengeData] of Object.entries(firestoreProgress)) {
       const fields = (challengeData as any).mapValue?.fields || {};
       progress[parseInt(challengeId)] = {
-        challengeId: parseInt(challengeId),
-        status: fields.status?.stringValue || 'locked',
+        status: (fields.status?.stringValue || 'LOCKED') as ChallengeStatus,
         streak: parseInt(fields.streak?.integerValue || '0'),
         previousSimilarityScore: parseInt(fields.previousSimilarityScore?.integerValue || '0'),
         completedAt: fields.completedAt?.timestampValue ? new Date(fields.completedAt.timestampValue) : undefined,
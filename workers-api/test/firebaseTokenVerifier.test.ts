@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { FirebaseTokenVerifier } from '../src/services/firebaseTokenVerifier';
+import { authenticateFirebaseToken, setTokenVerifier } from '../src/middleware/firebaseAuth';
+import {
+  TEST_PROJECT_ID,
+  TestKeyPair,
+  generateTestKeyPair,
+  jwksFetch,
+  signTestToken,
+  validClaims
+} from './helpers/tokens';
+
+const NOW_MS = Date.UTC(2025, 0, 1);
+const NOW = NOW_MS / 1000;
+
+let signingKey: TestKeyPair;
+let otherKey: TestKeyPair;
+
+beforeAll(async () => {
+  signingKey = await generateTestKeyPair('key-a');
+  otherKey = await generateTestKeyPair('key-b');
+});
+
+function createVerifier(keys: () => JsonWebKey[] = () => [signingKey.publicJwk], now: () => number = () => NOW_MS) {
+  const fetchFn = jwksFetch(keys);
+  const verifier = new FirebaseTokenVerifier({
+    projectId: TEST_PROJECT_ID,
+    fetchFn: fetchFn as unknown as typeof fetch,
+    now
+  });
+  return { verifier, fetchFn };
+}
+
+describe('FirebaseTokenVerifier', () => {
+  it('accepts a correctly signed token', async () => {
+    const { verifier } = createVerifier();
+    const token = await signTestToken(signingKey, validClaims(NOW, { role: 'admin' }));
+
+    const decoded = await verifier.verify(token);
+
+    expect(decoded.uid).toBe('user-123');
+    expect(decoded.email).toBe('student@example.com');
+    expect(decoded.emailVerified).toBe(true);
+    expect(decoded.claims.role).toBe('admin');
+  });
+
+  it('rejects a token signed by a different key with the same kid', async () => {
+    const { verifier } = createVerifier();
+    const forger = { ...otherKey, kid: signingKey.kid };
+    const token = await signTestToken(forger, validClaims(NOW));
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('rejects a token whose payload was tampered with', async () => {
+    const { verifier } = createVerifier();
+    const token = await signTestToken(signingKey, validClaims(NOW));
+    const [header, , signature] = token.split('.');
+    const forgedPayload = (await signTestToken(signingKey, validClaims(NOW, { sub: 'someone-else' }))).split('.')[1];
+
+    await expect(verifier.verify(`${header}.${forgedPayload}.${signature}`))
+      .rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('rejects unsigned and non-RS256 tokens', async () => {
+    const { verifier } = createVerifier();
+    const token = await signTestToken(signingKey, validClaims(NOW), { alg: 'none' });
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+  });
+
+  it('rejects malformed tokens', async () => {
+    const { verifier } = createVerifier();
+
+    await expect(verifier.verify('not-a-jwt')).rejects.toMatchObject({ code: 'INVALID_TOKEN_FORMAT' });
+    await expect(verifier.verify('a.b.c')).rejects.toMatchObject({ code: 'INVALID_TOKEN_FORMAT' });
+  });
+
+  it.each([
+    ['expired', { exp: NOW - 1 }, 'TOKEN_EXPIRED'],
+    ['issued in the future', { iat: NOW + 600 }, 'INVALID_TOKEN'],
+    ['authenticated in the future', { auth_time: NOW + 600 }, 'INVALID_TOKEN'],
+    ['missing auth_time', { auth_time: undefined }, 'INVALID_TOKEN'],
+    ['for another project', { aud: 'other-project' }, 'INVALID_TOKEN'],
+    ['from another issuer', { iss: 'https://securetoken.google.com/other-project' }, 'INVALID_TOKEN'],
+    ['without a subject', { sub: '' }, 'INVALID_TOKEN'],
+    ['with an oversized subject', { sub: 'x'.repeat(129) }, 'INVALID_TOKEN']
+  ])('rejects a token %s', async (_label, overrides, code) => {
+    const { verifier } = createVerifier();
+    const token = await signTestToken(signingKey, validClaims(NOW, overrides));
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ code });
+  });
+
+  it('rejects a token with an unknown kid', async () => {
+    const { verifier } = createVerifier();
+    const token = await signTestToken(otherKey, validClaims(NOW));
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+  });
+
+  it('caches keys by kid until max-age expires', async () => {
+    let now = NOW_MS;
+    const { verifier, fetchFn } = createVerifier(undefined, () => now);
+    const token = await signTestToken(signingKey, validClaims(NOW));
+
+    await verifier.verify(token);
+    await verifier.verify(token);
+    expect(fetchFn.calls).toBe(1);
+
+    now += 3601 * 1000;
+    const laterToken = await signTestToken(signingKey, validClaims(now / 1000));
+    await verifier.verify(laterToken);
+    expect(fetchFn.calls).toBe(2);
+  });
+
+  it('refetches keys when Google rotates in a new kid', async () => {
+    let now = NOW_MS;
+    let published = [signingKey.publicJwk];
+    const { verifier, fetchFn } = createVerifier(() => published, () => now);
+
+    await verifier.verify(await signTestToken(signingKey, validClaims(NOW)));
+
+    now += 61 * 1000;
+    published = [signingKey.publicJwk, otherKey.publicJwk];
+    const decoded = await verifier.verify(await signTestToken(otherKey, validClaims(now / 1000)));
+
+    expect(decoded.uid).toBe('user-123');
+    expect(fetchFn.calls).toBe(2);
+  });
+
+  it('does not refetch keys for every unknown kid', async () => {
+    const { verifier, fetchFn } = createVerifier();
+
+    await verifier.verify(await signTestToken(signingKey, validClaims(NOW)));
+    for (let i = 0; i < 3; i++) {
+      const token = await signTestToken({ ...otherKey, kid: `forged-${i}` }, validClaims(NOW));
+      await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    }
+
+    expect(fetchFn.calls).toBe(1);
+  });
+});
+
+describe('authenticateFirebaseToken', () => {
+  afterEach(() => setTokenVerifier(null));
+
+  function createApp() {
+    const app = new Hono();
+    app.get('/me', authenticateFirebaseToken, (c: any) => c.json(c.get('user')));
+    return app;
+  }
+
+  it('attaches the verified user to the context', async () => {
+    const { verifier } = createVerifier(undefined, () => Date.now());
+    setTokenVerifier(verifier);
+    const token = await signTestToken(signingKey, validClaims(Math.floor(Date.now() / 1000), { role: 'instructor' }));
+
+    const res = await createApp().request('/me', { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ uid: 'user-123', email: 'student@example.com', role: 'instructor' });
+  });
+
+  it('rejects a forged token with 401', async () => {
+    const { verifier } = createVerifier(undefined, () => Date.now());
+    setTokenVerifier(verifier);
+    const forger = { ...otherKey, kid: signingKey.kid };
+    const token = await signTestToken(forger, validClaims(Math.floor(Date.now() / 1000)));
+
+    const res = await createApp().request('/me', { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ success: false, code: 'INVALID_SIGNATURE' });
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    const res = await createApp().request('/me');
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ code: 'NO_TOKEN' });
+  });
+});
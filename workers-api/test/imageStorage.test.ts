@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  InMemoryImageStorage,
+  R2ImageStorage,
+  isValidImageId,
+  loadGeneratedImageBase64,
+  saveGeneratedImage,
+  setImageStorage
+} from '../src/services/imageStorage';
+
+const PNG_BASE64 = btoa(String.fromCharCode(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3));
+const JPEG_BASE64 = btoa(String.fromCharCode(0xff, 0xd8, 0xff, 0xe0, 4, 5, 6));
+
+let storage: InMemoryImageStorage;
+
+beforeEach(() => {
+  storage = new InMemoryImageStorage();
+  setImageStorage(storage);
+});
+
+afterEach(() => {
+  setImageStorage(null);
+});
+
+describe('saveGeneratedImage', () => {
+  it('stores the bytes under a new id and loads them back', async () => {
+    const id = await saveGeneratedImage({}, PNG_BASE64, 'student-1');
+
+    expect(isValidImageId(id)).toBe(true);
+    expect(await storage.getImage(id)).toMatchObject({ mimeType: 'image/png', ownerUid: 'student-1' });
+    expect(await loadGeneratedImageBase64({}, id, 'student-1')).toBe(PNG_BASE64);
+  });
+
+  it('issues a different id for every image', async () => {
+    const first = await saveGeneratedImage({}, JPEG_BASE64);
+    const second = await saveGeneratedImage({}, JPEG_BASE64);
+
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('loadGeneratedImageBase64', () => {
+  it('rejects unknown and malformed ids as not found', async () => {
+    await expect(loadGeneratedImageBase64({}, crypto.randomUUID(), 'student-1'))
+      .rejects.toMatchObject({ code: 'IMAGE_NOT_FOUND', statusCode: 404 });
+    await expect(loadGeneratedImageBase64({}, '../challenges/1', 'student-1'))
+      .rejects.toMatchObject({ code: 'IMAGE_NOT_FOUND', statusCode: 404 });
+  });
+
+  it('rejects images another user or a signed-out visitor generated', async () => {
+    const theirs = await saveGeneratedImage({}, PNG_BASE64, 'student-2');
+    const anonymous = await saveGeneratedImage({}, PNG_BASE64);
+
+    await expect(loadGeneratedImageBase64({}, theirs, 'student-1'))
+      .rejects.toMatchObject({ code: 'IMAGE_NOT_OWNED', statusCode: 403 });
+    await expect(loadGeneratedImageBase64({}, anonymous, 'student-1'))
+      .rejects.toMatchObject({ code: 'IMAGE_NOT_OWNED', statusCode: 403 });
+  });
+});
+
+describe('R2ImageStorage', () => {
+  it('keeps images under generated/ with their content type and owner', async () => {
+    const objects = new Map<string, { data: ArrayBuffer; contentType?: string; customMetadata?: Record<string, string> }>();
+    const bucket = {
+      async put(key: string, data: ArrayBuffer, options: { httpMetadata: { contentType: string }; customMetadata?: Record<string, string> }) {
+        objects.set(key, { data, contentType: options.httpMetadata.contentType, customMetadata: options.customMetadata });
+      },
+      async get(key: string) {
+        const object = objects.get(key);
+        return object && {
+          arrayBuffer: async () => object.data,
+          httpMetadata: { contentType: object.contentType },
+          customMetadata: object.customMetadata
+        };
+      }
+    } as unknown as R2Bucket;
+
+    const r2 = new R2ImageStorage(bucket);
+    await r2.saveImage('abc', { data: new Uint8Array([1, 2]).buffer, mimeType: 'image/webp', ownerUid: 'student-1' });
+
+    expect([...objects.keys()]).toEqual(['generated/abc']);
+    expect(await r2.getImage('abc')).toMatchObject({ mimeType: 'image/webp', ownerUid: 'student-1' });
+    expect(await r2.getImage('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { emptyKeyMetrics, GeminiKeyManager, keyMetricsId } from '@prompt-tool/core';
+import {
+  createKeyMetricsStore,
+  DurableObjectKeyMetricsStore,
+  KeyMetricsObject
+} from '../src/services/keyMetricsStore';
+
+/**
+ * One KeyMetricsObject over Map-backed storage, reached through a namespace
+ * whose stubs call its fetch directly
+ */
+function fakeNamespace(): DurableObjectNamespace {
+  const storage = new Map<string, string>();
+  const object = new KeyMetricsObject({
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: string) => { storage.set(key, value); }
+    }
+  } as unknown as DurableObjectState);
+
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({ fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) })
+  } as unknown as DurableObjectNamespace;
+}
+
+describe('DurableObjectKeyMetricsStore', () => {
+  it('round-trips every store call through the object', async () => {
+    const store = new DurableObjectKeyMetricsStore(fakeNamespace());
+
+    await store.recordUse('a', 1000);
+    expect(await store.recordError('a')).toBe(1);
+    expect(await store.recordError('a')).toBe(2);
+    await store.block('a', 5000);
+    expect(await store.nextIndex()).toBe(0);
+    expect(await store.nextIndex()).toBe(1);
+
+    expect(await store.getAll(['a', 'b'])).toEqual({
+      a: { ...emptyKeyMetrics(), usageCount: 1, lastUsed: 1000, blockUntil: 5000, errorCount: 2, minuteCount: 1, dayCount: 1 },
+      b: emptyKeyMetrics()
+    });
+
+    await store.unblock('a');
+    expect((await store.getAll(['a'])).a).toMatchObject({ blockUntil: 0, errorCount: 0 });
+  });
+
+  it('lets a key blocked by one isolate stay blocked for another', async () => {
+    const namespace = fakeNamespace();
+    const env = { GEMINI_API_KEYS: 'key-one' };
+    const first = new GeminiKeyManager(env, { cleanupIntervalMs: 0, store: new DurableObjectKeyMetricsStore(namespace) });
+    const second = new GeminiKeyManager(env, { cleanupIntervalMs: 0, store: new DurableObjectKeyMetricsStore(namespace) });
+
+    await expect(first.executeWithRetry(async () => {
+      throw new Error('429 Too Many Requests');
+    })).rejects.toBeDefined();
+
+    await expect(second.getNextKey()).rejects.toMatchObject({ code: 'ALL_KEYS_EXHAUSTED' });
+    expect((await second.getStatus()).store).toBe('durable-object');
+  });
+
+  it('rejects methods the store does not have', async () => {
+    const object = new KeyMetricsObject({ storage: {} } as unknown as DurableObjectState);
+    const response = await object.fetch(new Request('https://key-metrics/', {
+      method: 'POST',
+      body: JSON.stringify({ method: 'constructor', args: [] })
+    }));
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('createKeyMetricsStore', () => {
+  it('prefers the Durable Object, then KV, then memory', async () => {
+    const kv = new Map<string, string>();
+    const kvNamespace = { get: async (key: string) => kv.get(key) ?? null, put: async (key: string, value: string) => { kv.set(key, value); } };
+
+    expect(createKeyMetricsStore({ KEY_METRICS: fakeNamespace(), KEY_METRICS_KV: kvNamespace }).name).toBe('durable-object');
+    expect(createKeyMetricsStore({}).name).toBe('memory');
+
+    const kvStore = createKeyMetricsStore({ KEY_METRICS_KV: kvNamespace });
+    expect(kvStore.name).toBe('kv');
+    await kvStore.recordUse(await keyMetricsId('key-one'), 1000);
+    expect(kv.size).toBe(1);
+    expect([...kv.keys()][0]).not.toContain('key-one');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID } from '@prompt-tool/core';
+
+vi.mock('../src/services/serviceAccountToken', () => ({
+  getServiceAccessToken: vi.fn(async () => 'test-token')
+}));
+
+import {
+  createPersona,
+  deletePersona,
+  InMemoryPersonaStore,
+  listPersonas,
+  resolvePersona,
+  setPersonaStore,
+  toPersonaId
+} from '../src/services/personaStore';
+import { UserDataService } from '../src/services/userDataService';
+import { FeedbackPersona, FeedbackPersonaInput } from '../src/types';
+
+const env = {};
+
+const MENTOR: FeedbackPersonaInput = {
+  name: 'Gentle Mentor',
+  tone: 'neutral',
+  language: 'Spanish',
+  verbosity: 'brief',
+  instructions: 'Start every suggestion with praise'
+};
+
+const persona = (id: string): FeedbackPersona => BUILT_IN_PERSONAS.find(p => p.id === id)!;
+
+describe('persona store', () => {
+  beforeEach(() => {
+    setPersonaStore(new InMemoryPersonaStore());
+  });
+
+  afterEach(() => {
+    setPersonaStore(null);
+    vi.restoreAllMocks();
+  });
+
+  it('derives ids from names', () => {
+    expect(toPersonaId('  Gentle Mentor! ')).toBe('gentle-mentor');
+  });
+
+  it('lists built-in personas before instructor-defined ones', async () => {
+    await createPersona(env, MENTOR, 'instructor-1');
+
+    const personas = await listPersonas(env);
+
+    expect(personas.slice(0, BUILT_IN_PERSONAS.length)).toEqual(BUILT_IN_PERSONAS);
+    expect(personas[BUILT_IN_PERSONAS.length]).toMatchObject({ id: 'gentle-mentor', builtIn: false, createdBy: 'instructor-1' });
+  });
+
+  it('rejects duplicate ids and clashes with built-ins', async () => {
+    await createPersona(env, MENTOR, 'instructor-1');
+
+    await expect(createPersona(env, MENTOR, 'instructor-2')).rejects.toMatchObject({ code: 'PERSONA_EXISTS' });
+    await expect(createPersona(env, { ...MENTOR, name: 'Desi Coach' }, 'instructor-2'))
+      .rejects.toMatchObject({ code: 'PERSONA_EXISTS' });
+    await expect(createPersona(env, { ...MENTOR, name: '!!!' }, 'instructor-2'))
+      .rejects.toMatchObject({ code: 'INVALID_PERSONA_NAME' });
+  });
+
+  it('deletes instructor-defined personas but not built-ins', async () => {
+    await createPersona(env, MENTOR, 'instructor-1');
+
+    await expect(deletePersona(env, 'gentle-mentor')).resolves.toBe(true);
+    await expect(deletePersona(env, 'gentle-mentor')).resolves.toBe(false);
+    await expect(deletePersona(env, DEFAULT_PERSONA_ID)).rejects.toMatchObject({ code: 'PERSONA_BUILT_IN' });
+  });
+});
+
+describe('resolvePersona', () => {
+  beforeEach(() => {
+    setPersonaStore(new InMemoryPersonaStore());
+  });
+
+  afterEach(() => {
+    setPersonaStore(null);
+    vi.restoreAllMocks();
+  });
+
+  it('uses the requested persona first', async () => {
+    const getUser = vi.spyOn(UserDataService, 'getUserById');
+
+    await expect(resolvePersona(env, 'user-1', 'quick-tips')).resolves.toEqual(persona('quick-tips'));
+    expect(getUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown requested personas', async () => {
+    await expect(resolvePersona(env, 'user-1', 'nope')).rejects.toMatchObject({ code: 'UNKNOWN_PERSONA', statusCode: 400 });
+  });
+
+  it('falls back to the profile setting, then the default', async () => {
+    const getUser = vi.spyOn(UserDataService, 'getUserById')
+      .mockResolvedValueOnce({ feedbackPersona: 'formal-reviewer' } as any)
+      .mockResolvedValueOnce({ feedbackPersona: 'deleted-persona' } as any)
+      .mockRejectedValueOnce(new Error('Firestore down'));
+
+    await expect(resolvePersona(env, 'user-1')).resolves.toEqual(persona('formal-reviewer'));
+    await expect(resolvePersona(env, 'user-1')).resolves.toEqual(persona(DEFAULT_PERSONA_ID));
+    await expect(resolvePersona(env, 'user-1')).resolves.toEqual(persona(DEFAULT_PERSONA_ID));
+    expect(getUser).toHaveBeenCalledWith('user-1', 'test-token');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { applyAttempt, applyStats } from '@prompt-tool/core';
+import { ScoringService } from '../src/services/scoringService';
+import { Challenge, ScoringResult } from '../src/types';
+
+const NOW = new Date(Date.UTC(2025, 0, 1));
+const env = { RESULT_SIGNING_SECRET: 'test-secret' };
+
+function challenge(id: number): Challenge {
+  return { id, name: `Challenge ${id}`, description: '', imageUrl: '', order: id };
+}
+
+const catalog = [challenge(1), challenge(2)];
+
+describe('ScoringService signatures', () => {
+  async function signedResult(): Promise<ScoringResult> {
+    const outcome = applyAttempt({}, catalog, catalog[0], 85, NOW);
+    const unsigned = {
+      attemptId: 'attempt-1',
+      userId: 'user-1',
+      challengeId: 1,
+      score: 85,
+      passed: outcome.passed,
+      justCompleted: outcome.justCompleted,
+      streakChange: outcome.streakChange,
+      progress: outcome.progress,
+      stats: applyStats('user-1', null, outcome, 85, NOW),
+      issuedAt: NOW.toISOString()
+    };
+    return { ...unsigned, signature: await ScoringService.signResult(env, unsigned) };
+  }
+
+  it('verifies an untouched result', async () => {
+    expect(await ScoringService.verifyResult(env, await signedResult())).toBe(true);
+  });
+
+  it('rejects a result with an altered score', async () => {
+    const result = await signedResult();
+    expect(await ScoringService.verifyResult(env, { ...result, score: 100 })).toBe(false);
+  });
+
+  it('requires a signing secret', async () => {
+    const result = await signedResult();
+    await expect(ScoringService.signResult({}, result)).rejects.toMatchObject({ code: 'CONFIG_ERROR' });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ServiceAccountTokenProvider, DATASTORE_SCOPE, GOOGLE_TOKEN_URL } from '../src/services/serviceAccountToken';
+import { TestKeyPair, exportPrivateKeyPem, generateTestKeyPair } from './helpers/tokens';
+
+const CLIENT_EMAIL = 'worker@test-project.iam.gserviceaccount.com';
+const NOW_MS = Date.UTC(2025, 0, 1);
+
+let keyPair: TestKeyPair;
+let privateKeyPem: string;
+
+beforeAll(async () => {
+  keyPair = await generateTestKeyPair();
+  privateKeyPem = await exportPrivateKeyPem(keyPair);
+});
+
+function decodeSegment(segment: string): any {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  return JSON.parse(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)));
+}
+
+/**
+ * A token endpoint stub recording each assertion it receives
+ */
+function tokenEndpoint(status: number = 200, expiresIn: number = 3600) {
+  const stub = Object.assign(
+    async (_url: string, init: RequestInit): Promise<Response> => {
+      const params = new URLSearchParams(init.body as string);
+      stub.assertions.push(params.get('assertion')!);
+      stub.grantTypes.push(params.get('grant_type')!);
+      const body = status === 200
+        ? { access_token: `access-${stub.assertions.length}`, expires_in: expiresIn, token_type: 'Bearer' }
+        : { error: 'invalid_grant' };
+      return new Response(JSON.stringify(body), { status });
+    },
+    { assertions: [] as string[], grantTypes: [] as string[] }
+  );
+  return stub;
+}
+
+function createProvider(fetchFn: ReturnType<typeof tokenEndpoint>, now: () => number = () => NOW_MS) {
+  return new ServiceAccountTokenProvider({
+    clientEmail: CLIENT_EMAIL,
+    privateKey: privateKeyPem,
+    fetchFn: fetchFn as unknown as typeof fetch,
+    now
+  });
+}
+
+describe('ServiceAccountTokenProvider', () => {
+  it('exchanges a signed assertion for an access token', async () => {
+    const endpoint = tokenEndpoint();
+    const token = await createProvider(endpoint).getAccessToken();
+
+    expect(token).toBe('access-1');
+    expect(endpoint.grantTypes).toEqual(['urn:ietf:params:oauth:grant-type:jwt-bearer']);
+
+    const [header, payload, signature] = endpoint.assertions[0].split('.');
+    expect(decodeSegment(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(decodeSegment(payload)).toEqual({
+      iss: CLIENT_EMAIL,
+      scope: DATASTORE_SCOPE,
+      aud: GOOGLE_TOKEN_URL,
+      iat: NOW_MS / 1000,
+      exp: NOW_MS / 1000 + 3600
+    });
+
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      keyPair.publicJwk,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const signatureBase64 = signature.replace(/-/g, '+').replace(/_/g, '/');
+    const signatureBytes = Uint8Array.from(atob(signatureBase64 + '='.repeat((4 - (signatureBase64.length % 4)) % 4)), ch => ch.charCodeAt(0));
+    const isValid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      publicKey,
+      signatureBytes,
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    expect(isValid).toBe(true);
+  });
+
+  it('reuses the cached token until it is about to expire', async () => {
+    let now = NOW_MS;
+    const endpoint = tokenEndpoint(200, 3600);
+    const provider = createProvider(endpoint, () => now);
+
+    expect(await provider.getAccessToken()).toBe('access-1');
+
+    now += 30 * 60 * 1000;
+    expect(await provider.getAccessToken()).toBe('access-1');
+    expect(endpoint.assertions).toHaveLength(1);
+
+    now += 29.5 * 60 * 1000;
+    expect(await provider.getAccessToken()).toBe('access-2');
+    expect(endpoint.assertions).toHaveLength(2);
+  });
+
+  it('shares one exchange between concurrent callers', async () => {
+    const endpoint = tokenEndpoint();
+    const provider = createProvider(endpoint);
+
+    const tokens = await Promise.all([provider.getAccessToken(), provider.getAccessToken(), provider.getAccessToken()]);
+
+    expect(tokens).toEqual(['access-1', 'access-1', 'access-1']);
+    expect(endpoint.assertions).toHaveLength(1);
+  });
+
+  it('reports a rejected assertion as SERVICE_TOKEN_UNAVAILABLE', async () => {
+    const provider = createProvider(tokenEndpoint(400));
+
+    await expect(provider.getAccessToken()).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'SERVICE_TOKEN_UNAVAILABLE'
+    });
+  });
+
+  it('retries after a failed exchange', async () => {
+    let status = 500;
+    const endpoint = tokenEndpoint();
+    const provider = new ServiceAccountTokenProvider({
+      clientEmail: CLIENT_EMAIL,
+      privateKey: privateKeyPem,
+      fetchFn: (async (url: string, init: RequestInit) => status === 200
+        ? endpoint(url, init)
+        : new Response('{}', { status })) as unknown as typeof fetch,
+      now: () => NOW_MS
+    });
+
+    await expect(provider.getAccessToken()).rejects.toMatchObject({ code: 'SERVICE_TOKEN_UNAVAILABLE' });
+
+    status = 200;
+    expect(await provider.getAccessToken()).toBe('access-1');
+  });
+});